@@ -4,6 +4,7 @@ import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { Tabs } from "expo-router";
 import { colors, typography, spacing } from "@/lib/design-tokens";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useI18n } from "@/contexts";
 
 // TabBar icon component
 function TabBarIcon(props: {
@@ -30,6 +31,7 @@ function CenterTabIcon({ color, focused }: { color: string; focused: boolean })
 
 export default function TabLayout() {
   const insets = useSafeAreaInsets();
+  const { t } = useI18n();
 
   // Calculate header height for Android (needs to account for status bar)
   const headerHeight = Platform.OS === "android" ? 56 + insets.top : undefined;
@@ -80,9 +82,9 @@ export default function TabLayout() {
       <Tabs.Screen
         name="history"
         options={{
-          title: "Päiväkirja",
+          title: t("navJournal"),
           headerShown: true,
-          headerTitle: "Unipäiväkirja",
+          headerTitle: t("navJournalTitle"),
           tabBarIcon: ({ color, focused }) => (
             <TabBarIcon name="book" color={color} focused={focused} />
           ),
@@ -93,7 +95,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="index"
         options={{
-          title: "Tulkitse",
+          title: t("inputSubmit"),
           tabBarIcon: ({ color, focused }) => (
             <CenterTabIcon color={color} focused={focused} />
           ),
@@ -110,9 +112,9 @@ export default function TabLayout() {
       <Tabs.Screen
         name="settings"
         options={{
-          title: "Asetukset",
+          title: t("navSettings"),
           headerShown: true,
-          headerTitle: "Asetukset",
+          headerTitle: t("settingsTitle"),
           tabBarIcon: ({ color, focused }) => (
             <TabBarIcon name="cog" color={color} focused={focused} />
           ),
@@ -125,7 +127,7 @@ export default function TabLayout() {
         options={{
           href: null, // Hide from tab bar
           headerShown: true,
-          headerTitle: "Unikuviot",
+          headerTitle: t("navPatterns"),
         }}
       />
     </Tabs>
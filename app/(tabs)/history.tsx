@@ -1,13 +1,14 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import {
   View,
   Text,
+  TextInput,
   FlatList,
   StyleSheet,
   RefreshControl,
   Pressable,
 } from "react-native";
-import { router } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import Animated, { FadeIn, FadeOut } from "react-native-reanimated";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
@@ -15,54 +16,217 @@ import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { GradientBackground, GlassCard, Toast } from "@/components/ui";
 import { DreamCard } from "@/components/DreamCard";
 import { DreamDetailModal } from "@/components/DreamDetailModal";
+import { DreamEditModal } from "@/components/DreamEditModal";
+import { DreamFilterSheet } from "@/components/DreamFilterSheet";
+import { DreamCalendar } from "@/components/DreamCalendar";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import {
   getDreams,
+  getDreamById,
+  getDreamsPage,
   deleteDream,
-  getDreamStats,
+  getDreamCounts,
+  computeDreamStats,
+  editDream,
+  setDreamMood,
   type Dream,
+  type DreamCounts,
+  type DreamEdit,
 } from "@/lib/storage";
+import { reinterpretDream } from "@/lib/interpretation";
+import type { Mood } from "@/lib/schemas/dreamInterpretation";
+import { searchDreams } from "@/lib/search";
+import {
+  applyDreamFilters,
+  countActiveFilters,
+  getAvailableTags,
+  getSavedDreamFilters,
+  hasActiveFilters,
+  saveDreamFilters,
+  DEFAULT_DREAM_FILTERS,
+  type DreamFilters,
+} from "@/lib/dream-filters";
+import { toLocalDateKey, parseDateKey } from "@/lib/dates";
+import { DEFAULT_STREAK_SETTINGS, getStreakSettings, type StreakSettings } from "@/lib/streak";
 import { useToast } from "@/hooks/useToast";
+import { usePremium, useI18n } from "@/contexts";
+import { formatDate } from "@/lib/i18n";
+import haptics from "@/lib/haptics";
+
+// Number of dreams loaded per page
+const PAGE_SIZE = 20;
+
+// Delay before running a search while typing
+const SEARCH_DEBOUNCE_MS = 200;
+
+type ViewMode = "list" | "calendar";
+
+// Swap in an updated copy of a dream, keeping list order
+function replaceDream(list: Dream[], updated: Dream): Dream[] {
+  return list.map((dream) => (dream.id === updated.id ? updated : dream));
+}
 
 export default function HistoryScreen() {
+  const { t } = useI18n();
   const [dreams, setDreams] = useState<Dream[]>([]);
-  const [stats, setStats] = useState<{
-    total: number;
-    thisWeek: number;
-  } | null>(null);
+  const [stats, setStats] = useState<DreamCounts | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [selectedDream, setSelectedDream] = useState<Dream | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const [editingDream, setEditingDream] = useState<Dream | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Dream[] | null>(null);
+  const [filters, setFilters] = useState<DreamFilters>(DEFAULT_DREAM_FILTERS);
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  // Whole journal, loaded only when filters or a non-default sort need it
+  const [allDreams, setAllDreams] = useState<Dream[] | null>(null);
+  const [streakSettings, setStreakSettings] = useState<StreakSettings>(DEFAULT_STREAK_SETTINGS);
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [selectedDay, setSelectedDay] = useState(() => toLocalDateKey(new Date()));
 
+  const { dreamId } = useLocalSearchParams<{ dreamId?: string }>();
   const { toast, showSuccess, showError, hideToast } = useToast();
+  const { canInterpret, incrementUsage, openPremiumModal } = usePremium();
+
+  // Filtering and sorting work on the whole journal instead of pages
+  const isFiltered = hasActiveFilters(filters) || filters.sort !== DEFAULT_DREAM_FILTERS.sort;
 
-  // Load dreams
+  // Load first page of dreams
   const loadDreams = useCallback(async () => {
     try {
-      const [loadedDreams, loadedStats] = await Promise.all([
-        getDreams(),
-        getDreamStats(),
+      const [page, counts] = await Promise.all([
+        getDreamsPage(0, PAGE_SIZE),
+        getDreamCounts(),
       ]);
-      setDreams(loadedDreams);
-      setStats({
-        total: loadedStats.total,
-        thisWeek: loadedStats.thisWeek,
-      });
+      setDreams(page.dreams);
+      setHasMore(page.hasMore);
+      setStats(counts);
+      // Reloaded on demand with fresh data
+      setAllDreams(null);
     } catch (error) {
       console.error("Error loading dreams:", error);
-      showError("Unien lataaminen epäonnistui");
+      showError(t("historyLoadFailed"));
     } finally {
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [showError]);
+  }, [showError, t]);
 
   // Initial load
   useEffect(() => {
     loadDreams();
+    getSavedDreamFilters().then(setFilters);
+    getStreakSettings().then(setStreakSettings);
   }, [loadDreams]);
 
+  // Load the whole journal when filtering, opening the filter sheet or the calendar
+  useEffect(() => {
+    if ((isFiltered || filterSheetVisible || viewMode === "calendar") && !allDreams) {
+      getDreams().then(setAllDreams);
+    }
+  }, [isFiltered, filterSheetVisible, viewMode, allDreams]);
+
+  // Dreams shown in the list
+  const visibleDreams = useMemo(() => {
+    if (searchResults) {
+      return isFiltered ? applyDreamFilters(searchResults, filters) : searchResults;
+    }
+    if (isFiltered) {
+      return allDreams ? applyDreamFilters(allDreams, filters) : [];
+    }
+    return dreams;
+  }, [searchResults, isFiltered, filters, allDreams, dreams]);
+
+  // Calendar covers every matching dream, not just the loaded pages
+  const calendarDreams = useMemo(
+    () => (searchResults || isFiltered ? visibleDreams : allDreams ?? []),
+    [searchResults, isFiltered, visibleDreams, allDreams]
+  );
+
+  // Dreams of the day picked in the calendar
+  const selectedDayDreams = useMemo(
+    () =>
+      calendarDreams.filter(
+        (dream) => toLocalDateKey(new Date(dream.createdAt)) === selectedDay
+      ),
+    [calendarDreams, selectedDay]
+  );
+
+  // Stats reflect the filtered subset when filters or search are active
+  const displayedStats = useMemo(() => {
+    if (searchResults || hasActiveFilters(filters)) {
+      const subset = computeDreamStats(visibleDreams);
+      return { total: subset.total, thisWeek: subset.thisWeek };
+    }
+    return stats;
+  }, [searchResults, filters, visibleDreams, stats]);
+
+  const availableTags = useMemo(
+    () => (allDreams ? getAvailableTags(allDreams) : []),
+    [allDreams]
+  );
+
+  // Apply and remember filters
+  const handleApplyFilters = useCallback((next: DreamFilters) => {
+    setFilters(next);
+    saveDreamFilters(next);
+  }, []);
+
+  // Run search when the query changes (debounced)
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await searchDreams(searchQuery);
+        if (!cancelled) {
+          setSearchResults(results.map((r) => r.dream));
+        }
+      } catch (error) {
+        console.error("Error searching dreams:", error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  // Load next page when scrolled near the end
+  const handleLoadMore = useCallback(async () => {
+    if (!hasMore || isLoadingMore || isLoading || searchResults || isFiltered) return;
+    if (viewMode === "calendar") return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await getDreamsPage(dreams.length, PAGE_SIZE);
+      setDreams((prev) => {
+        // Skip dreams already shown (e.g. after a delete shifted the offset)
+        const seen = new Set(prev.map((d) => d.id));
+        return [...prev, ...page.dreams.filter((d) => !seen.has(d.id))];
+      });
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Error loading more dreams:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [hasMore, isLoadingMore, isLoading, searchResults, isFiltered, viewMode, dreams.length]);
+
+  // Switch between list and calendar
+  const handleViewModeChange = useCallback((mode: ViewMode) => {
+    haptics.selection();
+    setViewMode(mode);
+  }, []);
+
   // Refresh handler
   const handleRefresh = useCallback(() => {
     setIsRefreshing(true);
@@ -75,6 +239,28 @@ export default function HistoryScreen() {
     setModalVisible(true);
   }, []);
 
+  // Open a dream by id, e.g. one linked from an interpretation
+  const handleOpenDreamById = useCallback(
+    async (id: string) => {
+      const dream = await getDreamById(id);
+      if (!dream) {
+        showError(t("historyDreamNotFound"));
+        return;
+      }
+      setSelectedDream(dream);
+      setModalVisible(true);
+    },
+    [showError, t]
+  );
+
+  // Dream requested through the route
+  useEffect(() => {
+    if (dreamId) {
+      handleOpenDreamById(dreamId);
+      router.setParams({ dreamId: undefined });
+    }
+  }, [dreamId, handleOpenDreamById]);
+
   // Close modal
   const handleCloseModal = useCallback(() => {
     setModalVisible(false);
@@ -88,16 +274,89 @@ export default function HistoryScreen() {
       try {
         await deleteDream(dream.id);
         setDreams((prev) => prev.filter((d) => d.id !== dream.id));
+        setSearchResults((prev) =>
+          prev ? prev.filter((d) => d.id !== dream.id) : null
+        );
+        setAllDreams((prev) =>
+          prev ? prev.filter((d) => d.id !== dream.id) : null
+        );
         setStats((prev) =>
           prev ? { ...prev, total: prev.total - 1 } : null
         );
-        showSuccess("Uni poistettu");
+        showSuccess(t("historyDeleted"));
       } catch (error) {
         console.error("Error deleting dream:", error);
-        showError("Unen poistaminen epäonnistui");
+        showError(t("errorDeleteDream"));
       }
     },
-    [showSuccess, showError]
+    [showSuccess, showError, t]
+  );
+
+  // Update a dream everywhere it is shown
+  const handleDreamUpdated = useCallback((updated: Dream) => {
+    setDreams((prev) => replaceDream(prev, updated));
+    setSearchResults((prev) => (prev ? replaceDream(prev, updated) : null));
+    setAllDreams((prev) => (prev ? replaceDream(prev, updated) : null));
+    setSelectedDream((prev) => (prev?.id === updated.id ? updated : prev));
+  }, []);
+
+  // Set the mood by hand
+  const handleMoodChange = useCallback(
+    async (dream: Dream, mood: Mood) => {
+      try {
+        const updated = await setDreamMood(dream.id, mood);
+        if (updated) {
+          handleDreamUpdated(updated);
+        }
+      } catch (error) {
+        console.error("Error setting mood:", error);
+        showError(t("historyMoodFailed"));
+      }
+    },
+    [handleDreamUpdated, showError, t]
+  );
+
+  // Save edits, then interpret again if asked
+  const handleSaveEdit = useCallback(
+    async (edit: DreamEdit, reinterpret: boolean) => {
+      if (!editingDream) return;
+
+      let updated = await editDream(editingDream.id, edit);
+      if (!updated) return;
+      handleDreamUpdated(updated);
+
+      if (reinterpret && !canInterpret) {
+        setEditingDream(null);
+        openPremiumModal();
+        return;
+      }
+
+      if (reinterpret) {
+        try {
+          updated = (await reinterpretDream(updated)) ?? updated;
+          await incrementUsage();
+          handleDreamUpdated(updated);
+        } catch (error) {
+          console.error("Error reinterpreting dream:", error);
+          setEditingDream(null);
+          showError(t("historyReinterpretFailed"));
+          return;
+        }
+      }
+
+      setEditingDream(null);
+      showSuccess(reinterpret ? t("historyReinterpreted") : t("historyChangesSaved"));
+    },
+    [
+      editingDream,
+      canInterpret,
+      incrementUsage,
+      openPremiumModal,
+      handleDreamUpdated,
+      showSuccess,
+      showError,
+      t,
+    ]
   );
 
   // Render empty state
@@ -117,16 +376,11 @@ export default function HistoryScreen() {
           <View style={styles.emptyIconContainer}>
             <FontAwesome name="moon-o" size={48} color={colors.textDim} />
           </View>
-          <Text style={styles.emptyTitle}>Ei vielä tallennettuja unia</Text>
-          <Text style={styles.emptySubtitle}>
-            Aloita kertomalla unesi kotisivulla.{"\n"}
-            Tulkinta tallennetaan automaattisesti.
-          </Text>
+          <Text style={styles.emptyTitle}>{t("historyEmpty")}</Text>
+          <Text style={styles.emptySubtitle}>{t("historyEmptyHint")}</Text>
           <View style={styles.emptyHint}>
             <FontAwesome name="lightbulb-o" size={14} color={colors.accent} />
-            <Text style={styles.emptyHintText}>
-              Vinkki: Pidä unipäiväkirjaa nähdäksesi kuvioita unissasi
-            </Text>
+            <Text style={styles.emptyHintText}>{t("historyTip")}</Text>
           </View>
         </Animated.View>
       </GradientBackground>
@@ -137,15 +391,17 @@ export default function HistoryScreen() {
   const renderHeader = () => (
     <View style={styles.headerContainer}>
       {/* Stats cards */}
-      {stats && (
+      {displayedStats && (
         <View style={styles.statsContainer}>
           <GlassCard intensity="light" style={styles.statCard}>
-            <Text style={styles.statNumber}>{stats.total}</Text>
-            <Text style={styles.statLabel}>Unta tallennettu</Text>
+            <Text style={styles.statNumber}>{displayedStats.total}</Text>
+            <Text style={styles.statLabel}>
+              {displayedStats === stats ? t("historyStatSaved") : t("historyStatSelected")}
+            </Text>
           </GlassCard>
           <GlassCard intensity="light" style={styles.statCard}>
-            <Text style={styles.statNumber}>{stats.thisWeek}</Text>
-            <Text style={styles.statLabel}>Tällä viikolla</Text>
+            <Text style={styles.statNumber}>{displayedStats.thisWeek}</Text>
+            <Text style={styles.statLabel}>{t("historyStatThisWeek")}</Text>
           </GlassCard>
         </View>
       )}
@@ -160,16 +416,114 @@ export default function HistoryScreen() {
           ]}
         >
           <FontAwesome name="line-chart" size={16} color={colors.accent} />
-          <Text style={styles.patternsLinkText}>Näytä unikuviot ja trendit</Text>
+          <Text style={styles.patternsLinkText}>{t("historyPatternsLink")}</Text>
           <FontAwesome name="chevron-right" size={14} color={colors.textDim} />
         </Pressable>
       )}
 
+      {/* Search and filters */}
+      <View style={styles.searchRow}>
+        <View style={styles.searchContainer}>
+          <FontAwesome name="search" size={14} color={colors.textDim} />
+          <TextInput
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder={t("historySearchPlaceholder")}
+            placeholderTextColor={colors.textDim}
+            style={styles.searchInput}
+            returnKeyType="search"
+            autoCorrect={false}
+          />
+          {searchQuery.length > 0 && (
+            <Pressable onPress={() => setSearchQuery("")} hitSlop={10}>
+              <FontAwesome name="times-circle" size={16} color={colors.textDim} />
+            </Pressable>
+          )}
+        </View>
+        <Pressable
+          onPress={() => setFilterSheetVisible(true)}
+          style={({ pressed }) => [
+            styles.filterButton,
+            isFiltered && styles.filterButtonActive,
+            pressed && styles.patternsLinkPressed,
+          ]}
+        >
+          <FontAwesome
+            name="sliders"
+            size={16}
+            color={isFiltered ? colors.white : colors.textMuted}
+          />
+          {countActiveFilters(filters) > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{countActiveFilters(filters)}</Text>
+            </View>
+          )}
+        </Pressable>
+      </View>
+
+      {/* View mode toggle */}
+      <View style={styles.viewToggle}>
+        {(
+          [
+            { id: "list", labelKey: "historyViewList", icon: "list" },
+            { id: "calendar", labelKey: "historyViewCalendar", icon: "calendar" },
+          ] as const
+        ).map((option) => (
+          <Pressable
+            key={option.id}
+            onPress={() => handleViewModeChange(option.id)}
+            style={[
+              styles.viewToggleButton,
+              viewMode === option.id && styles.viewToggleButtonActive,
+            ]}
+          >
+            <FontAwesome
+              name={option.icon}
+              size={13}
+              color={viewMode === option.id ? colors.white : colors.textMuted}
+            />
+            <Text
+              style={[
+                styles.viewToggleText,
+                viewMode === option.id && styles.viewToggleTextActive,
+              ]}
+            >
+              {t(option.labelKey)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {/* Calendar */}
+      {viewMode === "calendar" && (
+        <DreamCalendar
+          dreams={calendarDreams}
+          journal={allDreams ?? []}
+          streakSettings={streakSettings}
+          selectedDay={selectedDay}
+          onSelectDay={setSelectedDay}
+        />
+      )}
+
       {/* Section title */}
       <View style={styles.sectionHeader}>
-        <Text style={styles.sectionTitle}>Unihistoria</Text>
+        <Text style={styles.sectionTitle}>
+          {viewMode === "calendar"
+            ? formatDate(parseDateKey(selectedDay), {
+                weekday: "long",
+                day: "numeric",
+                month: "long",
+              })
+            : searchResults
+              ? t("historySearchResults")
+              : t("historyTitle")}
+        </Text>
         <Text style={styles.sectionSubtitle}>
-          Pyyhkäise vasemmalle poistaaksesi
+          {viewMode === "calendar"
+            ? t("historyDayDreams", { count: selectedDayDreams.length })
+            : searchResults || hasActiveFilters(filters)
+              ? t("historyMatches", { count: visibleDreams.length })
+              : t("historySwipeHint")}
         </Text>
       </View>
     </View>
@@ -178,7 +532,13 @@ export default function HistoryScreen() {
   // Render empty list component
   const renderEmptyComponent = () => (
     <View style={styles.loadingContainer}>
-      <Text style={styles.loadingText}>Ladataan...</Text>
+      <Text style={styles.loadingText}>
+        {isLoading || (viewMode === "calendar" && !allDreams)
+          ? t("historyLoading")
+          : viewMode === "calendar"
+            ? t("historyNoDreamsForDay")
+            : t("historyNoResults")}
+      </Text>
     </View>
   );
 
@@ -193,17 +553,26 @@ export default function HistoryScreen() {
         />
 
         <FlatList
-          data={dreams}
+          data={viewMode === "calendar" ? selectedDayDreams : visibleDreams}
           keyExtractor={(item) => item.id}
           renderItem={({ item }) => (
             <DreamCard
               dream={item}
               onPress={handleDreamPress}
               onDelete={handleDeleteDream}
+              highlightQuery={searchResults ? searchQuery : undefined}
             />
           )}
-          ListHeaderComponent={renderHeader}
-          ListEmptyComponent={isLoading ? renderEmptyComponent : null}
+          // Rendered as an element so the search input keeps focus
+          ListHeaderComponent={renderHeader()}
+          ListEmptyComponent={
+            isLoading || searchResults || isFiltered || viewMode === "calendar"
+              ? renderEmptyComponent
+              : null
+          }
+          keyboardShouldPersistTaps="handled"
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
           refreshControl={
@@ -216,12 +585,33 @@ export default function HistoryScreen() {
           }
         />
 
+        {/* Filter sheet */}
+        <DreamFilterSheet
+          visible={filterSheetVisible}
+          filters={filters}
+          availableTags={availableTags}
+          onApply={handleApplyFilters}
+          onClose={() => setFilterSheetVisible(false)}
+        />
+
         {/* Dream detail modal */}
         <DreamDetailModal
           dream={selectedDream}
           visible={modalVisible}
           onClose={handleCloseModal}
           onDelete={handleDeleteDream}
+          onMoodChange={handleMoodChange}
+          onEdit={setEditingDream}
+          onConversationSaved={handleDreamUpdated}
+          onOpenDream={handleOpenDreamById}
+        />
+
+        {/* Dream edit modal */}
+        <DreamEditModal
+          visible={!!editingDream}
+          dream={editingDream}
+          onSave={handleSaveEdit}
+          onClose={() => setEditingDream(null)}
         />
       </GradientBackground>
     </GestureHandlerRootView>
@@ -330,6 +720,88 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.xs,
     color: colors.textMuted,
   },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+  },
+  filterButton: {
+    width: 44,
+    height: 44,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  filterButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  filterBadge: {
+    position: "absolute",
+    top: -6,
+    right: -6,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: colors.accent,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 4,
+  },
+  filterBadgeText: {
+    fontFamily: typography.families.body.bold,
+    fontSize: 10,
+    color: colors.white,
+  },
+  searchInput: {
+    flex: 1,
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.text,
+    paddingVertical: spacing.sm,
+  },
+  viewToggle: {
+    flexDirection: "row",
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    padding: 3,
+    marginBottom: spacing.md,
+  },
+  viewToggleButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.sm,
+  },
+  viewToggleButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  viewToggleText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  viewToggleTextActive: {
+    color: colors.white,
+  },
   sectionHeader: {
     marginBottom: spacing.md,
   },
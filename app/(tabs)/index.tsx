@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -8,7 +8,7 @@ import {
   StyleSheet,
   Pressable,
 } from "react-native";
-import { router } from "expo-router";
+import { router, useFocusEffect } from "expo-router";
 import Animated, {
   FadeIn,
   FadeInUp,
@@ -36,20 +36,32 @@ import { UsageMeter } from "@/components/premium";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import { useStructuredDream } from "@/hooks/useStructuredDream";
 import { useToast } from "@/hooks/useToast";
-import { usePremium } from "@/contexts";
+import { useAchievements } from "@/hooks/useAchievements";
+import { usePremium, useI18n } from "@/contexts";
+import type { TranslationKey } from "@/lib/i18n";
 import { lightTap, selectionChange } from "@/lib/haptics";
+import { getProfile, hasProfileContext } from "@/lib/profile";
 import { voiceRecorder, transcribeAudio } from "@/lib/voice-input";
-import { recordDream } from "@/lib/streak";
 import { WelcomeScreen } from "@/components/screens/WelcomeScreen";
 import { LoadingState } from "@/components/screens/LoadingState";
 
+// Example dreams offered while the input is empty
+const SUGGESTION_KEYS: TranslationKey[] = [
+  "homeSuggestionFlying",
+  "homeSuggestionTeeth",
+  "homeSuggestionTrain",
+  "homeSuggestionRoom",
+];
+
 // Mini header bar component for quick navigation
 function HeaderBar() {
+  const { t } = useI18n();
+
   return (
     <View style={styles.headerBar}>
       <View style={styles.headerLeft}>
         <Text style={styles.headerLogo}>🌙</Text>
-        <Text style={styles.headerTitle}>Unitulkki</Text>
+        <Text style={styles.headerTitle}>{t("appName")}</Text>
       </View>
       <View style={styles.headerRight}>
         <Pressable
@@ -72,11 +84,23 @@ function HeaderBar() {
 }
 
 export default function HomeScreen() {
+  const { t } = useI18n();
   const scrollViewRef = useRef<ScrollView>(null);
   const [inputValue, setInputValue] = useState("");
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
-  const { toast, showError, hideToast } = useToast();
+  // Whether any of the current input came from voice transcription
+  const usedVoiceRef = useRef(false);
+  // "About me" profile: offered when it is on, sent only while this is on
+  const [profileAvailable, setProfileAvailable] = useState(false);
+  const [useProfile, setUseProfile] = useState(true);
+  const { toast, showError, showSuccess, hideToast } = useToast();
+  const { checkAchievements } = useAchievements(showSuccess);
+
+  // Celebrate achievements unlocked by the new dream
+  const handleDreamSaved = useCallback(() => {
+    checkAchievements();
+  }, [checkAchievements]);
   const { isPremium, isTrialActive, openPremiumModal, canInterpret, incrementUsage } = usePremium();
   const insets = useSafeAreaInsets();
 
@@ -90,16 +114,7 @@ export default function HomeScreen() {
     interpretDream,
     reset,
     lastSavedDream,
-  } = useStructuredDream({
-    onDreamSaved: async () => {
-      // Record streak when dream is saved
-      try {
-        await recordDream();
-      } catch (err) {
-        console.error("Failed to record streak:", err);
-      }
-    },
-  });
+  } = useStructuredDream({ onDreamSaved: handleDreamSaved });
 
   // Premium status for UI
   const hasPremiumAccess = isPremium || isTrialActive;
@@ -120,6 +135,13 @@ export default function HomeScreen() {
     }
   }, [interpretation]);
 
+  // The profile may have been edited in settings
+  useFocusEffect(
+    useCallback(() => {
+      getProfile().then((profile) => setProfileAvailable(hasProfileContext(profile)));
+    }, [])
+  );
+
   const handleSubmit = async () => {
     if (!inputValue.trim() || isLoading) return;
 
@@ -129,8 +151,13 @@ export default function HomeScreen() {
       return;
     }
 
-    interpretDream(inputValue.trim());
+    interpretDream(inputValue.trim(), {
+      inputMethod: usedVoiceRef.current ? "voice" : "text",
+      useProfile: profileAvailable && useProfile,
+      includeHistory: hasPremiumAccess,
+    });
     setInputValue("");
+    usedVoiceRef.current = false;
 
     // Increment usage counter for free tier users
     await incrementUsage();
@@ -140,6 +167,7 @@ export default function HomeScreen() {
     lightTap();
     reset();
     setInputValue("");
+    usedVoiceRef.current = false;
   };
 
   const handleVoicePress = async () => {
@@ -152,9 +180,10 @@ export default function HomeScreen() {
         const { uri } = await voiceRecorder.stopRecording();
         const text = await transcribeAudio(uri);
         setInputValue((prev) => (prev ? prev + " " + text : text));
+        usedVoiceRef.current = true;
       } catch (err) {
         console.error(err);
-        showError("Puheentunnistus epäonnistui");
+        showError(t("homeTranscriptionFailed"));
       } finally {
         setIsTranscribing(false);
       }
@@ -163,18 +192,24 @@ export default function HomeScreen() {
       try {
         const hasPermission = await voiceRecorder.requestPermission();
         if (!hasPermission) {
-          showError("Mikrofonin käyttö estetty");
+          showError(t("homeMicrophoneDenied"));
           return;
         }
         await voiceRecorder.startRecording();
         setIsRecording(true);
       } catch (err) {
         console.error(err);
-        showError("Nauhoitusta ei voitu aloittaa");
+        showError(t("homeRecordingFailed"));
       }
     }
   };
 
+  // Open a past dream linked by the interpretation
+  const handleOpenRelatedDream = (dreamId: string) => {
+    lightTap();
+    router.push({ pathname: "/history", params: { dreamId } });
+  };
+
   const handleToastHide = () => {
     hideToast();
   };
@@ -215,6 +250,7 @@ export default function HomeScreen() {
             progress={progress}
             isPremiumUser={hasPremiumAccess}
             onUnlockPremium={openPremiumModal}
+            onOpenRelatedDream={handleOpenRelatedDream}
             footer={
               isComplete ? (
                 <View style={styles.quickActionsContainer}>
@@ -249,42 +285,59 @@ export default function HomeScreen() {
                 entering={FadeInUp.delay(200).duration(400)}
                 style={styles.suggestionsContainer}
               >
-                <Text style={styles.suggestionsLabel}>Kokeile:</Text>
+                <Text style={styles.suggestionsLabel}>{t("homeTry")}</Text>
                 <ScrollView 
                   horizontal 
                   showsHorizontalScrollIndicator={false}
                   contentContainerStyle={styles.suggestionsScroll}
                 >
-                  {[
-                    "Lensin pilvien yläpuolella...",
-                    "Hampaani putosivat...",
-                    "Olin myöhässä junasta...",
-                    "Löysin salaisen huoneen..."
-                  ].map((suggestion, index) => (
+                  {SUGGESTION_KEYS.map((key) => (
                     <Pressable
-                      key={index}
+                      key={key}
                       onPress={() => {
                         lightTap();
-                        setInputValue(suggestion);
+                        setInputValue(t(key));
                       }}
                       style={({ pressed }) => [
                         styles.suggestionChip,
                         pressed && styles.suggestionChipPressed,
                       ]}
                     >
-                      <Text style={styles.suggestionText}>"{suggestion}"</Text>
+                      <Text style={styles.suggestionText}>"{t(key)}"</Text>
                     </Pressable>
                   ))}
                 </ScrollView>
               </Animated.View>
             )}
 
+            {/* Per-request choice to send the "about me" profile */}
+            {profileAvailable && (
+              <Pressable
+                onPress={() => {
+                  selectionChange();
+                  setUseProfile((prev) => !prev);
+                }}
+                style={[styles.profileToggle, useProfile && styles.profileToggleActive]}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: useProfile }}
+              >
+                <FontAwesome
+                  name={useProfile ? "user" : "user-o"}
+                  size={12}
+                  color={useProfile ? colors.primary : colors.textDim}
+                />
+                <Text style={[styles.profileToggleText, useProfile && styles.profileToggleTextActive]}>
+                  {useProfile ? t("homeProfileOn") : t("homeProfileOff")}
+                </Text>
+              </Pressable>
+            )}
+
               <View style={styles.inputRow}>
                 <View style={styles.inputWrapper}>
                   <DreamInput
                     value={inputValue}
                     onChangeText={setInputValue}
-                    placeholder="Kuvaile unesi..."
+                    placeholder={t("inputPlaceholder")}
                     disabled={isLoading}
                     onSubmit={handleSubmit}
                     maxLength={2000}
@@ -318,7 +371,7 @@ export default function HomeScreen() {
                 />
               </GlowButton>
             </View>
-            <Text style={styles.poweredBy}>Powered by Aihio AI</Text>
+            <Text style={styles.poweredBy}>{t("inputPoweredBy")}</Text>
           </View>
         )}
       </KeyboardAvoidingView>
@@ -521,6 +574,30 @@ const styles = StyleSheet.create({
     marginTop: spacing.sm,
     opacity: 0.6,
   },
+  profileToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm + 2,
+    paddingVertical: spacing.xs,
+    marginBottom: spacing.sm,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  profileToggleActive: {
+    borderColor: colors.primary,
+    backgroundColor: `${colors.primary}15`,
+  },
+  profileToggleText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  profileToggleTextActive: {
+    color: colors.text,
+  },
   // Suggestions
   suggestionsContainer: {
     marginBottom: spacing.sm,
@@ -9,6 +9,7 @@ import {
 } from "react-native";
 import Animated, { FadeIn, FadeInUp, FadeInRight } from "react-native-reanimated";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { router, useLocalSearchParams } from "expo-router";
 
 import { GradientBackground, GlassCard, GlowButton, Toast } from "@/components/ui";
 import { PremiumModal } from "@/components/premium";
@@ -21,24 +22,35 @@ import {
   type SymbolPattern,
   type MoodPattern,
 } from "@/lib/patterns";
-import { usePremium } from "@/contexts";
+import { exportDreamReport, type DreamReportOptions } from "@/lib/dream-report";
+import {
+  cancelMonthlyReportReminder,
+  isMonthlyReportReminderEnabled,
+  scheduleMonthlyReportReminder,
+} from "@/lib/notifications";
+import { getDreams, type Dream } from "@/lib/storage";
+import { ReportSheet } from "@/components/ReportSheet";
+import { usePremium, useI18n } from "@/contexts";
+import { formatNumber } from "@/lib/i18n";
 import { useToast } from "@/hooks/useToast";
 import { lightTap } from "@/lib/haptics";
 
 // Premium lock overlay component
 function PremiumLock({ onUnlock }: { onUnlock: () => void }) {
+  const { t } = useI18n();
+
   return (
     <Animated.View entering={FadeIn.duration(400)} style={styles.lockOverlay}>
       <View style={styles.lockContent}>
         <View style={styles.lockIcon}>
           <FontAwesome name="diamond" size={32} color={colors.accent} />
         </View>
-        <Text style={styles.lockTitle}>Premium-ominaisuus</Text>
+        <Text style={styles.lockTitle}>{t("importPremiumFeature")}</Text>
         <Text style={styles.lockSubtitle}>
-          Unikuvioiden seuranta näyttää toistuvat teemat ja symbolit unissasi ajan myötä.
+          {t("patternsLockedDesc")}
         </Text>
         <GlowButton variant="primary" size="md" onPress={onUnlock}>
-          <Text style={styles.unlockButtonText}>Avaa Premium</Text>
+          <Text style={styles.unlockButtonText}>{t("premiumUnlock")}</Text>
         </GlowButton>
       </View>
     </Animated.View>
@@ -47,6 +59,7 @@ function PremiumLock({ onUnlock }: { onUnlock: () => void }) {
 
 // Symbol card component
 function SymbolCard({ symbol, index }: { symbol: SymbolPattern; index: number }) {
+  const { t } = useI18n();
   const trendIcon = getTrendIcon(symbol.trend);
   const trendColor =
     symbol.trend === "increasing"
@@ -72,7 +85,7 @@ function SymbolCard({ symbol, index }: { symbol: SymbolPattern; index: number })
             style={[styles.symbolBarFill, { width: `${symbol.percentage}%` }]}
           />
         </View>
-        <Text style={styles.symbolPercentage}>{symbol.percentage}% unista</Text>
+        <Text style={styles.symbolPercentage}>{t("patternsShareOfDreams", { percent: symbol.percentage })}</Text>
       </GlassCard>
     </Animated.View>
   );
@@ -106,10 +119,15 @@ function InsightCard({ insight, index }: { insight: string; index: number }) {
 }
 
 export default function PatternsScreen() {
+  const { t, locale } = useI18n();
   const [analysis, setAnalysis] = useState<DreamPatternAnalysis | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const { toast, showError, hideToast } = useToast();
+  const [reportDreams, setReportDreams] = useState<Dream[] | null>(null);
+  const [reportMonth, setReportMonth] = useState(0);
+  const [reportReminder, setReportReminder] = useState(false);
+  const params = useLocalSearchParams<{ report?: string }>();
+  const { toast, showError, showSuccess, hideToast } = useToast();
   const { isPremium, isTrialActive, openPremiumModal, showPremiumModal, closePremiumModal } = usePremium();
 
   const hasPremiumAccess = isPremium || isTrialActive;
@@ -121,12 +139,13 @@ export default function PatternsScreen() {
       setAnalysis(result);
     } catch (error) {
       console.error("Error loading patterns:", error);
-      showError("Kuvioiden lataaminen epäonnistui");
+      showError(t("patternsLoadFailed"));
     } finally {
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [showError]);
+    // Insights and labels are built in the current language
+  }, [showError, t, locale]);
 
   useEffect(() => {
     loadAnalysis();
@@ -137,6 +156,54 @@ export default function PatternsScreen() {
     loadAnalysis();
   }, [loadAnalysis]);
 
+  useEffect(() => {
+    isMonthlyReportReminderEnabled().then(setReportReminder);
+  }, []);
+
+  // Load all dreams and open the report sheet on the given month
+  const openReportSheet = useCallback(async (initialMonth: number) => {
+    lightTap();
+    const dreams = await getDreams();
+    if (dreams.length === 0) {
+      showError(t("patternsNoDreamsForReport"));
+      return;
+    }
+    setReportMonth(initialMonth);
+    setReportDreams(dreams);
+  }, [showError, t]);
+
+  // Opened from the monthly report notification: show last month
+  useEffect(() => {
+    if (params.report === "monthly" && hasPremiumAccess) {
+      openReportSheet(1);
+      router.setParams({ report: undefined });
+    }
+  }, [params.report, hasPremiumAccess, openReportSheet]);
+
+  const handleGenerateReport = useCallback(async (dreams: Dream[], options: DreamReportOptions) => {
+    try {
+      await exportDreamReport(dreams, options);
+      setReportDreams(null);
+      showSuccess(t("patternsReportCreated"));
+    } catch (error) {
+      showError(error instanceof Error ? error.message : t("reportFailed"));
+    }
+  }, [showSuccess, showError, t]);
+
+  const handleReportReminderChange = useCallback(async (enabled: boolean) => {
+    lightTap();
+    if (enabled) {
+      const scheduled = await scheduleMonthlyReportReminder();
+      setReportReminder(scheduled);
+      if (!scheduled) {
+        showError(t("errorNotificationPermission"));
+      }
+    } else {
+      await cancelMonthlyReportReminder();
+      setReportReminder(false);
+    }
+  }, [showError, t]);
+
   // Render empty state
   if (!isLoading && analysis && analysis.totalDreams === 0) {
     return (
@@ -145,9 +212,9 @@ export default function PatternsScreen() {
           <View style={styles.emptyIcon}>
             <FontAwesome name="line-chart" size={48} color={colors.textDim} />
           </View>
-          <Text style={styles.emptyTitle}>Ei vielä dataa</Text>
+          <Text style={styles.emptyTitle}>{t("patternsEmpty")}</Text>
           <Text style={styles.emptySubtitle}>
-            Kirjaa muutama uni nähdäksesi kuvioita ja trendejä unissasi.
+            {t("patternsEmptyHint")}
           </Text>
         </View>
       </GradientBackground>
@@ -184,10 +251,10 @@ export default function PatternsScreen() {
       >
         {/* Header */}
         <Animated.View entering={FadeInUp.duration(400)}>
-          <Text style={styles.header}>Unikuviot</Text>
+          <Text style={styles.header}>{t("navPatterns")}</Text>
           {analysis && (
             <Text style={styles.subheader}>
-              Perustuu {analysis.totalDreams} uneen • {analysis.analyzedPeriodDays} päivän ajalta
+              {t("patternsBasedOn", { count: analysis.totalDreams, days: analysis.analyzedPeriodDays })}
             </Text>
           )}
         </Animated.View>
@@ -203,21 +270,21 @@ export default function PatternsScreen() {
                 <View style={styles.statsRow}>
                   <GlassCard intensity="medium" style={styles.statCard}>
                     <Text style={styles.statNumber}>
-                      {analysis.timePatterns.averagePerWeek}
+                      {formatNumber(analysis.timePatterns.averagePerWeek)}
                     </Text>
-                    <Text style={styles.statLabel}>unta/viikko</Text>
+                    <Text style={styles.statLabel}>{t("patternsStatPerWeek")}</Text>
                   </GlassCard>
                   <GlassCard intensity="medium" style={styles.statCard}>
                     <Text style={styles.statNumber}>
                       {analysis.symbols.length}
                     </Text>
-                    <Text style={styles.statLabel}>symbolia</Text>
+                    <Text style={styles.statLabel}>{t("patternsStatSymbols")}</Text>
                   </GlassCard>
                   <GlassCard intensity="medium" style={styles.statCard}>
                     <Text style={styles.statNumber}>
                       {analysis.recurringThemes.length}
                     </Text>
-                    <Text style={styles.statLabel}>teemaa</Text>
+                    <Text style={styles.statLabel}>{t("patternsStatThemes")}</Text>
                   </GlassCard>
                 </View>
               </Animated.View>
@@ -226,7 +293,7 @@ export default function PatternsScreen() {
             {/* Insights */}
             {analysis && analysis.insights.length > 0 && (
               <Animated.View entering={FadeInUp.delay(200).duration(400)}>
-                <Text style={styles.sectionTitle}>Oivalluksia</Text>
+                <Text style={styles.sectionTitle}>{t("reportInsights")}</Text>
                 <View style={styles.insightsContainer}>
                   {analysis.insights.map((insight, index) => (
                     <InsightCard key={index} insight={insight} index={index} />
@@ -238,7 +305,7 @@ export default function PatternsScreen() {
             {/* Top symbols */}
             {analysis && analysis.symbols.length > 0 && (
               <Animated.View entering={FadeInUp.delay(300).duration(400)}>
-                <Text style={styles.sectionTitle}>Yleisimmät symbolit</Text>
+                <Text style={styles.sectionTitle}>{t("patternsTopSymbols")}</Text>
                 <View style={styles.symbolsContainer}>
                   {analysis.symbols.slice(0, 5).map((symbol, index) => (
                     <SymbolCard key={symbol.symbol} symbol={symbol} index={index} />
@@ -250,7 +317,7 @@ export default function PatternsScreen() {
             {/* Mood distribution */}
             {analysis && analysis.moods.length > 0 && (
               <Animated.View entering={FadeInUp.delay(400).duration(400)}>
-                <Text style={styles.sectionTitle}>Tunnetilat</Text>
+                <Text style={styles.sectionTitle}>{t("reportMoods")}</Text>
                 <GlassCard intensity="light" style={styles.moodsCard}>
                   <View style={styles.moodsGrid}>
                     {analysis.moods.map((mood, index) => (
@@ -267,7 +334,7 @@ export default function PatternsScreen() {
                 <GlassCard intensity="light" style={styles.timeCard}>
                   <FontAwesome name="calendar" size={20} color={colors.primary} />
                   <View style={styles.timeContent}>
-                    <Text style={styles.timeLabel}>Aktiivisin päivä</Text>
+                    <Text style={styles.timeLabel}>{t("reportMostActiveDay")}</Text>
                     <Text style={styles.timeValue}>
                       {analysis.timePatterns.mostActiveDay}
                     </Text>
@@ -275,9 +342,35 @@ export default function PatternsScreen() {
                 </GlassCard>
               </Animated.View>
             )}
+
+            {/* Report */}
+            {analysis && (
+              <Animated.View entering={FadeInUp.delay(600).duration(400)}>
+                <Pressable onPress={() => openReportSheet(0)}>
+                  <GlassCard intensity="light" style={styles.timeCard}>
+                    <FontAwesome name="file-pdf-o" size={20} color={colors.primary} />
+                    <View style={styles.timeContent}>
+                      <Text style={styles.timeLabel}>{t("patternsReportPeriod")}</Text>
+                      <Text style={styles.timeValue}>{t("patternsCreateReport")}</Text>
+                    </View>
+                    <FontAwesome name="chevron-right" size={14} color={colors.textDim} />
+                  </GlassCard>
+                </Pressable>
+              </Animated.View>
+            )}
           </>
         )}
       </ScrollView>
+
+      <ReportSheet
+        visible={reportDreams !== null}
+        dreams={reportDreams ?? []}
+        initialMonth={reportMonth}
+        reminderEnabled={reportReminder}
+        onReminderChange={handleReportReminderChange}
+        onGenerate={handleGenerateReport}
+        onClose={() => setReportDreams(null)}
+      />
     </GradientBackground>
   );
 }
@@ -15,8 +15,7 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import Animated, { FadeInUp } from "react-native-reanimated";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import Constants from "expo-constants";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { usePremium } from "@/contexts";
+import { usePremium, useJournalLock, useI18n } from "@/contexts";
 import {
   getNotificationSettings,
   toggleNotifications,
@@ -25,82 +24,48 @@ import {
   updateNotificationTime,
   getScheduledNotifications,
 } from "@/lib/notifications";
-import { exportDreamsAsPdf } from "@/lib/pdf-export";
-import { getDreams } from "@/lib/storage";
+import { exportDreamsAsPdf, type PdfExportOptions } from "@/lib/pdf-export";
+import { exportDreamsAsCsv, exportDreamsAsMarkdown } from "@/lib/journal-export";
+import { getDreams, type Dream, type RestoreMode } from "@/lib/storage";
+import {
+  exportBackup,
+  getBackupPreview,
+  parseBackup,
+  pickBackupFile,
+  restoreBackup,
+  type ParsedBackup,
+} from "@/lib/backup";
 
 import { GradientBackground, GlassCard, GlowButton, Toast } from "@/components/ui";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
-import { clearAllDreams, getDreamStats } from "@/lib/storage";
-import haptics, { getHapticsEnabled, setHapticsEnabled } from "@/lib/haptics";
+import { clearAllDreams, getDreamCounts } from "@/lib/storage";
+import haptics, { setHapticsEnabled } from "@/lib/haptics";
+import { getStreakSettings, saveStreakSettings } from "@/lib/streak";
 import { useToast } from "@/hooks/useToast";
+import { useAchievements } from "@/hooks/useAchievements";
+import { getAchievementStatuses, type AchievementStatus } from "@/lib/achievements";
+import { LOCK_TIMEOUT_OPTIONS } from "@/lib/journal-lock";
+import { formatDate, LOCALES, SUPPORTED_LOCALES } from "@/lib/i18n";
+import {
+  getPreferences,
+  savePreferences,
+  type InterpretationLength,
+  type Language,
+} from "@/lib/preferences";
+import { PassphraseSetupModal } from "@/components/PassphraseSetupModal";
+import { ImportPreviewModal } from "@/components/ImportPreviewModal";
+import { SymbolDictionaryModal } from "@/components/SymbolDictionaryModal";
+import { ProfileModal } from "@/components/ProfileModal";
+import { getProfile, hasProfileContext } from "@/lib/profile";
+import { ExportSheet, type ExportFormat } from "@/components/ExportSheet";
+import { pickImportFile, type ImportFile } from "@/lib/importers";
 
-// Storage keys
-const LANGUAGE_KEY = "@unitulkki_language";
-const INTERPRETATION_LENGTH_KEY = "@unitulkki_interpretation_length";
-
-// Types
-type Language = "fi" | "en";
-type InterpretationLength = "short" | "normal" | "long";
+// Hours at which a new dream day starts
+const DAY_CUTOFF_OPTIONS = [0, 3, 4, 6];
 
 // Time picker state
 type TimePickerMode = 'time' | 'hidden';
 
-// Translations
-const translations = {
-  fi: {
-    settings: "Asetukset",
-    language: "Kieli",
-    finnish: "Suomi",
-    english: "Englanti",
-    preferences: "Asetukset",
-    hapticFeedback: "Tärinäpalaute",
-    hapticDescription: "Tuntoaistipalaute painikkeille",
-    interpretationLength: "Tulkinnan pituus",
-    short: "Lyhyt",
-    normal: "Normaali",
-    long: "Pitkä",
-    dataManagement: "Tietojen hallinta",
-    clearHistory: "Tyhjennä unihistoria",
-    clearHistoryDescription: "Poista kaikki tallennetut unet",
-    clearConfirmTitle: "Tyhjennä historia?",
-    clearConfirmMessage: "Tämä poistaa kaikki tallennetut unet pysyvästi. Toimintoa ei voi perua.",
-    cancel: "Peruuta",
-    delete: "Poista",
-    about: "Tietoja",
-    version: "Versio",
-    madeWith: "Tehty AI SDK:lla & Aihio AI",
-    privacyPolicy: "Tietosuojakäytäntö",
-    dreamCount: "tallennettua unta",
-    cleared: "Historia tyhjennetty",
-  },
-  en: {
-    settings: "Settings",
-    language: "Language",
-    finnish: "Finnish",
-    english: "English",
-    preferences: "Preferences",
-    hapticFeedback: "Haptic Feedback",
-    hapticDescription: "Tactile feedback for buttons",
-    interpretationLength: "Interpretation Length",
-    short: "Short",
-    normal: "Normal",
-    long: "Long",
-    dataManagement: "Data Management",
-    clearHistory: "Clear Dream History",
-    clearHistoryDescription: "Delete all saved dreams",
-    clearConfirmTitle: "Clear history?",
-    clearConfirmMessage: "This will permanently delete all saved dreams. This action cannot be undone.",
-    cancel: "Cancel",
-    delete: "Delete",
-    about: "About",
-    version: "Version",
-    madeWith: "Made with AI SDK & Aihio AI",
-    privacyPolicy: "Privacy Policy",
-    dreamCount: "saved dreams",
-    cleared: "History cleared",
-  },
-};
-
 // Selection button component
 function SelectionButton({
   label,
@@ -162,56 +127,65 @@ function SettingRow({
 }
 
 export default function SettingsScreen() {
-  const [language, setLanguage] = useState<Language>("fi");
   const [hapticsEnabled, setHapticsEnabledState] = useState(true);
   const [interpretationLength, setInterpretationLength] = useState<InterpretationLength>("normal");
+  const [dayCutoffHour, setDayCutoffHour] = useState(4);
   const [dreamCount, setDreamCount] = useState(0);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [notificationTime, setNotificationTime] = useState("08:00");
-  const [isExporting, setIsExporting] = useState(false);
+  const [exportDreams, setExportDreams] = useState<Dream[] | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [symbolDictionaryVisible, setSymbolDictionaryVisible] = useState(false);
+  const [profileVisible, setProfileVisible] = useState(false);
+  const [profileEnabled, setProfileEnabled] = useState(false);
   const [timePickerMode, setTimePickerMode] = useState<TimePickerMode>('hidden');
   const [selectedTime, setSelectedTime] = useState(new Date());
-  const { toast, showSuccess, showError, hideToast } = useToast();
+  const [achievements, setAchievements] = useState<AchievementStatus[]>([]);
+  const { toast, showSuccess, showError, showWarning, hideToast } = useToast();
+  const { checkAchievements } = useAchievements(showSuccess);
   const { isPremium, isTrialActive, openPremiumModal, trialDaysRemaining } = usePremium();
+  const journalLock = useJournalLock();
+  const [passphraseModalVisible, setPassphraseModalVisible] = useState(false);
   const hasPremiumAccess = isPremium || isTrialActive;
 
-  const t = translations[language];
+  const { t, locale: language, setLanguage } = useI18n();
 
   // Load settings
-  useEffect(() => {
-    const loadSettings = async () => {
-      try {
-        const [storedLanguage, storedLength, hapticsOn, stats, notifSettings] = await Promise.all([
-          AsyncStorage.getItem(LANGUAGE_KEY),
-          AsyncStorage.getItem(INTERPRETATION_LENGTH_KEY),
-          getHapticsEnabled(),
-          getDreamStats(),
+  const loadSettings = useCallback(async () => {
+    try {
+      const [preferences, stats, notifSettings, streakSettings, achievementStatuses, profile] =
+        await Promise.all([
+          getPreferences(),
+          getDreamCounts(),
           getNotificationSettings(),
+          getStreakSettings(),
+          getAchievementStatuses(),
+          getProfile(),
         ]);
 
-        if (storedLanguage === "en" || storedLanguage === "fi") {
-          setLanguage(storedLanguage);
-        }
-        if (storedLength === "short" || storedLength === "normal" || storedLength === "long") {
-          setInterpretationLength(storedLength);
-        }
-        setHapticsEnabledState(hapticsOn);
-        setDreamCount(stats.total);
-        setNotificationsEnabled(notifSettings.enabled);
-        setNotificationTime(formatNotificationTime(notifSettings.hour, notifSettings.minute));
-      } catch (error) {
-        console.error("Error loading settings:", error);
-      }
-    };
-    loadSettings();
+      setInterpretationLength(preferences.interpretationLength);
+      setHapticsEnabledState(preferences.hapticsEnabled);
+      setDayCutoffHour(streakSettings.dayCutoffHour);
+      setAchievements(achievementStatuses);
+      setDreamCount(stats.total);
+      setProfileEnabled(hasProfileContext(profile));
+      setNotificationsEnabled(notifSettings.enabled);
+      setNotificationTime(formatNotificationTime(notifSettings.hour, notifSettings.minute));
+    } catch (error) {
+      console.error("Error loading settings:", error);
+    }
   }, []);
 
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
   // Save language
   const handleLanguageChange = useCallback(async (lang: Language) => {
     haptics.selection();
-    setLanguage(lang);
-    await AsyncStorage.setItem(LANGUAGE_KEY, lang);
-  }, []);
+    await setLanguage(lang);
+  }, [setLanguage]);
 
   // Save haptics
   const handleHapticsToggle = useCallback(async (enabled: boolean) => {
@@ -226,9 +200,55 @@ export default function SettingsScreen() {
   const handleLengthChange = useCallback(async (length: InterpretationLength) => {
     haptics.selection();
     setInterpretationLength(length);
-    await AsyncStorage.setItem(INTERPRETATION_LENGTH_KEY, length);
+    await savePreferences({ interpretationLength: length });
   }, []);
 
+  // Save dream day cutoff
+  const handleDayCutoffChange = useCallback(async (hour: number) => {
+    haptics.selection();
+    setDayCutoffHour(hour);
+    try {
+      await saveStreakSettings({ dayCutoffHour: hour });
+    } catch (error) {
+      showError(t("errorSaveSetting"));
+    }
+  }, [t, showError]);
+
+  // Turn the app lock on (via passphrase setup) or off
+  const handleLockToggle = useCallback((enabled: boolean) => {
+    haptics.selection();
+    if (enabled) {
+      setPassphraseModalVisible(true);
+      return;
+    }
+
+    Alert.alert(t("settingsDisableLockTitle"), t("settingsDisableLockMessage"), [
+      { text: t("actionCancel"), style: "cancel" },
+      {
+        text: t("settingsDisableLock"),
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await journalLock.disable();
+            showSuccess(t("settingsLockDisabled"));
+          } catch (error) {
+            showError(error instanceof Error ? error.message : t("settingsLockDisableFailed"));
+          }
+        },
+      },
+    ]);
+  }, [t, journalLock, showSuccess, showError]);
+
+  // Save lock timeout
+  const handleLockTimeoutChange = useCallback(async (minutes: number) => {
+    haptics.selection();
+    try {
+      await journalLock.setTimeoutMinutes(minutes);
+    } catch (error) {
+      showError(t("errorSaveSetting"));
+    }
+  }, [t, journalLock, showError]);
+
   // Toggle notifications
   const handleNotificationsToggle = useCallback(async (enabled: boolean) => {
     haptics.selection();
@@ -236,25 +256,25 @@ export default function SettingsScreen() {
     if (success) {
       setNotificationsEnabled(enabled);
       if (enabled) {
-        showSuccess(`Herätys asetettu klo ${notificationTime}`);
+        showSuccess(t("settingsAlarmSet", { time: notificationTime }));
       } else {
-        showSuccess("Herätys poistettu käytöstä");
+        showSuccess(t("settingsAlarmDisabled"));
       }
     } else {
-      showError("Herätysten käyttöönotto epäonnistui. Tarkista sovelluksen luvat.");
+      showError(t("settingsAlarmEnableFailed"));
     }
-  }, [showSuccess, showError, notificationTime]);
+  }, [t, showSuccess, showError, notificationTime]);
 
   // Test alarm
   const handleTestAlarm = useCallback(async () => {
     haptics.light();
     try {
       await sendTestNotification();
-      showSuccess("Testiherätys lähetetty!");
+      showSuccess(t("settingsTestAlarmSent"));
     } catch (error) {
-      showError("Testiherätys epäonnistui. Tarkista luvat.");
+      showError(t("settingsTestAlarmFailed"));
     }
-  }, [showSuccess, showError]);
+  }, [t, showSuccess, showError]);
 
   // Handle time change
   const handleTimeChange = useCallback((event: any, selectedDate?: Date) => {
@@ -273,13 +293,13 @@ export default function SettingsScreen() {
         toggleNotifications(false).then(() => {
           toggleNotifications(true);
         });
-        showSuccess(`Herätysaika asetettu: ${formattedTime}`);
+        showSuccess(t("settingsAlarmTimeSet", { time: formattedTime }));
       }
     }
     
     // Close the time picker
     setTimePickerMode('hidden');
-  }, [notificationsEnabled, toggleNotifications, showSuccess]);
+  }, [t, notificationsEnabled, toggleNotifications, showSuccess]);
 
   // Open time picker
   const openTimePicker = useCallback(() => {
@@ -294,50 +314,181 @@ export default function SettingsScreen() {
   }, [notificationTime]);
 
   
-  const handleExportPdf = useCallback(async () => {
-    if (!hasPremiumAccess) {
+  // Open the export sheet with the whole journal
+  const openExportSheet = useCallback(async () => {
+    haptics.light();
+    const dreams = await getDreams();
+    if (dreams.length === 0) {
+      showError(t("settingsNothingToExport"));
+      return;
+    }
+    setExportDreams(dreams);
+  }, [t, showError]);
+
+  const handleExport = useCallback(async (
+    format: ExportFormat,
+    dreams: Dream[],
+    pdfOptions: PdfExportOptions
+  ) => {
+    if (format === "pdf" && !hasPremiumAccess) {
       openPremiumModal();
       return;
     }
 
-    haptics.light();
-    setIsExporting(true);
     try {
-      const dreams = await getDreams();
-      if (dreams.length === 0) {
-        showError("Ei vietäviä unia");
-        return;
+      switch (format) {
+        case "pdf":
+          await exportDreamsAsPdf(dreams, { ...pdfOptions, title: t("settingsPdfTitle") });
+          break;
+        case "markdown":
+          await exportDreamsAsMarkdown(dreams, "single");
+          break;
+        case "markdown_zip":
+          await exportDreamsAsMarkdown(dreams, "zip");
+          break;
+        case "csv":
+          await exportDreamsAsCsv(dreams);
+          break;
+      }
+      setExportDreams(null);
+      showSuccess(format === "pdf" ? t("settingsPdfCreated") : t("settingsExportDone"));
+
+      if (format === "pdf") {
+        const unlocked = await checkAchievements("pdf_export");
+        if (unlocked.length > 0) {
+          setAchievements(await getAchievementStatuses());
+        }
       }
-      await exportDreamsAsPdf(dreams, "Unipäiväkirja");
-      showSuccess("PDF luotu");
     } catch (error) {
       console.error("Export error:", error);
-      showError("PDF-vienti epäonnistui");
+      showError(error instanceof Error ? error.message : t("settingsExportFailed"));
+    }
+  }, [t, hasPremiumAccess, openPremiumModal, showSuccess, showError, checkAchievements]);
+
+  // Export the whole journal as a JSON backup
+  const handleExportBackup = useCallback(async () => {
+    haptics.light();
+    setIsBackingUp(true);
+    try {
+      await exportBackup();
+      showSuccess(t("settingsBackupCreated"));
+    } catch (error) {
+      showError(error instanceof Error ? error.message : t("settingsBackupExportFailed"));
     } finally {
-      setIsExporting(false);
+      setIsBackingUp(false);
     }
-  }, [hasPremiumAccess, openPremiumModal, showSuccess, showError]);
+  }, [t, showSuccess, showError]);
+
+  // Restore a backup and reload everything shown here
+  const applyBackup = useCallback(async (backup: ParsedBackup, mode: RestoreMode) => {
+    setIsBackingUp(true);
+    try {
+      const result = await restoreBackup(backup, mode);
+      await loadSettings();
+      haptics.success();
+      showSuccess(t("settingsRestored", { count: result.dreams }));
+    } catch (error) {
+      haptics.error();
+      showError(error instanceof Error ? error.message : t("settingsRestoreFailed"));
+    } finally {
+      setIsBackingUp(false);
+    }
+  }, [t, loadSettings, showSuccess, showError]);
+
+  // Pick a backup, preview it and ask how to restore
+  const handleImportBackup = useCallback(async () => {
+    haptics.light();
+    let backup: ParsedBackup;
+    try {
+      const text = await pickBackupFile();
+      if (text === null) return;
+      backup = parseBackup(text);
+    } catch (error) {
+      haptics.error();
+      showError(error instanceof Error ? error.message : t("settingsBackupReadFailed"));
+      return;
+    }
+
+    const preview = await getBackupPreview(backup);
+    const lines = [
+      t("settingsPreviewCreated", {
+        date: formatDate(preview.exportedAt),
+      }),
+      t("settingsPreviewDreams", {
+        count: preview.dreams,
+        newCount: preview.newDreams,
+        duplicateCount: preview.duplicateDreams,
+      }),
+      preview.alarms > 0 ? t("settingsPreviewAlarms", { count: preview.alarms }) : null,
+      preview.skippedDreams > 0
+        ? t("settingsPreviewSkipped", { count: preview.skippedDreams })
+        : null,
+    ].filter(Boolean);
+
+    Alert.alert(t("settingsRestoreTitle"), lines.join("\n"), [
+      { text: t("actionCancel"), style: "cancel" },
+      { text: t("settingsRestoreMerge"), onPress: () => applyBackup(backup, "merge") },
+      {
+        text: t("settingsRestoreReplace"),
+        style: "destructive",
+        onPress: () => {
+          haptics.warning();
+          Alert.alert(t("settingsRestoreReplaceTitle"), t("settingsRestoreReplaceMessage"), [
+            { text: t("actionCancel"), style: "cancel" },
+            {
+              text: t("settingsRestoreReplace"),
+              style: "destructive",
+              onPress: () => applyBackup(backup, "replace"),
+            },
+          ]);
+        },
+      },
+    ]);
+  }, [t, applyBackup, showError]);
+
+  // Pick a file from another journaling app and open the preview
+  const handleImportDreams = useCallback(async () => {
+    haptics.light();
+    try {
+      const file = await pickImportFile();
+      if (file) {
+        setImportFile(file);
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : t("settingsFileReadFailed"));
+    }
+  }, [t, showError]);
+
+  const handleDreamsImported = useCallback(async (count: number, notice: string | null) => {
+    setImportFile(null);
+    await loadSettings();
+    if (notice) {
+      showWarning(`${t("settingsImported", { count })}. ${notice}`);
+    } else {
+      showSuccess(t("settingsImported", { count }));
+    }
+  }, [t, loadSettings, showSuccess, showWarning]);
 
   // Clear history
   const handleClearHistory = useCallback(() => {
     haptics.warning();
     Alert.alert(
-      t.clearConfirmTitle,
-      t.clearConfirmMessage,
+      t("settingsClearConfirmTitle"),
+      t("settingsClearConfirmMessage"),
       [
-        { text: t.cancel, style: "cancel" },
+        { text: t("actionCancel"), style: "cancel" },
         {
-          text: t.delete,
+          text: t("actionDelete"),
           style: "destructive",
           onPress: async () => {
             try {
               haptics.heavy();
               await clearAllDreams();
               setDreamCount(0);
-              showSuccess(t.cleared);
+              showSuccess(t("settingsCleared"));
             } catch (error) {
               haptics.error();
-              showError("Virhe historian tyhjentämisessä");
+              showError(t("settingsClearFailed"));
             }
           },
         },
@@ -369,7 +520,7 @@ export default function SettingsScreen() {
       >
         {/* Header */}
         <Animated.View entering={FadeInUp.duration(400).delay(0)}>
-          <Text style={styles.header}>{t.settings}</Text>
+          <Text style={styles.header}>{t("settingsTitle")}</Text>
         </Animated.View>
 
         {/* Premium Status */}
@@ -385,14 +536,18 @@ export default function SettingsScreen() {
               </View>
               <View style={styles.premiumContent}>
                 <Text style={styles.premiumTitle}>
-                  {isPremium ? "Premium-käyttäjä" : isTrialActive ? `Kokeilu (${trialDaysRemaining} pv)` : "Ilmaisversio"}
+                  {isPremium
+                    ? t("settingsPremiumUser")
+                    : isTrialActive
+                    ? t("settingsTrialStatus", { count: trialDaysRemaining })
+                    : t("settingsFreeVersion")}
                 </Text>
                 <Text style={styles.premiumSubtitle}>
                   {isPremium
-                    ? "Kaikki ominaisuudet käytössä"
+                    ? t("settingsPremiumUserDesc")
                     : isTrialActive
-                    ? "Kokeile kaikkia ominaisuuksia"
-                    : "Päivitä Premium-versioon"}
+                    ? t("settingsTrialDesc")
+                    : t("settingsFreeVersionDesc")}
                 </Text>
               </View>
               <FontAwesome name="chevron-right" size={16} color={colors.textDim} />
@@ -402,26 +557,24 @@ export default function SettingsScreen() {
 
         {/* Language Section */}
         <Animated.View entering={FadeInUp.duration(400).delay(100)}>
-          <Text style={styles.sectionLabel}>{t.language}</Text>
+          <Text style={styles.sectionLabel}>{t("settingsLanguage")}</Text>
           <GlassCard intensity="medium" style={styles.card}>
             <View style={styles.selectionGroup}>
-              <SelectionButton
-                label={`🇫🇮 ${t.finnish}`}
-                selected={language === "fi"}
-                onPress={() => handleLanguageChange("fi")}
-              />
-              <SelectionButton
-                label={`🇬🇧 ${t.english}`}
-                selected={language === "en"}
-                onPress={() => handleLanguageChange("en")}
-              />
+              {SUPPORTED_LOCALES.map((locale) => (
+                <SelectionButton
+                  key={locale}
+                  label={`${LOCALES[locale].flag} ${t(LOCALES[locale].labelKey)}`}
+                  selected={language === locale}
+                  onPress={() => handleLanguageChange(locale)}
+                />
+              ))}
             </View>
           </GlassCard>
         </Animated.View>
 
         {/* Insights Section - Link to Patterns */}
         <Animated.View entering={FadeInUp.duration(400).delay(125)}>
-          <Text style={styles.sectionLabel}>Analytiikka</Text>
+          <Text style={styles.sectionLabel}>{t("settingsAnalytics")}</Text>
           <GlassCard intensity="medium" style={styles.card}>
             <Pressable
               onPress={() => {
@@ -437,23 +590,69 @@ export default function SettingsScreen() {
                 <FontAwesome name="line-chart" size={18} color={colors.accent} />
               </View>
               <View style={styles.settingContent}>
-                <Text style={styles.settingTitle}>Unikuviot</Text>
-                <Text style={styles.settingDescription}>Teemat, symbolit ja trendit unissasi</Text>
+                <Text style={styles.settingTitle}>{t("settingsPatterns")}</Text>
+                <Text style={styles.settingDescription}>{t("settingsPatternsDesc")}</Text>
               </View>
               <FontAwesome name="chevron-right" size={16} color={colors.textDim} />
             </Pressable>
           </GlassCard>
         </Animated.View>
 
+        {/* Achievements Section */}
+        {achievements.length > 0 && (
+          <Animated.View entering={FadeInUp.duration(400).delay(140)}>
+            <Text style={styles.sectionLabel}>
+              {t("settingsAchievements", {
+                unlocked: achievements.filter((a) => a.unlockedAt).length,
+                total: achievements.length,
+              })}
+            </Text>
+            <GlassCard intensity="medium" style={styles.card}>
+              {achievements.map(({ achievement, unlockedAt, progress }, index) => (
+                <View key={achievement.id}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <View style={styles.settingRow}>
+                    <View
+                      style={[
+                        styles.settingIcon,
+                        unlockedAt ? styles.trophyIconUnlocked : styles.trophyIconLocked,
+                      ]}
+                    >
+                      <Text style={styles.trophyEmoji}>{achievement.icon}</Text>
+                    </View>
+                    <View style={styles.settingContent}>
+                      <Text style={[styles.settingTitle, !unlockedAt && styles.trophyTitleLocked]}>
+                        {t(achievement.titleKey)}
+                      </Text>
+                      <Text style={styles.settingDescription}>{t(achievement.descriptionKey)}</Text>
+                    </View>
+                    {unlockedAt ? (
+                      <FontAwesome name="check-circle" size={18} color={colors.accent} />
+                    ) : (
+                      <Text style={styles.trophyProgress}>
+                        {progress}/{achievement.target}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              ))}
+            </GlassCard>
+          </Animated.View>
+        )}
+
         {/* Alarm Section */}
         <Animated.View entering={FadeInUp.duration(400).delay(150)}>
-          <Text style={styles.sectionLabel}>Uniherätys</Text>
+          <Text style={styles.sectionLabel}>{t("settingsAlarmSection")}</Text>
           <GlassCard intensity="medium" style={styles.card}>
             <SettingRow
               icon="bell"
               iconColor={colors.primary}
-              title="Aamuherätys"
-              description={notificationsEnabled ? `Herätys klo ${notificationTime}` : "Ei käytössä"}
+              title={t("settingsMorningAlarm")}
+              description={
+                notificationsEnabled
+                  ? t("settingsMorningAlarmOn", { time: notificationTime })
+                  : t("settingsMorningAlarmOff")
+              }
             >
               <Switch
                 value={notificationsEnabled}
@@ -472,8 +671,8 @@ export default function SettingsScreen() {
                   <FontAwesome name="clock-o" size={18} color={colors.accent} />
                 </View>
                 <View style={styles.settingContent}>
-                  <Text style={styles.settingTitle}>Herätysaika</Text>
-                  <Text style={styles.settingDescription}>Valitse milloin herätys tulee</Text>
+                  <Text style={styles.settingTitle}>{t("settingsAlarmTime")}</Text>
+                  <Text style={styles.settingDescription}>{t("settingsAlarmTimeDesc")}</Text>
                 </View>
                 <Text style={styles.timeDisplay}>{notificationTime}</Text>
                 <FontAwesome name="chevron-right" size={16} color={colors.textDim} style={{ marginLeft: 8 }} />
@@ -489,10 +688,10 @@ export default function SettingsScreen() {
               ]}
             >
               <FontAwesome name="volume-up" size={16} color={colors.accent} />
-              <Text style={styles.testAlarmText}>Testaa herätys</Text>
+              <Text style={styles.testAlarmText}>{t("settingsTestAlarm")}</Text>
             </Pressable>
             <Text style={styles.alarmInfoText}>
-              Herätys muistuttaa sinua kirjaamaan unesi. Napauta ilmoitusta avataksesi sovelluksen.
+              {t("settingsAlarmInfo")}
             </Text>
           </GlassCard>
         </Animated.View>
@@ -504,11 +703,11 @@ export default function SettingsScreen() {
               <View style={styles.iosTimePickerContainer}>
                 <View style={styles.iosTimePickerHeader}>
                   <Pressable onPress={() => setTimePickerMode('hidden')}>
-                    <Text style={styles.iosTimePickerCancel}>Peruuta</Text>
+                    <Text style={styles.iosTimePickerCancel}>{t("actionCancel")}</Text>
                   </Pressable>
-                  <Text style={styles.iosTimePickerTitle}>Valitse aika</Text>
+                  <Text style={styles.iosTimePickerTitle}>{t("settingsPickTime")}</Text>
                   <Pressable onPress={(event) => handleTimeChange(event, selectedTime)}>
-                    <Text style={styles.iosTimePickerDone}>Valmis</Text>
+                    <Text style={styles.iosTimePickerDone}>{t("actionDone")}</Text>
                   </Pressable>
                 </View>
                 <DateTimePicker
@@ -535,13 +734,13 @@ export default function SettingsScreen() {
 
         {/* Preferences Section */}
         <Animated.View entering={FadeInUp.duration(400).delay(200)}>
-          <Text style={styles.sectionLabel}>{t.preferences}</Text>
+          <Text style={styles.sectionLabel}>{t("settingsPreferences")}</Text>
           <GlassCard intensity="medium" style={styles.card}>
             <SettingRow
               icon="hand-pointer-o"
               iconColor={colors.accent}
-              title={t.hapticFeedback}
-              description={t.hapticDescription}
+              title={t("settingsHaptics")}
+              description={t("settingsHapticsDesc")}
             >
               <Switch
                 value={hapticsEnabled}
@@ -558,60 +757,215 @@ export default function SettingsScreen() {
                 <View style={[styles.settingIcon, { backgroundColor: `${colors.primary}15` }]}>
                   <FontAwesome name="align-left" size={18} color={colors.primary} />
                 </View>
-                <Text style={styles.settingTitle}>{t.interpretationLength}</Text>
+                <Text style={styles.settingTitle}>{t("settingsLength")}</Text>
               </View>
               <View style={styles.selectionGroupFull}>
                 <SelectionButton
-                  label={t.short}
+                  label={t("settingsLengthShort")}
                   selected={interpretationLength === "short"}
                   onPress={() => handleLengthChange("short")}
                 />
                 <SelectionButton
-                  label={t.normal}
+                  label={t("settingsLengthNormal")}
                   selected={interpretationLength === "normal"}
                   onPress={() => handleLengthChange("normal")}
                 />
                 <SelectionButton
-                  label={t.long}
+                  label={t("settingsLengthLong")}
                   selected={interpretationLength === "long"}
                   onPress={() => handleLengthChange("long")}
                 />
               </View>
             </View>
+
+            <View style={styles.divider} />
+
+            <View style={styles.settingColumn}>
+              <View style={styles.settingHeader}>
+                <View style={[styles.settingIcon, { backgroundColor: `${colors.accent}15` }]}>
+                  <FontAwesome name="moon-o" size={18} color={colors.accent} />
+                </View>
+                <View style={styles.settingContent}>
+                  <Text style={styles.settingTitle}>{t("settingsDreamDayCutoff")}</Text>
+                  <Text style={styles.settingDescription}>{t("settingsDreamDayCutoffDesc")}</Text>
+                </View>
+              </View>
+              <View style={styles.selectionGroupFull}>
+                {DAY_CUTOFF_OPTIONS.map((hour) => (
+                  <SelectionButton
+                    key={hour}
+                    label={`${hour.toString().padStart(2, "0")}:00`}
+                    selected={dayCutoffHour === hour}
+                    onPress={() => handleDayCutoffChange(hour)}
+                  />
+                ))}
+              </View>
+            </View>
+          </GlassCard>
+        </Animated.View>
+
+        {/* Privacy Section */}
+        <Animated.View entering={FadeInUp.duration(400).delay(250)}>
+          <Text style={styles.sectionLabel}>{t("settingsPrivacySection")}</Text>
+          <GlassCard intensity="medium" style={styles.card}>
+            <Pressable
+              onPress={() => {
+                haptics.light();
+                setProfileVisible(true);
+              }}
+            >
+              <SettingRow
+                icon="user"
+                iconColor={colors.accent}
+                title={t("settingsAboutMe")}
+                description={profileEnabled ? t("settingsAboutMeOn") : t("settingsAboutMeOff")}
+              >
+                <FontAwesome name="chevron-right" size={14} color={colors.textDim} />
+              </SettingRow>
+            </Pressable>
+
+            <View style={styles.divider} />
+
+            <SettingRow
+              icon="lock"
+              iconColor={colors.primary}
+              title={t("settingsAppLock")}
+              description={journalLock.isEnabled ? t("settingsAppLockOn") : t("settingsAppLockOff")}
+            >
+              <Switch
+                value={journalLock.isEnabled}
+                onValueChange={handleLockToggle}
+                trackColor={{ false: colors.surface, true: colors.primary }}
+                thumbColor={colors.white}
+              />
+            </SettingRow>
+
+            {journalLock.isEnabled && (
+              <>
+                <View style={styles.divider} />
+
+                <View style={styles.settingColumn}>
+                  <View style={styles.settingHeader}>
+                    <View style={[styles.settingIcon, { backgroundColor: `${colors.accent}15` }]}>
+                      <FontAwesome name="clock-o" size={18} color={colors.accent} />
+                    </View>
+                    <Text style={styles.settingTitle}>{t("settingsLockAfter")}</Text>
+                  </View>
+                  <View style={styles.selectionGroupFull}>
+                    {LOCK_TIMEOUT_OPTIONS.map((minutes) => (
+                      <SelectionButton
+                        key={minutes}
+                        label={minutes === 0 ? t("settingsImmediately") : `${minutes} min`}
+                        selected={journalLock.timeoutMinutes === minutes}
+                        onPress={() => handleLockTimeoutChange(minutes)}
+                      />
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.divider} />
+
+                <Pressable
+                  onPress={() => {
+                    haptics.medium();
+                    journalLock.lock();
+                  }}
+                  style={({ pressed }) => [
+                    styles.exportButton,
+                    pressed && styles.exportButtonPressed,
+                  ]}
+                >
+                  <FontAwesome name="lock" size={16} color={colors.primary} />
+                  <Text style={styles.exportButtonText}>{t("settingsLockNow")}</Text>
+                </Pressable>
+              </>
+            )}
           </GlassCard>
         </Animated.View>
 
         {/* Data Management Section */}
         <Animated.View entering={FadeInUp.duration(400).delay(300)}>
-          <Text style={styles.sectionLabel}>{t.dataManagement}</Text>
+          <Text style={styles.sectionLabel}>{t("settingsData")}</Text>
           <GlassCard intensity="medium" style={styles.card}>
             <View style={styles.dataInfo}>
               <FontAwesome name="database" size={16} color={colors.textDim} />
               <Text style={styles.dataInfoText}>
-                {dreamCount} {t.dreamCount}
+                {t("settingsDreamsCount", { count: dreamCount })}
               </Text>
             </View>
 
-            {/* PDF Export */}
+            {/* Export: PDF, Markdown or CSV */}
             <Pressable
-              onPress={handleExportPdf}
-              disabled={isExporting}
+              onPress={openExportSheet}
               style={({ pressed }) => [
                 styles.exportButton,
                 pressed && styles.exportButtonPressed,
-                isExporting && styles.exportButtonDisabled,
               ]}
             >
-              <FontAwesome name="file-pdf-o" size={16} color={colors.primary} />
-              <Text style={styles.exportButtonText}>
-                {isExporting ? "Viedään..." : "Vie PDF-muodossa"}
-              </Text>
-              {!hasPremiumAccess && (
-                <View style={styles.premiumBadge}>
-                  <FontAwesome name="diamond" size={10} color={colors.accent} />
-                </View>
-              )}
+              <FontAwesome name="share-square-o" size={16} color={colors.primary} />
+              <Text style={styles.exportButtonText}>{t("settingsExportDreams")}</Text>
+            </Pressable>
+            <Text style={styles.clearDescription}>{t("settingsExportDreamsDesc")}</Text>
+
+            {/* Import from other apps */}
+            <Pressable
+              onPress={handleImportDreams}
+              style={({ pressed }) => [
+                styles.exportButton,
+                styles.backupButton,
+                pressed && styles.exportButtonPressed,
+              ]}
+            >
+              <FontAwesome name="file-text-o" size={16} color={colors.primary} />
+              <Text style={styles.exportButtonText}>{t("settingsImportDreams")}</Text>
+            </Pressable>
+            <Text style={styles.clearDescription}>{t("settingsImportDreamsDesc")}</Text>
+
+            {/* Symbol taxonomy */}
+            <Pressable
+              onPress={() => {
+                haptics.light();
+                setSymbolDictionaryVisible(true);
+              }}
+              style={({ pressed }) => [
+                styles.exportButton,
+                styles.backupButton,
+                pressed && styles.exportButtonPressed,
+              ]}
+            >
+              <FontAwesome name="book" size={16} color={colors.primary} />
+              <Text style={styles.exportButtonText}>{t("settingsSymbolDictionary")}</Text>
             </Pressable>
+            <Text style={styles.clearDescription}>{t("settingsSymbolDictionaryDesc")}</Text>
+
+            {/* JSON backup */}
+            <Pressable
+              onPress={handleExportBackup}
+              disabled={isBackingUp}
+              style={({ pressed }) => [
+                styles.exportButton,
+                styles.backupButton,
+                pressed && styles.exportButtonPressed,
+                isBackingUp && styles.exportButtonDisabled,
+              ]}
+            >
+              <FontAwesome name="download" size={16} color={colors.primary} />
+              <Text style={styles.exportButtonText}>{t("settingsExportBackup")}</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleImportBackup}
+              disabled={isBackingUp}
+              style={({ pressed }) => [
+                styles.exportButton,
+                styles.backupButton,
+                pressed && styles.exportButtonPressed,
+                isBackingUp && styles.exportButtonDisabled,
+              ]}
+            >
+              <FontAwesome name="upload" size={16} color={colors.primary} />
+              <Text style={styles.exportButtonText}>{t("settingsImportBackup")}</Text>
+            </Pressable>
+            <Text style={styles.clearDescription}>{t("settingsBackupDesc")}</Text>
 
             <View style={styles.divider} />
 
@@ -623,18 +977,18 @@ export default function SettingsScreen() {
               ]}
             >
               <FontAwesome name="trash" size={16} color="#EF4444" />
-              <Text style={styles.dangerButtonText}>{t.clearHistory}</Text>
+              <Text style={styles.dangerButtonText}>{t("settingsClearHistory")}</Text>
             </Pressable>
-            <Text style={styles.clearDescription}>{t.clearHistoryDescription}</Text>
+            <Text style={styles.clearDescription}>{t("settingsClearHistoryDesc")}</Text>
           </GlassCard>
         </Animated.View>
 
         {/* About Section */}
         <Animated.View entering={FadeInUp.duration(400).delay(400)}>
-          <Text style={styles.sectionLabel}>{t.about}</Text>
+          <Text style={styles.sectionLabel}>{t("settingsAbout")}</Text>
           <GlassCard intensity="light" style={styles.card}>
             <View style={styles.aboutRow}>
-              <Text style={styles.aboutLabel}>{t.version}</Text>
+              <Text style={styles.aboutLabel}>{t("settingsVersion")}</Text>
               <Text style={styles.aboutValue}>{appVersion}</Text>
             </View>
 
@@ -646,7 +1000,7 @@ export default function SettingsScreen() {
                 <Text style={styles.creditEmoji}>✨</Text>
                 <Text style={styles.creditEmoji}>🔮</Text>
               </View>
-              <Text style={styles.creditsText}>{t.madeWith}</Text>
+              <Text style={styles.creditsText}>{t("settingsMadeWith")}</Text>
               <View style={styles.techBadges}>
                 <View style={styles.techBadge}>
                   <Text style={styles.techBadgeText}>AI SDK 6</Text>
@@ -670,7 +1024,7 @@ export default function SettingsScreen() {
               ]}
             >
               <FontAwesome name="shield" size={16} color={colors.textMuted} />
-              <Text style={styles.linkText}>{t.privacyPolicy}</Text>
+              <Text style={styles.linkText}>{t("settingsPrivacy")}</Text>
               <FontAwesome name="external-link" size={12} color={colors.textDim} />
             </Pressable>
           </GlassCard>
@@ -678,9 +1032,43 @@ export default function SettingsScreen() {
 
         {/* Footer */}
         <Animated.View entering={FadeInUp.duration(400).delay(500)}>
-          <Text style={styles.footer}>Unitulkki © 2026</Text>
+          <Text style={styles.footer}>{t("settingsCopyright")}</Text>
         </Animated.View>
       </ScrollView>
+
+      <ExportSheet
+        visible={exportDreams !== null}
+        dreams={exportDreams ?? []}
+        hasPremiumAccess={hasPremiumAccess}
+        onExport={handleExport}
+        onClose={() => setExportDreams(null)}
+      />
+
+      <ImportPreviewModal
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImported={handleDreamsImported}
+      />
+
+      <SymbolDictionaryModal
+        visible={symbolDictionaryVisible}
+        onClose={() => setSymbolDictionaryVisible(false)}
+      />
+
+      <ProfileModal
+        visible={profileVisible}
+        onClose={() => setProfileVisible(false)}
+        onSaved={(profile) => setProfileEnabled(hasProfileContext(profile))}
+      />
+
+      <PassphraseSetupModal
+        visible={passphraseModalVisible}
+        onSubmit={async (passphrase) => {
+          await journalLock.enable(passphrase);
+          showSuccess(t("settingsLockEnabled"));
+        }}
+        onClose={() => setPassphraseModalVisible(false)}
+      />
     </GradientBackground>
   );
 }
@@ -779,6 +1167,25 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  // Achievements
+  trophyIconUnlocked: {
+    backgroundColor: `${colors.accent}20`,
+  },
+  trophyIconLocked: {
+    backgroundColor: colors.surface,
+    opacity: 0.5,
+  },
+  trophyEmoji: {
+    fontSize: 20,
+  },
+  trophyTitleLocked: {
+    color: colors.textMuted,
+  },
+  trophyProgress: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textDim,
+  },
   // Divider
   divider: {
     height: 1,
@@ -844,6 +1251,9 @@ const styles = StyleSheet.create({
   exportButtonPressed: {
     backgroundColor: `${colors.primary}33`,
   },
+  backupButton: {
+    marginTop: spacing.sm,
+  },
   exportButtonDisabled: {
     opacity: 0.6,
   },
@@ -852,13 +1262,6 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.sm,
     color: colors.primary,
   },
-  premiumBadge: {
-    backgroundColor: `${colors.accent}33`,
-    paddingHorizontal: spacing.xs,
-    paddingVertical: 2,
-    borderRadius: radius.xs,
-    marginLeft: spacing.xs,
-  },
   dataInfoText: {
     fontFamily: typography.families.body.medium,
     fontSize: typography.sizes.sm,
@@ -1,17 +1,20 @@
 import { Link, Stack } from "expo-router";
 import { StyleSheet, View, Text } from "react-native";
 import { colors } from "@/lib/design-tokens";
+import { useI18n } from "@/contexts";
 
 export default function NotFoundScreen() {
+  const { t } = useI18n();
+
   return (
     <>
-      <Stack.Screen options={{ title: "Hups!" }} />
+      <Stack.Screen options={{ title: t("notFoundTitle") }} />
       <View style={styles.container}>
-        <Text style={styles.title}>Sivua ei löytynyt</Text>
-        <Text style={styles.subtitle}>Tätä sivua ei ole olemassa.</Text>
+        <Text style={styles.title}>{t("notFoundHeading")}</Text>
+        <Text style={styles.subtitle}>{t("notFoundMessage")}</Text>
 
         <Link href="/" style={styles.link}>
-          <Text style={styles.linkText}>Takaisin etusivulle</Text>
+          <Text style={styles.linkText}>{t("notFoundBack")}</Text>
         </Link>
       </View>
     </>
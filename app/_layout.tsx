@@ -7,7 +7,7 @@ import {
 import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import "react-native-reanimated";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import * as Notifications from "expo-notifications";
@@ -19,7 +19,7 @@ import { useColorScheme } from "@/components/useColorScheme";
 import { useDreamFonts } from "@/lib/fonts";
 import { colors } from "@/lib/design-tokens";
 import { initHaptics } from "@/lib/haptics";
-import { PremiumProvider, usePremium } from "@/contexts";
+import { PremiumProvider, usePremium, JournalLockProvider, I18nProvider } from "@/contexts";
 import { PremiumModal } from "@/components/premium";
 import { initializeAnalytics } from "@/lib/analytics";
 import {
@@ -27,6 +27,10 @@ import {
   handleNotificationResponse,
 } from "@/lib/notifications";
 import { initializeIAP } from "@/lib/iap";
+import { runMigrations } from "@/lib/migrations";
+import { isJournalLockEnabled } from "@/lib/journal-lock";
+import { getPreferences } from "@/lib/preferences";
+import { setLocale } from "@/lib/i18n";
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -66,6 +70,9 @@ export default function RootLayout() {
 
   const allFontsLoaded = iconFontsLoaded && customFontsLoaded;
 
+  // Storage must be migrated and the language known before any screen renders
+  const [storageReady, setStorageReady] = useState(false);
+
   // Track notification response listener
   const notificationResponseListener = useRef<Notifications.EventSubscription | null>(null);
 
@@ -75,7 +82,16 @@ export default function RootLayout() {
   }, [error]);
 
   useEffect(() => {
-    if (allFontsLoaded) {
+    // Load the lock state first so nothing writes plain records while locked
+    isJournalLockEnabled()
+      .then(runMigrations)
+      .then(getPreferences)
+      .then((preferences) => setLocale(preferences.language))
+      .finally(() => setStorageReady(true));
+  }, []);
+
+  useEffect(() => {
+    if (allFontsLoaded && storageReady) {
       // Initialize core services
       initHaptics();
       initializeAnalytics();
@@ -99,9 +115,9 @@ export default function RootLayout() {
         notificationResponseListener.current.remove();
       }
     };
-  }, [allFontsLoaded]);
+  }, [allFontsLoaded, storageReady]);
 
-  if (!allFontsLoaded) {
+  if (!allFontsLoaded || !storageReady) {
     return null;
   }
 
@@ -114,33 +130,37 @@ function RootLayoutNav() {
   // Always use dark theme for DreamAI aesthetic
   return (
     <SafeAreaProvider>
-      <PremiumProvider>
-        <ThemeProvider value={DreamDarkTheme}>
-          <Stack
-            screenOptions={{
-              headerStyle: {
-                backgroundColor: colors.background,
-              },
-              headerTintColor: colors.text,
-              contentStyle: {
-                backgroundColor: colors.background,
-              },
-            }}
-          >
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen
-              name="modal"
-              options={{
-                presentation: "modal",
-                headerStyle: {
-                  backgroundColor: colors.backgroundGradientStart,
-                },
-              }}
-            />
-          </Stack>
-          <PremiumModalWrapper />
-        </ThemeProvider>
-      </PremiumProvider>
+      <I18nProvider>
+        <PremiumProvider>
+          <ThemeProvider value={DreamDarkTheme}>
+            <JournalLockProvider>
+              <Stack
+                screenOptions={{
+                  headerStyle: {
+                    backgroundColor: colors.background,
+                  },
+                  headerTintColor: colors.text,
+                  contentStyle: {
+                    backgroundColor: colors.background,
+                  },
+                }}
+              >
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                <Stack.Screen
+                  name="modal"
+                  options={{
+                    presentation: "modal",
+                    headerStyle: {
+                      backgroundColor: colors.backgroundGradientStart,
+                    },
+                  }}
+                />
+              </Stack>
+              <PremiumModalWrapper />
+            </JournalLockProvider>
+          </ThemeProvider>
+        </PremiumProvider>
+      </I18nProvider>
     </SafeAreaProvider>
   );
 }
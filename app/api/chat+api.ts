@@ -0,0 +1,57 @@
+import { perplexity } from "@ai-sdk/perplexity";
+import { streamText, createUIMessageStreamResponse } from "ai";
+import {
+  buildFollowUpPrompt,
+  isDreamContext,
+  MAX_CHAT_MESSAGES,
+  toFollowUpMessages,
+} from "@/backend/lib/follow-up";
+import { resolveLanguage } from "@/backend/lib/language";
+
+// Type for incoming request - matches AI SDK 6 UIMessage format
+type ChatRequest = {
+  messages?: unknown;
+  dreamContext?: unknown;
+  language?: string;
+};
+
+function jsonError(error: string, code: string, status: number): Response {
+  return new Response(JSON.stringify({ error, code }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Follow-up chat about a saved dream, for local development
+export async function POST(request: Request) {
+  try {
+    const body: ChatRequest = await request.json();
+
+    if (!process.env.PERPLEXITY_API_KEY) {
+      return jsonError("API-avainta ei ole määritetty", "MISSING_API_KEY", 500);
+    }
+
+    if (!isDreamContext(body.dreamContext)) {
+      return jsonError("Unta ei annettu", "MISSING_DREAM", 400);
+    }
+
+    const messages = toFollowUpMessages(body.messages).slice(-MAX_CHAT_MESSAGES);
+    if (messages.length === 0 || messages[messages.length - 1].role !== "user") {
+      return jsonError("Viestiä ei annettu", "MISSING_MESSAGE", 400);
+    }
+
+    const result = streamText({
+      model: perplexity("sonar-pro"),
+      system: buildFollowUpPrompt(body.dreamContext, resolveLanguage(body.language)),
+      messages,
+      temperature: 0.7,
+    });
+
+    return createUIMessageStreamResponse({
+      stream: result.toUIMessageStream(),
+    });
+  } catch (error) {
+    console.error("Dream chat API error:", error);
+    return jsonError("Viestin lähetys epäonnistui. Yritä uudelleen.", "CHAT_ERROR", 500);
+  }
+}
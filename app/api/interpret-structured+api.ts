@@ -1,27 +1,24 @@
 import { perplexity } from "@ai-sdk/perplexity";
 import { generateObject } from "ai";
 import { dreamInterpretationSchema } from "@/lib/schemas/dreamInterpretation";
-
-// Structured dream interpretation system prompt
-const SYSTEM_PROMPT = `Olet Unitulkki, ammattitaitoinen AI-unitulkki joka yhdistää modernin psykologian tietämystä ja symbolista tulkintaa.
-
-Analysoi käyttäjän uni ja palauta strukturoitu tulkinta JSON-muodossa.
-
-TÄRKEÄÄ:
-- Vastaa AINA suomeksi (paitsi teknisiä kenttiä kuten mood, area jne.)
-- Ole empaattinen ja kunnioittava
-- Tunnista 1-5 keskeistä symbolia
-- Anna 1-3 yhteyttä elämäntilanteeseen
-- Pidä vastaukset tiivistettynä mutta merkityksellisinä
-- Muistuta, että tulkinta on suuntaa-antava
-
-Käytä jungilaista psykologiaa ja modernia unitutkimusta analyysissäsi.`;
+import {
+  DREAM_PROMPTS,
+  buildHistoryPrompt,
+  buildSystemPrompt,
+  filterRelatedDreams,
+  getHistoryDreamIds,
+  type HistoryContext,
+  type ProfileContext,
+} from "@/backend/lib/interpretation-prompts";
+import { resolveLanguage, type Language } from "@/backend/lib/language";
 
 // Type for incoming request
 type InterpretRequest = {
   dream: string;
-  language?: "fi" | "en";
+  language?: Language;
   includePremium?: boolean;
+  profile?: ProfileContext; // Optional "about me" context
+  history?: HistoryContext; // Optional summary of earlier dreams
 };
 
 export async function POST(request: Request) {
@@ -57,18 +54,22 @@ export async function POST(request: Request) {
     }
 
     const dreamText = body.dream.trim();
+    const language = resolveLanguage(body.language);
+    const historyDreamIds = getHistoryDreamIds(body.history);
+    const system =
+      buildSystemPrompt(body.profile, language) + buildHistoryPrompt(body.history, language);
 
     // Generate structured output using Perplexity
     const result = await generateObject({
       model: perplexity("sonar-pro"),
-      system: SYSTEM_PROMPT,
-      prompt: `Analysoi tämä uni ja palauta strukturoitu tulkinta:\n\n"${dreamText}"`,
+      system,
+      prompt: `${DREAM_PROMPTS[language]}\n\n"${dreamText}"`,
       schema: dreamInterpretationSchema,
       temperature: 0.7,
     });
 
     // Return the generated object as JSON
-    return Response.json(result.object);
+    return Response.json({ ...filterRelatedDreams(result.object, historyDreamIds), language });
 
   } catch (error) {
     console.error("Structured interpretation API error:", error);
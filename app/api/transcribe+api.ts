@@ -1,8 +1,14 @@
 
+// Whisper language hints supported by the app
+const LANGUAGES = ["fi", "en", "sv"];
+const DEFAULT_LANGUAGE = "fi";
+
 export async function POST(request: Request) {
   try {
     const formData = await request.formData();
     const file = (formData as any).get("file") as File;
+    const requested = (formData as any).get("language");
+    const language = LANGUAGES.includes(requested) ? requested : DEFAULT_LANGUAGE;
 
     if (!file) {
       return new Response(
@@ -25,7 +31,7 @@ export async function POST(request: Request) {
     const openaiFormData = new FormData();
     openaiFormData.append("file", file);
     openaiFormData.append("model", "whisper-1");
-    openaiFormData.append("language", "fi");
+    openaiFormData.append("language", language);
 
     const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
       method: "POST",
@@ -45,6 +51,7 @@ export async function POST(request: Request) {
 
     return Response.json({
       text: data.text,
+      language,
     });
   } catch (error) {
     console.error("Transcription error:", error);
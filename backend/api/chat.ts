@@ -0,0 +1,118 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { openai } from "@ai-sdk/openai";
+import { streamText } from "ai";
+import {
+  APP_USER_ID_HEADER,
+  refundUsage,
+  requireChatAccess,
+  type UsageAccess,
+} from "../lib/entitlements";
+import { buildFollowUpPrompt, isDreamContext, toFollowUpMessages } from "../lib/follow-up";
+import { getRequestLanguage } from "../lib/language";
+import { requireChatLength } from "../lib/payload-limits";
+import { RATE_LIMITS, requireRateLimit } from "../lib/rate-limit";
+
+type ChatRequest = {
+  dreamContext?: unknown;
+  messages?: unknown;
+};
+
+/**
+ * Follow-up chat about a saved dream
+ *
+ * Streams the reply as a UI message stream for the app's chat transport.
+ * Every message uses one monthly chat message, not an interpretation.
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Enable CORS
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", `Content-Type, ${APP_USER_ID_HEADER}`);
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const language = getRequestLanguage(req);
+
+  if (!(await requireRateLimit(req, res, RATE_LIMITS.chat, language))) {
+    return;
+  }
+
+  let access: UsageAccess | null = null;
+
+  // The stream can fail after the catch below has already returned
+  const refund = async () => {
+    if (access) {
+      const reserved = access;
+      access = null;
+      await refundUsage(reserved);
+    }
+  };
+
+  try {
+    const body: ChatRequest = req.body ?? {};
+
+    if (!process.env.OPENAI_API_KEY) {
+      return res.status(500).json({
+        error: "API-avainta ei ole määritetty",
+        code: "MISSING_API_KEY",
+      });
+    }
+
+    if (!isDreamContext(body.dreamContext)) {
+      return res.status(400).json({
+        error: "Unta ei annettu",
+        code: "MISSING_DREAM",
+      });
+    }
+
+    const messages = toFollowUpMessages(body.messages);
+    if (messages.length === 0 || messages[messages.length - 1].role !== "user") {
+      return res.status(400).json({
+        error: "Viestiä ei annettu",
+        code: "MISSING_MESSAGE",
+      });
+    }
+
+    if (!requireChatLength(res, messages, language)) {
+      return;
+    }
+
+    // Identify the user and reserve one of their monthly chat messages
+    access = await requireChatAccess(req, res, language);
+    if (!access) {
+      return;
+    }
+
+    const result = streamText({
+      model: openai("gpt-4o-mini"),
+      system: buildFollowUpPrompt(body.dreamContext, language),
+      messages,
+      temperature: 0.7,
+      onError: async ({ error }) => {
+        console.error("Chat stream error:", error);
+        await refund();
+      },
+    });
+
+    result.pipeUIMessageStreamToResponse(res);
+  } catch (error) {
+    console.error("Chat API error:", error);
+    await refund();
+    const errorMessage =
+      error instanceof Error ? error.message : "Tuntematon virhe";
+    return res.status(500).json({
+      error: "Viestin lähetys epäonnistui. Yritä uudelleen.",
+      details: errorMessage,
+      code: "CHAT_ERROR",
+    });
+  }
+}
@@ -2,93 +2,140 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { openai } from "@ai-sdk/openai";
 import { streamObject, generateObject, jsonSchema } from "ai";
 import type { DreamInterpretation } from "../lib/schemas/dreamInterpretation";
+import {
+  APP_USER_ID_HEADER,
+  refundUsage,
+  requireInterpretationAccess,
+  type UsageAccess,
+} from "../lib/entitlements";
+import {
+  DREAM_PROMPTS,
+  buildHistoryPrompt,
+  buildSystemPrompt,
+  filterRelatedDreams,
+  getHistoryDreamIds,
+  type HistoryContext,
+  type ProfileContext,
+} from "../lib/interpretation-prompts";
+import { getRequestLanguage, resolveLanguage, type Language } from "../lib/language";
+import { requireDreamLength } from "../lib/payload-limits";
+import { RATE_LIMITS, requireRateLimit } from "../lib/rate-limit";
 
-// JSON Schema for dream interpretation with strict mode
-const dreamInterpretationJsonSchema = jsonSchema<DreamInterpretation>({
-  type: "object",
-  additionalProperties: false,
-  properties: {
-    summary: { type: "string", description: "Brief 1-2 sentence summary of the dream's meaning" },
-    mood: {
-      type: "string",
-      enum: ["peaceful", "happy", "anxious", "sad", "confused", "nostalgic", "neutral", "excited", "fearful"],
-      description: "Overall mood/emotion of the dream"
-    },
-    symbols: {
-      type: "array",
-      items: {
+/**
+ * JSON Schema for dream interpretation with strict mode. The premium block
+ * is only asked for from entitled users.
+ */
+function buildInterpretationJsonSchema(includePremium: boolean) {
+  return jsonSchema<DreamInterpretation>({
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      summary: { type: "string", description: "Brief 1-2 sentence summary of the dream's meaning" },
+      mood: {
+        type: "string",
+        enum: ["peaceful", "happy", "anxious", "sad", "confused", "nostalgic", "neutral", "excited", "fearful"],
+        description: "Overall mood/emotion of the dream"
+      },
+      symbols: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            symbol: { type: "string", description: "The dream symbol" },
+            meaning: { type: "string", description: "Psychological meaning" },
+            relevance: { type: "string", enum: ["high", "medium", "low"] }
+          },
+          required: ["symbol", "meaning", "relevance"]
+        }
+      },
+      emotionalAnalysis: {
         type: "object",
         additionalProperties: false,
         properties: {
-          symbol: { type: "string", description: "The dream symbol" },
-          meaning: { type: "string", description: "Psychological meaning" },
-          relevance: { type: "string", enum: ["high", "medium", "low"] }
+          primaryEmotion: { type: "string" },
+          secondaryEmotions: { type: "array", items: { type: "string" } },
+          subconscious: { type: "string" },
+          jungianPerspective: { type: "string" }
         },
-        required: ["symbol", "meaning", "relevance"]
-      }
-    },
-    emotionalAnalysis: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        primaryEmotion: { type: "string" },
-        secondaryEmotions: { type: "array", items: { type: "string" } },
-        subconscious: { type: "string" },
-        jungianPerspective: { type: "string" }
+        required: ["primaryEmotion", "secondaryEmotions", "subconscious", "jungianPerspective"]
       },
-      required: ["primaryEmotion", "secondaryEmotions", "subconscious", "jungianPerspective"]
-    },
-    lifeConnections: {
-      type: "array",
-      items: {
-        type: "object",
-        additionalProperties: false,
-        properties: {
-          area: {
-            type: "string",
-            enum: ["work", "relationships", "personal_growth", "health", "creativity", "spirituality", "family", "finances"]
+      lifeConnections: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            area: {
+              type: "string",
+              enum: ["work", "relationships", "personal_growth", "health", "creativity", "spirituality", "family", "finances"]
+            },
+            insight: { type: "string" },
+            actionSuggestion: { type: "string" }
           },
-          insight: { type: "string" },
-          actionSuggestion: { type: "string" }
-        },
-        required: ["area", "insight", "actionSuggestion"]
-      }
-    },
-    keyMessage: { type: "string", description: "The main message or lesson from this dream" },
-    reflectionQuestions: {
-      type: "array",
-      items: { type: "string" }
-    },
-    tags: {
-      type: "array",
-      items: { type: "string" }
+          required: ["area", "insight", "actionSuggestion"]
+        }
+      },
+      keyMessage: { type: "string", description: "The main message or lesson from this dream" },
+      reflectionQuestions: {
+        type: "array",
+        items: { type: "string" }
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" }
+      },
+      confidence: { type: "string", enum: ["high", "medium", "low"] },
+      relatedDreams: {
+        type: "array",
+        description: "Up to 3 past dreams from the given history, empty without history",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            dreamId: { type: "string", description: "Id of a past dream from the history" },
+            connection: { type: "string", description: "How the dreams are connected" }
+          },
+          required: ["dreamId", "connection"]
+        }
+      },
+      ...(includePremium
+        ? {
+            premium: {
+              type: "object",
+              additionalProperties: false,
+              description: "Deeper analysis for premium users",
+              properties: {
+                deepAnalysis: { type: "string", description: "Deeper psychological analysis" },
+                archetypeConnection: { type: "string", description: "Connection to Jungian archetypes" },
+                recurringPatterns: {
+                  type: "string",
+                  description: "How this dream repeats symbols or themes from the given dream history, empty without history"
+                }
+              },
+              required: ["deepAnalysis", "archetypeConnection", "recurringPatterns"]
+            }
+          }
+        : {})
     },
-    confidence: { type: "string", enum: ["high", "medium", "low"] }
-  },
-  required: ["summary", "mood", "symbols", "emotionalAnalysis", "lifeConnections", "keyMessage", "reflectionQuestions", "tags", "confidence"]
-});
-
-// Structured dream interpretation system prompt
-const SYSTEM_PROMPT = `Olet Unitulkki, ammattitaitoinen AI-unitulkki joka yhdistää modernin psykologian tietämystä ja symbolista tulkintaa.
-
-Analysoi käyttäjän uni ja palauta strukturoitu tulkinta.
-
-TÄRKEÄÄ:
-- Vastaa AINA suomeksi (paitsi teknisiä kenttiä kuten mood, area jne.)
-- Ole empaattinen ja kunnioittava
-- Tunnista 1-5 keskeistä symbolia
-- Anna 1-3 yhteyttä elämäntilanteeseen
-- Pidä vastaukset tiivistettynä mutta merkityksellisinä
-- Muistuta, että tulkinta on suuntaa-antava
+    required: [
+      "summary", "mood", "symbols", "emotionalAnalysis", "lifeConnections", "keyMessage", "reflectionQuestions", "tags", "confidence", "relatedDreams",
+      ...(includePremium ? ["premium"] : [])
+    ]
+  });
+}
 
-Käytä jungilaista psykologiaa ja modernia unitutkimusta analyysissäsi.`;
+const dreamInterpretationJsonSchema = buildInterpretationJsonSchema(false);
+const premiumInterpretationJsonSchema = buildInterpretationJsonSchema(true);
 
 // Type for incoming request
 type InterpretRequest = {
   dream: string;
-  language?: "fi" | "en";
-  includePremium?: boolean;
+  language?: Language;
+  includePremium?: boolean; // Entitled users get the premium block unless false
   stream?: boolean; // Optional: request streaming mode
+  profile?: ProfileContext; // Optional "about me" context
+  history?: HistoryContext; // Optional summary of earlier dreams
 };
 
 export default async function handler(
@@ -98,7 +145,7 @@ export default async function handler(
   // Enable CORS for mobile app requests
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Stream-Mode");
+  res.setHeader("Access-Control-Allow-Headers", `Content-Type, X-Stream-Mode, ${APP_USER_ID_HEADER}`);
 
   if (req.method === "OPTIONS") {
     return res.status(200).end();
@@ -120,6 +167,12 @@ export default async function handler(
     return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
   }
 
+  if (!(await requireRateLimit(req, res, RATE_LIMITS.interpret, getRequestLanguage(req)))) {
+    return;
+  }
+
+  let access: UsageAccess | null = null;
+
   try {
     const body: InterpretRequest = req.body;
 
@@ -139,7 +192,25 @@ export default async function handler(
       });
     }
 
+    if (!requireDreamLength(res, body.dream.trim(), resolveLanguage(body.language))) {
+      return;
+    }
+
+    // Identify the user and reserve one of their monthly interpretations
+    access = await requireInterpretationAccess(req, res, resolveLanguage(body.language));
+    if (!access) {
+      return;
+    }
+
     const dreamText = body.dream.trim();
+    const language = resolveLanguage(body.language);
+    const historyDreamIds = getHistoryDreamIds(body.history);
+    const system =
+      buildSystemPrompt(body.profile, language) + buildHistoryPrompt(body.history, language);
+    const schema =
+      access.premium && body.includePremium !== false
+        ? premiumInterpretationJsonSchema
+        : dreamInterpretationJsonSchema;
 
     // Check if streaming is requested (via body, header, or query)
     const wantStreaming =
@@ -151,9 +222,9 @@ export default async function handler(
       // STREAMING MODE: Use streamObject for progressive streaming
       const result = streamObject({
         model: openai("gpt-4o-mini", { structuredOutputs: true }),
-        system: SYSTEM_PROMPT,
-        prompt: `Analysoi tämä uni ja palauta strukturoitu tulkinta:\n\n"${dreamText}"`,
-        schema: dreamInterpretationJsonSchema,
+        system,
+        prompt: `${DREAM_PROMPTS[language]}\n\n"${dreamText}"`,
+        schema,
         temperature: 0.7,
       });
 
@@ -164,7 +235,8 @@ export default async function handler(
 
       // Stream partial objects to client
       for await (const partialObject of result.partialObjectStream) {
-        res.write(`data: ${JSON.stringify(partialObject)}\n\n`);
+        const filtered = filterRelatedDreams(partialObject, historyDreamIds);
+        res.write(`data: ${JSON.stringify({ ...filtered, language })}\n\n`);
       }
 
       // Send completion signal
@@ -175,18 +247,21 @@ export default async function handler(
       // This works better with React Native which doesn't support SSE streaming
       const { object } = await generateObject({
         model: openai("gpt-4o-mini", { structuredOutputs: true }),
-        system: SYSTEM_PROMPT,
-        prompt: `Analysoi tämä uni ja palauta strukturoitu tulkinta:\n\n"${dreamText}"`,
-        schema: dreamInterpretationJsonSchema,
+        system,
+        prompt: `${DREAM_PROMPTS[language]}\n\n"${dreamText}"`,
+        schema,
         temperature: 0.7,
       });
 
       // Return complete JSON response
-      return res.status(200).json(object);
+      return res.status(200).json({ ...filterRelatedDreams(object, historyDreamIds), language });
     }
 
   } catch (error) {
     console.error("Structured interpretation API error:", error);
+    if (access) {
+      await refundUsage(access);
+    }
 
     const errorMessage =
       error instanceof Error ? error.message : "Tuntematon virhe";
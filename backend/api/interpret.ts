@@ -2,6 +2,15 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { openai } from "@ai-sdk/openai";
 import { generateObject, jsonSchema } from "ai";
 import type { DreamInterpretation } from "../lib/schemas/dreamInterpretation";
+import {
+  APP_USER_ID_HEADER,
+  refundUsage,
+  requireInterpretationAccess,
+  type UsageAccess,
+} from "../lib/entitlements";
+import { getRequestLanguage } from "../lib/language";
+import { requireDreamLength } from "../lib/payload-limits";
+import { RATE_LIMITS, requireRateLimit } from "../lib/rate-limit";
 
 // JSON Schema for dream interpretation with strict mode
 const dreamInterpretationJsonSchema = jsonSchema<DreamInterpretation>({
@@ -94,7 +103,7 @@ export default async function handler(
   // Enable CORS
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", `Content-Type, ${APP_USER_ID_HEADER}`);
 
   if (req.method === "OPTIONS") {
     return res.status(200).end();
@@ -113,6 +122,14 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
+  const language = getRequestLanguage(req);
+
+  if (!(await requireRateLimit(req, res, RATE_LIMITS.interpret, language))) {
+    return;
+  }
+
+  let access: UsageAccess | null = null;
+
   try {
     const body: InterpretRequest = req.body;
 
@@ -130,6 +147,16 @@ export default async function handler(
       });
     }
 
+    if (!requireDreamLength(res, body.dream.trim(), language)) {
+      return;
+    }
+
+    // Identify the user and reserve one of their monthly interpretations
+    access = await requireInterpretationAccess(req, res, language);
+    if (!access) {
+      return;
+    }
+
     const dreamText = body.dream.trim();
 
     // Generate structured output using OpenAI
@@ -146,6 +173,9 @@ export default async function handler(
 
   } catch (error) {
     console.error("Interpretation API error:", error);
+    if (access) {
+      await refundUsage(access);
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Tuntematon virhe";
     return res.status(500).json({
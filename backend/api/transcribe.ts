@@ -1,7 +1,11 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import formidable from "formidable-serverless";
+import formidable, { type File as FormidableFile } from "formidable-serverless";
 import fs from "fs";
 import OpenAI from "openai";
+import { APP_USER_ID_HEADER } from "../lib/entitlements";
+import { getRequestLanguage, resolveLanguage } from "../lib/language";
+import { MAX_AUDIO_BYTES, requireValidAudio, sendAudioTooLarge } from "../lib/payload-limits";
+import { RATE_LIMITS, requireRateLimit } from "../lib/rate-limit";
 
 // Initialize OpenAI client with your API key
 const openai = new OpenAI({
@@ -15,12 +19,8 @@ export const config = {
   },
 };
 
-interface FormidableFile {
-  filepath: string;
-  originalFilename?: string;
-  mimetype?: string;
-  size?: number;
-}
+// Room for the multipart boundaries and form fields around the file
+const FORM_OVERHEAD_BYTES = 64 * 1024;
 
 interface ParseResult {
   fields: Record<string, string | string[]>;
@@ -34,7 +34,7 @@ export default async function handler(
   // Enable CORS for mobile app requests
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", `Content-Type, ${APP_USER_ID_HEADER}`);
 
   if (req.method === "OPTIONS") {
     return res.status(200).end();
@@ -45,17 +45,44 @@ export default async function handler(
     return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
   }
 
-  const form = new formidable.IncomingForm();
+  // The form is read later, so errors before that use the query parameter
+  const requestLanguage = getRequestLanguage(req);
+
+  if (!(await requireRateLimit(req, res, RATE_LIMITS.transcribe, requestLanguage))) {
+    return;
+  }
+
+  // Turn away oversized uploads before reading them
+  const contentLength = Number(req.headers["content-length"]);
+  if (contentLength > MAX_AUDIO_BYTES + FORM_OVERHEAD_BYTES) {
+    return sendAudioTooLarge(res, requestLanguage);
+  }
+
+  const form = new formidable.IncomingForm({ maxFileSize: MAX_AUDIO_BYTES });
 
   try {
-    const { files } = await new Promise<ParseResult>((resolve, reject) => {
-      form.parse(req as any, (err: Error | null, fields: any, files: any) => {
-        if (err) return reject(err);
-        resolve({ fields, files });
+    let parsed: ParseResult;
+    try {
+      parsed = await new Promise<ParseResult>((resolve, reject) => {
+        form.parse(req as any, (err: Error | null, fields: any, files: any) => {
+          if (err) return reject(err);
+          resolve({ fields, files });
+        });
       });
-    });
+    } catch (error) {
+      // Chunked uploads without a length only hit the limit while parsing
+      if (error instanceof Error && error.message.includes("maxFileSize")) {
+        removeOpenedFiles(form);
+        return sendAudioTooLarge(res, requestLanguage);
+      }
+      throw error;
+    }
+
+    const { fields, files } = parsed;
 
     const file = files.file as FormidableFile | undefined;
+    const requested = Array.isArray(fields.language) ? fields.language[0] : fields.language;
+    const language = requested ? resolveLanguage(requested) : requestLanguage;
 
     if (!file) {
       return res.status(400).json({
@@ -71,33 +98,32 @@ export default async function handler(
       });
     }
 
+    if (!requireValidAudio(res, file, language)) {
+      fs.unlinkSync(file.path);
+      return;
+    }
+
     const transcription = await openai.audio.transcriptions.create({
-      file: fs.createReadStream(file.filepath),
+      file: fs.createReadStream(file.path),
       model: "whisper-1",
-      language: "fi",
+      language,
     });
 
     // Clean up the temporary file created by formidable
-    if (fs.existsSync(file.filepath)) {
-      fs.unlinkSync(file.filepath);
+    if (fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
     }
 
     return res.status(200).json({
       text: transcription.text,
+      language,
     });
 
   } catch (error) {
     console.error("Transcription error:", error);
 
     // Ensure temporary files are cleaned up even on error
-    const formWithFiles = form as any;
-    if (formWithFiles.openedFiles) {
-      formWithFiles.openedFiles.forEach((tempFile: FormidableFile) => {
-        if (fs.existsSync(tempFile.filepath)) {
-          fs.unlinkSync(tempFile.filepath);
-        }
-      });
-    }
+    removeOpenedFiles(form);
 
     return res.status(500).json({
       error: "Puheentunnistus epäonnistui. Yritä uudelleen.",
@@ -106,3 +132,14 @@ export default async function handler(
     });
   }
 }
+
+// Remove the temporary files formidable has written so far
+function removeOpenedFiles(form: { openedFiles?: FormidableFile[] }) {
+  if (form.openedFiles) {
+    form.openedFiles.forEach((tempFile) => {
+      if (fs.existsSync(tempFile.path)) {
+        fs.unlinkSync(tempFile.path);
+      }
+    });
+  }
+}
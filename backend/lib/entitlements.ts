@@ -0,0 +1,431 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { DEFAULT_LANGUAGE, type Language } from "./language";
+
+/**
+ * Entitlements and usage metering
+ *
+ * Identifies the caller by their RevenueCat app user id, checks the premium
+ * entitlement and counts interpretations and follow-up chat messages per
+ * user per calendar month (UTC), each against its own limit. A slot is
+ * reserved before generating and refunded if generation fails, so parallel
+ * requests cannot go over the limit.
+ *
+ * The app user id is chosen by the client, and a reinstall gets a new one,
+ * so free use is also counted per IP address. That limit is higher than the
+ * per user one, as several users can share an address.
+ *
+ * Both parts are pluggable:
+ * - The verifier asks RevenueCat's REST API when REVENUECAT_SECRET_KEY is
+ *   set. Otherwise a local stub treats the ids in STUB_PREMIUM_USER_IDS
+ *   (comma separated) as premium, except in production, where every check
+ *   fails with 503 ENTITLEMENT_CHECK_FAILED until the key is set.
+ * - Usage is kept in Redis over its REST API when UPSTASH_REDIS_REST_URL and
+ *   UPSTASH_REDIS_REST_TOKEN (or Vercel KV's KV_REST_API_URL and
+ *   KV_REST_API_TOKEN) are set. Otherwise it is kept in memory, which resets
+ *   on every cold start and is not shared between instances, so it only
+ *   suits local development. Another store can be set with setUsageStore().
+ */
+
+// Header the app sends its RevenueCat app user id in
+export const APP_USER_ID_HEADER = "x-revenuecat-app-user-id";
+
+// Entitlement that unlocks premium, same as in the app
+export const ENTITLEMENT_ID = "Unitulkki Pro";
+
+// Monthly interpretation limits
+export const FREE_INTERPRETATIONS_PER_MONTH = 3;
+export const FREE_INTERPRETATIONS_PER_IP_PER_MONTH = 15;
+export const PREMIUM_INTERPRETATIONS_PER_MONTH = 300; // Fair use
+
+// Monthly follow-up chat limits; chat never uses up interpretations
+export const FREE_CHAT_MESSAGES_PER_MONTH = 20;
+export const FREE_CHAT_MESSAGES_PER_IP_PER_MONTH = 100;
+export const PREMIUM_CHAT_MESSAGES_PER_MONTH = 1000; // Fair use
+
+// How long a RevenueCat answer is reused
+const VERIFIER_CACHE_MS = 60 * 1000;
+
+// Usage counters are kept a little longer than the month they count
+const USAGE_TTL_SECONDS = 35 * 24 * 60 * 60;
+
+// Error messages in the language of the request
+const ERROR_MESSAGES: Record<
+  Language,
+  {
+    missingUserId: string;
+    checkFailed: string;
+    freeLimit: string;
+    monthlyLimit: string;
+    freeChatLimit: string;
+    monthlyChatLimit: string;
+  }
+> = {
+  fi: {
+    missingUserId: "Käyttäjätunnus puuttuu",
+    checkFailed: "Tilauksen tarkistus epäonnistui. Yritä hetken kuluttua uudelleen.",
+    freeLimit: "Kuukauden ilmaiset tulkinnat on käytetty",
+    monthlyLimit: "Kuukauden tulkintaraja on täynnä",
+    freeChatLimit: "Kuukauden ilmaiset keskusteluviestit on käytetty",
+    monthlyChatLimit: "Kuukauden keskusteluraja on täynnä",
+  },
+  en: {
+    missingUserId: "User id is missing",
+    checkFailed: "Checking the subscription failed. Try again in a moment.",
+    freeLimit: "This month's free interpretations have been used",
+    monthlyLimit: "This month's interpretation limit is full",
+    freeChatLimit: "This month's free chat messages have been used",
+    monthlyChatLimit: "This month's chat limit is full",
+  },
+  sv: {
+    missingUserId: "Användar-id saknas",
+    checkFailed: "Kontrollen av prenumerationen misslyckades. Försök igen om en stund.",
+    freeLimit: "Månadens gratistolkningar har använts",
+    monthlyLimit: "Månadens tolkningsgräns är nådd",
+    freeChatLimit: "Månadens gratis chattmeddelanden har använts",
+    monthlyChatLimit: "Månadens chattgräns är nådd",
+  },
+};
+
+type ErrorMessages = (typeof ERROR_MESSAGES)[Language];
+
+// A metered feature: its counter and monthly limits
+type UsageMeter = {
+  name: string;
+  freePerMonth: number;
+  freePerIpPerMonth: number;
+  premiumPerMonth: number;
+  freeLimitMessage: keyof ErrorMessages;
+  monthlyLimitMessage: keyof ErrorMessages;
+};
+
+const INTERPRETATION_METER: UsageMeter = {
+  name: "interpretations",
+  freePerMonth: FREE_INTERPRETATIONS_PER_MONTH,
+  freePerIpPerMonth: FREE_INTERPRETATIONS_PER_IP_PER_MONTH,
+  premiumPerMonth: PREMIUM_INTERPRETATIONS_PER_MONTH,
+  freeLimitMessage: "freeLimit",
+  monthlyLimitMessage: "monthlyLimit",
+};
+
+const CHAT_METER: UsageMeter = {
+  name: "chat",
+  freePerMonth: FREE_CHAT_MESSAGES_PER_MONTH,
+  freePerIpPerMonth: FREE_CHAT_MESSAGES_PER_IP_PER_MONTH,
+  premiumPerMonth: PREMIUM_CHAT_MESSAGES_PER_MONTH,
+  freeLimitMessage: "freeChatLimit",
+  monthlyLimitMessage: "monthlyChatLimit",
+};
+
+/**
+ * Resolves whether an app user has the premium entitlement
+ */
+export type EntitlementVerifier = (appUserId: string) => Promise<boolean>;
+
+/**
+ * Counter storage for metered usage; both updates are atomic and return
+ * the new count
+ */
+export type UsageStore = {
+  increment: (key: string) => Promise<number>;
+  decrement: (key: string) => Promise<number>;
+};
+
+// Caller allowed to use a metered feature, with the slots reserved for them
+export type UsageAccess = {
+  appUserId: string;
+  premium: boolean;
+  usageKeys: string[];
+};
+
+/**
+ * Verifier backed by the RevenueCat REST API
+ */
+export function createRevenueCatVerifier(secretKey: string): EntitlementVerifier {
+  const cache = new Map<string, { premium: boolean; checkedAt: number }>();
+
+  return async (appUserId) => {
+    const cached = cache.get(appUserId);
+    if (cached && Date.now() - cached.checkedAt < VERIFIER_CACHE_MS) {
+      return cached.premium;
+    }
+
+    const response = await fetch(
+      `https://api.revenuecat.com/v1/subscribers/${encodeURIComponent(appUserId)}`,
+      { headers: { Authorization: `Bearer ${secretKey}` } }
+    );
+    if (!response.ok) {
+      throw new Error(`RevenueCat request failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      subscriber?: { entitlements?: Record<string, { expires_date?: string | null }> };
+    };
+    const entitlement = data.subscriber?.entitlements?.[ENTITLEMENT_ID];
+    // Lifetime purchases never expire
+    const premium =
+      !!entitlement &&
+      (!entitlement.expires_date || new Date(entitlement.expires_date).getTime() > Date.now());
+
+    cache.set(appUserId, { premium, checkedAt: Date.now() });
+    return premium;
+  };
+}
+
+/**
+ * Verifier for local development and tests: the given ids are premium
+ */
+export function createStubVerifier(premiumUserIds: string[] = []): EntitlementVerifier {
+  const premium = new Set(premiumUserIds);
+  return async (appUserId) => premium.has(appUserId);
+}
+
+/**
+ * Verifier for a deployment without RevenueCat: every check fails
+ */
+export function createUnconfiguredVerifier(reason: string): EntitlementVerifier {
+  return async () => {
+    throw new Error(reason);
+  };
+}
+
+/**
+ * Usage store backed by Redis over the Upstash REST API
+ */
+export function createRedisRestUsageStore(url: string, token: string): UsageStore {
+  const update = async (command: "INCR" | "DECR", key: string): Promise<number> => {
+    const response = await fetch(`${url.replace(/\/$/, "")}/pipeline`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify([
+        [command, key],
+        ["EXPIRE", key, USAGE_TTL_SECONDS],
+      ]),
+    });
+    if (!response.ok) {
+      throw new Error(`Redis request failed with status ${response.status}`);
+    }
+
+    const [result] = (await response.json()) as { result?: number; error?: string }[];
+    if (typeof result?.result !== "number") {
+      throw new Error(`Redis ${command} failed: ${result?.error ?? "no result"}`);
+    }
+    return result.result;
+  };
+
+  return {
+    increment: (key) => update("INCR", key),
+    decrement: (key) => update("DECR", key),
+  };
+}
+
+/**
+ * Usage store that lives as long as the server process
+ */
+export function createMemoryUsageStore(): UsageStore {
+  const counts = new Map<string, number>();
+  return {
+    increment: async (key) => {
+      const count = (counts.get(key) ?? 0) + 1;
+      counts.set(key, count);
+      return count;
+    },
+    decrement: async (key) => {
+      const count = Math.max(0, (counts.get(key) ?? 0) - 1);
+      counts.set(key, count);
+      return count;
+    },
+  };
+}
+
+function createDefaultVerifier(): EntitlementVerifier {
+  const secretKey = process.env.REVENUECAT_SECRET_KEY;
+  if (secretKey) {
+    return createRevenueCatVerifier(secretKey);
+  }
+  // Anyone could claim premium or endless free use through the stub
+  if (process.env.NODE_ENV === "production") {
+    const reason = "REVENUECAT_SECRET_KEY is not set";
+    console.error(`Entitlement checks are disabled: ${reason}`);
+    return createUnconfiguredVerifier(reason);
+  }
+  const ids = (process.env.STUB_PREMIUM_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return createStubVerifier(ids);
+}
+
+function createDefaultUsageStore(): UsageStore {
+  const url = process.env.UPSTASH_REDIS_REST_URL ?? process.env.KV_REST_API_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN ?? process.env.KV_REST_API_TOKEN;
+  if (url && token) {
+    return createRedisRestUsageStore(url, token);
+  }
+  if (process.env.NODE_ENV === "production") {
+    console.warn("Usage is counted in memory and resets on every cold start; set a Redis store");
+  }
+  return createMemoryUsageStore();
+}
+
+let verifier: EntitlementVerifier = createDefaultVerifier();
+let usageStore: UsageStore = createDefaultUsageStore();
+
+/**
+ * Replace the entitlement verifier
+ */
+export function setEntitlementVerifier(next: EntitlementVerifier): void {
+  verifier = next;
+}
+
+/**
+ * Replace the usage store
+ */
+export function setUsageStore(next: UsageStore): void {
+  usageStore = next;
+}
+
+/**
+ * Client IP address, the first hop when behind a proxy
+ */
+export function getClientIp(req: VercelRequest): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  const realIp = req.headers["x-real-ip"];
+  return first || (Array.isArray(realIp) ? realIp[0] : realIp) || req.socket?.remoteAddress || "unknown";
+}
+
+/**
+ * RevenueCat app user id of the request, or null when missing or malformed
+ */
+export function getAppUserId(req: VercelRequest): string | null {
+  const header = req.headers[APP_USER_ID_HEADER];
+  const value = (Array.isArray(header) ? header[0] : header)?.trim();
+  return value && /^[\w$.:@-]{1,128}$/.test(value) ? value : null;
+}
+
+// Current month as "YYYY-MM"
+function getUsageMonth(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+// Start of the next month, when the counters reset
+function getResetDate(date = new Date()): string {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)).toISOString();
+}
+
+/**
+ * Check that the caller may use a metered feature this month and reserve
+ * one use. Sends the error response and returns null when they may not.
+ */
+async function requireUsageAccess(
+  req: VercelRequest,
+  res: VercelResponse,
+  meter: UsageMeter,
+  language: Language
+): Promise<UsageAccess | null> {
+  const messages = ERROR_MESSAGES[language];
+  const appUserId = getAppUserId(req);
+  if (!appUserId) {
+    res.status(401).json({
+      error: messages.missingUserId,
+      code: "MISSING_USER_ID",
+    });
+    return null;
+  }
+
+  let premium: boolean;
+  try {
+    premium = await verifier(appUserId);
+  } catch (error) {
+    console.error("Entitlement check failed:", error);
+    res.status(503).json({
+      error: messages.checkFailed,
+      code: "ENTITLEMENT_CHECK_FAILED",
+    });
+    return null;
+  }
+
+  const month = getUsageMonth();
+  const counters: { key: string; limit: number }[] = [
+    {
+      key: `${meter.name}:${appUserId}:${month}`,
+      limit: premium ? meter.premiumPerMonth : meter.freePerMonth,
+    },
+  ];
+  // Premium is verified by RevenueCat, free use only by the client's word
+  if (!premium) {
+    counters.push({
+      key: `${meter.name}:ip:${getClientIp(req)}:${month}`,
+      limit: meter.freePerIpPerMonth,
+    });
+  }
+  const usageKeys = counters.map((counter) => counter.key);
+
+  let reserved: number[];
+  try {
+    reserved = await Promise.all(usageKeys.map((key) => usageStore.increment(key)));
+  } catch (error) {
+    console.error("Reserving usage failed:", error);
+    res.status(503).json({
+      error: messages.checkFailed,
+      code: "ENTITLEMENT_CHECK_FAILED",
+    });
+    return null;
+  }
+
+  const exceeded = counters.findIndex((counter, index) => reserved[index] > counter.limit);
+  if (exceeded !== -1) {
+    await refundUsage({ appUserId, premium, usageKeys });
+    // Free users can upgrade; premium users have hit the fair use cap
+    res.status(premium ? 429 : 402).json({
+      error: messages[premium ? meter.monthlyLimitMessage : meter.freeLimitMessage],
+      code: premium ? "MONTHLY_LIMIT_REACHED" : "FREE_LIMIT_REACHED",
+      limit: counters[exceeded].limit,
+      used: reserved[exceeded] - 1,
+      resetsAt: getResetDate(),
+    });
+    return null;
+  }
+
+  return { appUserId, premium, usageKeys };
+}
+
+/**
+ * Check that the caller may interpret a dream this month and reserve one
+ * interpretation. Sends the error response and returns null when they may not.
+ */
+export function requireInterpretationAccess(
+  req: VercelRequest,
+  res: VercelResponse,
+  language: Language = DEFAULT_LANGUAGE
+): Promise<UsageAccess | null> {
+  return requireUsageAccess(req, res, INTERPRETATION_METER, language);
+}
+
+/**
+ * Check that the caller may send a follow-up chat message this month and
+ * reserve one. Sends the error response and returns null when they may not.
+ */
+export function requireChatAccess(
+  req: VercelRequest,
+  res: VercelResponse,
+  language: Language = DEFAULT_LANGUAGE
+): Promise<UsageAccess | null> {
+  return requireUsageAccess(req, res, CHAT_METER, language);
+}
+
+/**
+ * Give back a use reserved by requireInterpretationAccess() or
+ * requireChatAccess() when generating failed
+ */
+export async function refundUsage(access: UsageAccess): Promise<void> {
+  await Promise.all(
+    access.usageKeys.map(async (key) => {
+      try {
+        await usageStore.decrement(key);
+      } catch (error) {
+        console.error("Refunding usage failed:", error);
+      }
+    })
+  );
+}
@@ -0,0 +1,171 @@
+import type { Language } from "./language";
+import { dreamInterpretationSchema, type DreamInterpretation } from "./schemas/dreamInterpretation";
+
+/**
+ * Follow-up chat about a saved dream
+ *
+ * System prompts with the dream and its interpretation as context, and the
+ * conversion of the app's chat messages into model messages. Shared by the
+ * API and the app's development route.
+ */
+
+// Longest dream or interpretation text passed on as context
+export const MAX_CONTEXT_LENGTH = 6000;
+
+// Most messages in one request; the app sends only the latest ones
+export const MAX_CHAT_MESSAGES = 30;
+
+// Longest single chat message
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// System prompts for follow-up conversations about a saved dream
+const FOLLOW_UP_PROMPTS: Record<Language, string> = {
+  fi: `Olet Unitulkki, ammattitaitoinen AI-unitulkki. Käyttäjä on jo saanut tulkinnan alla olevasta unesta ja haluaa jatkaa keskustelua siitä: vastata pohdittaviin kysymyksiin tai kysyä lisää.
+
+**Tärkeää:**
+- Vastaa AINA suomeksi
+- Pysy tämän unen ja sen tulkinnan aiheissa
+- Rakenna käyttäjän vastausten ja aiemman tulkinnan päälle, älä toista tulkintaa
+- Ole empaattinen ja kunnioittava, ja muistuta tarvittaessa, että tulkinta on suuntaa-antava
+- Vastaa lyhyesti ja keskustelevasti, enintään muutamalla kappaleella
+- Voit päättää vastauksen yhdellä tarkentavalla kysymyksellä`,
+  en: `You are Unitulkki, a skilled AI dream interpreter. The user has already received an interpretation of the dream below and wants to continue the conversation about it: answer the reflection questions or ask more.
+
+**Important:**
+- ALWAYS answer in English
+- Stay on the topics of this dream and its interpretation
+- Build on the user's answers and the earlier interpretation, do not repeat the interpretation
+- Be empathetic and respectful, and remind when needed that the interpretation is indicative
+- Answer briefly and conversationally, in a few paragraphs at most
+- You may end your answer with one clarifying question`,
+  sv: `Du är Unitulkki, en skicklig AI-drömtolkare. Användaren har redan fått en tolkning av drömmen nedan och vill fortsätta samtalet om den: svara på reflektionsfrågorna eller fråga mer.
+
+**Viktigt:**
+- Svara ALLTID på svenska
+- Håll dig till ämnena i den här drömmen och dess tolkning
+- Bygg vidare på användarens svar och den tidigare tolkningen, upprepa inte tolkningen
+- Var empatisk och respektfull, och påminn vid behov om att tolkningen är vägledande
+- Svara kort och samtalsmässigt, med högst några stycken
+- Du kan avsluta svaret med en förtydligande fråga`,
+};
+
+// Headings of the dream context in follow-up prompts
+const FOLLOW_UP_LABELS: Record<
+  Language,
+  {
+    dream: string;
+    interpretation: string;
+    keyMessage: string;
+    symbols: string;
+    emotions: string;
+    primaryEmotion: string;
+    reflection: string;
+  }
+> = {
+  fi: {
+    dream: "Uni",
+    interpretation: "Tulkinta",
+    keyMessage: "Avainviesti",
+    symbols: "Symbolit",
+    emotions: "Tunnemaailma",
+    primaryEmotion: "Päätunne",
+    reflection: "Pohdittavaa",
+  },
+  en: {
+    dream: "Dream",
+    interpretation: "Interpretation",
+    keyMessage: "Key message",
+    symbols: "Symbols",
+    emotions: "Emotions",
+    primaryEmotion: "Primary emotion",
+    reflection: "Reflection",
+  },
+  sv: {
+    dream: "Dröm",
+    interpretation: "Tolkning",
+    keyMessage: "Huvudbudskap",
+    symbols: "Symboler",
+    emotions: "Känslor",
+    primaryEmotion: "Huvudkänsla",
+    reflection: "Att fundera på",
+  },
+};
+
+// Saved dream that a follow-up conversation is about
+export type DreamContext = {
+  content: string;
+  interpretation: string;
+  structured?: DreamInterpretation;
+};
+
+// One turn of the conversation as sent to the model
+export type FollowUpMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+/**
+ * Check that the client sent a dream to talk about
+ */
+export function isDreamContext(value: unknown): value is DreamContext {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as DreamContext).content === "string" &&
+    (value as DreamContext).content.trim().length > 0
+  );
+}
+
+/**
+ * User and assistant turns of the app's chat messages as plain text.
+ * Other roles and non-text parts are dropped, so the client cannot add
+ * system instructions.
+ */
+export function toFollowUpMessages(messages: unknown): FollowUpMessage[] {
+  if (!Array.isArray(messages)) return [];
+
+  return messages.flatMap((message): FollowUpMessage[] => {
+    const role = message?.role;
+    if (role !== "user" && role !== "assistant") return [];
+
+    const parts: unknown[] = Array.isArray(message.parts) ? message.parts : [];
+    const content = parts
+      .map((part) =>
+        part && typeof part === "object" && (part as { type?: unknown }).type === "text"
+          ? (part as { text?: unknown }).text
+          : undefined
+      )
+      .filter((text): text is string => typeof text === "string")
+      .join("");
+    return content ? [{ role, content }] : [];
+  });
+}
+
+/**
+ * Follow-up system prompt with the dream and its interpretation as context
+ */
+export function buildFollowUpPrompt(context: DreamContext, language: Language): string {
+  const labels = FOLLOW_UP_LABELS[language];
+  const sections = [
+    FOLLOW_UP_PROMPTS[language],
+    `## ${labels.dream}\n${context.content.slice(0, MAX_CONTEXT_LENGTH)}`,
+  ];
+
+  // Sent by the client, so only used when it is a valid interpretation
+  const parsed = dreamInterpretationSchema.safeParse(context.structured);
+  if (parsed.success) {
+    const structured = parsed.data;
+    sections.push(
+      `## ${labels.interpretation}\n${structured.summary}\n\n${labels.keyMessage}: ${structured.keyMessage}`,
+      `## ${labels.symbols}\n${structured.symbols
+        .map((symbol) => `- ${symbol.symbol}: ${symbol.meaning}`)
+        .join("\n")}`,
+      `## ${labels.emotions}\n${labels.primaryEmotion}: ${structured.emotionalAnalysis.primaryEmotion}\n${structured.emotionalAnalysis.subconscious}`,
+      `## ${labels.reflection}\n${structured.reflectionQuestions.map((q) => `- ${q}`).join("\n")}`
+    );
+  } else if (typeof context.interpretation === "string" && context.interpretation) {
+    sections.push(`## ${labels.interpretation}\n${context.interpretation.slice(0, MAX_CONTEXT_LENGTH)}`);
+  }
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,27 @@
+import type { VercelRequest } from "@vercel/node";
+
+/**
+ * Languages the API answers in
+ */
+export const LANGUAGES = ["fi", "en", "sv"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "fi";
+
+/**
+ * Language of the request, falling back to Finnish
+ */
+export function resolveLanguage(language: unknown): Language {
+  return LANGUAGES.includes(language as Language) ? (language as Language) : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Language of a request from its JSON body or, for uploads whose body is
+ * read later, the `language` query parameter
+ */
+export function getRequestLanguage(req: VercelRequest): Language {
+  const body: unknown = req.body;
+  const fromBody =
+    body && typeof body === "object" ? (body as { language?: unknown }).language : undefined;
+  return resolveLanguage(fromBody ?? req.query.language);
+}
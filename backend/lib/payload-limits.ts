@@ -0,0 +1,223 @@
+import type { VercelResponse } from "@vercel/node";
+import fs from "fs";
+import { DEFAULT_LANGUAGE, type Language } from "./language";
+import { MAX_CHAT_MESSAGES, MAX_CHAT_MESSAGE_LENGTH, type FollowUpMessage } from "./follow-up";
+
+/**
+ * Request size and content checks
+ *
+ * Dreams longer than MAX_DREAM_LENGTH, chat requests over the message
+ * limits and audio over the size or duration limits get 413
+ * PAYLOAD_TOO_LARGE. Audio must be a format Whisper reads,
+ * checked from both the declared MIME type and the file's own header.
+ */
+
+// Longest dream text sent for interpretation
+export const MAX_DREAM_LENGTH = 5000;
+
+// Largest audio upload; the app records at most two minutes of speech
+export const MAX_AUDIO_BYTES = 5 * 1024 * 1024;
+
+// Longest audio, with some slack over the app's recording limit
+export const MAX_AUDIO_SECONDS = 3 * 60;
+
+type AudioFormat = "mp4" | "webm" | "wav" | "mp3" | "ogg";
+
+const ERROR_MESSAGES: Record<
+  Language,
+  {
+    dreamTooLong: (max: number) => string;
+    tooManyMessages: string;
+    messageTooLong: (max: number) => string;
+    audioTooLarge: string;
+    audioTooLong: string;
+    unsupportedAudio: string;
+  }
+> = {
+  fi: {
+    dreamTooLong: (max) => `Uni on liian pitkä (enintään ${max} merkkiä)`,
+    tooManyMessages: "Keskustelu on liian pitkä",
+    messageTooLong: (max) => `Viesti on liian pitkä (enintään ${max} merkkiä)`,
+    audioTooLarge: "Äänitiedosto on liian suuri",
+    audioTooLong: "Äänitallenne on liian pitkä",
+    unsupportedAudio: "Äänitiedoston muotoa ei tueta",
+  },
+  en: {
+    dreamTooLong: (max) => `The dream is too long (at most ${max} characters)`,
+    tooManyMessages: "The conversation is too long",
+    messageTooLong: (max) => `The message is too long (at most ${max} characters)`,
+    audioTooLarge: "The audio file is too large",
+    audioTooLong: "The audio recording is too long",
+    unsupportedAudio: "The audio format is not supported",
+  },
+  sv: {
+    dreamTooLong: (max) => `Drömmen är för lång (högst ${max} tecken)`,
+    tooManyMessages: "Samtalet är för långt",
+    messageTooLong: (max) => `Meddelandet är för långt (högst ${max} tecken)`,
+    audioTooLarge: "Ljudfilen är för stor",
+    audioTooLong: "Ljudinspelningen är för lång",
+    unsupportedAudio: "Ljudfilens format stöds inte",
+  },
+};
+
+// Accepted MIME types and the container each should contain
+const AUDIO_MIME_TYPES: Record<string, AudioFormat> = {
+  "audio/m4a": "mp4",
+  "audio/x-m4a": "mp4",
+  "audio/mp4": "mp4",
+  "audio/webm": "webm",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/ogg": "ogg",
+};
+
+/**
+ * Send 413 PAYLOAD_TOO_LARGE with the limit that was exceeded
+ */
+export function sendPayloadTooLarge(res: VercelResponse, error: string, limit: number): void {
+  res.status(413).json({
+    error,
+    code: "PAYLOAD_TOO_LARGE",
+    limit,
+  });
+}
+
+/**
+ * Send 413 PAYLOAD_TOO_LARGE for an audio upload over MAX_AUDIO_BYTES
+ */
+export function sendAudioTooLarge(res: VercelResponse, language: Language = DEFAULT_LANGUAGE): void {
+  sendPayloadTooLarge(res, ERROR_MESSAGES[language].audioTooLarge, MAX_AUDIO_BYTES);
+}
+
+/**
+ * Check the dream text length. Sends 413 and returns false when too long.
+ */
+export function requireDreamLength(
+  res: VercelResponse,
+  dream: string,
+  language: Language = DEFAULT_LANGUAGE
+): boolean {
+  if (dream.length <= MAX_DREAM_LENGTH) {
+    return true;
+  }
+  sendPayloadTooLarge(res, ERROR_MESSAGES[language].dreamTooLong(MAX_DREAM_LENGTH), MAX_DREAM_LENGTH);
+  return false;
+}
+
+/**
+ * Check the number and length of chat messages. Sends 413 and returns
+ * false when over a limit.
+ */
+export function requireChatLength(
+  res: VercelResponse,
+  messages: FollowUpMessage[],
+  language: Language = DEFAULT_LANGUAGE
+): boolean {
+  if (messages.length > MAX_CHAT_MESSAGES) {
+    sendPayloadTooLarge(res, ERROR_MESSAGES[language].tooManyMessages, MAX_CHAT_MESSAGES);
+    return false;
+  }
+  if (messages.some((message) => message.content.length > MAX_CHAT_MESSAGE_LENGTH)) {
+    sendPayloadTooLarge(
+      res,
+      ERROR_MESSAGES[language].messageTooLong(MAX_CHAT_MESSAGE_LENGTH),
+      MAX_CHAT_MESSAGE_LENGTH
+    );
+    return false;
+  }
+  return true;
+}
+
+// Container format from the first bytes of the file
+function detectAudioFormat(data: Buffer): AudioFormat | null {
+  if (data.length < 12) return null;
+  if (data.toString("latin1", 4, 8) === "ftyp") return "mp4";
+  if (data.readUInt32BE(0) === 0x1a45dfa3) return "webm";
+  if (data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WAVE") return "wav";
+  if (data.toString("latin1", 0, 3) === "ID3" || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) return "mp3";
+  if (data.toString("latin1", 0, 4) === "OggS") return "ogg";
+  return null;
+}
+
+// Payload range of the first box of the given type between start and end
+function findMp4Box(data: Buffer, start: number, end: number, type: string): [number, number] | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = data.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return null;
+      size = Number(data.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Box runs to the end
+    }
+    if (size < headerSize) return null;
+
+    if (data.toString("latin1", offset + 4, offset + 8) === type) {
+      return [offset + headerSize, Math.min(offset + size, end)];
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/**
+ * Duration of an MP4/M4A file in seconds from its movie header, or null
+ * when the header is missing
+ */
+export function getMp4DurationSeconds(data: Buffer): number | null {
+  const moov = findMp4Box(data, 0, data.length, "moov");
+  const mvhd = moov && findMp4Box(data, moov[0], moov[1], "mvhd");
+  if (!mvhd) return null;
+
+  const [start, end] = mvhd;
+  const version = data[start];
+  if (version === 1 && start + 32 <= end) {
+    const timescale = data.readUInt32BE(start + 20);
+    return timescale ? Number(data.readBigUInt64BE(start + 24)) / timescale : null;
+  }
+  if (version === 0 && start + 20 <= end) {
+    const timescale = data.readUInt32BE(start + 12);
+    return timescale ? data.readUInt32BE(start + 16) / timescale : null;
+  }
+  return null;
+}
+
+/**
+ * Check an uploaded audio file's size, type and duration.
+ * Sends 413 or 415 and returns false when it is not accepted.
+ */
+export function requireValidAudio(
+  res: VercelResponse,
+  file: { path: string; type?: string | null; size?: number },
+  language: Language = DEFAULT_LANGUAGE
+): boolean {
+  const data = fs.readFileSync(file.path);
+  if (data.length > MAX_AUDIO_BYTES) {
+    sendAudioTooLarge(res, language);
+    return false;
+  }
+
+  const mimeType = (file.type ?? "").split(";")[0].trim().toLowerCase();
+  const expected = AUDIO_MIME_TYPES[mimeType];
+  if (!expected || detectAudioFormat(data) !== expected) {
+    res.status(415).json({
+      error: ERROR_MESSAGES[language].unsupportedAudio,
+      code: "UNSUPPORTED_MEDIA_TYPE",
+    });
+    return false;
+  }
+
+  // Other formats are bounded by the size limit alone
+  const duration = expected === "mp4" ? getMp4DurationSeconds(data) : null;
+  if (duration !== null && duration > MAX_AUDIO_SECONDS) {
+    sendPayloadTooLarge(res, ERROR_MESSAGES[language].audioTooLong, MAX_AUDIO_SECONDS);
+    return false;
+  }
+
+  return true;
+}
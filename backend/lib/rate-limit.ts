@@ -0,0 +1,154 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getAppUserId, getClientIp } from "./entitlements";
+import { DEFAULT_LANGUAGE, type Language } from "./language";
+
+/**
+ * Token bucket rate limiting
+ *
+ * Every client has a bucket per route, keyed by IP address and, when the
+ * app sends one, by RevenueCat app user id. A request takes a token and
+ * buckets refill at a steady rate, so short bursts pass but sustained
+ * floods get 429 RATE_LIMITED.
+ *
+ * Buckets are kept in memory unless another store is set with
+ * setRateLimitStore(). Serverless instances do not share memory, so use
+ * a shared store in production.
+ */
+
+// Bucket size and refill speed
+export type RateLimitRule = {
+  capacity: number;
+  refillPerMinute: number;
+};
+
+// Limits for one route, by IP and by app user
+export type RouteRateLimits = {
+  name: string;
+  ip: RateLimitRule;
+  user?: RateLimitRule;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterSeconds: number;
+};
+
+/**
+ * Bucket storage; consume() takes one token atomically for its key
+ */
+export type RateLimitStore = {
+  consume: (key: string, rule: RateLimitRule) => Promise<RateLimitResult>;
+};
+
+export const RATE_LIMITS = {
+  interpret: {
+    name: "interpret",
+    ip: { capacity: 20, refillPerMinute: 10 },
+    user: { capacity: 10, refillPerMinute: 4 },
+  },
+  chat: {
+    name: "chat",
+    ip: { capacity: 30, refillPerMinute: 15 },
+    user: { capacity: 15, refillPerMinute: 6 },
+  },
+  transcribe: {
+    name: "transcribe",
+    ip: { capacity: 10, refillPerMinute: 5 },
+    user: { capacity: 5, refillPerMinute: 2 },
+  },
+} satisfies Record<string, RouteRateLimits>;
+
+// Buckets not touched for this long are dropped from memory
+const MEMORY_BUCKET_TTL_MS = 60 * 60 * 1000;
+
+// Idle buckets are swept at most this often, so requests in between never scan
+const MEMORY_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+const RATE_LIMITED_MESSAGES: Record<Language, string> = {
+  fi: "Liian monta pyyntöä. Odota hetki ja yritä uudelleen.",
+  en: "Too many requests. Wait a moment and try again.",
+  sv: "För många förfrågningar. Vänta en stund och försök igen.",
+};
+
+/**
+ * Store that lives as long as the server process
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  let lastSweep = Date.now();
+
+  return {
+    consume: async (key, rule) => {
+      const now = Date.now();
+
+      // Drop idle buckets now and then so memory stays bounded
+      if (now - lastSweep > MEMORY_SWEEP_INTERVAL_MS) {
+        lastSweep = now;
+        for (const [bucketKey, bucket] of buckets) {
+          if (now - bucket.updatedAt > MEMORY_BUCKET_TTL_MS) buckets.delete(bucketKey);
+        }
+      }
+
+      const refillPerMs = rule.refillPerMinute / 60000;
+      const bucket = buckets.get(key) ?? { tokens: rule.capacity, updatedAt: now };
+      const tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+      if (tokens < 1) {
+        buckets.set(key, { tokens, updatedAt: now });
+        return { allowed: false, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) };
+      }
+
+      buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replace the bucket store
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * Take a token from the caller's buckets for the route.
+ * Sends 429 RATE_LIMITED and returns false when one is empty.
+ */
+export async function requireRateLimit(
+  req: VercelRequest,
+  res: VercelResponse,
+  limits: RouteRateLimits,
+  language: Language = DEFAULT_LANGUAGE
+): Promise<boolean> {
+  const checks: [string, RateLimitRule][] = [[`${limits.name}:ip:${getClientIp(req)}`, limits.ip]];
+  const appUserId = getAppUserId(req);
+  if (appUserId && limits.user) {
+    checks.push([`${limits.name}:user:${appUserId}`, limits.user]);
+  }
+
+  for (const [key, rule] of checks) {
+    let result: RateLimitResult;
+    try {
+      result = await store.consume(key, rule);
+    } catch (error) {
+      // A broken store should not take the API down with it
+      console.error("Rate limit check failed:", error);
+      continue;
+    }
+
+    if (!result.allowed) {
+      res.setHeader("Retry-After", String(result.retryAfterSeconds));
+      res.status(429).json({
+        error: RATE_LIMITED_MESSAGES[language],
+        code: "RATE_LIMITED",
+        retryAfter: result.retryAfterSeconds,
+      });
+      return false;
+    }
+  }
+
+  return true;
+}
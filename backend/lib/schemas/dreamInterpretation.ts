@@ -30,11 +30,17 @@ export const lifeConnectionSchema = z.object({
   actionSuggestion: z.string().optional().describe("Suggested action or reflection"),
 });
 
+// Earlier dream from the user's history that this dream relates to
+export const relatedDreamSchema = z.object({
+  dreamId: z.string().describe("Id of the earlier dream, as given in the history"),
+  connection: z.string().describe("What links the two dreams (shared symbol, mood or theme)"),
+});
+
 // Premium insight (for monetization)
 export const premiumInsightSchema = z.object({
   deepAnalysis: z.string().describe("Deeper psychological analysis"),
   archetypeConnection: z.string().optional().describe("Connection to Jungian archetypes"),
-  recurringPatterns: z.string().optional().describe("If this matches common recurring dream patterns"),
+  recurringPatterns: z.string().optional().describe("How this dream repeats symbols or themes from the given dream history"),
 });
 
 // Main interpretation schema
@@ -72,6 +78,12 @@ export const dreamInterpretationSchema = z.object({
     .max(5)
     .describe("Tags for categorizing this dream (e.g., flying, water, chase)"),
 
+  // Links to earlier dreams, only when history was sent with the request
+  relatedDreams: z.array(relatedDreamSchema)
+    .max(3)
+    .optional()
+    .describe("Earlier dreams from the given history that relate to this dream"),
+
   // Premium content (for monetization)
   premium: premiumInsightSchema.optional()
     .describe("Deeper analysis available in premium tier"),
@@ -85,6 +97,7 @@ export const dreamInterpretationSchema = z.object({
 export type Symbol = z.infer<typeof symbolSchema>;
 export type EmotionalAnalysis = z.infer<typeof emotionalAnalysisSchema>;
 export type LifeConnection = z.infer<typeof lifeConnectionSchema>;
+export type RelatedDream = z.infer<typeof relatedDreamSchema>;
 export type PremiumInsight = z.infer<typeof premiumInsightSchema>;
 export type DreamInterpretation = z.infer<typeof dreamInterpretationSchema>;
 
@@ -1,10 +1,11 @@
 declare module 'formidable-serverless' {
   import { IncomingMessage } from 'http';
 
+  // File as described by formidable 1.x, which formidable-serverless wraps
   interface File {
-    filepath: string;
-    originalFilename: string | null;
-    mimetype: string | null;
+    path: string;
+    name: string | null;
+    type: string | null;
     size: number;
   }
 
@@ -0,0 +1,358 @@
+import { useMemo, useState } from "react";
+import { View, Text, StyleSheet, Pressable } from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { GlassCard } from "@/components/ui";
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { moodColors, type Mood } from "@/lib/schemas/dreamInterpretation";
+import { type Dream } from "@/lib/storage";
+import { getStreakRuns, type StreakSettings } from "@/lib/streak";
+import { toLocalDateKey, toDreamDayKey, parseDateKey, addDays } from "@/lib/dates";
+import { lightTap, selectionChange } from "@/lib/haptics";
+import { formatDate, type TranslationKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts";
+
+type DreamCalendarProps = {
+  dreams: Dream[]; // Dreams shown on the days, possibly filtered
+  journal: Dream[]; // Whole journal, for streaks
+  streakSettings: StreakSettings;
+  selectedDay: string; // YYYY-MM-DD
+  onSelectDay: (day: string) => void;
+};
+
+// Weekday headers, Monday first
+const WEEKDAY_KEYS: TranslationKey[] = [
+  "dayShortMonday",
+  "dayShortTuesday",
+  "dayShortWednesday",
+  "dayShortThursday",
+  "dayShortFriday",
+  "dayShortSaturday",
+  "dayShortSunday",
+];
+
+type DayCell = {
+  key: string;
+  day: number;
+  mood: Mood | null; // Dominant mood of the day's dreams
+  count: number;
+  inRun: boolean; // Part of a streak of 2+ days, frozen days included
+  runStart: boolean;
+  runEnd: boolean;
+};
+
+/**
+ * Most common mood of a day; ties go to the latest dream
+ */
+function getDominantMood(dreams: Dream[]): Mood {
+  const counts: Partial<Record<Mood, number>> = {};
+  let best = dreams[0].mood || "neutral";
+
+  for (const dream of dreams) {
+    const mood = dream.mood || "neutral";
+    counts[mood] = (counts[mood] || 0) + 1;
+  }
+  // Dreams are newest first, so strict comparison keeps the latest on ties
+  for (const dream of dreams) {
+    const mood = dream.mood || "neutral";
+    if ((counts[mood] ?? 0) > (counts[best] ?? 0)) {
+      best = mood;
+    }
+  }
+  return best;
+}
+
+/**
+ * Build week rows (Monday first) for a month
+ */
+function buildMonth(
+  month: Date,
+  byDay: Map<string, Dream[]>,
+  runDays: Map<string, { start: boolean; end: boolean }>
+): (DayCell | null)[][] {
+  const year = month.getFullYear();
+  const monthIndex = month.getMonth();
+  const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+  // getDay(): 0 = Sunday; shift so Monday = 0
+  const leading = (new Date(year, monthIndex, 1).getDay() + 6) % 7;
+
+  const cells: (DayCell | null)[] = Array(leading).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    const key = toLocalDateKey(new Date(year, monthIndex, day, 12));
+    const dayDreams = byDay.get(key) ?? [];
+    const run = runDays.get(key);
+    cells.push({
+      key,
+      day,
+      mood: dayDreams.length > 0 ? getDominantMood(dayDreams) : null,
+      count: dayDreams.length,
+      inRun: !!run,
+      runStart: run?.start ?? false,
+      runEnd: run?.end ?? false,
+    });
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (DayCell | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+export function DreamCalendar({
+  dreams,
+  journal,
+  streakSettings,
+  selectedDay,
+  onSelectDay,
+}: DreamCalendarProps) {
+  const { t } = useI18n();
+  const [month, setMonth] = useState(() => {
+    const selected = parseDateKey(selectedDay);
+    return new Date(selected.getFullYear(), selected.getMonth(), 1);
+  });
+  const today = toLocalDateKey(new Date());
+
+  // Dreams grouped by local day
+  const byDay = useMemo(() => {
+    const map = new Map<string, Dream[]>();
+    for (const dream of dreams) {
+      const key = toLocalDateKey(new Date(dream.createdAt));
+      map.set(key, [...(map.get(key) ?? []), dream]);
+    }
+    return map;
+  }, [dreams]);
+
+  // Days that belong to a streak of two or more days, counted like the
+  // streak badge: over the whole journal, by dream day and with freezes
+  const runDays = useMemo(() => {
+    const dayKeys = journal.map((dream) =>
+      toDreamDayKey(new Date(dream.createdAt), streakSettings.dayCutoffHour)
+    );
+    const map = new Map<string, { start: boolean; end: boolean }>();
+    for (const run of getStreakRuns(dayKeys, { useFreezes: true })) {
+      if (run.length < 2) continue;
+      for (let key = run.start; key <= run.end; key = addDays(key, 1)) {
+        map.set(key, { start: key === run.start, end: key === run.end });
+      }
+    }
+    return map;
+  }, [journal, streakSettings.dayCutoffHour]);
+
+  const weeks = useMemo(() => buildMonth(month, byDay, runDays), [month, byDay, runDays]);
+
+  const monthLabel = formatDate(month, {
+    month: "long",
+    year: "numeric",
+  });
+
+  const changeMonth = (delta: number) => {
+    lightTap();
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  };
+
+  return (
+    <GlassCard intensity="light" style={styles.card}>
+      {/* Month navigation */}
+      <View style={styles.header}>
+        <Pressable onPress={() => changeMonth(-1)} hitSlop={10} style={styles.navButton}>
+          <FontAwesome name="chevron-left" size={14} color={colors.textMuted} />
+        </Pressable>
+        <Text style={styles.monthLabel}>{monthLabel}</Text>
+        <Pressable onPress={() => changeMonth(1)} hitSlop={10} style={styles.navButton}>
+          <FontAwesome name="chevron-right" size={14} color={colors.textMuted} />
+        </Pressable>
+      </View>
+
+      {/* Weekday headers */}
+      <View style={styles.row}>
+        {WEEKDAY_KEYS.map((key) => (
+          <Text key={key} style={styles.weekday}>
+            {t(key)}
+          </Text>
+        ))}
+      </View>
+
+      {/* Days */}
+      {weeks.map((week, weekIndex) => (
+        <View key={weekIndex} style={styles.row}>
+          {week.map((cell, dayIndex) => {
+            if (!cell) {
+              return <View key={dayIndex} style={styles.cell} />;
+            }
+
+            const isSelected = cell.key === selectedDay;
+            const moodColor = cell.mood ? moodColors[cell.mood] : null;
+            // Bands are cut at week edges and rounded at run ends
+            const roundLeft = cell.runStart || dayIndex === 0;
+            const roundRight = cell.runEnd || dayIndex === 6;
+
+            return (
+              <Pressable
+                key={cell.key}
+                style={styles.cell}
+                onPress={() => {
+                  selectionChange();
+                  onSelectDay(cell.key);
+                }}
+              >
+                {cell.inRun && (
+                  <View
+                    style={[
+                      styles.streakBand,
+                      roundLeft && styles.streakBandStart,
+                      roundRight && styles.streakBandEnd,
+                    ]}
+                  />
+                )}
+                <View
+                  style={[
+                    styles.day,
+                    moodColor && { backgroundColor: `${moodColor}40`, borderColor: moodColor },
+                    isSelected && styles.daySelected,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.dayText,
+                      cell.key === today && styles.todayText,
+                      !!moodColor && styles.dayTextMarked,
+                    ]}
+                  >
+                    {cell.day}
+                  </Text>
+                </View>
+                {cell.count > 1 && <Text style={styles.count}>{cell.count}</Text>}
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        <View style={styles.legendBand} />
+        <Text style={styles.legendText}>{t("calendarStreak")}</Text>
+      </View>
+    </GlassCard>
+  );
+}
+
+const CELL_SIZE = 36;
+
+const styles = StyleSheet.create({
+  card: {
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  navButton: {
+    width: 32,
+    height: 32,
+    borderRadius: radius.full,
+    backgroundColor: colors.surface,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  monthLabel: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+    textTransform: "capitalize",
+  },
+  row: {
+    flexDirection: "row",
+  },
+  weekday: {
+    flex: 1,
+    textAlign: "center",
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+    marginBottom: spacing.xs,
+  },
+  cell: {
+    flex: 1,
+    height: CELL_SIZE + 8,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  streakBand: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: CELL_SIZE - 6,
+    backgroundColor: `${colors.accent}25`,
+  },
+  streakBandStart: {
+    left: 4,
+    borderTopLeftRadius: radius.full,
+    borderBottomLeftRadius: radius.full,
+  },
+  streakBandEnd: {
+    right: 4,
+    borderTopRightRadius: radius.full,
+    borderBottomRightRadius: radius.full,
+  },
+  day: {
+    width: CELL_SIZE - 6,
+    height: CELL_SIZE - 6,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: "transparent",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  daySelected: {
+    borderColor: colors.white,
+    borderWidth: 2,
+  },
+  dayText: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  dayTextMarked: {
+    fontFamily: typography.families.body.semiBold,
+    color: colors.text,
+  },
+  todayText: {
+    color: colors.accent,
+    fontFamily: typography.families.body.bold,
+  },
+  count: {
+    position: "absolute",
+    top: 2,
+    right: 4,
+    fontFamily: typography.families.body.bold,
+    fontSize: 9,
+    color: colors.textMuted,
+  },
+  legend: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  legendBand: {
+    width: 24,
+    height: 10,
+    borderRadius: radius.full,
+    backgroundColor: `${colors.accent}25`,
+  },
+  legendText: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+});
+
+export default DreamCalendar;
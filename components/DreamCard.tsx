@@ -12,23 +12,17 @@ import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { GlassCard } from "@/components/ui";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import { type Dream } from "@/lib/storage";
+import { moodEmojis } from "@/lib/schemas/dreamInterpretation";
+import { getHighlightRanges, type HighlightRange } from "@/lib/search";
 import { lightTap, warningFeedback } from "@/lib/haptics";
+import { useI18n } from "@/contexts/I18nContext";
+import { formatDate } from "@/lib/i18n";
 
 type DreamCardProps = {
   dream: Dream;
   onPress: (dream: Dream) => void;
   onDelete: (dream: Dream) => void;
-};
-
-// Mood emoji mapping
-const moodEmojis: Record<string, string> = {
-  peaceful: "😌",
-  happy: "😊",
-  anxious: "😰",
-  sad: "😢",
-  confused: "😕",
-  nostalgic: "🕰️",
-  neutral: "🌙",
+  highlightQuery?: string; // Active search query to highlight
 };
 
 // Tag color mapping
@@ -45,21 +39,21 @@ const tagColors: Record<string, string> = {
   rakkaus: "#F43F5E", // rose
 };
 
-// Format date in Finnish
-function formatDate(dateString: string): string {
+// Relative date for recent dreams
+function formatRelativeDate(dateString: string, t: ReturnType<typeof useI18n>["t"]): string {
   const date = new Date(dateString);
   const now = new Date();
   const diffTime = Math.abs(now.getTime() - date.getTime());
   const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
 
   if (diffDays === 0) {
-    return "Tänään";
+    return t("historyToday");
   } else if (diffDays === 1) {
-    return "Eilen";
+    return t("historyYesterday");
   } else if (diffDays < 7) {
-    return `${diffDays} päivää sitten`;
+    return t("historyDaysAgo", { count: diffDays });
   } else {
-    return date.toLocaleDateString("fi-FI", {
+    return formatDate(date, {
       day: "numeric",
       month: "short",
     });
@@ -72,9 +66,73 @@ function truncate(text: string, maxLength: number): string {
   return text.substring(0, maxLength).trim() + "...";
 }
 
+// Cut a preview window around the first search match
+function snippet(
+  text: string,
+  ranges: HighlightRange[],
+  maxLength: number
+): { text: string; ranges: HighlightRange[] } {
+  if (ranges.length === 0 || ranges[0].end <= maxLength) {
+    return { text: truncate(text, maxLength), ranges };
+  }
+
+  // Start a little before the first match so it has some context
+  const offset = Math.max(0, ranges[0].start - 20);
+  return {
+    text: "..." + truncate(text.substring(offset), maxLength),
+    ranges: ranges.map((r) => ({ start: r.start - offset + 3, end: r.end - offset + 3 })),
+  };
+}
+
+// Text with search matches highlighted
+function HighlightedText({
+  text,
+  query,
+  maxLength,
+  style,
+  numberOfLines,
+}: {
+  text: string;
+  query?: string;
+  maxLength: number;
+  style: object;
+  numberOfLines: number;
+}) {
+  const preview = snippet(text, query ? getHighlightRanges(text, query) : [], maxLength);
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+
+  for (const range of preview.ranges) {
+    if (range.start >= preview.text.length) break;
+    if (range.start > cursor) {
+      parts.push({ text: preview.text.substring(cursor, range.start), highlighted: false });
+    }
+    parts.push({ text: preview.text.substring(range.start, range.end), highlighted: true });
+    cursor = range.end;
+  }
+  if (cursor < preview.text.length) {
+    parts.push({ text: preview.text.substring(cursor), highlighted: false });
+  }
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts.map((part, index) =>
+        part.highlighted ? (
+          <Text key={index} style={styles.highlight}>
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        )
+      )}
+    </Text>
+  );
+}
+
 const SWIPE_THRESHOLD = -80;
 
-export function DreamCard({ dream, onPress, onDelete }: DreamCardProps) {
+export function DreamCard({ dream, onPress, onDelete, highlightQuery }: DreamCardProps) {
+  const { t } = useI18n();
   const translateX = useSharedValue(0);
   const itemHeight = useSharedValue(1);
   const opacity = useSharedValue(1);
@@ -130,7 +188,7 @@ export function DreamCard({ dream, onPress, onDelete }: DreamCardProps) {
       {/* Delete background */}
       <Animated.View style={[styles.deleteBackground, deleteButtonStyle]}>
         <FontAwesome name="trash" size={24} color={colors.white} />
-        <Text style={styles.deleteText}>Poista</Text>
+        <Text style={styles.deleteText}>{t("historyDelete")}</Text>
       </Animated.View>
 
       {/* Swipeable card */}
@@ -146,7 +204,7 @@ export function DreamCard({ dream, onPress, onDelete }: DreamCardProps) {
                     size={12}
                     color={colors.textDim}
                   />
-                  <Text style={styles.date}>{formatDate(dream.createdAt)}</Text>
+                  <Text style={styles.date}>{formatRelativeDate(dream.createdAt, t)}</Text>
                 </View>
                 <Text style={styles.moodEmoji}>
                   {moodEmojis[dream.mood || "neutral"]}
@@ -154,14 +212,24 @@ export function DreamCard({ dream, onPress, onDelete }: DreamCardProps) {
               </View>
 
               {/* Dream preview */}
-              <Text style={styles.preview} numberOfLines={2}>
-                {truncate(dream.content, 100)}
-              </Text>
+              <HighlightedText
+                text={dream.content}
+                query={highlightQuery}
+                maxLength={100}
+                style={styles.preview}
+                numberOfLines={2}
+              />
 
               {/* Interpretation preview */}
-              <Text style={styles.interpretation} numberOfLines={2}>
-                {truncate(dream.interpretation, 120)}
-              </Text>
+              {dream.interpretation ? (
+                <HighlightedText
+                  text={dream.interpretation}
+                  query={highlightQuery}
+                  maxLength={120}
+                  style={styles.interpretation}
+                  numberOfLines={2}
+                />
+              ) : null}
 
               {/* Tags */}
               {dream.tags && dream.tags.length > 0 && (
@@ -172,6 +240,9 @@ export function DreamCard({ dream, onPress, onDelete }: DreamCardProps) {
                       style={[
                         styles.tag,
                         { backgroundColor: `${tagColors[tag] || colors.primary}20` },
+                        !!highlightQuery &&
+                          getHighlightRanges(tag, highlightQuery).length > 0 &&
+                          styles.tagHighlighted,
                       ]}
                     >
                       <Text
@@ -189,7 +260,7 @@ export function DreamCard({ dream, onPress, onDelete }: DreamCardProps) {
 
               {/* Footer */}
               <View style={styles.footer}>
-                <Text style={styles.readMore}>Lue lisää</Text>
+                <Text style={styles.readMore}>{t("historyReadMore")}</Text>
                 <FontAwesome
                   name="chevron-right"
                   size={12}
@@ -261,6 +332,10 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: spacing.sm,
   },
+  highlight: {
+    backgroundColor: `${colors.accent}40`,
+    color: colors.text,
+  },
   tagsContainer: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -272,6 +347,10 @@ const styles = StyleSheet.create({
     paddingVertical: spacing.xs,
     borderRadius: radius.md,
   },
+  tagHighlighted: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+  },
   tagText: {
     fontFamily: typography.families.body.medium,
     fontSize: typography.sizes.xs,
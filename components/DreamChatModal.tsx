@@ -0,0 +1,344 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Platform,
+  KeyboardAvoidingView,
+  ActivityIndicator,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { MarkdownContent } from "@/components/ui";
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { getStructuredInterpretation, type Dream } from "@/lib/storage";
+import { useDreamChat } from "@/hooks/useDreamChat";
+import { lightTap } from "@/lib/haptics";
+import { useI18n } from "@/contexts";
+
+// Longest message the user can send
+const MAX_MESSAGE_LENGTH = 1000;
+
+type DreamChatModalProps = {
+  visible: boolean;
+  dream: Dream | null;
+  onConversationSaved?: (dream: Dream) => void;
+  onClose: () => void;
+};
+
+export function DreamChatModal({
+  visible,
+  dream,
+  onConversationSaved,
+  onClose,
+}: DreamChatModalProps) {
+  const { t } = useI18n();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={onClose}>
+            <Text style={styles.headerButton}>{t("actionClose")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("chatTitle")}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {/* A new thread for each dream */}
+        {dream && (
+          <DreamChatThread
+            key={dream.id}
+            dream={dream}
+            onConversationSaved={onConversationSaved}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+function DreamChatThread({
+  dream,
+  onConversationSaved,
+}: {
+  dream: Dream;
+  onConversationSaved?: (dream: Dream) => void;
+}) {
+  const { t } = useI18n();
+  const { messages, isLoading, error, sendMessage } = useDreamChat(dream, {
+    onConversationSaved,
+  });
+  const [input, setInput] = useState("");
+  const [question, setQuestion] = useState<string | null>(null);
+  const scrollViewRef = useRef<ScrollView>(null);
+
+  // Reflection questions not answered yet
+  const questions = (getStructuredInterpretation(dream)?.reflectionQuestions ?? []).filter(
+    (q) => !messages.some((message) => message.role === "user" && message.text.startsWith(q))
+  );
+
+  // Follow the newest message
+  useEffect(() => {
+    const timeout = setTimeout(() => scrollViewRef.current?.scrollToEnd({ animated: true }), 100);
+    return () => clearTimeout(timeout);
+  }, [messages]);
+
+  const handleSelectQuestion = (selected: string) => {
+    lightTap();
+    setQuestion((prev) => (prev === selected ? null : selected));
+  };
+
+  const handleSend = async () => {
+    const text = input.trim();
+    if (!text || isLoading) return;
+
+    lightTap();
+    setInput("");
+    setQuestion(null);
+    await sendMessage(question ? `${question}\n\n${text}` : text);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      style={styles.thread}
+    >
+      <ScrollView
+        ref={scrollViewRef}
+        style={styles.messages}
+        contentContainerStyle={styles.messagesContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {messages.length === 0 && (
+          <Text style={styles.intro}>{t("chatIntro")}</Text>
+        )}
+
+        {messages.map((message) =>
+          message.role === "user" ? (
+            <View key={message.id} style={[styles.bubble, styles.userBubble]}>
+              <Text style={styles.userText}>{message.text}</Text>
+            </View>
+          ) : (
+            <View key={message.id} style={[styles.bubble, styles.assistantBubble]}>
+              <MarkdownContent content={message.text} />
+            </View>
+          )
+        )}
+
+        {isLoading && messages[messages.length - 1]?.role === "user" && (
+          <View style={[styles.bubble, styles.assistantBubble]}>
+            <ActivityIndicator color={colors.primary} />
+          </View>
+        )}
+
+        {error && <Text style={styles.error}>{error}</Text>}
+      </ScrollView>
+
+      {/* Reflection questions */}
+      {questions.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.questions}
+          contentContainerStyle={styles.questionsContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          {questions.map((q) => (
+            <Pressable
+              key={q}
+              onPress={() => handleSelectQuestion(q)}
+              style={[styles.question, question === q && styles.questionSelected]}
+            >
+              <Text style={styles.questionText} numberOfLines={2}>
+                {q}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+
+      {/* Input */}
+      <View style={styles.inputContainer}>
+        {question && (
+          <Text style={styles.answering} numberOfLines={2}>
+            {t("chatAnswering", { question })}
+          </Text>
+        )}
+        <View style={styles.inputRow}>
+          <TextInput
+            value={input}
+            onChangeText={setInput}
+            placeholder={question ? t("chatAnswerPlaceholder") : t("chatAskPlaceholder")}
+            placeholderTextColor={colors.textDim}
+            style={styles.input}
+            multiline
+            maxLength={MAX_MESSAGE_LENGTH}
+            editable={!isLoading}
+          />
+          <Pressable
+            onPress={handleSend}
+            disabled={!input.trim() || isLoading}
+            style={[styles.sendButton, (!input.trim() || isLoading) && styles.sendButtonDisabled]}
+            accessibilityLabel={t("chatSend")}
+          >
+            <FontAwesome name="send" size={16} color={colors.white} />
+          </Pressable>
+        </View>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  thread: {
+    flex: 1,
+  },
+  messages: {
+    flex: 1,
+  },
+  messagesContent: {
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  intro: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    lineHeight: 20,
+    textAlign: "center",
+  },
+  bubble: {
+    maxWidth: "88%",
+    borderRadius: radius.lg,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 2,
+  },
+  userBubble: {
+    alignSelf: "flex-end",
+    backgroundColor: colors.primary,
+  },
+  assistantBubble: {
+    alignSelf: "flex-start",
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  userText: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.md,
+    lineHeight: 22,
+    color: colors.white,
+  },
+  error: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.error,
+    textAlign: "center",
+  },
+  questions: {
+    flexGrow: 0,
+  },
+  questionsContent: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  question: {
+    maxWidth: 260,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  questionSelected: {
+    borderColor: colors.primary,
+  },
+  questionText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.text,
+  },
+  inputContainer: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.sm,
+    paddingBottom: spacing.xl,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  answering: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textMuted,
+    marginBottom: spacing.xs,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 2,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: radius.full,
+    backgroundColor: colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sendButtonDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default DreamChatModal;
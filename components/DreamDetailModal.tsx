@@ -9,7 +9,8 @@ import {
   Share,
 } from "react-native";
 import { exportDreamAsPdf } from "@/lib/pdf-export";
-import { usePremium } from "@/contexts";
+import { usePremium, useI18n } from "@/contexts";
+import { formatDate, formatTime } from "@/lib/i18n";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -21,8 +22,16 @@ import Animated, {
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 
 import { GlassCard, GlowButton, MarkdownContent, Badge } from "@/components/ui";
+import { DreamInterpretationView } from "@/components/interpretation";
+import { DreamChatModal } from "@/components/DreamChatModal";
 import { colors, typography, spacing, radius, animation } from "@/lib/design-tokens";
-import { type Dream } from "@/lib/storage";
+import { getStructuredInterpretation, type Dream } from "@/lib/storage";
+import {
+  moodEmojis,
+  moodLabelKeys,
+  moodSchema,
+  type Mood,
+} from "@/lib/schemas/dreamInterpretation";
 import { lightTap, successFeedback, warningFeedback } from "@/lib/haptics";
 
 const { height: SCREEN_HEIGHT } = Dimensions.get("window");
@@ -32,59 +41,38 @@ type DreamDetailModalProps = {
   visible: boolean;
   onClose: () => void;
   onDelete: (dream: Dream) => void;
+  onMoodChange?: (dream: Dream, mood: Mood) => void;
+  onEdit?: (dream: Dream) => void;
+  onConversationSaved?: (dream: Dream) => void;
+  onOpenDream?: (dreamId: string) => void;
 };
 
-// Mood labels in Finnish
-const moodLabels: Record<string, string> = {
-  peaceful: "Rauhallinen",
-  happy: "Iloinen",
-  anxious: "Ahdistunut",
-  sad: "Surullinen",
-  confused: "Hämmentynyt",
-  nostalgic: "Nostalginen",
-  neutral: "Neutraali",
-};
-
-// Mood emojis
-const moodEmojis: Record<string, string> = {
-  peaceful: "😌",
-  happy: "😊",
-  anxious: "😰",
-  sad: "😢",
-  confused: "😕",
-  nostalgic: "🕰️",
-  neutral: "🌙",
+// Full date with the weekday
+const LONG_DATE: Intl.DateTimeFormatOptions = {
+  weekday: "long",
+  day: "numeric",
+  month: "long",
+  year: "numeric",
 };
 
-// Format date in Finnish
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString("fi-FI", {
-    weekday: "long",
-    day: "numeric",
-    month: "long",
-    year: "numeric",
-  });
-}
-
-function formatTime(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleTimeString("fi-FI", {
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
-
 export function DreamDetailModal({
   dream,
   visible,
   onClose,
   onDelete,
+  onMoodChange,
+  onEdit,
+  onConversationSaved,
+  onOpenDream,
 }: DreamDetailModalProps) {
   const translateY = useSharedValue(SCREEN_HEIGHT);
   const backdropOpacity = useSharedValue(0);
   const [isExporting, setIsExporting] = useState(false);
+  const [moodPickerVisible, setMoodPickerVisible] = useState(false);
+  const [openRevision, setOpenRevision] = useState<string | null>(null);
+  const [chatVisible, setChatVisible] = useState(false);
   const { isPremium, isTrialActive, openPremiumModal } = usePremium();
+  const { t } = useI18n();
   const hasPremiumAccess = isPremium || isTrialActive;
 
   useEffect(() => {
@@ -95,6 +83,9 @@ export function DreamDetailModal({
       });
       backdropOpacity.value = withTiming(1, { duration: 300 });
     } else {
+      setMoodPickerVisible(false);
+      setOpenRevision(null);
+      setChatVisible(false);
       translateY.value = withTiming(SCREEN_HEIGHT, {
         duration: 300,
         easing: Easing.inOut(Easing.ease),
@@ -117,8 +108,12 @@ export function DreamDetailModal({
 
     try {
       await Share.share({
-        message: `🌙 Uneni ${formatDate(dream.createdAt)}:\n\n${dream.content}\n\n✨ Tulkinta:\n${dream.interpretation}`,
-        title: "Unitulkki - Unitulkinta",
+        message: t("detailShareMessage", {
+          date: formatDate(dream.createdAt, LONG_DATE),
+          content: dream.content,
+          interpretation: dream.interpretation,
+        }),
+        title: t("detailShareTitle"),
       });
       successFeedback();
     } catch (error) {
@@ -146,6 +141,37 @@ export function DreamDetailModal({
     }
   };
 
+  const handleToggleMoodPicker = () => {
+    lightTap();
+    setMoodPickerVisible((prev) => !prev);
+  };
+
+  const handleSelectMood = (mood: Mood) => {
+    if (!dream) return;
+    lightTap();
+    setMoodPickerVisible(false);
+    if (mood !== (dream.mood ?? "neutral")) {
+      onMoodChange?.(dream, mood);
+    }
+  };
+
+  const handleEdit = () => {
+    if (dream && onEdit) {
+      lightTap();
+      onEdit(dream);
+    }
+  };
+
+  const handleOpenChat = () => {
+    lightTap();
+    setChatVisible(true);
+  };
+
+  const handleToggleRevision = (revisedAt: string) => {
+    lightTap();
+    setOpenRevision((prev) => (prev === revisedAt ? null : revisedAt));
+  };
+
   const handleDelete = () => {
     if (dream) {
       warningFeedback();
@@ -161,6 +187,81 @@ export function DreamDetailModal({
 
   if (!dream) return null;
 
+  const structured = getStructuredInterpretation(dream);
+
+  const revisions = dream.revisions ?? [];
+  const conversationLength = dream.conversation?.length ?? 0;
+
+  // Follow-up chat, earlier interpretations and saved time footer, shared by both layouts
+  const metaSection = (
+    <>
+      <Pressable onPress={handleOpenChat}>
+        <GlassCard intensity="medium" style={styles.chatCard}>
+          <FontAwesome name="comments-o" size={18} color={colors.primary} />
+          <View style={styles.chatCardText}>
+            <Text style={styles.chatCardTitle}>{t("detailChat")}</Text>
+            <Text style={styles.chatCardDescription}>
+              {conversationLength > 0
+                ? t("detailChatMessages", { count: conversationLength })
+                : t("detailChatDesc")}
+            </Text>
+          </View>
+          <FontAwesome name="chevron-right" size={12} color={colors.textDim} />
+        </GlassCard>
+      </Pressable>
+      {revisions.length > 0 && (
+        <View style={styles.revisionsSection}>
+          <Text style={styles.tagsTitle}>
+            {t("detailRevisions", { count: revisions.length })}
+          </Text>
+          {revisions.map((revision) => {
+            const isOpen = openRevision === revision.revisedAt;
+            return (
+              <GlassCard key={revision.revisedAt} intensity="light" style={styles.revision}>
+                <Pressable
+                  onPress={() => handleToggleRevision(revision.revisedAt)}
+                  style={styles.revisionHeader}
+                >
+                  <FontAwesome name="history" size={14} color={colors.textDim} />
+                  <Text style={styles.revisionTitle}>
+                    {t("detailRevisedAt", {
+                      date: formatDate(revision.revisedAt, LONG_DATE),
+                      time: formatTime(revision.revisedAt),
+                    })}
+                  </Text>
+                  <FontAwesome
+                    name={isOpen ? "chevron-up" : "chevron-down"}
+                    size={12}
+                    color={colors.textDim}
+                  />
+                </Pressable>
+                {isOpen && (
+                  <View style={styles.revisionBody}>
+                    {revision.content !== dream.content && (
+                      <Text style={styles.revisionContent}>{revision.content}</Text>
+                    )}
+                    <MarkdownContent
+                      content={revision.interpretation}
+                      variant="interpretation"
+                    />
+                  </View>
+                )}
+              </GlassCard>
+            );
+          })}
+        </View>
+      )}
+      <View style={styles.metaSection}>
+        <View style={styles.metaItem}>
+          <FontAwesome name="clock-o" size={14} color={colors.textDim} />
+          <Text style={styles.metaText}>
+            {t("detailSavedAt", { time: formatTime(dream.createdAt) })}
+          </Text>
+        </View>
+      </View>
+    </>
+  );
+
   return (
     <View style={[styles.container, { pointerEvents: visible ? "auto" : "none" }]}>
       {/* Backdrop */}
@@ -178,76 +279,135 @@ export function DreamDetailModal({
 
           {/* Header */}
           <View style={styles.header}>
-            <View style={styles.headerLeft}>
+            <Pressable
+              onPress={handleToggleMoodPicker}
+              disabled={!onMoodChange}
+              style={styles.headerLeft}
+              accessibilityLabel={t("detailChangeMood")}
+            >
               <Text style={styles.moodEmoji}>
                 {moodEmojis[dream.mood || "neutral"]}
               </Text>
               <View>
-                <Text style={styles.moodLabel}>
-                  {moodLabels[dream.mood || "neutral"]}
-                </Text>
-                <Text style={styles.date}>{formatDate(dream.createdAt)}</Text>
+                <View style={styles.moodRow}>
+                  <Text style={styles.moodLabel}>
+                    {t(moodLabelKeys[dream.mood || "neutral"])}
+                  </Text>
+                  {onMoodChange && (
+                    <FontAwesome
+                      name={moodPickerVisible ? "chevron-up" : "chevron-down"}
+                      size={12}
+                      color={colors.textDim}
+                    />
+                  )}
+                </View>
+                <Text style={styles.date}>{formatDate(dream.createdAt, LONG_DATE)}</Text>
               </View>
-            </View>
+            </Pressable>
             <Pressable onPress={handleClose} style={styles.closeButton}>
               <FontAwesome name="times" size={20} color={colors.textDim} />
             </Pressable>
           </View>
 
-          {/* Content */}
-          <ScrollView
-            style={styles.scrollView}
-            contentContainerStyle={styles.scrollContent}
-            showsVerticalScrollIndicator={false}
-          >
-            {/* Dream content */}
-            <GlassCard intensity="medium" style={styles.section}>
-              <View style={styles.sectionHeader}>
-                <FontAwesome name="moon-o" size={16} color={colors.accent} />
-                <Text style={styles.sectionTitle}>Unesi</Text>
-              </View>
-              <Text style={styles.dreamContent}>{dream.content}</Text>
-            </GlassCard>
-
-            {/* Interpretation */}
-            <GlassCard intensity="strong" withGradient style={styles.section}>
-              <View style={styles.sectionHeader}>
-                <FontAwesome name="magic" size={16} color={colors.primary} />
-                <Text style={styles.sectionTitle}>Tulkinta</Text>
-                <View style={styles.aiTag}>
-                  <Text style={styles.aiTagText}>AI</Text>
+          {/* Mood picker - a mood set by hand is kept over the interpretation's */}
+          {moodPickerVisible && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.moodPicker}
+              contentContainerStyle={styles.moodPickerContent}
+            >
+              {moodSchema.options.map((mood) => {
+                const selected = (dream.mood ?? "neutral") === mood;
+                return (
+                  <Pressable
+                    key={mood}
+                    onPress={() => handleSelectMood(mood)}
+                    style={[styles.moodOption, selected && styles.moodOptionSelected]}
+                  >
+                    <Text style={styles.moodOptionEmoji}>{moodEmojis[mood]}</Text>
+                    <Text
+                      style={[styles.moodOptionText, selected && styles.moodOptionTextSelected]}
+                    >
+                      {t(moodLabelKeys[mood])}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          {/* Content - structured view for dreams saved with a full interpretation */}
+          {structured ? (
+            <DreamInterpretationView
+              interpretation={structured}
+              dreamContent={dream.content}
+              isPremiumUser={hasPremiumAccess}
+              onUnlockPremium={openPremiumModal}
+              onOpenRelatedDream={onOpenDream}
+              footer={metaSection}
+            />
+          ) : (
+            <ScrollView
+              style={styles.scrollView}
+              contentContainerStyle={styles.scrollContent}
+              showsVerticalScrollIndicator={false}
+            >
+              {/* Dream content */}
+              <GlassCard intensity="medium" style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <FontAwesome name="moon-o" size={16} color={colors.accent} />
+                  <Text style={styles.sectionTitle}>{t("interpretationYourDream")}</Text>
                 </View>
-              </View>
-              <MarkdownContent content={dream.interpretation} variant="interpretation" />
-            </GlassCard>
-
-            {/* Tags */}
-            {dream.tags && dream.tags.length > 0 && (
-              <View style={styles.tagsSection}>
-                <Text style={styles.tagsTitle}>Teemat</Text>
-                <View style={styles.tagsContainer}>
-                  {dream.tags.map((tag) => (
-                    <View key={tag} style={styles.tag}>
-                      <Text style={styles.tagText}>{tag}</Text>
+                <Text style={styles.dreamContent}>{dream.content}</Text>
+              </GlassCard>
+
+              {/* Interpretation - imported dreams may not have one yet */}
+              {dream.interpretation ? (
+                <GlassCard intensity="strong" withGradient style={styles.section}>
+                  <View style={styles.sectionHeader}>
+                    <FontAwesome name="magic" size={16} color={colors.primary} />
+                    <Text style={styles.sectionTitle}>{t("pdfInterpretation")}</Text>
+                    <View style={styles.aiTag}>
+                      <Text style={styles.aiTagText}>AI</Text>
                     </View>
-                  ))}
+                  </View>
+                  <MarkdownContent content={dream.interpretation} variant="interpretation" />
+                </GlassCard>
+              ) : null}
+
+              {/* Tags */}
+              {dream.tags && dream.tags.length > 0 && (
+                <View style={styles.tagsSection}>
+                  <Text style={styles.tagsTitle}>{t("interpretationThemes")}</Text>
+                  <View style={styles.tagsContainer}>
+                    {dream.tags.map((tag) => (
+                      <View key={tag} style={styles.tag}>
+                        <Text style={styles.tagText}>{tag}</Text>
+                      </View>
+                    ))}
+                  </View>
                 </View>
-              </View>
-            )}
+              )}
 
-            {/* Meta */}
-            <View style={styles.metaSection}>
-              <View style={styles.metaItem}>
-                <FontAwesome name="clock-o" size={14} color={colors.textDim} />
-                <Text style={styles.metaText}>
-                  Tallennettu klo {formatTime(dream.createdAt)}
-                </Text>
-              </View>
-            </View>
-          </ScrollView>
+              {/* Meta */}
+              {metaSection}
+            </ScrollView>
+          )}
 
           {/* Actions */}
           <View style={styles.actions}>
+            {onEdit && (
+              <GlowButton
+                variant="ghost"
+                size="sm"
+                onPress={handleEdit}
+                style={styles.actionButton}
+              >
+                <FontAwesome name="pencil" size={16} color={colors.text} />
+                <Text style={styles.actionText}>{t("actionEdit")}</Text>
+              </GlowButton>
+            )}
             <GlowButton
               variant="ghost"
               size="sm"
@@ -255,7 +415,7 @@ export function DreamDetailModal({
               style={styles.actionButton}
             >
               <FontAwesome name="share" size={16} color={colors.text} />
-              <Text style={styles.actionText}>Jaa</Text>
+              <Text style={styles.actionText}>{t("actionShare")}</Text>
             </GlowButton>
             <GlowButton
               variant="ghost"
@@ -280,12 +440,20 @@ export function DreamDetailModal({
             >
               <FontAwesome name="trash" size={16} color="#EF4444" />
               <Text style={[styles.actionText, { color: "#EF4444" }]}>
-                Poista
+                {t("actionDelete")}
               </Text>
             </GlowButton>
           </View>
         </View>
       </Animated.View>
+
+      {/* Follow-up chat */}
+      <DreamChatModal
+        visible={visible && chatVisible}
+        dream={dream}
+        onConversationSaved={onConversationSaved}
+        onClose={() => setChatVisible(false)}
+      />
     </View>
   );
 }
@@ -341,11 +509,51 @@ const styles = StyleSheet.create({
   moodEmoji: {
     fontSize: 36,
   },
+  moodRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs,
+  },
   moodLabel: {
     fontFamily: typography.families.heading.semiBold,
     fontSize: typography.sizes.lg,
     color: colors.text,
   },
+  moodPicker: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  moodPickerContent: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    gap: spacing.sm,
+  },
+  moodOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm + 4,
+    paddingVertical: spacing.xs + 2,
+    borderRadius: radius.full,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  moodOptionSelected: {
+    borderColor: colors.primary,
+  },
+  moodOptionEmoji: {
+    fontSize: typography.sizes.md,
+  },
+  moodOptionText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  moodOptionTextSelected: {
+    color: colors.text,
+  },
   date: {
     fontFamily: typography.families.body.regular,
     fontSize: typography.sizes.sm,
@@ -432,6 +640,55 @@ const styles = StyleSheet.create({
     color: colors.primary,
     textTransform: "capitalize",
   },
+  chatCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  chatCardText: {
+    flex: 1,
+  },
+  chatCardTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  chatCardDescription: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  revisionsSection: {
+    marginBottom: spacing.md,
+  },
+  revision: {
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  revisionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+  },
+  revisionTitle: {
+    flex: 1,
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  revisionBody: {
+    marginTop: spacing.sm,
+    gap: spacing.sm,
+  },
+  revisionContent: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    fontStyle: "italic",
+    lineHeight: 20,
+    color: colors.textDim,
+  },
   metaSection: {
     paddingTop: spacing.md,
     borderTopWidth: 1,
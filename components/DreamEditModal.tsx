@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Switch,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { moodEmojis, moodLabelKeys, moodSchema, type Mood } from "@/lib/schemas/dreamInterpretation";
+import type { Dream, DreamEdit } from "@/lib/storage";
+import { MAX_DREAM_TAGS, normalizeTags } from "@/lib/symbols";
+import haptics from "@/lib/haptics";
+import { FilterChip } from "@/components/FilterControls";
+import { useI18n } from "@/contexts";
+
+type DreamEditModalProps = {
+  visible: boolean;
+  dream: Dream | null;
+  onSave: (edit: DreamEdit, reinterpret: boolean) => Promise<void>;
+  onClose: () => void;
+};
+
+export function DreamEditModal({ visible, dream, onSave, onClose }: DreamEditModalProps) {
+  const { t } = useI18n();
+  const [content, setContent] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState("");
+  const [mood, setMood] = useState<Mood>("neutral");
+  const [reinterpret, setReinterpret] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved dream each time the modal opens
+  useEffect(() => {
+    if (visible && dream) {
+      setContent(dream.content);
+      setTags(dream.tags ?? []);
+      setNewTag("");
+      setMood(dream.mood ?? "neutral");
+      setReinterpret(false);
+      setError(null);
+    }
+  }, [visible, dream]);
+
+  const contentChanged = !!dream && content.trim() !== dream.content;
+
+  const handleAddTag = () => {
+    if (!newTag.trim()) return;
+    if (tags.length >= MAX_DREAM_TAGS) {
+      setError(t("editMaxTags", { count: MAX_DREAM_TAGS }));
+      return;
+    }
+    haptics.light();
+    setTags(normalizeTags([...tags, newTag]));
+    setNewTag("");
+    setError(null);
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    haptics.light();
+    setTags((prev) => prev.filter((existing) => existing !== tag));
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!content.trim()) {
+      setError(t("editEmptyContent"));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({ content, tags, mood }, reinterpret);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errorUpdateDream"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={onClose} disabled={isSaving}>
+            <Text style={styles.headerButton}>{t("actionCancel")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("editTitle")}</Text>
+          <Pressable onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={[styles.headerButton, styles.saveButton]}>{t("actionSave")}</Text>
+            )}
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Dream text */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("editDream")}</Text>
+            <TextInput
+              value={content}
+              onChangeText={setContent}
+              placeholder={t("editDreamPlaceholder")}
+              placeholderTextColor={colors.textDim}
+              style={[styles.input, styles.contentInput]}
+              multiline
+              textAlignVertical="top"
+              editable={!isSaving}
+            />
+          </View>
+
+          {/* Tags */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("interpretationThemes")}</Text>
+            {tags.length > 0 && (
+              <View style={styles.chips}>
+                {tags.map((tag) => (
+                  <Pressable
+                    key={tag}
+                    onPress={() => handleRemoveTag(tag)}
+                    disabled={isSaving}
+                    style={styles.tag}
+                    accessibilityLabel={t("editRemoveTag", { tag })}
+                  >
+                    <Text style={styles.tagText}>{tag}</Text>
+                    <FontAwesome name="times" size={12} color={colors.textDim} />
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            <View style={styles.addTagRow}>
+              <TextInput
+                value={newTag}
+                onChangeText={setNewTag}
+                onSubmitEditing={handleAddTag}
+                placeholder={t("editAddTag")}
+                placeholderTextColor={colors.textDim}
+                style={[styles.input, styles.tagInput]}
+                autoCapitalize="none"
+                returnKeyType="done"
+                editable={!isSaving}
+              />
+              <Pressable onPress={handleAddTag} disabled={isSaving} hitSlop={8}>
+                <FontAwesome name="plus-circle" size={24} color={colors.primary} />
+              </Pressable>
+            </View>
+          </View>
+
+          {/* Mood */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("editMood")}</Text>
+            <View style={styles.chips}>
+              {moodSchema.options.map((option) => (
+                <FilterChip
+                  key={option}
+                  label={`${moodEmojis[option]} ${t(moodLabelKeys[option])}`}
+                  selected={mood === option}
+                  onPress={() => setMood(option)}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Re-interpret */}
+          <View style={styles.section}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>{t("editReinterpret")}</Text>
+                <Text style={styles.switchDescription}>
+                  {contentChanged
+                    ? t("editReinterpretChanged")
+                    : t("editReinterpretDesc")}
+                </Text>
+              </View>
+              <Switch
+                value={reinterpret}
+                onValueChange={setReinterpret}
+                disabled={isSaving}
+                trackColor={{ false: colors.surface, true: colors.primary }}
+                thumbColor={colors.white}
+              />
+            </View>
+          </View>
+
+          {error && <Text style={styles.error}>{error}</Text>}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  saveButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  section: {
+    paddingVertical: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  sectionTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    marginBottom: spacing.md,
+  },
+  input: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 4,
+  },
+  contentInput: {
+    minHeight: 160,
+    lineHeight: 22,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+  tag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs,
+    backgroundColor: colors.surface,
+    paddingHorizontal: spacing.sm + 4,
+    paddingVertical: spacing.xs + 2,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  tagText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.text,
+  },
+  addTagRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  tagInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  switchDescription: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  error: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.error,
+    paddingVertical: spacing.md,
+  },
+});
+
+export default DreamEditModal;
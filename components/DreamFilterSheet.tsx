@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Platform,
+} from "react-native";
+
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { moodEmojis, moodLabelKeys, moodSchema } from "@/lib/schemas/dreamInterpretation";
+import {
+  DEFAULT_DREAM_FILTERS,
+  type Confidence,
+  type DreamFilters,
+  type DreamSortOrder,
+} from "@/lib/dream-filters";
+import type { TranslationKey } from "@/lib/i18n";
+import haptics from "@/lib/haptics";
+import { useI18n } from "@/contexts";
+import { DateRangeFilter, FilterChip as Chip, toggle } from "@/components/FilterControls";
+
+type DreamFilterSheetProps = {
+  visible: boolean;
+  filters: DreamFilters;
+  availableTags: string[];
+  onApply: (filters: DreamFilters) => void;
+  onClose: () => void;
+};
+
+const CONFIDENCE_OPTIONS: { id: Confidence; labelKey: TranslationKey }[] = [
+  { id: "high", labelKey: "filterConfidenceHigh" },
+  { id: "medium", labelKey: "filterConfidenceMedium" },
+  { id: "low", labelKey: "filterConfidenceLow" },
+];
+
+const SORT_OPTIONS: { id: DreamSortOrder; labelKey: TranslationKey }[] = [
+  { id: "newest", labelKey: "filterSortNewest" },
+  { id: "oldest", labelKey: "filterSortOldest" },
+  { id: "most_symbols", labelKey: "filterSortMostSymbols" },
+];
+
+export function DreamFilterSheet({
+  visible,
+  filters,
+  availableTags,
+  onApply,
+  onClose,
+}: DreamFilterSheetProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<DreamFilters>(filters);
+
+  // Start from the applied filters each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+    }
+  }, [visible, filters]);
+
+  const update = (changes: Partial<DreamFilters>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const handleApply = () => {
+    haptics.light();
+    onApply(draft);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={() => setDraft({ ...DEFAULT_DREAM_FILTERS, sort: draft.sort })}>
+            <Text style={styles.headerButton}>{t("filterClear")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("filterTitle")}</Text>
+          <Pressable onPress={handleApply}>
+            <Text style={[styles.headerButton, styles.applyButton]}>{t("filterApply")}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.content}>
+          {/* Sort */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("filterSort")}</Text>
+            <View style={styles.chips}>
+              {SORT_OPTIONS.map((option) => (
+                <Chip
+                  key={option.id}
+                  label={t(option.labelKey)}
+                  selected={draft.sort === option.id}
+                  onPress={() => update({ sort: option.id })}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Mood */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("filterMood")}</Text>
+            <View style={styles.chips}>
+              {moodSchema.options.map((mood) => (
+                <Chip
+                  key={mood}
+                  label={`${moodEmojis[mood]} ${t(moodLabelKeys[mood])}`}
+                  selected={draft.moods.includes(mood)}
+                  onPress={() => update({ moods: toggle(draft.moods, mood) })}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Tags */}
+          {availableTags.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t("interpretationThemes")}</Text>
+              <View style={styles.chips}>
+                {availableTags.map((tag) => (
+                  <Chip
+                    key={tag}
+                    label={tag}
+                    selected={draft.tags.includes(tag)}
+                    onPress={() => update({ tags: toggle(draft.tags, tag) })}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Date range */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("filterDateRange")}</Text>
+            <DateRangeFilter value={draft} onChange={update} />
+          </View>
+
+          {/* Confidence */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("filterConfidence")}</Text>
+            <View style={styles.chips}>
+              {CONFIDENCE_OPTIONS.map((option) => (
+                <Chip
+                  key={option.id}
+                  label={t(option.labelKey)}
+                  selected={draft.confidence.includes(option.id)}
+                  onPress={() => update({ confidence: toggle(draft.confidence, option.id) })}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Voice */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("filterInputMethod")}</Text>
+            <View style={styles.chips}>
+              <Chip
+                label={`🎙️ ${t("filterVoiceOnly")}`}
+                selected={draft.voiceOnly}
+                onPress={() => update({ voiceOnly: !draft.voiceOnly })}
+              />
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  applyButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  section: {
+    paddingVertical: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  sectionTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    marginBottom: spacing.md,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+});
+
+export default DreamFilterSheet;
@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Switch,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import {
+  applyDreamFilters,
+  getAvailableTags,
+  DEFAULT_DREAM_FILTERS,
+  type DreamFilters,
+} from "@/lib/dream-filters";
+import type { Dream } from "@/lib/storage";
+import type { TranslationKey } from "@/lib/i18n";
+import haptics from "@/lib/haptics";
+import { useI18n } from "@/contexts";
+import { DateRangeFilter, FilterChip, toggle } from "@/components/FilterControls";
+import { PDF_THEMES, type PdfExportOptions, type PdfTheme } from "@/lib/pdf-export";
+
+export type ExportFormat = "pdf" | "markdown" | "markdown_zip" | "csv";
+
+type ExportSheetProps = {
+  visible: boolean;
+  dreams: Dream[];
+  hasPremiumAccess: boolean;
+  onExport: (
+    format: ExportFormat,
+    dreams: Dream[],
+    pdfOptions: PdfExportOptions
+  ) => Promise<void>;
+  onClose: () => void;
+};
+
+const FORMATS: {
+  id: ExportFormat;
+  label: string;
+  descriptionKey: TranslationKey;
+  icon: React.ComponentProps<typeof FontAwesome>["name"];
+  premium?: boolean;
+}[] = [
+  {
+    id: "pdf",
+    label: "PDF",
+    descriptionKey: "exportFormatPdf",
+    icon: "file-pdf-o",
+    premium: true,
+  },
+  {
+    id: "markdown",
+    label: "Markdown",
+    descriptionKey: "exportFormatMarkdown",
+    icon: "file-text-o",
+  },
+  {
+    id: "markdown_zip",
+    label: "Markdown (zip)",
+    descriptionKey: "exportFormatMarkdownZip",
+    icon: "file-archive-o",
+  },
+  {
+    id: "csv",
+    label: "CSV",
+    descriptionKey: "exportFormatCsv",
+    icon: "table",
+  },
+];
+
+export function ExportSheet({
+  visible,
+  dreams,
+  hasPremiumAccess,
+  onExport,
+  onClose,
+}: ExportSheetProps) {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<ExportFormat>("pdf");
+  const [filters, setFilters] = useState<DreamFilters>(DEFAULT_DREAM_FILTERS);
+  const [pdfOptions, setPdfOptions] = useState<PdfExportOptions>({
+    theme: "light",
+    pageBreak: "flow",
+    tableOfContents: true,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Start from the whole journal each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setFilters(DEFAULT_DREAM_FILTERS);
+    }
+  }, [visible]);
+
+  const availableTags = useMemo(() => getAvailableTags(dreams), [dreams]);
+  const selectedDreams = useMemo(() => applyDreamFilters(dreams, filters), [dreams, filters]);
+
+  const update = (changes: Partial<DreamFilters>) =>
+    setFilters((prev) => ({ ...prev, ...changes }));
+
+  const updatePdf = (changes: Partial<PdfExportOptions>) =>
+    setPdfOptions((prev) => ({ ...prev, ...changes }));
+
+  const handleExport = async () => {
+    haptics.light();
+    setIsExporting(true);
+    try {
+      await onExport(format, selectedDreams, pdfOptions);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={onClose} disabled={isExporting}>
+            <Text style={styles.headerButton}>{t("actionCancel")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("settingsExportDreams")}</Text>
+          <Pressable onPress={handleExport} disabled={isExporting || selectedDreams.length === 0}>
+            {isExporting ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text
+                style={[
+                  styles.headerButton,
+                  styles.exportButton,
+                  selectedDreams.length === 0 && styles.headerButtonDisabled,
+                ]}
+              >
+                {t("exportButton", { count: selectedDreams.length })}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.content}>
+          {/* Format */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("exportFormat")}</Text>
+            <View style={styles.formats}>
+              {FORMATS.map((option) => {
+                const isSelected = format === option.id;
+                return (
+                  <Pressable
+                    key={option.id}
+                    onPress={() => {
+                      haptics.selection();
+                      setFormat(option.id);
+                    }}
+                    style={[styles.formatOption, isSelected && styles.formatOptionSelected]}
+                  >
+                    <FontAwesome
+                      name={option.icon}
+                      size={18}
+                      color={isSelected ? colors.primary : colors.textMuted}
+                    />
+                    <View style={styles.formatText}>
+                      <Text style={styles.formatLabel}>{option.label}</Text>
+                      <Text style={styles.formatDescription}>{t(option.descriptionKey)}</Text>
+                    </View>
+                    {option.premium && !hasPremiumAccess && (
+                      <FontAwesome name="diamond" size={12} color={colors.accent} />
+                    )}
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* PDF layout */}
+          {format === "pdf" && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t("pdfTheme")}</Text>
+              <View style={styles.chips}>
+                {(Object.keys(PDF_THEMES) as PdfTheme[]).map((theme) => (
+                  <FilterChip
+                    key={theme}
+                    label={t(PDF_THEMES[theme].labelKey)}
+                    selected={pdfOptions.theme === theme}
+                    onPress={() => updatePdf({ theme })}
+                  />
+                ))}
+              </View>
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>{t("exportTableOfContents")}</Text>
+                <Switch
+                  value={pdfOptions.tableOfContents}
+                  onValueChange={(tableOfContents) => updatePdf({ tableOfContents })}
+                  trackColor={{ false: colors.surface, true: colors.primary }}
+                  thumbColor={colors.white}
+                />
+              </View>
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>{t("exportPageBreak")}</Text>
+                <Switch
+                  value={pdfOptions.pageBreak === "dream"}
+                  onValueChange={(value) => updatePdf({ pageBreak: value ? "dream" : "flow" })}
+                  trackColor={{ false: colors.surface, true: colors.primary }}
+                  thumbColor={colors.white}
+                />
+              </View>
+            </View>
+          )}
+
+          {/* Date range */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("filterDateRange")}</Text>
+            <DateRangeFilter value={filters} onChange={update} />
+          </View>
+
+          {/* Tags */}
+          {availableTags.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t("interpretationThemes")}</Text>
+              <View style={styles.chips}>
+                {availableTags.map((tag) => (
+                  <FilterChip
+                    key={tag}
+                    label={tag}
+                    selected={filters.tags.includes(tag)}
+                    onPress={() => update({ tags: toggle(filters.tags, tag) })}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+
+          <Text style={styles.summary}>
+            {selectedDreams.length === 0
+              ? t("exportNoMatches")
+              : t("exportSelected", { selected: selectedDreams.length, count: dreams.length })}
+          </Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
+  exportButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  section: {
+    paddingVertical: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  sectionTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    marginBottom: spacing.md,
+  },
+  formats: {
+    gap: spacing.sm,
+  },
+  formatOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  formatOptionSelected: {
+    borderColor: colors.primary,
+    backgroundColor: `${colors.primary}1A`,
+  },
+  formatText: {
+    flex: 1,
+  },
+  formatLabel: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  formatDescription: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: spacing.md,
+  },
+  switchLabel: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  summary: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    textAlign: "center",
+    paddingVertical: spacing.lg,
+  },
+});
+
+export default ExportSheet;
@@ -0,0 +1,190 @@
+/**
+ * Chips and date range controls shared by the filter and export sheets
+ */
+
+import { useState } from "react";
+import { View, Text, StyleSheet, Pressable, Platform } from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { toLocalDateKey } from "@/lib/dates";
+import type { DatePreset, DreamFilters } from "@/lib/dream-filters";
+import type { TranslationKey } from "@/lib/i18n";
+import haptics from "@/lib/haptics";
+import { useI18n } from "@/contexts";
+
+export const DATE_PRESETS: { id: DatePreset; labelKey: TranslationKey }[] = [
+  { id: "all", labelKey: "filterDateAll" },
+  { id: "7d", labelKey: "filterDate7d" },
+  { id: "30d", labelKey: "filterDate30d" },
+  { id: "90d", labelKey: "filterDate90d" },
+  { id: "365d", labelKey: "filterDate365d" },
+  { id: "custom", labelKey: "filterDateCustom" },
+];
+
+export type DateRange = Pick<DreamFilters, "datePreset" | "dateFrom" | "dateTo">;
+
+// Add or remove a value from a list
+export function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export function FilterChip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={() => {
+        haptics.selection();
+        onPress();
+      }}
+      style={[styles.chip, selected && styles.chipSelected]}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+export function DateRangeFilter({
+  value,
+  onChange,
+}: {
+  value: DateRange;
+  onChange: (changes: Partial<DateRange>) => void;
+}) {
+  const { t } = useI18n();
+  const [openPicker, setOpenPicker] = useState<"from" | "to" | null>(null);
+
+  const handleDateChange = (field: "from" | "to") => (event: any, date?: Date) => {
+    if (Platform.OS === "android") {
+      setOpenPicker(null);
+    }
+    if (event.type === "set" && date) {
+      onChange(
+        field === "from" ? { dateFrom: toLocalDateKey(date) } : { dateTo: toLocalDateKey(date) }
+      );
+    }
+  };
+
+  const renderDateField = (field: "from" | "to", label: string) => {
+    const key = field === "from" ? value.dateFrom : value.dateTo;
+    const date = key ? new Date(`${key}T12:00:00`) : new Date();
+
+    return (
+      <View style={styles.dateRow}>
+        <Text style={styles.dateLabel}>{label}</Text>
+        {Platform.OS === "ios" ? (
+          <DateTimePicker
+            value={date}
+            mode="date"
+            display="compact"
+            onChange={handleDateChange(field)}
+            themeVariant="dark"
+          />
+        ) : (
+          <>
+            <Pressable style={styles.dateButton} onPress={() => setOpenPicker(field)}>
+              <Text style={styles.dateButtonText}>{key ?? t("filterDatePick")}</Text>
+              <FontAwesome name="calendar" size={14} color={colors.textDim} />
+            </Pressable>
+            {openPicker === field && (
+              <DateTimePicker
+                value={date}
+                mode="date"
+                display="default"
+                onChange={handleDateChange(field)}
+              />
+            )}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <View style={styles.chips}>
+        {DATE_PRESETS.map((preset) => (
+          <FilterChip
+            key={preset.id}
+            label={t(preset.labelKey)}
+            selected={value.datePreset === preset.id}
+            onPress={() => onChange({ datePreset: preset.id })}
+          />
+        ))}
+      </View>
+      {value.datePreset === "custom" && (
+        <View style={styles.dateFields}>
+          {renderDateField("from", t("filterDateFrom"))}
+          {renderDateField("to", t("filterDateTo"))}
+        </View>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.full,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.text,
+    textTransform: "capitalize",
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  dateFields: {
+    marginTop: spacing.md,
+    gap: spacing.sm,
+  },
+  dateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  dateLabel: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+  },
+  dateButtonText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.text,
+  },
+});
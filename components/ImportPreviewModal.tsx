@@ -0,0 +1,503 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  Platform,
+  FlatList,
+  Switch,
+  ActivityIndicator,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { usePremium, useI18n } from "@/contexts";
+import { formatDate } from "@/lib/i18n";
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { moodEmojis } from "@/lib/schemas/dreamInterpretation";
+import {
+  IMPORTERS,
+  importDreams,
+  prepareImport,
+  reinterpretDreams,
+  type ImportCandidate,
+  type ImportFile,
+  type ImportFormat,
+  type ImportPreview,
+} from "@/lib/importers";
+import haptics from "@/lib/haptics";
+
+type ImportPreviewModalProps = {
+  file: ImportFile | null;
+  onClose: () => void;
+  onImported: (count: number, notice: string | null) => void;
+};
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = {
+  day: "numeric",
+  month: "numeric",
+  year: "numeric",
+};
+
+export function ImportPreviewModal({ file, onClose, onImported }: ImportPreviewModalProps) {
+  const { t } = useI18n();
+  const { isPremium, isTrialActive, openPremiumModal } = usePremium();
+  const hasPremiumAccess = isPremium || isTrialActive;
+
+  const [format, setFormat] = useState<ImportFormat | undefined>();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [reinterpret, setReinterpret] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Start from the detected format for every new file
+  useEffect(() => {
+    setFormat(undefined);
+    setReinterpret(false);
+    setProgress(null);
+  }, [file]);
+
+  // Parse the file; duplicates start unselected
+  useEffect(() => {
+    if (!file) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setError(null);
+    prepareImport(file.name, file.text, format)
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result);
+        setSelected(
+          new Set(
+            result.candidates.flatMap((candidate, index) => (candidate.isDuplicate ? [] : [index]))
+          )
+        );
+      })
+      .catch((err) => {
+        console.error("Error preparing import:", err);
+        if (!cancelled) setError(t("importReadFailed"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, format, t]);
+
+  const counts = useMemo(() => {
+    const candidates = preview?.candidates ?? [];
+    return {
+      total: candidates.length,
+      duplicates: candidates.filter((c) => c.isDuplicate).length,
+      undated: candidates.filter((c) => !c.hasDate).length,
+    };
+  }, [preview]);
+
+  const toggleCandidate = (index: number) => {
+    haptics.selection();
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleReinterpretToggle = (enabled: boolean) => {
+    if (enabled && !hasPremiumAccess) {
+      openPremiumModal();
+      return;
+    }
+    setReinterpret(enabled);
+  };
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!preview || selected.size === 0) return;
+
+    const dreams = preview.candidates
+      .filter((_, index) => selected.has(index))
+      .map((candidate) => candidate.dream);
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const count = await importDreams(dreams);
+      let notice: string | null = null;
+
+      if (reinterpret) {
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        setProgress({ done: 0, total: dreams.length });
+        const result = await reinterpretDreams(
+          dreams,
+          (done, total) => setProgress({ done, total }),
+          abortController.signal
+        );
+
+        // Tell how many were left without an interpretation, and why
+        if (result.skipped > 0) {
+          notice = [t("importNotInterpreted", { count: result.skipped }), result.error]
+            .filter(Boolean)
+            .join(" ");
+        }
+      }
+
+      haptics.success();
+      onImported(count, notice);
+    } catch (err) {
+      haptics.error();
+      setError(err instanceof Error ? err.message : t("importFailed"));
+    } finally {
+      abortControllerRef.current = null;
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const renderCandidate = ({ item, index }: { item: ImportCandidate; index: number }) => {
+    const isSelected = selected.has(index);
+    const mood = item.dream.mood;
+
+    return (
+      <Pressable
+        onPress={() => toggleCandidate(index)}
+        disabled={isImporting}
+        style={[styles.candidate, !isSelected && styles.candidateUnselected]}
+      >
+        <FontAwesome
+          name={isSelected ? "check-square" : "square-o"}
+          size={20}
+          color={isSelected ? colors.primary : colors.textDim}
+        />
+        <View style={styles.candidateBody}>
+          <View style={styles.candidateMeta}>
+            <Text style={[styles.candidateDate, !item.hasDate && styles.candidateUndated]}>
+              {item.hasDate ? formatDate(item.dream.createdAt, DATE_OPTIONS) : t("importNoDate")}
+            </Text>
+            {mood && moodEmojis[mood] ? <Text>{moodEmojis[mood]}</Text> : null}
+            {item.isDuplicate && (
+              <View style={styles.duplicateBadge}>
+                <Text style={styles.duplicateText}>{t("importAlreadySaved")}</Text>
+              </View>
+            )}
+          </View>
+          {item.title ? (
+            <Text style={styles.candidateTitle} numberOfLines={1}>
+              {item.title}
+            </Text>
+          ) : null}
+          <Text style={styles.candidateContent} numberOfLines={2}>
+            {item.dream.content}
+          </Text>
+          {item.dream.tags && item.dream.tags.length > 0 && (
+            <Text style={styles.candidateTags} numberOfLines={1}>
+              {item.dream.tags.map((tag) => `#${tag}`).join(" ")}
+            </Text>
+          )}
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <Modal
+      visible={file !== null}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={handleClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={handleClose}>
+            <Text style={styles.headerButton}>{t("actionCancel")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("importTitle")}</Text>
+          <Pressable onPress={handleImport} disabled={isImporting || selected.size === 0}>
+            {isImporting ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text
+                style={[
+                  styles.headerButton,
+                  styles.importButton,
+                  selected.size === 0 && styles.headerButtonDisabled,
+                ]}
+              >
+                {t("importAction", { count: selected.size })}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+
+        <View style={styles.options}>
+          <Text style={styles.fileName} numberOfLines={1}>
+            {file?.name}
+          </Text>
+
+          {/* Format */}
+          <View style={styles.formatRow}>
+            {IMPORTERS.map((importer) => {
+              const isActive = preview?.format === importer.format;
+              return (
+                <Pressable
+                  key={importer.format}
+                  onPress={() => {
+                    haptics.selection();
+                    setFormat(importer.format);
+                  }}
+                  disabled={isImporting}
+                  style={[styles.formatChip, isActive && styles.formatChipActive]}
+                >
+                  <Text style={[styles.formatText, isActive && styles.formatTextActive]}>
+                    {t(importer.labelKey)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Text style={styles.summary}>
+            {t("importFound", { count: counts.total })}
+            {counts.duplicates > 0 && ` · ${t("importDuplicates", { count: counts.duplicates })}`}
+            {counts.undated > 0 && ` · ${t("importUndated", { count: counts.undated })}`}
+          </Text>
+          {preview?.truncated && (
+            <Text style={styles.notice}>{t("importTruncated")}</Text>
+          )}
+
+          {/* Batch re-interpretation */}
+          <View style={styles.reinterpretRow}>
+            <View style={styles.reinterpretText}>
+              <Text style={styles.reinterpretTitle}>{t("importReinterpret")}</Text>
+              <Text style={styles.reinterpretDescription}>
+                {hasPremiumAccess
+                  ? t("importReinterpretDesc")
+                  : t("importPremiumFeature")}
+              </Text>
+            </View>
+            <Switch
+              value={reinterpret}
+              onValueChange={handleReinterpretToggle}
+              disabled={isImporting}
+              trackColor={{ false: colors.surface, true: colors.primary }}
+              thumbColor={colors.white}
+            />
+          </View>
+
+          {progress && (
+            <Text style={styles.progress}>
+              {t("importProgress", { done: progress.done, total: progress.total })}
+            </Text>
+          )}
+          {error && <Text style={styles.error}>{error}</Text>}
+        </View>
+
+        {preview ? (
+          <FlatList
+            data={preview.candidates}
+            keyExtractor={(item) => item.dream.id}
+            renderItem={renderCandidate}
+            contentContainerStyle={styles.list}
+            ListEmptyComponent={
+              <Text style={styles.empty}>{t("importEmpty")}</Text>
+            }
+          />
+        ) : (
+          !error && <ActivityIndicator style={styles.loading} color={colors.primary} />
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
+  importButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  options: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  fileName: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  formatRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.xs,
+  },
+  formatChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  formatChipActive: {
+    borderColor: colors.primary,
+    backgroundColor: `${colors.primary}20`,
+  },
+  formatText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  formatTextActive: {
+    color: colors.primary,
+  },
+  summary: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.text,
+  },
+  notice: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.warning,
+  },
+  reinterpretRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  reinterpretText: {
+    flex: 1,
+  },
+  reinterpretTitle: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  reinterpretDescription: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  progress: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.primary,
+  },
+  error: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.error,
+  },
+  list: {
+    padding: spacing.lg,
+    gap: spacing.sm,
+  },
+  candidate: {
+    flexDirection: "row",
+    gap: spacing.md,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  candidateUnselected: {
+    opacity: 0.5,
+  },
+  candidateBody: {
+    flex: 1,
+    gap: 2,
+  },
+  candidateMeta: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs,
+  },
+  candidateDate: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.xs,
+    color: colors.primary,
+  },
+  candidateUndated: {
+    color: colors.textDim,
+  },
+  duplicateBadge: {
+    paddingHorizontal: spacing.xs,
+    borderRadius: radius.sm,
+    backgroundColor: `${colors.warning}20`,
+  },
+  duplicateText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.xs,
+    color: colors.warning,
+  },
+  candidateTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.sm,
+    color: colors.text,
+  },
+  candidateContent: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  candidateTags: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  empty: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textDim,
+    textAlign: "center",
+    marginTop: spacing.xl,
+  },
+  loading: {
+    marginTop: spacing.xl,
+  },
+});
+
+export default ImportPreviewModal;
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { View, Text, TextInput, StyleSheet, KeyboardAvoidingView, Platform } from "react-native";
+import Animated, { FadeIn } from "react-native-reanimated";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { GradientBackground, GlowButton } from "@/components/ui";
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { errorFeedback, successFeedback } from "@/lib/haptics";
+import { useI18n } from "@/contexts/I18nContext";
+
+type LockScreenProps = {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+};
+
+export function LockScreen({ onUnlock }: LockScreenProps) {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const success = await onUnlock(passphrase);
+      if (success) {
+        successFeedback();
+      } else {
+        errorFeedback();
+        setError(t("lockWrongPassphrase"));
+        setPassphrase("");
+      }
+    } catch (err) {
+      console.error("Error unlocking journal:", err);
+      errorFeedback();
+      setError(t("lockUnlockFailed"));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <GradientBackground safeAreaBottom>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        style={styles.container}
+      >
+        <Animated.View entering={FadeIn.duration(400)} style={styles.content}>
+          <View style={styles.iconContainer}>
+            <FontAwesome name="lock" size={40} color={colors.primary} />
+          </View>
+          <Text style={styles.title}>{t("lockLocked")}</Text>
+          <Text style={styles.subtitle}>{t("lockEnterPassphrase")}</Text>
+
+          <TextInput
+            value={passphrase}
+            onChangeText={setPassphrase}
+            onSubmitEditing={handleUnlock}
+            placeholder={t("lockPassphrase")}
+            placeholderTextColor={colors.textDim}
+            style={[styles.input, error && styles.inputError]}
+            secureTextEntry
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            editable={!isUnlocking}
+          />
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <GlowButton
+            onPress={handleUnlock}
+            loading={isUnlocking}
+            disabled={!passphrase}
+            fullWidth
+          >
+            {t("lockUnlock")}
+          </GlowButton>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+  },
+  content: {
+    alignItems: "center",
+    paddingHorizontal: spacing.xl,
+  },
+  iconContainer: {
+    width: 88,
+    height: 88,
+    borderRadius: radius.full,
+    backgroundColor: `${colors.primary}20`,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: spacing.lg,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.xl,
+    color: colors.text,
+    textAlign: "center",
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    textAlign: "center",
+    marginBottom: spacing.lg,
+  },
+  input: {
+    alignSelf: "stretch",
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 4,
+    marginBottom: spacing.sm,
+    textAlign: "center",
+  },
+  inputError: {
+    borderColor: colors.error,
+  },
+  error: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.error,
+    marginBottom: spacing.sm,
+  },
+});
+
+export default LockScreen;
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import { MIN_PASSPHRASE_LENGTH } from "@/lib/journal-lock";
+import { useI18n } from "@/contexts";
+
+type PassphraseSetupModalProps = {
+  visible: boolean;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onClose: () => void;
+};
+
+export function PassphraseSetupModal({ visible, onSubmit, onClose }: PassphraseSetupModalProps) {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start empty every time
+  useEffect(() => {
+    if (visible) {
+      setPassphrase("");
+      setConfirmation("");
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSave = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t("lockMinLength", { count: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError(t("lockMismatch"));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(passphrase);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("lockEnableFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={onClose} disabled={isSaving}>
+            <Text style={styles.headerButton}>{t("actionCancel")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("settingsAppLock")}</Text>
+          <Pressable onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={[styles.headerButton, styles.saveButton]}>{t("actionSave")}</Text>
+            )}
+          </Pressable>
+        </View>
+
+        <View style={styles.content}>
+          <Text style={styles.description}>{t("lockSetupDescription")}</Text>
+
+          <TextInput
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder={t("lockPassphrasePlaceholder")}
+            placeholderTextColor={colors.textDim}
+            style={styles.input}
+            secureTextEntry
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!isSaving}
+          />
+          <TextInput
+            value={confirmation}
+            onChangeText={setConfirmation}
+            onSubmitEditing={handleSave}
+            placeholder={t("lockRepeatPassphrase")}
+            placeholderTextColor={colors.textDim}
+            style={styles.input}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            editable={!isSaving}
+          />
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.warning}>
+            <FontAwesome name="exclamation-triangle" size={14} color={colors.warning} />
+            <Text style={styles.warningText}>{t("lockForgetWarning")}</Text>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  saveButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  description: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    lineHeight: 20,
+  },
+  input: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 4,
+  },
+  error: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.error,
+  },
+  warning: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    backgroundColor: `${colors.warning}15`,
+    padding: spacing.md,
+    borderRadius: radius.md,
+  },
+  warningText: {
+    flex: 1,
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+});
+
+export default PassphraseSetupModal;
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Switch,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import {
+  deleteProfile,
+  EMPTY_PROFILE,
+  getProfile,
+  MAX_PROFILE_FIELD_LENGTH,
+  PROFILE_FIELDS,
+  saveProfile,
+  type ProfileField,
+  type UserProfile,
+} from "@/lib/profile";
+import type { TranslationKey } from "@/lib/i18n";
+import haptics from "@/lib/haptics";
+import { useI18n } from "@/contexts";
+
+// Field labels and placeholders
+const FIELD_CONFIG: Record<ProfileField, { labelKey: TranslationKey; placeholderKey: TranslationKey }> = {
+  lifeSituation: {
+    labelKey: "profileLifeSituation",
+    placeholderKey: "profileLifeSituationPlaceholder",
+  },
+  stressors: {
+    labelKey: "profileStressors",
+    placeholderKey: "profileStressorsPlaceholder",
+  },
+  people: {
+    labelKey: "profilePeople",
+    placeholderKey: "profilePeoplePlaceholder",
+  },
+  goals: {
+    labelKey: "profileGoals",
+    placeholderKey: "profileGoalsPlaceholder",
+  },
+};
+
+type ProfileModalProps = {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (profile: UserProfile) => void;
+};
+
+export function ProfileModal({ visible, onClose, onSaved }: ProfileModalProps) {
+  const { t } = useI18n();
+  const [profile, setProfile] = useState<UserProfile>(EMPTY_PROFILE);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setError(null);
+      getProfile().then(setProfile);
+    }
+  }, [visible]);
+
+  const hasContent = PROFILE_FIELDS.some((field) => profile[field].trim().length > 0);
+
+  const updateField = (field: ProfileField, value: string) => {
+    setProfile((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveProfile(profile);
+      haptics.success();
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("profileSaveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    haptics.warning();
+    Alert.alert(
+      t("profileDeleteTitle"),
+      t("profileDeleteMessage"),
+      [
+        { text: t("actionCancel"), style: "cancel" },
+        {
+          text: t("actionDelete"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteProfile();
+              setProfile(EMPTY_PROFILE);
+              onSaved?.(EMPTY_PROFILE);
+            } catch (err) {
+              setError(err instanceof Error ? err.message : t("profileDeleteFailed"));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={onClose} disabled={isSaving}>
+            <Text style={styles.headerButton}>{t("actionCancel")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("settingsAboutMe")}</Text>
+          <Pressable onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={[styles.headerButton, styles.saveButton]}>{t("actionSave")}</Text>
+            )}
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>{t("profileUseInInterpretations")}</Text>
+              <Text style={styles.switchDescription}>
+                {t("profileUseInInterpretationsDesc")}
+              </Text>
+            </View>
+            <Switch
+              value={profile.enabled}
+              onValueChange={(enabled) => setProfile((prev) => ({ ...prev, enabled }))}
+              trackColor={{ false: colors.surface, true: colors.primary }}
+              thumbColor={colors.white}
+            />
+          </View>
+
+          {PROFILE_FIELDS.map((field) => (
+            <View key={field} style={styles.field}>
+              <Text style={styles.fieldLabel}>{t(FIELD_CONFIG[field].labelKey)}</Text>
+              <TextInput
+                value={profile[field]}
+                onChangeText={(value) => updateField(field, value)}
+                placeholder={t(FIELD_CONFIG[field].placeholderKey)}
+                placeholderTextColor={colors.textDim}
+                style={styles.input}
+                multiline
+                textAlignVertical="top"
+                maxLength={MAX_PROFILE_FIELD_LENGTH}
+                editable={!isSaving}
+              />
+            </View>
+          ))}
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          {/* Privacy */}
+          <View style={styles.privacy}>
+            <FontAwesome name="shield" size={16} color={colors.textDim} />
+            <Text style={styles.privacyText}>{t("profilePrivacy")}</Text>
+          </View>
+
+          {hasContent && (
+            <Pressable onPress={handleDelete} style={styles.deleteButton} disabled={isSaving}>
+              <FontAwesome name="trash-o" size={16} color={colors.error} />
+              <Text style={styles.deleteText}>{t("profileDelete")}</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  saveButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.lg,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  switchDescription: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  field: {
+    gap: spacing.sm,
+  },
+  fieldLabel: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+  },
+  input: {
+    minHeight: 72,
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 4,
+  },
+  error: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.error,
+  },
+  privacy: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+  privacyText: {
+    flex: 1,
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    lineHeight: 18,
+    color: colors.textDim,
+  },
+  deleteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: spacing.sm,
+    paddingVertical: spacing.md,
+  },
+  deleteText: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.error,
+  },
+});
+
+export default ProfileModal;
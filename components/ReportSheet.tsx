@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Switch,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+
+import { colors, typography, spacing } from "@/lib/design-tokens";
+import { applyDreamFilters, DEFAULT_DREAM_FILTERS } from "@/lib/dream-filters";
+import { getRecentReportMonths, type DreamReportOptions } from "@/lib/dream-report";
+import { PDF_THEMES, type PdfTheme } from "@/lib/pdf-export";
+import type { Dream } from "@/lib/storage";
+import haptics from "@/lib/haptics";
+import { useI18n } from "@/contexts";
+import { formatDate } from "@/lib/i18n";
+import {
+  DATE_PRESETS,
+  DateRangeFilter,
+  FilterChip,
+  type DateRange,
+} from "@/components/FilterControls";
+
+// Months offered as quick choices, newest first
+const MONTH_COUNT = 6;
+
+type ReportSheetProps = {
+  visible: boolean;
+  dreams: Dream[];
+  initialMonth?: number; // 0 = this month, 1 = last month, ...
+  reminderEnabled: boolean;
+  onReminderChange: (enabled: boolean) => void;
+  onGenerate: (dreams: Dream[], options: DreamReportOptions) => Promise<void>;
+  onClose: () => void;
+};
+
+function formatDateKey(key: string): string {
+  return formatDate(`${key}T12:00:00`);
+}
+
+export function ReportSheet({
+  visible,
+  dreams,
+  initialMonth = 0,
+  reminderEnabled,
+  onReminderChange,
+  onGenerate,
+  onClose,
+}: ReportSheetProps) {
+  const { t } = useI18n();
+  const months = useMemo(() => getRecentReportMonths(MONTH_COUNT), []);
+  const [range, setRange] = useState<DateRange>(DEFAULT_DREAM_FILTERS);
+  const [theme, setTheme] = useState<PdfTheme>("light");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const selectMonth = (index: number) => {
+    const month = months[index];
+    setRange({ datePreset: "custom", dateFrom: month.dateFrom, dateTo: month.dateTo });
+  };
+
+  // Start from the requested month each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      const month = months[Math.min(initialMonth, months.length - 1)];
+      setRange({ datePreset: "custom", dateFrom: month.dateFrom, dateTo: month.dateTo });
+    }
+  }, [visible, initialMonth, months]);
+
+  const selectedMonth = months.findIndex(
+    (month) =>
+      range.datePreset === "custom" &&
+      month.dateFrom === range.dateFrom &&
+      month.dateTo === range.dateTo
+  );
+
+  const selectedDreams = useMemo(
+    () => applyDreamFilters(dreams, { ...DEFAULT_DREAM_FILTERS, ...range }),
+    [dreams, range]
+  );
+
+  // Period shown on the report
+  const periodLabel = useMemo(() => {
+    if (selectedMonth >= 0) {
+      return months[selectedMonth].label;
+    }
+    if (range.datePreset !== "custom") {
+      const preset = DATE_PRESETS.find((option) => option.id === range.datePreset);
+      return preset ? t(preset.labelKey) : "";
+    }
+    const oldest = selectedDreams[selectedDreams.length - 1];
+    const newest = selectedDreams[0];
+    const from = range.dateFrom
+      ? formatDateKey(range.dateFrom)
+      : oldest && formatDate(oldest.createdAt);
+    const to = range.dateTo
+      ? formatDateKey(range.dateTo)
+      : newest && formatDate(newest.createdAt);
+    return `${from ?? ""} – ${to ?? ""}`;
+  }, [t, months, selectedMonth, range, selectedDreams]);
+
+  const handleGenerate = async () => {
+    haptics.light();
+    setIsGenerating(true);
+    try {
+      await onGenerate(selectedDreams, { period: periodLabel, theme });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={onClose} disabled={isGenerating}>
+            <Text style={styles.headerButton}>{t("actionCancel")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("reportTitle")}</Text>
+          <Pressable
+            onPress={handleGenerate}
+            disabled={isGenerating || selectedDreams.length === 0}
+          >
+            {isGenerating ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text
+                style={[
+                  styles.headerButton,
+                  styles.generateButton,
+                  selectedDreams.length === 0 && styles.headerButtonDisabled,
+                ]}
+              >
+                {t("reportCreate")}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.content}>
+          {/* Month */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("reportMonth")}</Text>
+            <View style={styles.chips}>
+              {months.map((month, index) => (
+                <FilterChip
+                  key={month.dateFrom}
+                  label={month.label}
+                  selected={selectedMonth === index}
+                  onPress={() => selectMonth(index)}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Other period */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("reportOtherPeriod")}</Text>
+            <DateRangeFilter
+              value={range}
+              onChange={(changes) => setRange((prev) => ({ ...prev, ...changes }))}
+            />
+          </View>
+
+          {/* Theme */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("pdfTheme")}</Text>
+            <View style={styles.chips}>
+              {(Object.keys(PDF_THEMES) as PdfTheme[]).map((option) => (
+                <FilterChip
+                  key={option}
+                  label={t(PDF_THEMES[option].labelKey)}
+                  selected={theme === option}
+                  onPress={() => setTheme(option)}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Monthly reminder */}
+          <View style={styles.section}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>{t("reportReminder")}</Text>
+                <Text style={styles.switchDescription}>
+                  {t("reportReminderDesc")}
+                </Text>
+              </View>
+              <Switch
+                value={reminderEnabled}
+                onValueChange={onReminderChange}
+                trackColor={{ false: colors.surface, true: colors.primary }}
+                thumbColor={colors.white}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.summary}>
+            {selectedDreams.length === 0
+              ? t("reportNoDreams")
+              : t("reportDreamsIncluded", { count: selectedDreams.length })}
+          </Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
+  generateButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  section: {
+    paddingVertical: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  sectionTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    marginBottom: spacing.md,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  switchText: {
+    flex: 1,
+  },
+  switchLabel: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  switchDescription: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  summary: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    textAlign: "center",
+    paddingVertical: spacing.lg,
+  },
+});
+
+export default ReportSheet;
@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+
+import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import {
+  addUserSymbol,
+  BUILT_IN_SYMBOLS,
+  getSymbolLabel,
+  getUserSymbols,
+  removeUserSymbol,
+  type SymbolEntry,
+} from "@/lib/symbols";
+import haptics from "@/lib/haptics";
+import { useI18n } from "@/contexts";
+
+type SymbolDictionaryModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+export function SymbolDictionaryModal({ visible, onClose }: SymbolDictionaryModalProps) {
+  const { t, locale } = useI18n();
+  const [userSymbols, setUserSymbols] = useState<SymbolEntry[]>([]);
+  const [label, setLabel] = useState("");
+  const [aliases, setAliases] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSymbols = useCallback(async () => {
+    setUserSymbols(await getUserSymbols());
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      setLabel("");
+      setAliases("");
+      setError(null);
+      loadSymbols();
+    }
+  }, [visible, loadSymbols]);
+
+  const handleAdd = async () => {
+    if (!label.trim()) {
+      setError(t("symbolNameMissing"));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addUserSymbol(label, aliases.split(","));
+      haptics.success();
+      setLabel("");
+      setAliases("");
+      setError(null);
+      await loadSymbols();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("symbolSaveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    haptics.light();
+    try {
+      await removeUserSymbol(id);
+      await loadSymbols();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("symbolDeleteFailed"));
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle={Platform.OS === "ios" ? "pageSheet" : "fullScreen"}
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Pressable onPress={onClose} disabled={isSaving}>
+            <Text style={styles.headerButton}>{t("actionClose")}</Text>
+          </Pressable>
+          <Text style={styles.title}>{t("symbolTitle")}</Text>
+          <Pressable onPress={handleAdd} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={[styles.headerButton, styles.saveButton]}>{t("symbolAdd")}</Text>
+            )}
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.description}>{t("symbolDescription")}</Text>
+
+          <TextInput
+            value={label}
+            onChangeText={setLabel}
+            placeholder={t("symbolLabelPlaceholder")}
+            placeholderTextColor={colors.textDim}
+            style={styles.input}
+            autoCapitalize="none"
+            editable={!isSaving}
+          />
+          <TextInput
+            value={aliases}
+            onChangeText={setAliases}
+            onSubmitEditing={handleAdd}
+            placeholder={t("symbolAliasesPlaceholder")}
+            placeholderTextColor={colors.textDim}
+            style={styles.input}
+            autoCapitalize="none"
+            returnKeyType="done"
+            editable={!isSaving}
+          />
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          {/* User symbols */}
+          {userSymbols.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t("symbolOwn")}</Text>
+              {userSymbols.map((entry) => (
+                <View key={entry.id} style={styles.row}>
+                  <View style={styles.rowText}>
+                    <Text style={styles.symbolLabel}>{entry.label}</Text>
+                    {entry.aliases.length > 0 && (
+                      <Text style={styles.aliases}>{entry.aliases.join(", ")}</Text>
+                    )}
+                  </View>
+                  <Pressable onPress={() => handleRemove(entry.id)} hitSlop={8}>
+                    <FontAwesome name="trash-o" size={16} color={colors.textDim} />
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Built-in symbols */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t("symbolBuiltIn")}</Text>
+            {BUILT_IN_SYMBOLS.map((entry) => (
+              <View key={entry.id} style={styles.row}>
+                <View style={styles.rowText}>
+                  <Text style={styles.symbolLabel}>{getSymbolLabel(entry.id, locale)}</Text>
+                  <Text style={styles.aliases}>{entry.aliases.join(", ")}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.primary,
+  },
+  saveButton: {
+    fontFamily: typography.families.body.semiBold,
+  },
+  title: {
+    fontFamily: typography.families.heading.semiBold,
+    fontSize: typography.sizes.lg,
+    color: colors.text,
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  description: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    lineHeight: 20,
+  },
+  input: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 4,
+  },
+  error: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.sm,
+    color: colors.error,
+  },
+  section: {
+    marginTop: spacing.md,
+  },
+  sectionTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.sm,
+    color: colors.textMuted,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  rowText: {
+    flex: 1,
+  },
+  symbolLabel: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.md,
+    color: colors.text,
+  },
+  aliases: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+});
+
+export default SymbolDictionaryModal;
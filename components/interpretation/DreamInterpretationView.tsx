@@ -1,4 +1,4 @@
-import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { View, Text, StyleSheet, ScrollView, Pressable } from "react-native";
 import Animated, { FadeIn, FadeInUp } from "react-native-reanimated";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 
@@ -8,10 +8,11 @@ import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import {
   type DreamInterpretation,
   moodEmojis,
-  moodLabels,
+  moodLabelKeys,
   lifeAreaConfig,
   relevanceColors,
 } from "@/lib/schemas/dreamInterpretation";
+import { useI18n } from "@/contexts";
 import { InterpretationSection } from "./InterpretationSection";
 
 // Deep partial for streaming objects
@@ -26,6 +27,7 @@ type DreamInterpretationViewProps = {
   progress?: number;
   isPremiumUser?: boolean;
   onUnlockPremium?: () => void;
+  onOpenRelatedDream?: (dreamId: string) => void;
   footer?: React.ReactNode;
 };
 
@@ -36,9 +38,15 @@ export function DreamInterpretationView({
   progress = 0,
   isPremiumUser = false,
   onUnlockPremium,
+  onOpenRelatedDream,
   footer,
 }: DreamInterpretationViewProps) {
+  const { t } = useI18n();
   const mood = interpretation.mood || "neutral";
+  // Links stream in piece by piece, show only complete ones
+  const relatedDreams = (interpretation.relatedDreams ?? []).filter(
+    (related) => !!related?.dreamId && !!related.connection
+  );
 
   return (
     <ScrollView
@@ -52,9 +60,9 @@ export function DreamInterpretationView({
           <View style={styles.dreamHeader}>
             <Text style={styles.moodEmoji}>{moodEmojis[mood]}</Text>
             <View style={styles.dreamMeta}>
-              <Text style={styles.dreamLabel}>Unesi</Text>
+              <Text style={styles.dreamLabel}>{t("interpretationYourDream")}</Text>
               {interpretation.mood && (
-                <Text style={styles.moodLabel}>{moodLabels[mood]}</Text>
+                <Text style={styles.moodLabel}>{t(moodLabelKeys[mood])}</Text>
               )}
             </View>
           </View>
@@ -68,14 +76,16 @@ export function DreamInterpretationView({
           <View style={styles.progressBar}>
             <View style={[styles.progressFill, { width: `${progress}%` }]} />
           </View>
-          <Text style={styles.progressText}>Analysoidaan... {progress}%</Text>
+          <Text style={styles.progressText}>
+            {t("actionAnalyzing")} {progress}%
+          </Text>
         </Animated.View>
       )}
 
       {/* Summary */}
       {interpretation.summary && (
         <InterpretationSection
-          title="Yhteenveto"
+          title={t("interpretationSummary")}
           icon="lightbulb-o"
           iconColor="#F59E0B"
           delay={100}
@@ -96,10 +106,10 @@ export function DreamInterpretationView({
               />
               <Text style={styles.confidenceText}>
                 {interpretation.confidence === "high"
-                  ? "Vahva tulkinta"
+                  ? t("interpretationHighConfidence")
                   : interpretation.confidence === "medium"
-                  ? "Kohtuullinen tulkinta"
-                  : "Yleinen tulkinta"}
+                  ? t("interpretationMediumConfidence")
+                  : t("interpretationLowConfidence")}
               </Text>
             </View>
           )}
@@ -109,7 +119,7 @@ export function DreamInterpretationView({
       {/* Symbols */}
       {interpretation.symbols && interpretation.symbols.length > 0 && (
         <InterpretationSection
-          title="Symbolit"
+          title={t("interpretationSymbols")}
           icon="puzzle-piece"
           iconColor="#8B5CF6"
           delay={200}
@@ -139,14 +149,14 @@ export function DreamInterpretationView({
       {/* Emotional Analysis */}
       {interpretation.emotionalAnalysis && (
         <InterpretationSection
-          title="Tunnemaailma"
+          title={t("interpretationEmotions")}
           icon="heart"
           iconColor="#EC4899"
           delay={300}
         >
           <View style={styles.emotionContent}>
             <View style={styles.primaryEmotion}>
-              <Text style={styles.emotionLabel}>Päätunne</Text>
+              <Text style={styles.emotionLabel}>{t("interpretationPrimaryEmotion")}</Text>
               <Text style={styles.emotionValue}>
                 {interpretation.emotionalAnalysis.primaryEmotion}
               </Text>
@@ -180,7 +190,7 @@ export function DreamInterpretationView({
       {/* Life Connections */}
       {interpretation.lifeConnections && interpretation.lifeConnections.length > 0 && (
         <InterpretationSection
-          title="Yhteydet elämään"
+          title={t("interpretationConnections")}
           icon="link"
           iconColor="#10B981"
           delay={400}
@@ -206,7 +216,7 @@ export function DreamInterpretationView({
                   </View>
                   <View style={styles.connectionContent}>
                     <Text style={[styles.connectionArea, { color: config.color }]}>
-                      {config.label}
+                      {t(config.labelKey)}
                     </Text>
                     <Text style={styles.connectionInsight}>{connection.insight || ""}</Text>
                     {connection.actionSuggestion && (
@@ -228,7 +238,7 @@ export function DreamInterpretationView({
       {/* Key Message */}
       {interpretation.keyMessage && (
         <InterpretationSection
-          title="Avainviesti"
+          title={t("interpretationKeyMessage")}
           icon="star"
           iconColor="#F59E0B"
           delay={500}
@@ -242,7 +252,7 @@ export function DreamInterpretationView({
       {/* Reflection Questions */}
       {interpretation.reflectionQuestions && interpretation.reflectionQuestions.length > 0 && (
         <InterpretationSection
-          title="Pohdittavaa"
+          title={t("interpretationQuestions")}
           icon="question-circle"
           iconColor="#6366F1"
           delay={600}
@@ -258,10 +268,39 @@ export function DreamInterpretationView({
         </InterpretationSection>
       )}
 
+      {/* Related past dreams */}
+      {relatedDreams.length > 0 && (
+        <InterpretationSection
+          title={t("interpretationRelatedDreams")}
+          icon="link"
+          iconColor={colors.primary}
+          delay={650}
+        >
+          <View style={styles.relatedContainer}>
+            {relatedDreams.map((related) => (
+              <Pressable
+                key={related?.dreamId}
+                onPress={() => related?.dreamId && onOpenRelatedDream?.(related.dreamId)}
+                disabled={!onOpenRelatedDream}
+                style={styles.relatedItem}
+              >
+                <Text style={styles.relatedText}>{related?.connection}</Text>
+                {onOpenRelatedDream && (
+                  <View style={styles.relatedAction}>
+                    <Text style={styles.relatedActionText}>{t("interpretationOpenDream")}</Text>
+                    <FontAwesome name="chevron-right" size={10} color={colors.primary} />
+                  </View>
+                )}
+              </Pressable>
+            ))}
+          </View>
+        </InterpretationSection>
+      )}
+
       {/* Premium Deep Analysis (locked for non-premium) */}
       {interpretation.premium && (
         <InterpretationSection
-          title="Syvempi analyysi"
+          title={t("interpretationDeepAnalysis")}
           icon="diamond"
           iconColor={colors.accent}
           delay={700}
@@ -276,7 +315,7 @@ export function DreamInterpretationView({
               </Text>
               {interpretation.premium.archetypeConnection && (
                 <View style={styles.archetypeBox}>
-                  <Text style={styles.archetypeLabel}>Arkkityyppi</Text>
+                  <Text style={styles.archetypeLabel}>{t("interpretationArchetype")}</Text>
                   <Text style={styles.archetypeText}>
                     {interpretation.premium.archetypeConnection}
                   </Text>
@@ -293,7 +332,7 @@ export function DreamInterpretationView({
           entering={FadeInUp.duration(300).delay(800)}
           style={styles.tagsContainer}
         >
-          <Text style={styles.tagsLabel}>Teemat</Text>
+          <Text style={styles.tagsLabel}>{t("interpretationThemes")}</Text>
           <View style={styles.tagsRow}>
             {interpretation.tags.map((tag, index) => (
               <View key={index} style={styles.tag}>
@@ -320,8 +359,7 @@ export function DreamInterpretationView({
       >
         <FontAwesome name="info-circle" size={12} color={colors.textDim} />
         <Text style={styles.disclaimerText}>
-          Unitulkinnat ovat suuntaa-antavia ja perustuvat yleiseen symboliikkaan.
-          Henkilökohtainen merkitys voi vaihdella.
+          {t("interpretationDisclaimer")}
         </Text>
       </Animated.View>
 
@@ -597,6 +635,34 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     color: colors.text,
   },
+  // Related dreams
+  relatedContainer: {
+    gap: 10,
+  },
+  relatedItem: {
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: `${colors.primary}10`,
+    borderWidth: 1,
+    borderColor: `${colors.primary}25`,
+  },
+  relatedText: {
+    fontFamily: typography.families.body.regular,
+    fontSize: 14,
+    lineHeight: 22,
+    color: colors.text,
+  },
+  relatedAction: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 6,
+  },
+  relatedActionText: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: 13,
+    color: colors.primary,
+  },
   // Premium
   premiumContent: {
     gap: 12,
@@ -12,6 +12,7 @@ import { ReactNode } from "react";
 import { GlassCard } from "@/components/ui";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import { lightTap } from "@/lib/haptics";
+import { useI18n } from "@/contexts/I18nContext";
 
 type InterpretationSectionProps = {
   title: string;
@@ -34,6 +35,7 @@ export function InterpretationSection({
   isLocked = false,
   onUnlock,
 }: InterpretationSectionProps) {
+  const { t } = useI18n();
   const scale = useSharedValue(1);
 
   const animatedStyle = useAnimatedStyle(() => ({
@@ -90,10 +92,10 @@ export function InterpretationSection({
             <View style={styles.lockedContent}>
               <FontAwesome name="lock" size={24} color={colors.textDim} />
               <Text style={styles.lockedText}>
-                Avaa Premium nähdäksesi syvemmän analyysin
+                {t("premiumLockedDesc")}
               </Text>
               <View style={styles.unlockButton}>
-                <Text style={styles.unlockButtonText}>Avaa Premium</Text>
+                <Text style={styles.unlockButtonText}>{t("premiumUnlock")}</Text>
               </View>
             </View>
           ) : (
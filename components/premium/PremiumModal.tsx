@@ -33,6 +33,7 @@ import {
   type PremiumPlan,
 } from "@/lib/premium";
 import { usePremium } from "@/contexts/PremiumContext";
+import { useI18n } from "@/contexts/I18nContext";
 import { lightTap, selectionChange } from "@/lib/haptics";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
@@ -76,6 +77,7 @@ function PlanCard({
   onSelect: () => void;
   isPopular?: boolean;
 }) {
+  const { t } = useI18n();
   const pricing = PRICING[plan];
   const isYearly = plan === "yearly";
 
@@ -93,19 +95,19 @@ function PlanCard({
     >
       {isPopular && (
         <View style={styles.popularBadge}>
-          <Text style={styles.popularText}>SUOSITUIN</Text>
+          <Text style={styles.popularText}>{t("premiumMostPopular")}</Text>
         </View>
       )}
 
       <View style={styles.planHeader}>
         <Text style={[styles.planName, isSelected && styles.planNameSelected]}>
-          {plan === "monthly" && "Kuukausitilaus"}
-          {plan === "yearly" && "Vuositilaus"}
-          {plan === "lifetime" && "Elinikäinen"}
+          {plan === "monthly" && t("premiumMonthly")}
+          {plan === "yearly" && t("premiumYearly")}
+          {plan === "lifetime" && t("premiumLifetime")}
         </Text>
         {isYearly && (
           <View style={styles.savingsBadge}>
-            <Text style={styles.savingsText}>Säästä {pricing.savings}%</Text>
+            <Text style={styles.savingsText}>{t("premiumSave", { percent: pricing.savings ?? 0 })}</Text>
           </View>
         )}
       </View>
@@ -114,14 +116,14 @@ function PlanCard({
         <Text style={[styles.price, isSelected && styles.priceSelected]}>
           {formatPrice(pricing.price)}
         </Text>
-        {plan !== "lifetime" && (
-          <Text style={styles.pricePeriod}>/{pricing.periodShort}</Text>
+        {pricing.periodShortKey && (
+          <Text style={styles.pricePeriod}>/{t(pricing.periodShortKey)}</Text>
         )}
       </View>
 
       {isYearly && "monthlyEquivalent" in pricing && (
         <Text style={styles.monthlyEquivalent}>
-          vain {formatPrice(pricing.monthlyEquivalent)}/kk
+          {t("premiumMonthlyEquivalent", { price: formatPrice(pricing.monthlyEquivalent) })}
         </Text>
       )}
 
@@ -144,16 +146,17 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
   const [selectedPlan, setSelectedPlan] = useState<PremiumPlan>("yearly");
   const [isProcessing, setIsProcessing] = useState(false);
   const { startTrial, purchasePlan, restorePurchases, isTrialActive } = usePremium();
+  const { t } = useI18n();
 
   // Get contextual headline based on source
   const getHeadline = () => {
     switch (source) {
       case "locked_feature":
-        return "Avaa syvempi analyysi";
+        return t("premiumHeadlineLocked");
       case "limit_reached":
-        return "Tulkinnat loppuivat tältä kuulta";
+        return t("premiumHeadlineLimit");
       default:
-        return "Avaa kaikki ominaisuudet";
+        return t("premiumTitle");
     }
   };
 
@@ -219,7 +222,7 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
                 </PulseBadge>
                 <Text style={styles.headline}>{getHeadline()}</Text>
                 <Text style={styles.subheadline}>
-                  Unitulkki Premium antaa sinulle syvemmän ymmärryksen unistasi
+                  {t("premiumSubtitle")}
                 </Text>
               </Animated.View>
 
@@ -230,7 +233,7 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
               >
                 {PREMIUM_BENEFITS.map((benefit, index) => (
                   <View
-                    key={benefit.title}
+                    key={benefit.titleKey}
                     style={[
                       styles.benefitItem,
                       benefit.highlight && styles.benefitItemHighlight,
@@ -243,7 +246,7 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
                         benefit.highlight && styles.benefitTextHighlight,
                       ]}
                     >
-                      {benefit.title}
+                      {t(benefit.titleKey)}
                     </Text>
                     {benefit.highlight && (
                       <FontAwesome name="star" size={12} color={colors.accent} />
@@ -281,10 +284,10 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
                       <FontAwesome name="gift" size={20} color={colors.primary} />
                       <View style={styles.trialTextContainer}>
                         <Text style={styles.trialTitle}>
-                          {TRIAL_CONFIG.durationDays} päivää ilmaiseksi
+                          {t("premiumTrialDays", { count: TRIAL_CONFIG.durationDays })}
                         </Text>
                         <Text style={styles.trialSubtext}>
-                          Kokeile kaikkia ominaisuuksia ilman sitoumusta
+                          {t("premiumTrialDesc")}
                         </Text>
                       </View>
                     </View>
@@ -294,7 +297,7 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
                       onPress={handleStartTrial}
                       disabled={isProcessing}
                     >
-                      <Text style={styles.trialButtonText}>Aloita kokeilu</Text>
+                      <Text style={styles.trialButtonText}>{t("premiumStartTrial")}</Text>
                     </GlowButton>
                   </GlassCard>
                 </Animated.View>
@@ -313,19 +316,20 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
                   style={styles.ctaButton}
                 >
                   {isProcessing ? (
-                    <Text style={styles.ctaText}>Käsitellään...</Text>
+                    <Text style={styles.ctaText}>{t("premiumProcessing")}</Text>
                   ) : (
                     <>
                       <Text style={styles.ctaText}>
-                        Jatka - {formatPrice(PRICING[selectedPlan].price)}
-                        {selectedPlan !== "lifetime" && `/${PRICING[selectedPlan].periodShort}`}
+                        {t("premiumContinue", { price: formatPrice(PRICING[selectedPlan].price) })}
+                        {PRICING[selectedPlan].periodShortKey &&
+                          `/${t(PRICING[selectedPlan].periodShortKey)}`}
                       </Text>
                     </>
                   )}
                 </GlowButton>
 
                 <Text style={styles.legalText}>
-                  Tilaus uusiutuu automaattisesti. Voit peruuttaa milloin tahansa.
+                  {t("premiumLegal")}
                 </Text>
 
                 {/* Restore purchases */}
@@ -346,7 +350,7 @@ export function PremiumModal({ visible, onClose, source = "manual" }: PremiumMod
                   disabled={isProcessing}
                 >
                   <Text style={[styles.restoreText, isProcessing && { opacity: 0.5 }]}>
-                    Palauta ostokset
+                    {t("premiumRestore")}
                   </Text>
                 </Pressable>
               </Animated.View>
@@ -12,9 +12,10 @@ import { LinearGradient } from "expo-linear-gradient";
 import { useEffect } from "react";
 
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
-import { usePremium } from "@/contexts";
+import { usePremium, useI18n } from "@/contexts";
 import { lightTap } from "@/lib/haptics";
 import { PREMIUM_FEATURES } from "@/lib/premium";
+import type { TranslationKey } from "@/lib/i18n";
 import { Analytics } from "@/lib/analytics";
 
 type UpsellVariant =
@@ -42,57 +43,57 @@ type PremiumUpsellProps = {
 const VARIANTS: Record<UpsellVariant, {
   icon: React.ComponentProps<typeof FontAwesome>["name"];
   iconColor: string;
-  title: string;
-  description: string;
-  ctaText: string;
+  titleKey: TranslationKey;
+  descriptionKey: TranslationKey;
+  ctaTextKey: TranslationKey;
   gradientColors: [string, string];
 }> = {
   deep_analysis: {
     icon: "diamond",
     iconColor: colors.accent,
-    title: "Avaa syvempi analyysi",
-    description: "Jungilainen arkkityyppianalyysi ja alitajunnan oivallukset",
-    ctaText: "Näytä mitä saat",
+    titleKey: "upsellDeepAnalysisTitle",
+    descriptionKey: "upsellDeepAnalysisDesc",
+    ctaTextKey: "upsellDeepAnalysisCta",
     gradientColors: ["#6366F1", "#8B5CF6"],
   },
   patterns: {
     icon: "line-chart",
     iconColor: colors.primary,
-    title: "Unikuviot odottavat",
-    description: "Löydä toistuvat teemat ja symbolit unistasi",
-    ctaText: "Avaa analyysi",
+    titleKey: "upsellPatternsTitle",
+    descriptionKey: "upsellPatternsDesc",
+    ctaTextKey: "upsellPatternsCta",
     gradientColors: ["#06B6D4", "#3B82F6"],
   },
   export: {
     icon: "file-pdf-o",
     iconColor: "#EF4444",
-    title: "Vie unipäiväkirjasi",
-    description: "Tallenna kauniina PDF-dokumenttina",
-    ctaText: "Avaa vienti",
+    titleKey: "upsellExportTitle",
+    descriptionKey: "upsellExportDesc",
+    ctaTextKey: "upsellExportCta",
     gradientColors: ["#EF4444", "#F97316"],
   },
   visualization: {
     icon: "paint-brush",
     iconColor: "#EC4899",
-    title: "Visualisoi unesi",
-    description: "Luo tekoälykuvia unistasi",
-    ctaText: "Kokeile nyt",
+    titleKey: "upsellVisualizationTitle",
+    descriptionKey: "upsellVisualizationDesc",
+    ctaTextKey: "upsellVisualizationCta",
     gradientColors: ["#EC4899", "#8B5CF6"],
   },
   limit_warning: {
     icon: "exclamation-circle",
     iconColor: colors.warning,
-    title: "Tulkinnat loppumassa",
-    description: "Päivitä Premiumiin rajattomia tulkintoja varten",
-    ctaText: "Katso vaihtoehdot",
+    titleKey: "upsellLimitWarningTitle",
+    descriptionKey: "upsellLimitWarningDesc",
+    ctaTextKey: "upsellLimitWarningCta",
     gradientColors: ["#F59E0B", "#EF4444"],
   },
   generic: {
     icon: "star",
     iconColor: colors.accent,
-    title: "Unitulkki Premium",
-    description: "Rajattomat tulkinnat ja kaikki ominaisuudet",
-    ctaText: "Tutustu",
+    titleKey: "upsellGenericTitle",
+    descriptionKey: "upsellGenericDesc",
+    ctaTextKey: "upsellGenericCta",
     gradientColors: ["#8B5CF6", "#6366F1"],
   },
 };
@@ -113,6 +114,7 @@ export function PremiumUpsell({
   onDismiss,
 }: PremiumUpsellProps) {
   const { isPremium, isTrialActive, openPremiumModal } = usePremium();
+  const { t } = useI18n();
   const config = VARIANTS[variant];
 
   // Shimmer animation for premium feel
@@ -157,7 +159,7 @@ export function PremiumUpsell({
           ]}
         >
           <FontAwesome name={config.icon} size={14} color={config.iconColor} />
-          <Text style={styles.compactTitle}>{config.title}</Text>
+          <Text style={styles.compactTitle}>{t(config.titleKey)}</Text>
           <FontAwesome name="chevron-right" size={10} color={colors.textDim} />
         </Pressable>
       </Animated.View>
@@ -201,8 +203,8 @@ export function PremiumUpsell({
           </View>
 
           <View style={styles.textContainer}>
-            <Text style={styles.title}>{config.title}</Text>
-            <Text style={styles.description}>{config.description}</Text>
+            <Text style={styles.title}>{t(config.titleKey)}</Text>
+            <Text style={styles.description}>{t(config.descriptionKey)}</Text>
           </View>
 
           <View style={styles.ctaContainer}>
@@ -212,7 +214,7 @@ export function PremiumUpsell({
               end={{ x: 1, y: 0 }}
               style={styles.ctaButton}
             >
-              <Text style={styles.ctaText}>{config.ctaText}</Text>
+              <Text style={styles.ctaText}>{t(config.ctaTextKey)}</Text>
               <FontAwesome name="chevron-right" size={10} color={colors.white} />
             </LinearGradient>
           </View>
@@ -245,6 +247,7 @@ export function LockedFeatureBanner({
   style?: object;
 }) {
   const { openPremiumModal } = usePremium();
+  const { t } = useI18n();
   const feature = PREMIUM_FEATURES.find((f) => f.id === featureId);
 
   if (!feature) return null;
@@ -266,12 +269,12 @@ export function LockedFeatureBanner({
           <FontAwesome name="lock" size={16} color={colors.textDim} />
         </View>
         <View style={styles.lockedContent}>
-          <Text style={styles.lockedTitle}>{feature.title}</Text>
-          <Text style={styles.lockedDescription}>{feature.description}</Text>
+          <Text style={styles.lockedTitle}>{t(feature.titleKey)}</Text>
+          <Text style={styles.lockedDescription}>{t(feature.descriptionKey)}</Text>
         </View>
         <View style={styles.lockedBadge}>
           <FontAwesome name="diamond" size={10} color={colors.accent} />
-          <Text style={styles.lockedBadgeText}>Premium</Text>
+          <Text style={styles.lockedBadgeText}>{t("premiumBadge")}</Text>
         </View>
       </Pressable>
     </Animated.View>
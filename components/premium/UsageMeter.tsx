@@ -9,7 +9,7 @@ import Animated, {
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
-import { usePremium } from "@/contexts";
+import { usePremium, useI18n } from "@/contexts";
 import { lightTap } from "@/lib/haptics";
 
 type UsageMeterProps = {
@@ -30,6 +30,7 @@ type UsageMeterProps = {
  * - Naturally leads to premium consideration
  */
 export function UsageMeter({ compact = false, showUpgrade = true, style }: UsageMeterProps) {
+  const { t } = useI18n();
   const {
     isPremium,
     isTrialActive,
@@ -60,9 +61,9 @@ export function UsageMeter({ compact = false, showUpgrade = true, style }: Usage
             <FontAwesome name="gift" size={16} color={colors.primary} />
           </View>
           <View style={styles.trialContent}>
-            <Text style={styles.trialTitle}>Premium-kokeilu</Text>
+            <Text style={styles.trialTitle}>{t("usageTrialTitle")}</Text>
             <Text style={styles.trialSubtitle}>
-              {trialDaysRemaining} {trialDaysRemaining === 1 ? "päivä" : "päivää"} jäljellä
+              {t("usageTrialDaysLeft", { count: trialDaysRemaining })}
             </Text>
           </View>
           <FontAwesome name="chevron-right" size={12} color={colors.textDim} />
@@ -104,10 +105,10 @@ export function UsageMeter({ compact = false, showUpgrade = true, style }: Usage
               isEmpty && styles.compactTextEmpty,
             ]}
           >
-            {isEmpty ? "Tulkinnat loppu" : `${remaining}/${interpretationsLimit}`}
+            {isEmpty ? t("usageEmptyShort") : `${remaining}/${interpretationsLimit}`}
           </Text>
           {isEmpty && (
-            <Text style={styles.compactUpgrade}>Päivitä</Text>
+            <Text style={styles.compactUpgrade}>{t("usageUpgrade")}</Text>
           )}
         </Pressable>
       </Animated.View>
@@ -137,7 +138,7 @@ export function UsageMeter({ compact = false, showUpgrade = true, style }: Usage
               color={isEmpty ? colors.error : isLow ? colors.warning : colors.primary}
             />
             <Text style={[styles.title, isEmpty && styles.titleEmpty]}>
-              {isEmpty ? "Ilmaiset tulkinnat käytetty" : "Ilmaiset tulkinnat"}
+              {isEmpty ? t("usageFreeUsed") : t("usageFree")}
             </Text>
           </View>
           <Text style={[styles.count, isLow && styles.countWarning, isEmpty && styles.countEmpty]}>
@@ -163,15 +164,15 @@ export function UsageMeter({ compact = false, showUpgrade = true, style }: Usage
         <View style={styles.footer}>
           <Text style={styles.message}>
             {isEmpty
-              ? "Päivitä Premiumiin rajattomia tulkintoja varten"
+              ? t("usageEmptyMessage")
               : isLow
-              ? "Viimeinen tulkinta! Harkitse päivitystä."
-              : "Uusiutuu kuun alussa"}
+              ? t("usageLowMessage")
+              : t("usageRenews")}
           </Text>
           {showUpgrade && (isEmpty || isLow) && (
             <View style={styles.upgradeButton}>
               <FontAwesome name="diamond" size={10} color={colors.accent} />
-              <Text style={styles.upgradeText}>Premium</Text>
+              <Text style={styles.upgradeText}>{t("premiumBadge")}</Text>
             </View>
           )}
         </View>
@@ -21,16 +21,18 @@ import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import haptics, { selectionChange } from "@/lib/haptics";
 import { useToast } from "@/hooks/useToast";
+import type { TranslationKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts";
 
 // Days of week (Su=0, Mo=1, etc.)
-const DAYS_OF_WEEK = [
-  { id: 0, label: "Su", labelFi: "Ma" },
-  { id: 1, label: "Ma", labelFi: "Ti" },
-  { id: 2, label: "Ti", labelFi: "Ke" },
-  { id: 3, label: "Ke", labelFi: "To" },
-  { id: 4, label: "To", labelFi: "Pe" },
-  { id: 5, label: "Pe", labelFi: "La" },
-  { id: 6, label: "La", labelFi: "Su" },
+const DAYS_OF_WEEK: { id: number; labelKey: TranslationKey }[] = [
+  { id: 0, labelKey: "dayShortSunday" },
+  { id: 1, labelKey: "dayShortMonday" },
+  { id: 2, labelKey: "dayShortTuesday" },
+  { id: 3, labelKey: "dayShortWednesday" },
+  { id: 4, labelKey: "dayShortThursday" },
+  { id: 5, labelKey: "dayShortFriday" },
+  { id: 6, labelKey: "dayShortSaturday" },
 ];
 
 interface AlarmSettingsProps {
@@ -38,6 +40,7 @@ interface AlarmSettingsProps {
 }
 
 export function AlarmSettings({ onTest }: AlarmSettingsProps) {
+  const { t } = useI18n();
   const [alarms, setAlarms] = useState<Alarm[]>([]);
   const [nextAlarm, setNextAlarm] = useState<Alarm | null>(null);
   const { showSuccess, showError } = useToast();
@@ -62,12 +65,12 @@ export function AlarmSettings({ onTest }: AlarmSettingsProps) {
   };
 
   const formatDays = (days: number[]): string => {
-    if (days.length === 0) return "Kerran";
-    if (days.length === 7) return "Joka päivä";
+    if (days.length === 0) return t("alarmOnce");
+    if (days.length === 7) return t("alarmEveryDay");
     
     const dayLabels = days.map((day) => {
       const dayObj = DAYS_OF_WEEK.find((d) => d.id === day);
-      return dayObj?.labelFi || dayObj?.label || "";
+      return dayObj ? t(dayObj.labelKey) : "";
     });
     
     if (days.length <= 3) {
@@ -84,13 +87,13 @@ export function AlarmSettings({ onTest }: AlarmSettingsProps) {
       
       if (updated) {
         await loadAlarms();
-        showSuccess(updated.enabled ? "Herätys päällä" : "Herätys pois päältä");
+        showSuccess(updated.enabled ? t("alarmEnabled") : t("alarmDisabled"));
       } else {
-        showError("Virhe heräyksen muokkauksessa");
+        showError(t("alarmUpdateFailed"));
       }
     } catch (error) {
       console.error("Error toggling alarm:", error);
-      showError("Virhe");
+      showError(t("errorGeneric"));
     }
   };
 
@@ -101,13 +104,13 @@ export function AlarmSettings({ onTest }: AlarmSettingsProps) {
       
       if (success) {
         await loadAlarms();
-        showSuccess("Herätys poistettu");
+        showSuccess(t("alarmDeleted"));
       } else {
-        showError("Virhe heräyksen poistamisessa");
+        showError(t("alarmDeleteFailed"));
       }
     } catch (error) {
       console.error("Error deleting alarm:", error);
-      showError("Virhe");
+      showError(t("errorGeneric"));
     }
   };
 
@@ -118,7 +121,7 @@ export function AlarmSettings({ onTest }: AlarmSettingsProps) {
         <View style={styles.nextAlarmCard}>
           <View style={styles.nextAlarmHeader}>
             <FontAwesome name="clock-o" size={16} color={colors.primary} />
-            <Text style={styles.nextAlarmTitle}>Seuraava herätys</Text>
+            <Text style={styles.nextAlarmTitle}>{t("alarmNext")}</Text>
           </View>
           <View style={styles.nextAlarmContent}>
             <Text style={styles.nextAlarmTime}>
@@ -132,7 +135,7 @@ export function AlarmSettings({ onTest }: AlarmSettingsProps) {
       ) : (
         <View style={styles.noAlarmCard}>
           <FontAwesome name="clock-o" size={16} color={colors.textDim} />
-          <Text style={styles.noAlarmText}>Ei aktiivisia herätyksiä</Text>
+          <Text style={styles.noAlarmText}>{t("alarmNoneActive")}</Text>
         </View>
       )}
 
@@ -145,7 +148,7 @@ export function AlarmSettings({ onTest }: AlarmSettingsProps) {
         ]}
       >
         <FontAwesome name="bell" size={16} color={colors.primary} />
-        <Text style={styles.testButtonText}>Testaa herätys</Text>
+        <Text style={styles.testButtonText}>{t("alarmTest")}</Text>
       </Pressable>
 
       {/* Alarm List */}
@@ -14,6 +14,8 @@ import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import { createAlarm, type Alarm } from "@/lib/alarm";
 import haptics from "@/lib/haptics";
 import { useToast } from "@/hooks/useToast";
+import type { TranslationKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts";
 
 interface AlarmSetupModalProps {
   visible: boolean;
@@ -22,17 +24,18 @@ interface AlarmSetupModalProps {
 }
 
 // Days of week
-const DAYS_OF_WEEK = [
-  { id: 0, label: "Su", labelFi: "Ma" },
-  { id: 1, label: "Ma", labelFi: "Ti" },
-  { id: 2, label: "Ti", labelFi: "Ke" },
-  { id: 3, label: "Ke", labelFi: "To" },
-  { id: 4, label: "To", labelFi: "Pe" },
-  { id: 5, label: "Pe", labelFi: "La" },
-  { id: 6, label: "La", labelFi: "Su" },
+const DAYS_OF_WEEK: { id: number; labelKey: TranslationKey }[] = [
+  { id: 0, labelKey: "dayShortSunday" },
+  { id: 1, labelKey: "dayShortMonday" },
+  { id: 2, labelKey: "dayShortTuesday" },
+  { id: 3, labelKey: "dayShortWednesday" },
+  { id: 4, labelKey: "dayShortThursday" },
+  { id: 5, labelKey: "dayShortFriday" },
+  { id: 6, labelKey: "dayShortSaturday" },
 ];
 
 export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetupModalProps) {
+  const { t } = useI18n();
   const [selectedTime, setSelectedTime] = useState(new Date());
   const [selectedDays, setSelectedDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
   const [label, setLabel] = useState("");
@@ -63,7 +66,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
       haptics.light();
       
       if (selectedDays.length === 0) {
-        showError("Valitse vähintään yksi päivä");
+        showError(t("alarmSelectDay"));
         return;
       }
 
@@ -72,7 +75,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
         minute: selectedTime.getMinutes(),
         days: selectedDays,
         enabled: true,
-        label: label || "Herätys",
+        label: label || t("alarmDefaultLabel"),
         sound: "default",
         vibration: true,
       };
@@ -80,7 +83,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
       const created = await createAlarm(newAlarm);
       
       if (created) {
-        showSuccess("Herätys luotu!");
+        showSuccess(t("alarmCreated"));
         onAlarmCreated();
         onClose();
         
@@ -89,13 +92,13 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
         setSelectedDays([0, 1, 2, 3, 4, 5, 6]);
         setLabel("");
       } else {
-        showError("Virhe heräyksen luonnissa");
+        showError(t("alarmCreateFailed"));
       }
     } catch (error) {
       console.error("Error creating alarm:", error);
-      showError("Virhe");
+      showError(t("errorGeneric"));
     }
-  }, [selectedTime, selectedDays, label, onAlarmCreated, onClose, showSuccess, showError]);
+  }, [selectedTime, selectedDays, label, onAlarmCreated, onClose, showSuccess, showError, t]);
 
   const formatTime = (date: Date): string => {
     const hours = date.getHours().toString().padStart(2, '0');
@@ -114,11 +117,11 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
         {/* Header */}
         <View style={styles.header}>
           <Pressable onPress={onClose}>
-            <Text style={styles.cancelButton}>Peruuta</Text>
+            <Text style={styles.cancelButton}>{t("actionCancel")}</Text>
           </Pressable>
-          <Text style={styles.title}>Uusi herätys</Text>
+          <Text style={styles.title}>{t("alarmNew")}</Text>
           <Pressable onPress={handleCreateAlarm}>
-            <Text style={styles.saveButton}>Tallenna</Text>
+            <Text style={styles.saveButton}>{t("actionSave")}</Text>
           </Pressable>
         </View>
 
@@ -126,7 +129,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
           <ScrollView style={styles.content}>
             {/* Time Picker */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Aseta aika</Text>
+              <Text style={styles.sectionTitle}>{t("alarmSetTime")}</Text>
               <DateTimePicker
                 value={selectedTime}
                 mode="time"
@@ -140,7 +143,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
 
             {/* Days Selector */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Päivät</Text>
+              <Text style={styles.sectionTitle}>{t("alarmDays")}</Text>
               <View style={styles.daysContainer}>
                 {DAYS_OF_WEEK.map((day) => (
                   <Pressable
@@ -157,7 +160,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
                         selectedDays.includes(day.id) && styles.dayTextSelected,
                       ]}
                     >
-                      {day.labelFi}
+                      {t(day.labelKey)}
                     </Text>
                   </Pressable>
                 ))}
@@ -166,7 +169,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
 
             {/* Label */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Nimi</Text>
+              <Text style={styles.sectionTitle}>{t("alarmName")}</Text>
               <Pressable
                 style={styles.labelInput}
                 onPress={() => {
@@ -174,7 +177,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
                   // TODO: Add label input modal
                 }}
               >
-                <Text style={styles.labelText}>{label || "Herätys"}</Text>
+                <Text style={styles.labelText}>{label || t("alarmDefaultLabel")}</Text>
                 <FontAwesome name="pencil" size={16} color={colors.textDim} />
               </Pressable>
             </View>
@@ -194,7 +197,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
 
             {/* Days Selector */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Päivät</Text>
+              <Text style={styles.sectionTitle}>{t("alarmDays")}</Text>
               <View style={styles.daysContainer}>
                 {DAYS_OF_WEEK.map((day) => (
                   <Pressable
@@ -211,7 +214,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
                         selectedDays.includes(day.id) && styles.dayTextSelected,
                       ]}
                     >
-                      {day.labelFi}
+                      {t(day.labelKey)}
                     </Text>
                   </Pressable>
                 ))}
@@ -220,7 +223,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
 
             {/* Label */}
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Nimi</Text>
+              <Text style={styles.sectionTitle}>{t("alarmName")}</Text>
               <Pressable
                 style={styles.labelInput}
                 onPress={() => {
@@ -228,7 +231,7 @@ export function AlarmSetupModal({ visible, onClose, onAlarmCreated }: AlarmSetup
                   // TODO: Add label input modal
                 }}
               >
-                <Text style={styles.labelText}>{label || "Herätys"}</Text>
+                <Text style={styles.labelText}>{label || t("alarmDefaultLabel")}</Text>
                 <FontAwesome name="pencil" size={16} color={colors.textDim} />
               </Pressable>
             </View>
@@ -13,18 +13,20 @@ import Animated, {
 } from "react-native-reanimated";
 import { GlassCard } from "@/components/ui";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
+import type { TranslationKey } from "@/lib/i18n";
+import { useI18n } from "@/contexts";
 
 interface LoadingStateProps {
   progress: number;
 }
 
 // Calming messages that rotate during loading
-const LOADING_MESSAGES = [
-  { emoji: "🌙", text: "Sukeltaudun unimaailmaasi..." },
-  { emoji: "✨", text: "Etsin symboleja ja merkityksiä..." },
-  { emoji: "🔮", text: "Tulkitsen piilotettuja viestejä..." },
-  { emoji: "🌊", text: "Yhdistän tunteita ja muistoja..." },
-  { emoji: "🌟", text: "Viimeistelen tulkintaa..." },
+const LOADING_MESSAGES: { emoji: string; textKey: TranslationKey }[] = [
+  { emoji: "🌙", textKey: "loadingDiving" },
+  { emoji: "✨", textKey: "loadingSymbols" },
+  { emoji: "🔮", textKey: "loadingMessages" },
+  { emoji: "🌊", textKey: "loadingEmotions" },
+  { emoji: "🌟", textKey: "loadingFinishing" },
 ];
 
 // Floating orb component with gentle animation
@@ -148,6 +150,7 @@ function ThinkingDots() {
 }
 
 export function LoadingState({ progress }: LoadingStateProps) {
+  const { t } = useI18n();
   const [messageIndex, setMessageIndex] = useState(0);
 
   // Rotate through messages based on progress
@@ -176,7 +179,7 @@ export function LoadingState({ progress }: LoadingStateProps) {
       >
         <GlassCard intensity="medium" style={styles.messageCard}>
           <Text style={styles.messageEmoji}>{currentMessage.emoji}</Text>
-          <Text style={styles.messageText}>{currentMessage.text}</Text>
+          <Text style={styles.messageText}>{t(currentMessage.textKey)}</Text>
           <ThinkingDots />
         </GlassCard>
       </Animated.View>
@@ -198,7 +201,7 @@ export function LoadingState({ progress }: LoadingStateProps) {
         entering={FadeIn.delay(1000).duration(500)}
         style={styles.hint}
       >
-        Hengitä syvään ja rentoudu...
+        {t("loadingHint")}
       </Animated.Text>
     </Animated.View>
   );
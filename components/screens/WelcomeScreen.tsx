@@ -14,6 +14,7 @@ import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import { UsageMeter } from "@/components/premium";
 import { StreakBadge } from "@/components/ui";
 import { getStreakData, type StreakData } from "@/lib/streak";
+import { useI18n } from "@/contexts";
 
 interface WelcomeScreenProps {
   setInputValue: (value: string) => void;
@@ -57,6 +58,7 @@ function AnimatedMoon() {
 }
 
 export function WelcomeScreen({ setInputValue }: WelcomeScreenProps) {
+  const { t } = useI18n();
   const [streakData, setStreakData] = useState<StreakData | null>(null);
 
   // Load streak data on mount
@@ -77,14 +79,14 @@ export function WelcomeScreen({ setInputValue }: WelcomeScreenProps) {
           entering={FadeInUp.delay(200).duration(600)}
           style={styles.welcomeTitle}
         >
-          Unitulkki
+          {t("appName")}
         </Animated.Text>
 
         <Animated.Text
           entering={FadeInUp.delay(400).duration(600)}
           style={styles.welcomeSubtitle}
         >
-          Kerro unesi ja anna tekoälyn{"\n"}paljastaa sen merkitykset
+          {t("welcomeSubtitle")}
         </Animated.Text>
       </Animated.View>
 
@@ -107,6 +109,8 @@ export function WelcomeScreen({ setInputValue }: WelcomeScreenProps) {
           <StreakBadge
             streak={streakData.currentStreak}
             longestStreak={streakData.longestStreak}
+            freezesAvailable={streakData.freezesAvailable}
+            history={streakData.history}
             showMilestone={true}
           />
         </Animated.View>
@@ -125,7 +129,7 @@ export function WelcomeScreen({ setInputValue }: WelcomeScreenProps) {
         entering={FadeIn.delay(1100).duration(500)}
         style={styles.hintText}
       >
-        Kirjoita tai sano unesi alla olevaan kenttään
+        {t("welcomeHint")}
       </Animated.Text>
     </View>
   );
@@ -3,6 +3,7 @@ import Animated, { FadeInUp } from "react-native-reanimated";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
 import { lightTap, successFeedback } from "@/lib/haptics";
+import { useI18n } from "@/contexts/I18nContext";
 
 type QuickAction = {
   icon: string;
@@ -80,11 +81,13 @@ export function useInterpretationActions({
   interpretation: string;
   isSaved?: boolean;
 }): QuickAction[] {
+  const { t } = useI18n();
+
   const handleShare = async () => {
     try {
       await Share.share({
-        message: `🌙 Uneni:\n${dreamContent}\n\n✨ Tulkinta:\n${interpretation}\n\n— Unitulkki`,
-        title: "Jaa unesi tulkinta",
+        message: t("quickShareMessage", { content: dreamContent, interpretation }),
+        title: t("quickShareTitle"),
       });
       successFeedback();
     } catch (error) {
@@ -98,7 +101,7 @@ export function useInterpretationActions({
   if (onSave && !isSaved) {
     actions.push({
       icon: "bookmark-o",
-      label: "Tallenna",
+      label: t("actionSave"),
       color: colors.success,
       onPress: onSave,
     });
@@ -108,7 +111,7 @@ export function useInterpretationActions({
   if (isSaved) {
     actions.push({
       icon: "bookmark",
-      label: "Tallennettu",
+      label: t("quickSaved"),
       color: colors.success,
       onPress: () => {},
       disabled: true,
@@ -118,7 +121,7 @@ export function useInterpretationActions({
   // New dream action
   actions.push({
     icon: "plus",
-    label: "Uusi uni",
+    label: t("actionNewDream"),
     color: colors.primary,
     onPress: onNewDream,
   });
@@ -126,7 +129,7 @@ export function useInterpretationActions({
   // Share action
   actions.push({
     icon: "share",
-    label: "Jaa",
+    label: t("actionShare"),
     color: colors.accent,
     onPress: onShare || handleShare,
   });
@@ -10,23 +10,42 @@ import Animated, {
 } from "react-native-reanimated";
 import { useEffect } from "react";
 import { colors, typography, spacing, radius } from "@/lib/design-tokens";
-import { getNextMilestone, getStreakMessage } from "@/lib/streak";
+import { getNextMilestone, getStreakMessage, type StreakRun } from "@/lib/streak";
+import { parseDateKey } from "@/lib/dates";
+import { useI18n } from "@/contexts/I18nContext";
+import { formatDate } from "@/lib/i18n";
+
+// Past streaks listed under the badge
+const MAX_HISTORY_ITEMS = 3;
 
 type StreakBadgeProps = {
   streak: number;
   longestStreak?: number;
+  freezesAvailable?: number;
+  history?: StreakRun[];
   showMilestone?: boolean;
   compact?: boolean;
   style?: ViewStyle;
 };
 
+// Short date like "12.3."
+function formatDay(key: string): string {
+  return formatDate(parseDateKey(key), {
+    day: "numeric",
+    month: "numeric",
+  });
+}
+
 export function StreakBadge({
   streak,
   longestStreak,
+  freezesAvailable = 0,
+  history = [],
   showMilestone = true,
   compact = false,
   style,
 }: StreakBadgeProps) {
+  const { t } = useI18n();
   const fireGlow = useSharedValue(0.6);
   const fireScale = useSharedValue(1);
 
@@ -71,7 +90,7 @@ export function StreakBadge({
           {streak > 0 ? "🔥" : "💤"}
         </Animated.Text>
         <Text style={styles.compactStreak}>{streak}</Text>
-        <Text style={styles.compactLabel}>päivää</Text>
+        <Text style={styles.compactLabel}>{t("streakDaysUnit", { count: streak })}</Text>
       </Animated.View>
     );
   }
@@ -89,9 +108,14 @@ export function StreakBadge({
         <View style={styles.streakInfo}>
           <Text style={styles.streakNumber}>{streak}</Text>
           <Text style={styles.streakLabel}>
-            {streak === 1 ? "päivän putki" : "päivän putki"}
+            {t("streakLabel", { count: streak })}
           </Text>
         </View>
+        {streak > 0 && freezesAvailable > 0 && (
+          <View style={styles.freezeBadge}>
+            <Text style={styles.freezeText}>❄️ {freezesAvailable}</Text>
+          </View>
+        )}
       </View>
 
       {/* Message */}
@@ -117,9 +141,27 @@ export function StreakBadge({
       {/* Best streak */}
       {longestStreak !== undefined && longestStreak > streak && (
         <Text style={styles.bestStreak}>
-          Paras putki: {longestStreak} päivää ⭐
+          {t("streakBest", { count: longestStreak })} ⭐
         </Text>
       )}
+
+      {/* Past streaks */}
+      {history.length > 0 && (
+        <View style={styles.historyContainer}>
+          <Text style={styles.historyTitle}>{t("streakPastRuns")}</Text>
+          {history.slice(0, MAX_HISTORY_ITEMS).map((run) => (
+            <View key={run.start} style={styles.historyRow}>
+              <Text style={styles.historyDates}>
+                {formatDay(run.start)} – {formatDay(run.end)}
+              </Text>
+              <Text style={styles.historyLength}>
+                {t("streakRunLength", { count: run.length })}
+                {run.frozenDays.length > 0 ? " ❄️" : ""}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
     </Animated.View>
   );
 }
@@ -189,6 +231,44 @@ const styles = StyleSheet.create({
     marginTop: spacing.sm,
     textAlign: "center",
   },
+  freezeBadge: {
+    marginLeft: "auto",
+    backgroundColor: `${colors.info}20`,
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.full,
+  },
+  freezeText: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.xs,
+    color: colors.text,
+  },
+  historyContainer: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: `${colors.primary}20`,
+    gap: spacing.xs,
+  },
+  historyTitle: {
+    fontFamily: typography.families.body.semiBold,
+    fontSize: typography.sizes.xs,
+    color: colors.textMuted,
+  },
+  historyRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  historyDates: {
+    fontFamily: typography.families.body.regular,
+    fontSize: typography.sizes.xs,
+    color: colors.textDim,
+  },
+  historyLength: {
+    fontFamily: typography.families.body.medium,
+    fontSize: typography.sizes.xs,
+    color: colors.text,
+  },
   // Compact style
   compactContainer: {
     flexDirection: "row",
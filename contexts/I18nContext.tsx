@@ -0,0 +1,73 @@
+/**
+ * I18nContext - App language
+ *
+ * Provides:
+ * - Current locale and a `t()` bound to it
+ * - Switching the language, saved to preferences; scheduled notifications
+ *   are rescheduled in the new language
+ *
+ * Components that read strings through `useI18n()` re-render when the
+ * language changes.
+ */
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  type ReactNode,
+} from "react";
+import {
+  getLocale,
+  setLocale,
+  subscribeToLocale,
+  translate,
+  type Locale,
+  type TranslationKey,
+  type TranslationParams,
+} from "@/lib/i18n";
+import { savePreferences } from "@/lib/preferences";
+import { refreshScheduledNotifications } from "@/lib/notifications";
+
+type I18nContextType = {
+  locale: Locale;
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+  setLanguage: (locale: Locale) => Promise<void>;
+};
+
+const I18nContext = createContext<I18nContextType | null>(null);
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+  // The locale may also change outside React
+  useEffect(() => subscribeToLocale(setLocaleState), []);
+
+  const setLanguage = useCallback(async (next: Locale) => {
+    setLocale(next);
+    await savePreferences({ language: next });
+    await refreshScheduledNotifications();
+  }, []);
+
+  // New identity per locale so memoized strings update
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  const value = useMemo(() => ({ locale, t, setLanguage }), [locale, t, setLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return context;
+}
+
+export default I18nContext;
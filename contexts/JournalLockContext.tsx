@@ -0,0 +1,157 @@
+/**
+ * JournalLockContext - App lock for the encrypted journal
+ *
+ * Provides:
+ * - Lock state and unlock/lock actions
+ * - Enabling/disabling the lock and its resume timeout
+ * - Lock screen in place of the app while locked
+ * - Blurred cover while the app is inactive, so the app-switcher snapshot
+ *   does not show dreams
+ */
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+  type ReactNode,
+} from "react";
+import { AppState, StyleSheet, type AppStateStatus } from "react-native";
+import { BlurView } from "expo-blur";
+import {
+  disableJournalLock,
+  enableJournalLock,
+  getJournalLockConfig,
+  isJournalUnlocked,
+  lockJournal,
+  setJournalLockTimeout,
+  unlockJournal,
+} from "@/lib/journal-lock";
+import { LockScreen } from "@/components/LockScreen";
+
+type JournalLockContextType = {
+  isEnabled: boolean;
+  isLocked: boolean;
+  timeoutMinutes: number;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+  enable: (passphrase: string, timeoutMinutes?: number) => Promise<void>;
+  disable: () => Promise<void>;
+  setTimeoutMinutes: (minutes: number) => Promise<void>;
+};
+
+const JournalLockContext = createContext<JournalLockContextType | null>(null);
+
+export function JournalLockProvider({ children }: { children: ReactNode }) {
+  const [isReady, setIsReady] = useState(false);
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [timeoutMinutes, setTimeoutMinutesState] = useState(1);
+  const [isCovered, setIsCovered] = useState(false);
+
+  // When the app last left the foreground
+  const backgroundedAt = useRef<number | null>(null);
+
+  // Load lock config
+  useEffect(() => {
+    getJournalLockConfig().then((config) => {
+      if (config?.enabled) {
+        setIsEnabled(true);
+        setIsLocked(!isJournalUnlocked());
+        setTimeoutMinutesState(config.timeoutMinutes);
+      }
+      setIsReady(true);
+    });
+  }, []);
+
+  const lock = useCallback(() => {
+    lockJournal();
+    setIsLocked(true);
+  }, []);
+
+  // Cover the app while inactive and lock on resume after the timeout
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    const handleChange = (state: AppStateStatus) => {
+      setIsCovered(state !== "active");
+
+      if (state === "background") {
+        backgroundedAt.current = Date.now();
+      } else if (state === "active" && backgroundedAt.current !== null) {
+        const elapsed = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        if (elapsed >= timeoutMinutes * 60 * 1000) {
+          lock();
+        }
+      }
+    };
+
+    const subscription = AppState.addEventListener("change", handleChange);
+    return () => subscription.remove();
+  }, [isEnabled, timeoutMinutes, lock]);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    const success = await unlockJournal(passphrase);
+    if (success) {
+      setIsLocked(false);
+    }
+    return success;
+  }, []);
+
+  const enable = useCallback(async (passphrase: string, minutes?: number) => {
+    await enableJournalLock(passphrase, minutes ?? timeoutMinutes);
+    if (minutes !== undefined) {
+      setTimeoutMinutesState(minutes);
+    }
+    setIsEnabled(true);
+  }, [timeoutMinutes]);
+
+  const disable = useCallback(async () => {
+    await disableJournalLock();
+    setIsEnabled(false);
+    setIsCovered(false);
+  }, []);
+
+  const setTimeoutMinutes = useCallback(async (minutes: number) => {
+    await setJournalLockTimeout(minutes);
+    setTimeoutMinutesState(minutes);
+  }, []);
+
+  if (!isReady) {
+    return null;
+  }
+
+  const value: JournalLockContextType = {
+    isEnabled,
+    isLocked,
+    timeoutMinutes,
+    unlock,
+    lock,
+    enable,
+    disable,
+    setTimeoutMinutes,
+  };
+
+  return (
+    <JournalLockContext.Provider value={value}>
+      {/* Screens stay unmounted while locked so nothing reads the journal */}
+      {isEnabled && isLocked ? <LockScreen onUnlock={unlock} /> : children}
+      {isEnabled && isCovered && (
+        <BlurView intensity={60} tint="dark" style={StyleSheet.absoluteFill} />
+      )}
+    </JournalLockContext.Provider>
+  );
+}
+
+export function useJournalLock() {
+  const context = useContext(JournalLockContext);
+  if (!context) {
+    throw new Error("useJournalLock must be used within a JournalLockProvider");
+  }
+  return context;
+}
+
+export default JournalLockContext;
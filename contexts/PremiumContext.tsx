@@ -25,16 +25,13 @@ import {
   ENTITLEMENT_ID,
   type PremiumPlan,
 } from "@/lib/revenuecat";
-import { FREE_TIER_LIMITS, TRIAL_CONFIG } from "@/lib/premium";
+import {
+  FREE_TIER_LIMITS,
+  TRIAL_CONFIG,
+  PREMIUM_STORAGE_KEYS as STORAGE_KEYS,
+} from "@/lib/premium";
 import { Analytics } from "@/lib/analytics";
 
-// Storage keys
-const STORAGE_KEYS = {
-  trialStartDate: "dreamai_trial_start",
-  monthlyUsage: "dreamai_monthly_usage",
-  currentMonth: "dreamai_current_month",
-};
-
 // Premium state
 type PremiumState = {
   // Subscription status
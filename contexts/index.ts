@@ -1 +1,3 @@
 export { PremiumProvider, usePremium } from "./PremiumContext";
+export { JournalLockProvider, useJournalLock } from "./JournalLockContext";
+export { I18nProvider, useI18n } from "./I18nContext";
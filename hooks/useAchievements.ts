@@ -0,0 +1,36 @@
+import { useCallback } from "react";
+import {
+  checkAchievements,
+  type Achievement,
+  type AchievementEvent,
+} from "@/lib/achievements";
+import { successFeedback } from "@/lib/haptics";
+import { t } from "@/lib/i18n";
+
+/**
+ * Hook that checks achievements and celebrates new unlocks with a toast
+ * and haptic feedback. Pass the screen's `showSuccess` from useToast.
+ */
+export function useAchievements(showSuccess: (message: string) => void) {
+  const celebrate = useCallback(
+    async (event?: AchievementEvent): Promise<Achievement[]> => {
+      const unlocked = await checkAchievements(event);
+      if (unlocked.length === 0) {
+        return unlocked;
+      }
+
+      successFeedback();
+      showSuccess(
+        unlocked.length === 1
+          ? `${unlocked[0].icon} ${t("achievementUnlocked", { title: t(unlocked[0].titleKey) })}`
+          : `🏆 ${t("achievementsUnlocked", { count: unlocked.length })}`
+      );
+      return unlocked;
+    },
+    [showSuccess]
+  );
+
+  return { checkAchievements: celebrate };
+}
+
+export default useAchievements;
@@ -0,0 +1,205 @@
+import { useChat, type UIMessage } from "@ai-sdk/react";
+import { DefaultChatTransport } from "ai";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { fetch as expoFetch } from "expo/fetch";
+import {
+  getStructuredInterpretation,
+  saveDreamConversation,
+  type Dream,
+  type DreamChatMessage,
+} from "@/lib/storage";
+import { CONFIG } from "@/lib/config";
+import { getPreferences } from "@/lib/preferences";
+import { getAppUserHeaders } from "@/lib/revenuecat";
+import { t } from "@/lib/i18n";
+import { MAX_CHAT_MESSAGES } from "@/backend/lib/follow-up";
+
+// Helper to extract text content from UIMessage
+function getMessageText(message: UIMessage): string {
+  if (!message.parts) return "";
+  const textPart = message.parts.find((p) => p.type === "text");
+  return textPart && "text" in textPart ? textPart.text : "";
+}
+
+function toUIMessage(message: DreamChatMessage): UIMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    parts: [{ type: "text", text: message.text }],
+  };
+}
+
+// Hook options
+export type UseDreamChatOptions = {
+  onConversationSaved?: (dream: Dream) => void;
+};
+
+// Hook return type
+export type UseDreamChatReturn = {
+  messages: DreamChatMessage[];
+  isLoading: boolean;
+  error: string | null;
+  sendMessage: (text: string) => Promise<void>;
+  clearError: () => void;
+};
+
+/**
+ * Follow-up conversation about a saved dream
+ *
+ * Sends the dream and its interpretation as context with every message,
+ * asks for replies in the settings language and stores the thread with the
+ * dream after each reply. Only the latest messages go to the chat API, which
+ * counts each one against the monthly chat limit.
+ */
+export function useDreamChat(
+  dream: Dream,
+  options: UseDreamChatOptions = {}
+): UseDreamChatReturn {
+  const [chatError, setChatError] = useState<string | null>(null);
+
+  // Chat callbacks are bound once, so read the latest values through refs
+  const dreamRef = useRef(dream);
+  const onSavedRef = useRef(options.onConversationSaved);
+  useEffect(() => {
+    dreamRef.current = dream;
+    onSavedRef.current = options.onConversationSaved;
+  });
+
+  // Keep the original time of messages that are already saved
+  const createdAtRef = useRef(
+    new Map((dream.conversation ?? []).map((message) => [message.id, message.createdAt]))
+  );
+
+  // Only read when the chat is created
+  const [initialMessages] = useState(() => (dream.conversation ?? []).map(toUIMessage));
+
+  const transport = useMemo(
+    () =>
+      new DefaultChatTransport({
+        api: `${CONFIG.API_BASE_URL}/api/chat`,
+        fetch: expoFetch as unknown as typeof globalThis.fetch,
+        headers: () => getAppUserHeaders(),
+        prepareSendMessagesRequest: ({ id, messages, body, trigger, messageId }) => ({
+          body: {
+            ...body,
+            id,
+            messages: messages.slice(-MAX_CHAT_MESSAGES),
+            trigger,
+            messageId,
+          },
+        }),
+      }),
+    []
+  );
+
+  const {
+    messages,
+    sendMessage: sendChatMessage,
+    status,
+    clearError: clearChatError,
+  } = useChat({
+    id: `dream-chat-${dream.id}`,
+    messages: initialMessages,
+    transport,
+    onError: (err) => {
+      console.error("Dream chat error:", err);
+
+      let errorMessage = t("chatSendFailed");
+      try {
+        // Try to parse JSON error response
+        const parsed = JSON.parse(err.message);
+        errorMessage = parsed.error || errorMessage;
+      } catch {
+        // Keep the generic message
+      }
+      setChatError(errorMessage);
+    },
+    onFinish: async ({ messages: finished, isError, isAbort }) => {
+      if (isError || isAbort) return;
+      setChatError(null);
+
+      const conversation = finished
+        .filter((message) => message.role === "user" || message.role === "assistant")
+        .map((message) => {
+          const createdAt =
+            createdAtRef.current.get(message.id) ?? new Date().toISOString();
+          createdAtRef.current.set(message.id, createdAt);
+          return {
+            id: message.id,
+            role: message.role as DreamChatMessage["role"],
+            text: getMessageText(message),
+            createdAt,
+          };
+        })
+        .filter((message) => message.text.length > 0);
+
+      try {
+        const saved = await saveDreamConversation(dreamRef.current.id, conversation);
+        if (saved) {
+          onSavedRef.current?.(saved);
+        }
+      } catch (error) {
+        console.error("Error saving dream conversation:", error);
+      }
+    },
+  });
+
+  const isLoading = status === "submitted" || status === "streaming";
+
+  // Send a message with the dream as context
+  const sendMessage = useCallback(
+    async (text: string) => {
+      if (!text.trim() || isLoading) return;
+      setChatError(null);
+
+      const current = dreamRef.current;
+      try {
+        const { language } = await getPreferences();
+        await sendChatMessage(
+          { text: text.trim() },
+          {
+            body: {
+              dreamContext: {
+                content: current.content,
+                interpretation: current.interpretation,
+                structured: getStructuredInterpretation(current) ?? undefined,
+              },
+              language,
+            },
+          }
+        );
+      } catch (err) {
+        console.error("Send message error:", err);
+      }
+    },
+    [isLoading, sendChatMessage]
+  );
+
+  const clearError = useCallback(() => {
+    setChatError(null);
+    clearChatError();
+  }, [clearChatError]);
+
+  const chatMessages = useMemo(
+    () =>
+      messages
+        .filter((message) => message.role === "user" || message.role === "assistant")
+        .map((message) => ({
+          id: message.id,
+          role: message.role as DreamChatMessage["role"],
+          text: getMessageText(message),
+          createdAt: createdAtRef.current.get(message.id) ?? "",
+        })),
+    [messages]
+  );
+
+  return {
+    messages: chatMessages,
+    isLoading,
+    error: chatError,
+    sendMessage,
+    clearError,
+  };
+}
+
+export default useDreamChat;
@@ -4,6 +4,7 @@ import { useCallback, useState, useMemo, useRef } from "react";
 import { fetch as expoFetch } from "expo/fetch";
 import { saveDream, type Dream } from "@/lib/storage";
 import { CONFIG } from "@/lib/config";
+import { t } from "@/lib/i18n";
 
 // Error types for better handling
 export type DreamError = {
@@ -94,7 +95,7 @@ export function useDreamInterpretation(
       console.error("Dream interpretation error:", err);
 
       // Parse error message
-      let errorMessage = "Unitulkinta epäonnistui. Yritä uudelleen.";
+      let errorMessage = t("errorInterpretRetry");
       let errorCode: string | undefined;
 
       try {
@@ -162,7 +163,7 @@ export function useDreamInterpretation(
 
     try {
       await sendMessage({
-        text: `Tulkitse tämä uni: ${dreamText}`,
+        text: t("interpretDreamRequest", { dream: dreamText }),
       });
     } catch (err) {
       console.error("Submit error:", err);
@@ -183,7 +184,7 @@ export function useDreamInterpretation(
 
       try {
         await sendMessage({
-          text: `Tulkitse tämä uni: ${dreamText}`,
+          text: t("interpretDreamRequest", { dream: dreamText }),
         });
       } catch (err) {
         console.error("Submit dream error:", err);
@@ -218,7 +219,7 @@ export function useDreamInterpretation(
       dreamError ||
       (chatError
         ? {
-            message: chatError.message || "Tuntematon virhe",
+            message: chatError.message || t("errorUnknown"),
             details: chatError.message,
           }
         : null),
@@ -1,13 +1,13 @@
 import { useCallback, useState, useRef } from "react";
+import { type DreamInterpretation } from "@/lib/schemas/dreamInterpretation";
+import { saveDream, type Dream, type DreamInputMethod } from "@/lib/storage";
 import {
-  dreamInterpretationSchema,
-  type DreamInterpretation,
-} from "@/lib/schemas/dreamInterpretation";
-import { saveDream, type Dream } from "@/lib/storage";
-import { CONFIG } from "@/lib/config";
-
-// API URL - use configured base URL
-const API_URL = CONFIG.API_BASE_URL;
+  fetchStructuredInterpretation,
+  formatInterpretationForStorage,
+} from "@/lib/interpretation";
+import { getProfile, toProfileContext } from "@/lib/profile";
+import { getDreamHistoryContext } from "@/lib/patterns";
+import { t } from "@/lib/i18n";
 
 // Error type
 export type DreamError = {
@@ -15,6 +15,13 @@ export type DreamError = {
   code?: string;
 };
 
+// Per-request options
+export type InterpretDreamOptions = {
+  inputMethod?: DreamInputMethod;
+  useProfile?: boolean; // Send the "about me" profile with this request
+  includeHistory?: boolean; // Send a summary of earlier dreams (premium)
+};
+
 // Hook options
 export type UseStructuredDreamOptions = {
   onDreamSaved?: (dream: Dream) => void;
@@ -35,7 +42,7 @@ export type UseStructuredDreamReturn = {
   dreamContent: string;
 
   // Actions
-  interpretDream: (dream: string) => void;
+  interpretDream: (dream: string, options?: InterpretDreamOptions) => void;
   reset: () => void;
   cancelInterpretation: () => void;
 
@@ -75,7 +82,7 @@ export function useStructuredDream(
 
   // Submit a dream for interpretation
   const interpretDream = useCallback(
-    async (dream: string) => {
+    async (dream: string, requestOptions: InterpretDreamOptions = {}) => {
       if (!dream.trim() || isLoading) return;
 
       // Cancel any previous request
@@ -93,47 +100,45 @@ export function useStructuredDream(
       setInterpretation(undefined);
 
       try {
+        const [profile, history] = await Promise.all([
+          requestOptions.useProfile ? getProfile().then(toProfileContext) : undefined,
+          requestOptions.includeHistory ? getDreamHistoryContext() : undefined,
+        ]);
+
         // Simulate progress during API call
         const progressInterval = setInterval(() => {
           setProgress((prev) => Math.min(prev + 10, 80));
         }, 500);
 
-        const response = await fetch(`${API_URL}/api/interpret-structured`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ dream: dream.trim() }),
-          signal: abortController.signal,
-        });
-
-        clearInterval(progressInterval);
+        const { data, parsed, language } = await fetchStructuredInterpretation(
+          dream.trim(),
+          abortController.signal,
+          { profile, history }
+        ).finally(() => clearInterval(progressInterval));
         setProgress(90);
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "API-kutsu epäonnistui");
-        }
-
-        const data = await response.json();
-
-        // Validate and set interpretation
-        const parsed = dreamInterpretationSchema.safeParse(data);
-
-        if (parsed.success) {
-          setInterpretation(parsed.data);
-        } else {
-          // Use data as-is if schema validation fails (partial data)
-          setInterpretation(data as DeepPartial<DreamInterpretation>);
-        }
+        // Use data as-is if schema validation fails (partial data)
+        setInterpretation(parsed ?? (data as DeepPartial<DreamInterpretation>));
 
         setProgress(100);
 
         // Save dream if autoSave is enabled
         if (autoSave && dream) {
           try {
-            const interpretationText = formatInterpretationForStorage(data);
-            const savedDream = await saveDream(dream.trim(), interpretationText);
+            const interpretationText = formatInterpretationForStorage(
+              data as DreamInterpretation,
+              language
+            );
+            // Only persist the structured form when it is complete and valid
+            const savedDream = await saveDream(
+              dream.trim(),
+              interpretationText,
+              {
+                structured: parsed ?? undefined,
+                inputMethod: requestOptions.inputMethod,
+                language,
+              }
+            );
             setLastSavedDream(savedDream);
             onDreamSaved?.(savedDream);
           } catch (err) {
@@ -148,7 +153,7 @@ export function useStructuredDream(
 
         console.error("Interpretation error:", err);
         setError({
-          message: err instanceof Error ? err.message : "Unitulkinta epäonnistui",
+          message: err instanceof Error ? err.message : t("errorInterpret"),
           code: "INTERPRETATION_ERROR",
         });
       } finally {
@@ -192,54 +197,4 @@ export function useStructuredDream(
   };
 }
 
-/**
- * Format structured interpretation for text storage
- */
-function formatInterpretationForStorage(interpretation: DreamInterpretation): string {
-  const sections: string[] = [];
-
-  if (interpretation.summary) {
-    sections.push(`**Yhteenveto:** ${interpretation.summary}`);
-  }
-
-  if (interpretation.symbols?.length) {
-    sections.push(
-      `\n**Symbolit:**\n${interpretation.symbols
-        .map((s) => `- **${s.symbol}**: ${s.meaning}`)
-        .join("\n")}`
-    );
-  }
-
-  if (interpretation.emotionalAnalysis) {
-    const ea = interpretation.emotionalAnalysis;
-    sections.push(
-      `\n**Tunnemaailma:**\n` +
-        `Päätunne: ${ea.primaryEmotion}\n` +
-        `${ea.subconscious}`
-    );
-  }
-
-  if (interpretation.lifeConnections?.length) {
-    sections.push(
-      `\n**Yhteydet elämään:**\n${interpretation.lifeConnections
-        .map((lc) => `- ${lc.insight}`)
-        .join("\n")}`
-    );
-  }
-
-  if (interpretation.keyMessage) {
-    sections.push(`\n**Avainviesti:** ${interpretation.keyMessage}`);
-  }
-
-  if (interpretation.reflectionQuestions?.length) {
-    sections.push(
-      `\n**Pohdittavaa:**\n${interpretation.reflectionQuestions
-        .map((q) => `- ${q}`)
-        .join("\n")}`
-    );
-  }
-
-  return sections.join("\n");
-}
-
 export default useStructuredDream;
@@ -0,0 +1,246 @@
+/**
+ * Achievements for Unitulkki
+ *
+ * Each achievement is a declarative rule: a `measure` over the journal and
+ * app events, and a `target` it has to reach. Unlocks are persisted so a
+ * trophy stays earned even if the dreams behind it are later deleted.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { storedAchievementsSchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import { getDreams, type Dream } from "@/lib/storage";
+import { enqueueWrite } from "@/lib/dream-repository";
+import { resolveSymbol } from "@/lib/symbols";
+import { getStreakData, getStreakRuns, type StreakData } from "@/lib/streak";
+import { toLocalDateKey } from "@/lib/dates";
+import type { TranslationKey } from "@/lib/i18n";
+
+// Storage key
+export const ACHIEVEMENTS_STORAGE_KEY = "@dreamai_achievements";
+
+// App events counted towards achievements
+export type AchievementEvent = "pdf_export";
+
+export type AchievementContext = {
+  dreams: Dream[];
+  streak: StreakData;
+  events: Partial<Record<AchievementEvent, number>>;
+};
+
+export type Achievement = {
+  id: string;
+  titleKey: TranslationKey;
+  descriptionKey: TranslationKey;
+  icon: string; // Emoji
+  target: number;
+  measure: (context: AchievementContext) => number;
+};
+
+export type AchievementStatus = {
+  achievement: Achievement;
+  unlockedAt: string | null; // ISO date string
+  progress: number; // Current value, capped at target
+};
+
+export type AchievementState = {
+  unlocked: Record<string, string>; // id -> ISO date string
+  events: Partial<Record<AchievementEvent, number>>;
+};
+
+// Entries logged before this hour count as morning entries
+const MORNING_ENTRY_HOUR = 9;
+
+// Canonical symbol of water and its synonyms in the symbol taxonomy
+const WATER_SYMBOL = "vesi";
+
+/**
+ * Check whether a dream features water, in its tags or structured symbols
+ */
+function hasWaterSymbol(dream: Dream): boolean {
+  return [
+    ...(dream.tags ?? []),
+    ...(dream.structured?.symbols ?? []).map((s) => s.symbol),
+  ].some((name) => resolveSymbol(name) === WATER_SYMBOL);
+}
+
+/**
+ * Longest run of consecutive days with an entry before MORNING_ENTRY_HOUR
+ */
+function longestMorningRun(dreams: Dream[]): number {
+  const mornings = dreams
+    .map((dream) => new Date(dream.createdAt))
+    .filter((date) => date.getHours() < MORNING_ENTRY_HOUR)
+    .map(toLocalDateKey);
+  return Math.max(0, ...getStreakRuns(mornings).map((run) => run.length));
+}
+
+// All achievements, in display order
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first_dream",
+    titleKey: "achievementFirstDreamTitle",
+    descriptionKey: "achievementFirstDreamDesc",
+    icon: "🌙",
+    target: 1,
+    measure: ({ dreams }) => dreams.length,
+  },
+  {
+    id: "first_voice_dream",
+    titleKey: "achievementFirstVoiceDreamTitle",
+    descriptionKey: "achievementFirstVoiceDreamDesc",
+    icon: "🎙️",
+    target: 1,
+    measure: ({ dreams }) => dreams.filter((d) => d.inputMethod === "voice").length,
+  },
+  {
+    id: "dreams_10",
+    titleKey: "achievementDreams10Title",
+    descriptionKey: "achievementDreams10Desc",
+    icon: "📔",
+    target: 10,
+    measure: ({ dreams }) => dreams.length,
+  },
+  {
+    id: "dreams_50",
+    titleKey: "achievementDreams50Title",
+    descriptionKey: "achievementDreams50Desc",
+    icon: "📚",
+    target: 50,
+    measure: ({ dreams }) => dreams.length,
+  },
+  {
+    id: "water_10",
+    titleKey: "achievementWater10Title",
+    descriptionKey: "achievementWater10Desc",
+    icon: "🌊",
+    target: 10,
+    measure: ({ dreams }) => dreams.filter(hasWaterSymbol).length,
+  },
+  {
+    id: "morning_week",
+    titleKey: "achievementMorningWeekTitle",
+    descriptionKey: "achievementMorningWeekDesc",
+    icon: "🌅",
+    target: 7,
+    measure: ({ dreams }) => longestMorningRun(dreams),
+  },
+  {
+    id: "streak_30",
+    titleKey: "achievementStreak30Title",
+    descriptionKey: "achievementStreak30Desc",
+    icon: "🔥",
+    target: 30,
+    measure: ({ streak }) => streak.longestStreak,
+  },
+  {
+    id: "first_pdf_export",
+    titleKey: "achievementFirstPdfExportTitle",
+    descriptionKey: "achievementFirstPdfExportDesc",
+    icon: "📄",
+    target: 1,
+    measure: ({ events }) => events.pdf_export ?? 0,
+  },
+];
+
+/**
+ * Load unlock state
+ */
+async function getAchievementState(): Promise<AchievementState> {
+  const saved = await readStoredJson(ACHIEVEMENTS_STORAGE_KEY, storedAchievementsSchema);
+  return {
+    unlocked: saved?.unlocked ?? {},
+    events: saved?.events ?? {},
+  };
+}
+
+/**
+ * Build the context that rules are measured against
+ */
+async function getAchievementContext(
+  events: AchievementState["events"]
+): Promise<AchievementContext> {
+  const [dreams, streak] = await Promise.all([getDreams(), getStreakData()]);
+  return { dreams, streak, events };
+}
+
+/**
+ * Get every achievement with its unlock date and progress
+ */
+export async function getAchievementStatuses(): Promise<AchievementStatus[]> {
+  try {
+    const state = await getAchievementState();
+    const context = await getAchievementContext(state.events);
+
+    return ACHIEVEMENTS.map((achievement) => ({
+      achievement,
+      unlockedAt: state.unlocked[achievement.id] ?? null,
+      progress: Math.min(achievement.target, achievement.measure(context)),
+    }));
+  } catch (error) {
+    console.error("Error getting achievements:", error);
+    return [];
+  }
+}
+
+/**
+ * Merge unlocks and event counts from a backup, keeping the earliest
+ * unlock date and the highest count
+ */
+export function mergeAchievementState(incoming: AchievementState): Promise<void> {
+  return enqueueWrite(async () => {
+    try {
+      const state = await getAchievementState();
+
+      for (const [id, unlockedAt] of Object.entries(incoming.unlocked)) {
+        const current = state.unlocked[id];
+        if (!current || unlockedAt < current) {
+          state.unlocked[id] = unlockedAt;
+        }
+      }
+      for (const [event, count] of Object.entries(incoming.events)) {
+        const key = event as AchievementEvent;
+        state.events[key] = Math.max(state.events[key] ?? 0, count ?? 0);
+      }
+
+      await AsyncStorage.setItem(ACHIEVEMENTS_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error("Error merging achievements:", error);
+    }
+  });
+}
+
+/**
+ * Evaluate all rules, persist new unlocks and return them.
+ * Pass an event to count it first (e.g. after a PDF export). Queued with
+ * dream writes so concurrent checks never lose an unlock or event count.
+ */
+export function checkAchievements(
+  event?: AchievementEvent
+): Promise<Achievement[]> {
+  return enqueueWrite(async () => {
+    try {
+      const state = await getAchievementState();
+      if (event) {
+        state.events[event] = (state.events[event] ?? 0) + 1;
+      }
+
+      const context = await getAchievementContext(state.events);
+      const now = new Date().toISOString();
+      const newlyUnlocked = ACHIEVEMENTS.filter(
+        (achievement) =>
+          !state.unlocked[achievement.id] &&
+          achievement.measure(context) >= achievement.target
+      );
+      for (const achievement of newlyUnlocked) {
+        state.unlocked[achievement.id] = now;
+      }
+
+      await AsyncStorage.setItem(ACHIEVEMENTS_STORAGE_KEY, JSON.stringify(state));
+      return newlyUnlocked;
+    } catch (error) {
+      console.error("Error checking achievements:", error);
+      return [];
+    }
+  });
+}
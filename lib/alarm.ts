@@ -1,9 +1,12 @@
 import * as Notifications from "expo-notifications";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
+import { storedAlarmsSchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import { t } from "@/lib/i18n";
 
 // Storage keys
-const ALARM_STORAGE_KEYS = {
+export const ALARM_STORAGE_KEYS = {
   alarms: "dreamai_alarms",
   nextAlarmId: "dreamai_next_alarm_id",
 };
@@ -22,9 +25,10 @@ export interface Alarm {
 }
 
 // Notification configuration for alarms
+// Title and body are read when scheduling, in the app language
 const ALARM_NOTIFICATION_CONTENT = {
-  title: "⏰ Herätys - Unitulkki",
-  body: "Aamu! Kirjaa unesi nyt kun se on vielä tuoreessa muistissa.",
+  titleKey: "alarmNotificationTitle" as const,
+  bodyKey: "alarmNotificationBody" as const,
   sound: true,
   priority: Notifications.AndroidNotificationPriority.HIGH,
   sticky: true, // Keep notification visible
@@ -180,8 +184,8 @@ async function scheduleAlarmNotification(
 
     const notificationId = await Notifications.scheduleNotificationAsync({
       content: {
-        title: ALARM_NOTIFICATION_CONTENT.title,
-        body: ALARM_NOTIFICATION_CONTENT.body,
+        title: t(ALARM_NOTIFICATION_CONTENT.titleKey),
+        body: t(ALARM_NOTIFICATION_CONTENT.bodyKey),
         sound: alarm.sound || 'default',
         priority: Notifications.AndroidNotificationPriority.HIGH,
         vibrate: alarm.vibration !== false ? [0, 250, 250, 250] : undefined,
@@ -209,8 +213,8 @@ async function scheduleAlarmNotification(
  */
 export async function getAlarms(): Promise<Alarm[]> {
   try {
-    const alarmsJson = await AsyncStorage.getItem(ALARM_STORAGE_KEYS.alarms);
-    return alarmsJson ? JSON.parse(alarmsJson) : [];
+    const alarms = await readStoredJson(ALARM_STORAGE_KEYS.alarms, storedAlarmsSchema);
+    return alarms ?? [];
   } catch (error) {
     console.error("Error getting alarms:", error);
     return [];
@@ -224,6 +228,51 @@ async function saveAlarms(alarms: Alarm[]): Promise<void> {
   await AsyncStorage.setItem(ALARM_STORAGE_KEYS.alarms, JSON.stringify(alarms));
 }
 
+/**
+ * Restore alarms from a backup. Enabled alarms are scheduled again;
+ * "replace" cancels and removes the current alarms first, "merge" skips
+ * alarms that already exist at the same time and days.
+ */
+export async function restoreAlarms(
+  alarms: Alarm[],
+  mode: "merge" | "replace"
+): Promise<number> {
+  try {
+    const existing = await getAlarms();
+    if (mode === "replace") {
+      for (const alarm of existing) {
+        await deleteAlarm(alarm.id);
+      }
+    }
+
+    const current = mode === "replace" ? [] : existing;
+    const isDuplicate = (alarm: Alarm) =>
+      current.some(
+        (a) =>
+          a.hour === alarm.hour &&
+          a.minute === alarm.minute &&
+          a.days.join(",") === alarm.days.join(",")
+      );
+
+    let restored = 0;
+    for (const { id, notificationIds, ...alarm } of alarms) {
+      if (isDuplicate({ id, ...alarm })) continue;
+
+      if (alarm.enabled) {
+        await createAlarm(alarm);
+      } else {
+        // Disabled alarms are stored without scheduling notifications
+        await saveAlarms([...(await getAlarms()), { ...alarm, id: `alarm_${Date.now()}_${restored}` }]);
+      }
+      restored++;
+    }
+    return restored;
+  } catch (error) {
+    console.error("Error restoring alarms:", error);
+    throw new Error(t("errorRestoreAlarms"));
+  }
+}
+
 /**
  * Update an existing alarm
  */
@@ -265,6 +314,50 @@ export async function updateAlarm(id: string, updates: Partial<Alarm>): Promise<
   }
 }
 
+/**
+ * Schedule every enabled alarm again so the notification text follows the
+ * app language. Scheduled notifications keep the text they were created with.
+ */
+export async function rescheduleAlarms(): Promise<void> {
+  try {
+    const alarms = await getAlarms();
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const rescheduled: Alarm[] = [];
+
+    for (const alarm of alarms) {
+      if (!alarm.enabled) {
+        rescheduled.push(alarm);
+        continue;
+      }
+
+      // Stored ids may not match the scheduled ones, so cancel by alarm id
+      for (const request of scheduled) {
+        if (request.content.data?.alarmId === alarm.id) {
+          await Notifications.cancelScheduledNotificationAsync(request.identifier);
+        }
+      }
+
+      const notificationIds: string[] = [];
+      const days = alarm.days.length > 0 ? alarm.days : [undefined];
+      for (const day of days) {
+        const notificationId = await scheduleAlarmNotification({
+          ...alarm,
+          notificationIds: undefined,
+          day,
+        });
+        if (notificationId) {
+          notificationIds.push(notificationId);
+        }
+      }
+      rescheduled.push({ ...alarm, notificationIds });
+    }
+
+    await saveAlarms(rescheduled);
+  } catch (error) {
+    console.error("Error rescheduling alarms:", error);
+  }
+}
+
 /**
  * Delete an alarm
  */
@@ -379,8 +472,8 @@ export async function snoozeAlarm(alarmId: string, snoozeMinutes: number = 5): P
     
     await Notifications.scheduleNotificationAsync({
       content: {
-        title: "⏰ Torkku - Unitulkki",
-        body: `Heräys ${snoozeMinutes} minuutin päästä!`,
+        title: t("alarmSnoozeTitle"),
+        body: t("alarmSnoozeBody", { count: snoozeMinutes }),
         sound: true,
         priority: Notifications.AndroidNotificationPriority.HIGH,
       },
@@ -51,7 +51,7 @@ export type UserProperties = {
 };
 
 // Storage keys
-const STORAGE_KEYS = {
+export const ANALYTICS_STORAGE_KEYS = {
   analyticsEnabled: "dreamai_analytics_enabled",
   userId: "dreamai_user_id",
   sessionId: "dreamai_session_id",
@@ -79,14 +79,14 @@ export async function initializeAnalytics(): Promise<void> {
 
   try {
     // Check if analytics is enabled
-    const enabled = await AsyncStorage.getItem(STORAGE_KEYS.analyticsEnabled);
+    const enabled = await AsyncStorage.getItem(ANALYTICS_STORAGE_KEYS.analyticsEnabled);
     analyticsEnabled = enabled !== "false";
 
     // Get or create user ID
-    let storedUserId = await AsyncStorage.getItem(STORAGE_KEYS.userId);
+    let storedUserId = await AsyncStorage.getItem(ANALYTICS_STORAGE_KEYS.userId);
     if (!storedUserId) {
       storedUserId = `user_${generateId()}`;
-      await AsyncStorage.setItem(STORAGE_KEYS.userId, storedUserId);
+      await AsyncStorage.setItem(ANALYTICS_STORAGE_KEYS.userId, storedUserId);
     }
     userId = storedUserId;
 
@@ -209,7 +209,7 @@ export function trackConversion(
 export async function setAnalyticsEnabled(enabled: boolean): Promise<void> {
   analyticsEnabled = enabled;
   await AsyncStorage.setItem(
-    STORAGE_KEYS.analyticsEnabled,
+    ANALYTICS_STORAGE_KEYS.analyticsEnabled,
     enabled ? "true" : "false"
   );
   
@@ -222,7 +222,7 @@ export async function setAnalyticsEnabled(enabled: boolean): Promise<void> {
  * Check if analytics is enabled
  */
 export async function isAnalyticsEnabled(): Promise<boolean> {
-  const stored = await AsyncStorage.getItem(STORAGE_KEYS.analyticsEnabled);
+  const stored = await AsyncStorage.getItem(ANALYTICS_STORAGE_KEYS.analyticsEnabled);
   return stored !== "false";
 }
 
@@ -231,7 +231,7 @@ export async function isAnalyticsEnabled(): Promise<boolean> {
  */
 async function queueEvent(eventData: object): Promise<void> {
   try {
-    const queueStr = await AsyncStorage.getItem(STORAGE_KEYS.eventQueue);
+    const queueStr = await AsyncStorage.getItem(ANALYTICS_STORAGE_KEYS.eventQueue);
     const queue: object[] = queueStr ? JSON.parse(queueStr) : [];
     
     queue.push(eventData);
@@ -240,7 +240,7 @@ async function queueEvent(eventData: object): Promise<void> {
     const trimmedQueue = queue.slice(-100);
     
     await AsyncStorage.setItem(
-      STORAGE_KEYS.eventQueue,
+      ANALYTICS_STORAGE_KEYS.eventQueue,
       JSON.stringify(trimmedQueue)
     );
   } catch (error) {
@@ -253,7 +253,7 @@ async function queueEvent(eventData: object): Promise<void> {
  */
 export async function flushEvents(): Promise<void> {
   try {
-    const queueStr = await AsyncStorage.getItem(STORAGE_KEYS.eventQueue);
+    const queueStr = await AsyncStorage.getItem(ANALYTICS_STORAGE_KEYS.eventQueue);
     if (!queueStr) return;
 
     const queue: object[] = JSON.parse(queueStr);
@@ -266,7 +266,7 @@ export async function flushEvents(): Promise<void> {
     // });
 
     // Clear queue after successful send
-    await AsyncStorage.removeItem(STORAGE_KEYS.eventQueue);
+    await AsyncStorage.removeItem(ANALYTICS_STORAGE_KEYS.eventQueue);
 
     if (__DEV__) {
       console.log("[Analytics] Flushed", queue.length, "events");
@@ -281,9 +281,9 @@ export async function flushEvents(): Promise<void> {
  */
 export async function resetAnalytics(): Promise<void> {
   await AsyncStorage.multiRemove([
-    STORAGE_KEYS.userId,
-    STORAGE_KEYS.sessionId,
-    STORAGE_KEYS.eventQueue,
+    ANALYTICS_STORAGE_KEYS.userId,
+    ANALYTICS_STORAGE_KEYS.sessionId,
+    ANALYTICS_STORAGE_KEYS.eventQueue,
   ]);
   
   userId = null;
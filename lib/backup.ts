@@ -0,0 +1,242 @@
+/**
+ * Journal backup and restore
+ *
+ * Exports the whole journal (dreams, streak settings, alarms, reminders,
+ * preferences and trophies) as one versioned JSON file, and restores it by
+ * merging into or replacing the current journal. Dreams are matched by id.
+ *
+ * The archive is plain JSON even when the journal lock is on.
+ */
+
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  backupArchiveSchema,
+  backupDreamSchema,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  type BackupArchive,
+  type BackupDream,
+} from "@/lib/schemas/backup";
+import { storedAchievementsSchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import { getDreams, restoreDreams, type RestoreMode } from "@/lib/storage";
+import { getDreamIndex } from "@/lib/dream-repository";
+import { getStreakData, getStreakSettings, saveStreakSettings } from "@/lib/streak";
+import { setLocale, t } from "@/lib/i18n";
+import { getAlarms, restoreAlarms } from "@/lib/alarm";
+import {
+  getNotificationSettings,
+  refreshScheduledNotifications,
+  toggleNotifications,
+  updateNotificationTime,
+} from "@/lib/notifications";
+import { getPreferences, savePreferences } from "@/lib/preferences";
+import { ACHIEVEMENTS_STORAGE_KEY, mergeAchievementState } from "@/lib/achievements";
+import { toLocalDateKey } from "@/lib/dates";
+
+export type ParsedBackup = {
+  archive: BackupArchive;
+  dreams: BackupDream[];
+  skippedDreams: number; // Dreams that failed validation
+};
+
+export type BackupPreview = {
+  exportedAt: string;
+  dreams: number;
+  newDreams: number;
+  duplicateDreams: number; // Already in the journal, kept as is on merge
+  skippedDreams: number;
+  alarms: number;
+  hasNotifications: boolean;
+  hasPreferences: boolean;
+  achievements: number;
+};
+
+export type RestoreResult = {
+  dreams: number;
+  alarms: number;
+};
+
+/**
+ * Collect everything into a backup archive
+ */
+export async function createBackup(): Promise<BackupArchive> {
+  const [dreams, streak, streakSettings, alarms, notifications, preferences, achievements] =
+    await Promise.all([
+      getDreams(),
+      getStreakData(),
+      getStreakSettings(),
+      getAlarms(),
+      getNotificationSettings(),
+      getPreferences(),
+      readStoredJson(ACHIEVEMENTS_STORAGE_KEY, storedAchievementsSchema),
+    ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    dreams,
+    streak: {
+      settings: streakSettings,
+      currentStreak: streak.currentStreak,
+      longestStreak: streak.longestStreak,
+    },
+    alarms: alarms.map((alarm) => ({ ...alarm })),
+    notifications,
+    preferences,
+    achievements: achievements ?? undefined,
+  };
+}
+
+/**
+ * Write a backup file and open the share sheet
+ */
+export async function exportBackup(): Promise<void> {
+  try {
+    const archive = await createBackup();
+    const file = new File(
+      Paths.cache,
+      `unitulkki-varmuuskopio-${toLocalDateKey(new Date())}.json`
+    );
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(JSON.stringify(archive, null, 2));
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(file.uri, {
+        mimeType: "application/json",
+        dialogTitle: t("backupSaveDialog"),
+        UTI: "public.json",
+      });
+    }
+  } catch (error) {
+    console.error("Error exporting backup:", error);
+    throw new Error(t("backupExportFailed"));
+  }
+}
+
+/**
+ * Let the user pick a backup file and return its contents,
+ * or null if the picker was cancelled
+ */
+export async function pickBackupFile(): Promise<string | null> {
+  const picked = await File.pickFileAsync(undefined, "application/json").catch(() => null);
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) {
+    return null;
+  }
+
+  try {
+    return await file.text();
+  } catch (error) {
+    console.error("Error reading backup file:", error);
+    throw new Error(t("importReadFailed"));
+  }
+}
+
+/**
+ * Validate a backup file. Invalid dreams are skipped and counted rather
+ * than rejecting the whole archive.
+ */
+export function parseBackup(text: string): ParsedBackup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(t("backupInvalidJson"));
+  }
+
+  const result = backupArchiveSchema.safeParse(json);
+  if (!result.success) {
+    console.warn("Invalid backup archive:", result.error.issues);
+    throw new Error(t("backupNotBackup"));
+  }
+
+  const archive = result.data;
+  if (archive.version > BACKUP_VERSION) {
+    throw new Error(t("backupNewerVersion"));
+  }
+
+  const dreams: BackupDream[] = [];
+  let skippedDreams = 0;
+  for (const raw of archive.dreams) {
+    const dream = backupDreamSchema.safeParse(raw);
+    if (dream.success) {
+      dreams.push(dream.data);
+    } else {
+      skippedDreams++;
+    }
+  }
+
+  return { archive, dreams, skippedDreams };
+}
+
+/**
+ * Count what a restore would bring in
+ */
+export async function getBackupPreview(backup: ParsedBackup): Promise<BackupPreview> {
+  const existingIds = new Set((await getDreamIndex()).map((entry) => entry.id));
+  const incomingIds = new Set(backup.dreams.map((dream) => dream.id));
+  const duplicateDreams = [...incomingIds].filter((id) => existingIds.has(id)).length;
+  const { archive } = backup;
+
+  return {
+    exportedAt: archive.exportedAt,
+    dreams: incomingIds.size,
+    newDreams: incomingIds.size - duplicateDreams,
+    duplicateDreams,
+    skippedDreams: backup.skippedDreams,
+    alarms: archive.alarms?.length ?? 0,
+    hasNotifications: archive.notifications !== undefined,
+    hasPreferences: archive.preferences !== undefined,
+    achievements: Object.keys(archive.achievements?.unlocked ?? {}).length,
+  };
+}
+
+/**
+ * Restore a validated backup. "merge" keeps local dreams and adds the rest;
+ * "replace" swaps the journal and alarms for the ones in the backup.
+ */
+export async function restoreBackup(
+  backup: ParsedBackup,
+  mode: RestoreMode
+): Promise<RestoreResult> {
+  const { archive } = backup;
+
+  const dreams = await restoreDreams(backup.dreams, mode);
+  const alarms = archive.alarms ? await restoreAlarms(archive.alarms, mode) : 0;
+
+  try {
+    if (archive.streak?.settings) {
+      await saveStreakSettings(archive.streak.settings);
+    }
+    if (archive.preferences) {
+      await savePreferences(archive.preferences);
+      if (archive.preferences.language) {
+        // Switch the app over and reschedule alarms in the restored language
+        setLocale(archive.preferences.language);
+        await refreshScheduledNotifications();
+      }
+    }
+    if (archive.achievements) {
+      await mergeAchievementState({
+        unlocked: archive.achievements.unlocked ?? {},
+        events: archive.achievements.events ?? {},
+      });
+    }
+    if (archive.notifications) {
+      const { enabled, hour, minute } = archive.notifications;
+      await updateNotificationTime(hour, minute);
+      await toggleNotifications(enabled);
+    }
+  } catch (error) {
+    // Dreams are already restored, so settings failures are not fatal
+    console.error("Error restoring settings from backup:", error);
+  }
+
+  return { dreams, alarms };
+}
@@ -0,0 +1,51 @@
+/**
+ * Local calendar date helpers
+ *
+ * Date keys are YYYY-MM-DD strings in the device's local time zone, so an
+ * entry written at 23:30 lands on that evening rather than on the UTC day.
+ */
+
+/**
+ * Local YYYY-MM-DD key for a date
+ */
+export function toLocalDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Key of the "dream day" a moment belongs to. Entries before the cutoff
+ * hour count for the previous night, so a 2 am entry with a 4 am cutoff
+ * lands on yesterday.
+ */
+export function toDreamDayKey(date: Date, cutoffHour: number): string {
+  const key = toLocalDateKey(date);
+  return date.getHours() < cutoffHour ? addDays(key, -1) : key;
+}
+
+/**
+ * Parse a date key into a local Date at noon (safe across DST changes)
+ */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day, 12);
+}
+
+/**
+ * Shift a date key by a number of days
+ */
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toLocalDateKey(date);
+}
+
+/**
+ * Whole days from one date key to another (positive if `to` is later)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (parseDateKey(to).getTime() - parseDateKey(from).getTime()) / (24 * 60 * 60 * 1000)
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Dream history filters and sorting
+ *
+ * Pure filter-state model used by the History screen, plus persistence of
+ * the last-used filters.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { storedDreamFiltersSchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import type { Dream } from "@/lib/storage";
+import type { DreamInterpretation } from "@/lib/schemas/dreamInterpretation";
+
+// Storage key
+export const DREAM_FILTERS_STORAGE_KEY = "@dreamai_history_filters";
+
+export type DreamSortOrder = "newest" | "oldest" | "most_symbols";
+
+export type DatePreset = "all" | "7d" | "30d" | "90d" | "365d" | "custom";
+
+export type Confidence = DreamInterpretation["confidence"];
+
+export type DreamFilters = {
+  moods: string[]; // Empty = any mood
+  tags: string[]; // Dream must have every selected tag
+  datePreset: DatePreset;
+  dateFrom: string | null; // YYYY-MM-DD, used with "custom"
+  dateTo: string | null; // YYYY-MM-DD, used with "custom"
+  confidence: Confidence[]; // Empty = any (including unstructured dreams)
+  voiceOnly: boolean;
+  sort: DreamSortOrder;
+};
+
+export const DEFAULT_DREAM_FILTERS: DreamFilters = {
+  moods: [],
+  tags: [],
+  datePreset: "all",
+  dateFrom: null,
+  dateTo: null,
+  confidence: [],
+  voiceOnly: false,
+  sort: "newest",
+};
+
+// Length of each relative date preset in days
+const PRESET_DAYS: Record<Exclude<DatePreset, "all" | "custom">, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "365d": 365,
+};
+
+/**
+ * Check whether any filter narrows the list (sorting alone does not)
+ */
+export function hasActiveFilters(filters: DreamFilters): boolean {
+  return (
+    filters.moods.length > 0 ||
+    filters.tags.length > 0 ||
+    filters.datePreset !== "all" ||
+    filters.confidence.length > 0 ||
+    filters.voiceOnly
+  );
+}
+
+/**
+ * Count active filter groups, for the filter button badge
+ */
+export function countActiveFilters(filters: DreamFilters): number {
+  return [
+    filters.moods.length > 0,
+    filters.tags.length > 0,
+    filters.datePreset !== "all",
+    filters.confidence.length > 0,
+    filters.voiceOnly,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Resolve the date filter into an inclusive [from, to] range of timestamps
+ */
+function getDateBounds(filters: DreamFilters, now: Date): { from: number; to: number } {
+  if (filters.datePreset === "custom") {
+    const from = filters.dateFrom
+      ? new Date(`${filters.dateFrom}T00:00:00`).getTime()
+      : -Infinity;
+    const to = filters.dateTo
+      ? new Date(`${filters.dateTo}T23:59:59.999`).getTime()
+      : Infinity;
+    return { from, to };
+  }
+
+  if (filters.datePreset === "all") {
+    return { from: -Infinity, to: Infinity };
+  }
+
+  const days = PRESET_DAYS[filters.datePreset];
+  return { from: now.getTime() - days * 24 * 60 * 60 * 1000, to: Infinity };
+}
+
+/**
+ * Number of symbols in a dream's structured interpretation
+ */
+function symbolCount(dream: Dream): number {
+  return dream.structured?.symbols?.length ?? 0;
+}
+
+/**
+ * Filter and sort dreams
+ */
+export function applyDreamFilters(
+  dreams: Dream[],
+  filters: DreamFilters,
+  now: Date = new Date()
+): Dream[] {
+  const { from, to } = getDateBounds(filters, now);
+
+  const filtered = dreams.filter((dream) => {
+    const time = new Date(dream.createdAt).getTime();
+    if (time < from || time > to) return false;
+
+    if (filters.moods.length > 0 && !filters.moods.includes(dream.mood || "neutral")) {
+      return false;
+    }
+
+    if (filters.tags.length > 0) {
+      const tags = dream.tags ?? [];
+      if (!filters.tags.every((tag) => tags.includes(tag))) return false;
+    }
+
+    if (filters.confidence.length > 0) {
+      const confidence = dream.structured?.confidence;
+      if (!confidence || !filters.confidence.includes(confidence)) return false;
+    }
+
+    if (filters.voiceOnly && dream.inputMethod !== "voice") {
+      return false;
+    }
+
+    return true;
+  });
+
+  const byDate = (a: Dream, b: Dream) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+  switch (filters.sort) {
+    case "oldest":
+      return filtered.sort((a, b) => byDate(b, a));
+    case "most_symbols":
+      return filtered.sort((a, b) => symbolCount(b) - symbolCount(a) || byDate(a, b));
+    default:
+      return filtered.sort(byDate);
+  }
+}
+
+/**
+ * All tags used in the given dreams, most common first
+ */
+export function getAvailableTags(dreams: Dream[]): string[] {
+  const counts: Record<string, number> = {};
+  for (const dream of dreams) {
+    for (const tag of dream.tags ?? []) {
+      counts[tag] = (counts[tag] || 0) + 1;
+    }
+  }
+  return Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([tag]) => tag);
+}
+
+/**
+ * Load the last-used filters
+ */
+export async function getSavedDreamFilters(): Promise<DreamFilters> {
+  try {
+    const saved = await readStoredJson(DREAM_FILTERS_STORAGE_KEY, storedDreamFiltersSchema);
+    return saved ? { ...DEFAULT_DREAM_FILTERS, ...saved } : DEFAULT_DREAM_FILTERS;
+  } catch (error) {
+    console.error("Error loading filters:", error);
+    return DEFAULT_DREAM_FILTERS;
+  }
+}
+
+/**
+ * Remember filters for the next visit
+ */
+export async function saveDreamFilters(filters: DreamFilters): Promise<void> {
+  try {
+    await AsyncStorage.setItem(DREAM_FILTERS_STORAGE_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.error("Error saving filters:", error);
+  }
+}
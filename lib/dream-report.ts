@@ -0,0 +1,544 @@
+/**
+ * Dream Report
+ *
+ * Premium feature: a printable monthly (or custom period) report of the
+ * pattern analysis, with symbol trends, mood and weekday charts drawn as
+ * inline SVG, insights and the most vivid dreams of the period.
+ */
+
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { moodColors, moodLabelKeys } from "@/lib/schemas/dreamInterpretation";
+import { toLocalDateKey } from "@/lib/dates";
+import { formatDate, formatNumber, getLocale, t, type TranslationKey } from "@/lib/i18n";
+import {
+  computeDreamPatterns,
+  getSymbolLabel,
+  getTrendIcon,
+  type DreamPatternAnalysis,
+  type MoodPattern,
+  type SymbolPattern,
+} from "./patterns";
+import { escapeHtml, themeVariables, type PdfTheme } from "./pdf-export";
+import { getStructuredInterpretation, type Dream } from "./storage";
+import { loadSymbolDictionary } from "./symbols";
+
+export type ReportMonth = {
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string; // YYYY-MM-DD
+  label: string;
+};
+
+export type DreamReportOptions = {
+  period: string; // Shown on the cover, e.g. "lokakuu 2026"
+  theme?: PdfTheme;
+};
+
+// Number of vivid dreams highlighted in the report
+const HIGHLIGHT_COUNT = 3;
+
+// Monday first
+const WEEKDAY_LABEL_KEYS: TranslationKey[] = [
+  "dayShortMonday",
+  "dayShortTuesday",
+  "dayShortWednesday",
+  "dayShortThursday",
+  "dayShortFriday",
+  "dayShortSaturday",
+  "dayShortSunday",
+];
+
+const TREND_COLORS: Record<SymbolPattern["trend"], string> = {
+  increasing: "#10B981",
+  decreasing: "#EF4444",
+  stable: "#64748B",
+};
+
+const TREND_LABEL_KEYS: Record<SymbolPattern["trend"], TranslationKey> = {
+  increasing: "trendIncreasing",
+  decreasing: "trendDecreasing",
+  stable: "trendStable",
+};
+
+const REPORT_STYLES = `
+    @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
+
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    html, body {
+      background: var(--bg);
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+
+    body {
+      font-family: var(--font);
+      color: var(--text);
+      line-height: 1.5;
+      padding: 40px;
+    }
+
+    .header {
+      text-align: center;
+      margin-bottom: 32px;
+      padding-bottom: 20px;
+      border-bottom: 2px solid var(--accent);
+    }
+
+    .header h1 {
+      font-size: 28px;
+      font-weight: 700;
+      color: var(--accent);
+    }
+
+    .header .period {
+      font-size: 16px;
+      color: var(--muted);
+      text-transform: capitalize;
+    }
+
+    .stat-grid {
+      display: flex;
+      gap: 12px;
+      margin-bottom: 24px;
+    }
+
+    .stat {
+      flex: 1;
+      padding: 14px;
+      border-radius: 12px;
+      background: var(--surface);
+      border: 1px solid var(--border);
+      text-align: center;
+    }
+
+    .stat .value {
+      font-size: 24px;
+      font-weight: 700;
+      color: var(--accent);
+    }
+
+    .stat .label {
+      font-size: 10px;
+      color: var(--muted);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .card {
+      background: var(--surface);
+      border: 1px solid var(--border);
+      border-radius: 16px;
+      padding: 20px;
+      margin-bottom: 20px;
+      box-shadow: var(--shadow);
+      page-break-inside: avoid;
+      break-inside: avoid;
+    }
+
+    .card h2 {
+      font-size: 13px;
+      font-weight: 600;
+      color: var(--accent);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      margin-bottom: 12px;
+    }
+
+    .insight {
+      font-size: 13px;
+      padding: 8px 0 8px 12px;
+      border-left: 3px solid var(--accent-alt);
+      margin-bottom: 8px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 12px;
+    }
+
+    th {
+      text-align: left;
+      font-weight: 600;
+      color: var(--muted);
+      padding: 6px 4px;
+      border-bottom: 1px solid var(--border);
+    }
+
+    td {
+      padding: 6px 4px;
+      border-bottom: 1px solid var(--border);
+      vertical-align: middle;
+    }
+
+    .num {
+      text-align: right;
+    }
+
+    .trend {
+      font-weight: 600;
+      white-space: nowrap;
+    }
+
+    .chart-row {
+      display: flex;
+      align-items: center;
+      gap: 24px;
+    }
+
+    .legend {
+      flex: 1;
+      font-size: 12px;
+    }
+
+    .legend-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 4px;
+    }
+
+    .swatch {
+      width: 10px;
+      height: 10px;
+      border-radius: 5px;
+      flex-shrink: 0;
+    }
+
+    .legend-item .count {
+      margin-left: auto;
+      color: var(--muted);
+    }
+
+    .time-facts {
+      display: flex;
+      gap: 24px;
+      font-size: 12px;
+      color: var(--muted);
+      margin-top: 8px;
+    }
+
+    .time-facts strong {
+      color: var(--text);
+    }
+
+    .highlight {
+      padding: 12px 0;
+      border-bottom: 1px solid var(--border);
+    }
+
+    .highlight:last-child {
+      border-bottom: none;
+    }
+
+    .highlight .date {
+      font-size: 11px;
+      font-weight: 600;
+      color: var(--accent);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .highlight .excerpt {
+      font-size: 13px;
+      font-style: italic;
+      margin: 4px 0;
+    }
+
+    .highlight .summary {
+      font-size: 12px;
+      color: var(--muted);
+    }
+
+    .footer {
+      text-align: center;
+      margin-top: 32px;
+      color: var(--muted);
+      font-size: 11px;
+    }
+`;
+
+/**
+ * Date range and label for a calendar month (month is 0-based)
+ */
+export function getReportMonth(year: number, month: number): ReportMonth {
+  const first = new Date(year, month, 1);
+  const last = new Date(year, month + 1, 0);
+  return {
+    dateFrom: toLocalDateKey(first),
+    dateTo: toLocalDateKey(last),
+    label: formatDate(first, { month: "long", year: "numeric" }),
+  };
+}
+
+/**
+ * The current month and the ones before it, newest first
+ */
+export function getRecentReportMonths(count: number, now: Date = new Date()): ReportMonth[] {
+  return Array.from({ length: count }, (_, index) =>
+    getReportMonth(now.getFullYear(), now.getMonth() - index)
+  );
+}
+
+/**
+ * Score how vivid a dream is from its length and interpretation detail
+ */
+function vividness(dream: Dream): number {
+  const words = dream.content.split(/\s+/).filter(Boolean).length;
+  const structured = getStructuredInterpretation(dream);
+  const symbols = structured?.symbols ?? [];
+  const strongSymbols = symbols.filter((symbol) => symbol.relevance === "high").length;
+  const emotions = structured?.emotionalAnalysis.secondaryEmotions.length ?? 0;
+  return words + symbols.length * 10 + strongSymbols * 10 + emotions * 5;
+}
+
+/**
+ * Mood distribution as an SVG donut with a legend
+ */
+function generateMoodChart(moods: MoodPattern[], total: number): string {
+  const radius = 54;
+  const circumference = 2 * Math.PI * radius;
+  let offset = 0;
+
+  const segments = moods
+    .map((mood) => {
+      const length = (mood.count / total) * circumference;
+      const segment = `<circle cx="70" cy="70" r="${radius}" fill="none" stroke="${moodColors[mood.mood]}" stroke-width="22" stroke-dasharray="${length.toFixed(2)} ${(circumference - length).toFixed(2)}" stroke-dashoffset="${(-offset).toFixed(2)}" transform="rotate(-90 70 70)"/>`;
+      offset += length;
+      return segment;
+    })
+    .join("");
+
+  const legend = moods
+    .map(
+      (mood) => `
+        <div class="legend-item">
+          <span class="swatch" style="background: ${moodColors[mood.mood]}"></span>
+          <span>${mood.emoji} ${escapeHtml(mood.moodLabel)}</span>
+          <span class="count">${mood.count} · ${mood.percentage}%</span>
+        </div>
+      `
+    )
+    .join("");
+
+  return `
+    <div class="chart-row">
+      <svg width="140" height="140" viewBox="0 0 140 140">
+        ${segments}
+        <text x="70" y="76" text-anchor="middle" font-size="20" font-weight="700" fill="currentColor">${total}</text>
+      </svg>
+      <div class="legend">${legend}</div>
+    </div>
+  `;
+}
+
+/**
+ * Dreams per weekday as an SVG column chart, Monday first
+ */
+function generateWeekdayChart(dreams: Dream[]): string {
+  const counts = new Array(7).fill(0);
+  for (const dream of dreams) {
+    counts[(new Date(dream.createdAt).getDay() + 6) % 7]++;
+  }
+  const max = Math.max(1, ...counts);
+  const barWidth = 36;
+  const gap = 16;
+  const height = 100;
+
+  const bars = counts
+    .map((count, index) => {
+      const barHeight = (count / max) * height;
+      const x = index * (barWidth + gap);
+      return `
+        <rect x="${x}" y="${height - barHeight + 16}" width="${barWidth}" height="${barHeight}" rx="6" style="fill: var(--accent)" opacity="${count === max ? 1 : 0.55}"/>
+        <text x="${x + barWidth / 2}" y="${height - barHeight + 12}" text-anchor="middle" font-size="10" fill="currentColor">${count || ""}</text>
+        <text x="${x + barWidth / 2}" y="${height + 32}" text-anchor="middle" font-size="11" fill="currentColor">${t(WEEKDAY_LABEL_KEYS[index])}</text>
+      `;
+    })
+    .join("");
+
+  const width = 7 * barWidth + 6 * gap;
+  return `<svg width="100%" viewBox="0 0 ${width} ${height + 40}">${bars}</svg>`;
+}
+
+/**
+ * Symbol frequency table with trends
+ */
+function generateSymbolTable(symbols: SymbolPattern[]): string {
+  const rows = symbols
+    .map(
+      (symbol) => `
+        <tr>
+          <td>${escapeHtml(getSymbolLabel(symbol.symbol))}</td>
+          <td class="num">${symbol.count}</td>
+          <td>
+            <svg width="100" height="8"><rect width="100" height="8" rx="4" style="fill: var(--surface-alt)"/><rect width="${symbol.percentage}" height="8" rx="4" style="fill: var(--accent)"/></svg>
+            ${symbol.percentage}%
+          </td>
+          <td class="trend" style="color: ${TREND_COLORS[symbol.trend]}">${getTrendIcon(symbol.trend)} ${t(TREND_LABEL_KEYS[symbol.trend])}</td>
+          <td>${formatDate(symbol.lastSeen)}</td>
+        </tr>
+      `
+    )
+    .join("");
+
+  return `
+    <table>
+      <thead>
+        <tr><th>${t("reportSymbol")}</th><th class="num">${t("reportTimes")}</th><th>${t("reportShareOfDreams")}</th><th>${t("reportTrend")}</th><th>${t("reportLastSeen")}</th></tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+  `;
+}
+
+/**
+ * Highlights of the most vivid dreams
+ */
+function generateHighlights(dreams: Dream[]): string {
+  return [...dreams]
+    .sort((a, b) => vividness(b) - vividness(a))
+    .slice(0, HIGHLIGHT_COUNT)
+    .map((dream) => {
+      const excerpt =
+        dream.content.length > 240 ? `${dream.content.slice(0, 240).trimEnd()}…` : dream.content;
+      const summary = getStructuredInterpretation(dream)?.summary;
+      const mood = t(moodLabelKeys[dream.mood ?? "neutral"]);
+      return `
+        <div class="highlight">
+          <div class="date">${formatDate(dream.createdAt, {
+            weekday: "long",
+            day: "numeric",
+            month: "long",
+          })} · ${mood}</div>
+          <p class="excerpt">${escapeHtml(excerpt)}</p>
+          ${summary ? `<p class="summary">${escapeHtml(summary)}</p>` : ""}
+        </div>
+      `;
+    })
+    .join("");
+}
+
+/**
+ * Generate the report HTML for the given dreams, newest first
+ */
+export function generateReportHtml(
+  dreams: Dream[],
+  analysis: DreamPatternAnalysis,
+  options: DreamReportOptions
+): string {
+  const { period, theme = "light" } = options;
+  const { timePatterns } = analysis;
+  const generatedAt = formatDate(new Date(), {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  const insights = analysis.insights
+    .map((insight) => `<p class="insight">${escapeHtml(insight)}</p>`)
+    .join("");
+
+  return `
+    <!DOCTYPE html>
+    <html lang="${getLocale()}">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${t("reportTitle")} ${escapeHtml(period)}</title>
+      <style>
+        ${themeVariables(theme)}
+        ${REPORT_STYLES}
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>🌙 ${t("reportTitle")}</h1>
+        <p class="period">${escapeHtml(period)}</p>
+      </div>
+
+      <div class="stat-grid">
+        <div class="stat"><div class="value">${analysis.totalDreams}</div><div class="label">${t("reportStatDreams")}</div></div>
+        <div class="stat"><div class="value">${formatNumber(timePatterns.averagePerWeek)}</div><div class="label">${t("reportStatPerWeek")}</div></div>
+        <div class="stat"><div class="value">${analysis.symbols.length}</div><div class="label">${t("reportStatSymbols")}</div></div>
+        <div class="stat"><div class="value">${analysis.recurringThemes.length}</div><div class="label">${t("reportStatThemes")}</div></div>
+      </div>
+
+      ${insights ? `<div class="card"><h2>${t("reportInsights")}</h2>${insights}</div>` : ""}
+
+      ${
+        analysis.symbols.length > 0
+          ? `<div class="card"><h2>${t("interpretationSymbols")}</h2>${generateSymbolTable(analysis.symbols)}</div>`
+          : ""
+      }
+
+      ${
+        analysis.moods.length > 0
+          ? `<div class="card"><h2>${t("reportMoods")}</h2>${generateMoodChart(analysis.moods, analysis.totalDreams)}</div>`
+          : ""
+      }
+
+      <div class="card">
+        <h2>${t("reportRhythm")}</h2>
+        ${generateWeekdayChart(dreams)}
+        <div class="time-facts">
+          <span>${t("reportPeriod")}: <strong>${escapeHtml(timePatterns.period)}</strong></span>
+          <span>${t("reportDreamCount")}: <strong>${timePatterns.dreamCount}</strong></span>
+          ${
+            timePatterns.mostActiveDay
+              ? `<span>${t("reportMostActiveDay")}: <strong>${timePatterns.mostActiveDay}</strong></span>`
+              : ""
+          }
+        </div>
+      </div>
+
+      <div class="card">
+        <h2>${t("reportHighlights")}</h2>
+        ${generateHighlights(dreams)}
+      </div>
+
+      <div class="footer">
+        <p>${t("reportGeneratedAt", { date: generatedAt })}</p>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Export a pattern report of the given dreams as PDF
+ */
+export async function exportDreamReport(
+  dreams: Dream[],
+  options: DreamReportOptions
+): Promise<void> {
+  if (dreams.length === 0) {
+    throw new Error(t("reportNoDreams"));
+  }
+
+  try {
+    await loadSymbolDictionary();
+    const html = generateReportHtml(dreams, computeDreamPatterns(dreams), options);
+
+    const { uri } = await Print.printToFileAsync({
+      html,
+      base64: false,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(uri, {
+        mimeType: "application/pdf",
+        dialogTitle: t("reportShare"),
+        UTI: "com.adobe.pdf",
+      });
+    }
+  } catch (error) {
+    console.error("Error exporting report:", error);
+    throw new Error(t("reportFailed"));
+  }
+}
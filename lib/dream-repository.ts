@@ -0,0 +1,239 @@
+/**
+ * Dream repository
+ *
+ * Stores each dream under its own AsyncStorage key with a separate index of
+ * ids and dates (newest first). Reads only touch the keys they need, and all
+ * writes go through a single queue so concurrent saves never lose updates.
+ *
+ * Records are sealed through lib/journal-crypto.ts, so they are encrypted
+ * whenever the journal lock is on. The index holds only ids and dates.
+ *
+ * lib/storage.ts is the public facade; screens should not import this module
+ * directly.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  storedDreamSchema,
+  storedDreamIndexSchema,
+  type StoredDreamIndexEntry,
+} from "@/lib/schemas/storage";
+import { moodSchema } from "@/lib/schemas/dreamInterpretation";
+import { parseStoredJson, readStoredJson } from "@/lib/persistence";
+import { JournalLockedError, openRecord, sealRecord } from "@/lib/journal-crypto";
+import type { Dream } from "@/lib/storage";
+
+// Storage keys
+export const DREAM_INDEX_STORAGE_KEY = "@dreamai_dream_index";
+const DREAM_KEY_PREFIX = "@dreamai_dream:";
+
+export type DreamPage = {
+  dreams: Dream[];
+  total: number;
+  hasMore: boolean;
+};
+
+/**
+ * Storage key for a single dream
+ */
+function dreamKey(id: string): string {
+  return `${DREAM_KEY_PREFIX}${id}`;
+}
+
+/**
+ * Sort index entries newest first
+ */
+function sortIndex(index: StoredDreamIndexEntry[]): StoredDreamIndexEntry[] {
+  return index.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+// ============================================
+// WRITE QUEUE
+// ============================================
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a write after all previously queued writes have settled. Also used
+ * for other read-modify-write state that is derived from dreams.
+ */
+export function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+// ============================================
+// READS
+// ============================================
+
+/**
+ * Get the dream index (newest first)
+ */
+export async function getDreamIndex(): Promise<StoredDreamIndexEntry[]> {
+  const index = await readStoredJson(DREAM_INDEX_STORAGE_KEY, storedDreamIndexSchema);
+  return index ?? [];
+}
+
+/**
+ * Load dreams for the given index entries, skipping missing or unreadable
+ * ones. Throws JournalLockedError while the journal is locked.
+ */
+async function loadDreams(entries: StoredDreamIndexEntry[]): Promise<Dream[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const pairs = await AsyncStorage.multiGet(entries.map((e) => dreamKey(e.id)));
+  const dreams: Dream[] = [];
+
+  for (const [key, raw] of pairs) {
+    if (raw === null) continue;
+    try {
+      const dream = await parseStoredJson(key, raw, storedDreamSchema, openRecord);
+      if (dream) {
+        dreams.push(dream);
+      }
+    } catch (error) {
+      if (error instanceof JournalLockedError) {
+        throw error;
+      }
+      // One broken record must not hide the rest of the journal
+      console.error(`Error reading dream "${key}":`, error);
+    }
+  }
+
+  return dreams;
+}
+
+/**
+ * Get a single dream by id
+ */
+export async function getDream(id: string): Promise<Dream | null> {
+  return readStoredJson(dreamKey(id), storedDreamSchema, openRecord);
+}
+
+/**
+ * Get one page of dreams (newest first)
+ */
+export async function getDreamPage(offset: number, limit: number): Promise<DreamPage> {
+  const index = await getDreamIndex();
+  const entries = index.slice(offset, offset + limit);
+
+  return {
+    dreams: await loadDreams(entries),
+    total: index.length,
+    hasMore: offset + limit < index.length,
+  };
+}
+
+/**
+ * Get every dream (newest first)
+ */
+export async function getAllDreams(): Promise<Dream[]> {
+  return loadDreams(await getDreamIndex());
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+/**
+ * Insert or replace dreams and update the index in one queued write
+ */
+export function putDreams(dreams: Dream[]): Promise<void> {
+  return enqueueWrite(async () => {
+    if (dreams.length === 0) return;
+
+    const index = await getDreamIndex();
+    const byId = new Map(index.map((entry) => [entry.id, entry]));
+    for (const dream of dreams) {
+      byId.set(dream.id, { id: dream.id, createdAt: dream.createdAt });
+    }
+
+    // Write dream records before the index so the index never points at nothing
+    await AsyncStorage.multiSet(
+      dreams.map((dream) => [dreamKey(dream.id), sealRecord(JSON.stringify(dream))])
+    );
+    await AsyncStorage.setItem(
+      DREAM_INDEX_STORAGE_KEY,
+      JSON.stringify(sortIndex([...byId.values()]))
+    );
+  });
+}
+
+/**
+ * Insert or replace a single dream
+ */
+export function putDream(dream: Dream): Promise<void> {
+  return putDreams([dream]);
+}
+
+/**
+ * Apply an update to a stored dream atomically with respect to other writes.
+ * Returns null if the dream does not exist.
+ */
+export function updateDreamRecord(
+  id: string,
+  update: (dream: Dream) => Dream
+): Promise<Dream | null> {
+  return enqueueWrite(async () => {
+    const existing = await getDream(id);
+    if (!existing) {
+      return null;
+    }
+
+    // id and createdAt are part of the index and must not change
+    const updated = { ...update(existing), id: existing.id, createdAt: existing.createdAt };
+    await AsyncStorage.setItem(dreamKey(id), sealRecord(JSON.stringify(updated)));
+    return updated;
+  });
+}
+
+/**
+ * Give dreams saved without a mood of their own the mood of their structured
+ * interpretation. Returns the number updated; throws JournalLockedError while
+ * the journal is locked.
+ */
+export async function backfillDreamMoods(): Promise<number> {
+  const dreams = await getAllDreams();
+  const updated = dreams.flatMap((dream) => {
+    const mood = moodSchema.safeParse(dream.structured?.mood);
+    return !dream.moodSource && mood.success
+      ? [{ ...dream, mood: mood.data, moodSource: "model" as const }]
+      : [];
+  });
+
+  await putDreams(updated);
+  return updated.length;
+}
+
+/**
+ * Remove a dream and its index entry
+ */
+export function removeDream(id: string): Promise<void> {
+  return enqueueWrite(async () => {
+    const index = await getDreamIndex();
+
+    // Drop from the index first so readers never see a dangling entry
+    await AsyncStorage.setItem(
+      DREAM_INDEX_STORAGE_KEY,
+      JSON.stringify(index.filter((entry) => entry.id !== id))
+    );
+    await AsyncStorage.removeItem(dreamKey(id));
+  });
+}
+
+/**
+ * Remove every dream and the index
+ */
+export function removeAllDreams(): Promise<void> {
+  return enqueueWrite(async () => {
+    const keys = (await AsyncStorage.getAllKeys()).filter((k) =>
+      k.startsWith(DREAM_KEY_PREFIX)
+    );
+    await AsyncStorage.multiRemove([DREAM_INDEX_STORAGE_KEY, ...keys]);
+  });
+}
@@ -7,21 +7,53 @@
  * - Blue ocean: Only Finnish AI dream interpreter in market
  * - ASO advantage: "unitulkki" ranks easier than "dream interpreter"
  * - Finnish AI = competitive moat
+ *
+ * Adding a locale: add its translations under `locales/`, then list it in
+ * `SUPPORTED_LOCALES`, `translations` and `LOCALES`. The Intl locale in
+ * `LOCALES` drives date and number formatting.
+ *
+ * Strings may contain `{name}` placeholders, filled from the params of `t()`.
+ * Plural strings have `one`/`other` forms picked by the `count` param.
+ * Components read strings through `useI18n()` so they re-render when the
+ * language changes; plain modules call `t()` directly.
  */
 
-import { fi } from "./locales/fi";
+import { fi, type PluralForms, type TranslationKey, type Translations } from "./locales/fi";
 import { en } from "./locales/en";
+import { sv } from "./locales/sv";
+
+export const SUPPORTED_LOCALES = ["fi", "en", "sv"] as const;
 
-export type Locale = "fi" | "en";
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
 
-export const translations = {
+export type { TranslationKey, Translations, PluralForms };
+
+export type TranslationParams = Record<string, string | number>;
+
+export const translations: Record<Locale, Translations> = {
   fi,
   en,
-} as const;
+  sv,
+};
+
+type LocaleConfig = {
+  intlLocale: string; // Used for dates and numbers
+  labelKey: TranslationKey;
+  flag: string;
+};
+
+export const LOCALES: Record<Locale, LocaleConfig> = {
+  fi: { intlLocale: "fi-FI", labelKey: "settingsLanguageFi", flag: "🇫🇮" },
+  en: { intlLocale: "en-US", labelKey: "settingsLanguageEn", flag: "🇬🇧" },
+  sv: { intlLocale: "sv-FI", labelKey: "settingsLanguageSv", flag: "🇸🇪" },
+};
 
 // Default locale is Finnish (blue ocean strategy)
 let currentLocale: Locale = "fi";
 
+// Called when the locale changes
+const listeners = new Set<(locale: Locale) => void>();
+
 /**
  * Get current locale
  */
@@ -29,18 +61,64 @@ export function getLocale(): Locale {
   return currentLocale;
 }
 
+/**
+ * Whether a value is one of the supported locales
+ */
+export function isLocale(value: unknown): value is Locale {
+  return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
 /**
  * Set current locale
  */
 export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) return;
   currentLocale = locale;
+  listeners.forEach((listener) => listener(locale));
+}
+
+/**
+ * Listen for locale changes; returns an unsubscribe function
+ */
+export function subscribeToLocale(listener: (locale: Locale) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Finnish, English and Swedish all only tell one from many
+function getPluralForm(count: number): keyof PluralForms {
+  return Math.abs(count) === 1 ? "one" : "other";
+}
+
+function interpolate(text: string, params: TranslationParams): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Get translation for a key in the given locale, filling in params
+ */
+export function translate(
+  locale: Locale,
+  key: TranslationKey,
+  params?: TranslationParams
+): string {
+  const value = translations[locale][key] ?? translations.fi[key];
+  if (value === undefined) return key;
+
+  const text =
+    typeof value === "string" ? value : value[getPluralForm(Number(params?.count ?? 0))];
+  return params ? interpolate(text, params) : text;
 }
 
 /**
- * Get translation for a key
+ * Get translation for a key in the current locale
  */
-export function t<K extends keyof typeof fi>(key: K): string {
-  return translations[currentLocale][key] ?? translations.fi[key] ?? key;
+export function t(key: TranslationKey, params?: TranslationParams): string {
+  return translate(currentLocale, key, params);
 }
 
 /**
@@ -50,4 +128,44 @@ export function getTranslations() {
   return translations[currentLocale];
 }
 
-export { fi, en };
+type DateInput = Date | string | number;
+
+/**
+ * Intl locale for formatting, e.g. "fi-FI"
+ */
+export function getIntlLocale(locale: Locale = currentLocale): string {
+  return LOCALES[locale].intlLocale;
+}
+
+/**
+ * Format a date in the current locale
+ */
+export function formatDate(date: DateInput, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(date).toLocaleDateString(getIntlLocale(), options);
+}
+
+/**
+ * Format a time of day in the current locale, hours and minutes by default
+ */
+export function formatTime(
+  date: DateInput,
+  options: Intl.DateTimeFormatOptions = { hour: "2-digit", minute: "2-digit" }
+): string {
+  return new Date(date).toLocaleTimeString(getIntlLocale(), options);
+}
+
+/**
+ * Format a number in the current locale
+ */
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(getIntlLocale(), options);
+}
+
+/**
+ * Format an amount of money in the current locale, e.g. "4,99 €"
+ */
+export function formatCurrency(amount: number, currency = "EUR"): string {
+  return formatNumber(amount, { style: "currency", currency });
+}
+
+export { fi, en, sv };
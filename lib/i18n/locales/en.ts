@@ -4,9 +4,9 @@
  * Unitulkki - AI-powered dream interpreter
  */
 
-import type { TranslationKey } from "./fi";
+import type { Translations } from "./fi";
 
-export const en: Record<TranslationKey, string> = {
+export const en: Translations = {
   // App
   appName: "Unitulkki",
   appTagline: "AI-powered dream interpretation",
@@ -16,6 +16,13 @@ export const en: Record<TranslationKey, string> = {
   navDreams: "Dreams",
   navHistory: "History",
   navSettings: "Settings",
+  navJournal: "Journal",
+  navJournalTitle: "Dream journal",
+  navPatterns: "Dream patterns",
+  notFoundTitle: "Oops!",
+  notFoundHeading: "Page not found",
+  notFoundMessage: "This page does not exist.",
+  notFoundBack: "Back to the home screen",
 
   // Home screen
   homeTitle: "Unitulkki",
@@ -30,6 +37,18 @@ export const en: Record<TranslationKey, string> = {
   homeTryExamples: "Try these examples:",
   homeExample1: "I flew above the clouds",
   homeExample2: "I was running but couldn't move forward",
+  homeTry: "Try:",
+  homeSuggestionFlying: "I was flying above the clouds...",
+  homeSuggestionTeeth: "My teeth fell out...",
+  homeSuggestionTrain: "I was late for a train...",
+  homeSuggestionRoom: "I found a secret room...",
+  homeProfileOn: "My background included in the interpretation",
+  homeProfileOff: "Interpret without my background",
+  homeTranscriptionFailed: "Speech recognition failed",
+  homeMicrophoneDenied: "Microphone access denied",
+  homeRecordingFailed: "Recording could not be started",
+  welcomeSubtitle: "Tell your dream and let AI\nreveal its meanings",
+  welcomeHint: "Type or say your dream in the field below",
 
   // Input
   inputPlaceholder: "Describe your dream...",
@@ -43,31 +62,131 @@ export const en: Record<TranslationKey, string> = {
   historyTip: "Tip: Keep a dream journal to see patterns in your dreams",
   historyToday: "Today",
   historyYesterday: "Yesterday",
-  historyDaysAgo: "days ago",
+  historyDaysAgo: { one: "{count} day ago", other: "{count} days ago" },
   historyReadMore: "Read more",
   historyDelete: "Delete",
+  historyLoadFailed: "Loading dreams failed",
+  historyDreamNotFound: "Dream not found",
+  historyDeleted: "Dream deleted",
+  historyMoodFailed: "Saving the mood failed",
+  historyReinterpretFailed: "Changes saved, but the interpretation failed",
+  historyReinterpreted: "Dream interpreted again",
+  historyChangesSaved: "Changes saved",
+  historyStatSaved: "Dreams saved",
+  historyStatSelected: "Dreams selected",
+  historyStatThisWeek: "This week",
+  historyPatternsLink: "Show dream patterns and trends",
+  historySearchPlaceholder: "Search dreams, interpretations and themes",
+  historyViewList: "List",
+  historyViewCalendar: "Calendar",
+  historySearchResults: "Search results",
+  historyDayDreams: { one: "{count} dream", other: "{count} dreams" },
+  historyMatches: { one: "{count} match", other: "{count} matches" },
+  historySwipeHint: "Swipe left to delete",
+  historyNoDreamsForDay: "No dreams on this day",
+  historyNoResults: "No search results",
+  historyLoading: "Loading...",
+  calendarStreak: "Dream streak",
 
   // Settings
   settingsTitle: "Settings",
   settingsLanguage: "Language",
   settingsLanguageFi: "Finnish",
   settingsLanguageEn: "English",
+  settingsLanguageSv: "Swedish",
   settingsPreferences: "Preferences",
-  settingsHaptics: "Haptic feedback",
+  settingsHaptics: "Haptic Feedback",
   settingsHapticsDesc: "Tactile feedback for buttons",
-  settingsLength: "Interpretation length",
+  settingsLength: "Interpretation Length",
   settingsLengthShort: "Short",
   settingsLengthNormal: "Normal",
   settingsLengthLong: "Long",
-  settingsData: "Data management",
-  settingsDreamsCount: "saved dreams",
-  settingsClearHistory: "Clear dream history",
+  settingsData: "Data Management",
+  settingsClearHistory: "Clear Dream History",
   settingsClearHistoryDesc: "Delete all saved dreams",
   settingsAbout: "About",
   settingsVersion: "Version",
   settingsPrivacy: "Privacy Policy",
   settingsMadeWith: "Made with AI SDK & Aihio AI",
   settingsCopyright: "Unitulkki © 2026",
+  settingsDreamDayCutoff: "Dream day starts at",
+  settingsDreamDayCutoffDesc: "Dreams logged before this count for the previous night",
+  settingsPrivacySection: "Privacy",
+  settingsAboutMe: "About Me",
+  settingsAboutMeOn: "Background used in interpretations",
+  settingsAboutMeOff: "Life situation and goals for more personal interpretations",
+  settingsAppLock: "App Lock",
+  settingsAppLockOn: "Dreams encrypted, passphrase required",
+  settingsAppLockOff: "Encrypt dreams with a PIN or passphrase",
+  settingsLockAfter: "Lock in background",
+  settingsImmediately: "Immediately",
+  settingsLockNow: "Lock now",
+  settingsDisableLockTitle: "Turn off app lock?",
+  settingsDisableLockMessage: "Dreams will be stored unencrypted again.",
+  settingsDisableLock: "Turn off",
+  settingsExportDreams: "Export Dreams",
+  settingsExportDreamsDesc: "PDF, Markdown or CSV, filtered by date range and themes",
+  settingsImportDreams: "Import Dreams from File",
+  settingsImportDreamsDesc: "CSV, Markdown, plain text or Day One",
+  settingsSymbolDictionary: "Symbol Dictionary",
+  settingsSymbolDictionaryDesc: "Your own symbols and synonyms for dream patterns",
+  settingsExportBackup: "Export Backup (JSON)",
+  settingsImportBackup: "Import Backup",
+  settingsBackupDesc: "Includes dreams, alarms and settings. The file is not encrypted.",
+  settingsBackupCreated: "Backup created",
+  settingsRestoreTitle: "Restore backup?",
+  settingsRestoreMerge: "Merge",
+  settingsRestoreReplace: "Replace",
+  settingsRestoreReplaceTitle: "Replace current dreams?",
+  settingsRestoreReplaceMessage: "Current dreams and alarms will be deleted and replaced with the backup. This action cannot be undone.",
+  settingsPreviewCreated: "Created {date}",
+  settingsClearConfirmTitle: "Clear history?",
+  settingsClearConfirmMessage: "This will permanently delete all saved dreams. This action cannot be undone.",
+  settingsCleared: "History cleared",
+  settingsDreamsCount: { one: "{count} saved dream", other: "{count} saved dreams" },
+  settingsRestored: { one: "Restored: {count} dream", other: "Restored: {count} dreams" },
+  settingsImported: { one: "Imported: {count} dream", other: "Imported: {count} dreams" },
+  settingsPreviewDreams: { one: "{count} dream ({newCount} new, {duplicateCount} already saved)", other: "{count} dreams ({newCount} new, {duplicateCount} already saved)" },
+  settingsPreviewAlarms: { one: "{count} alarm", other: "{count} alarms" },
+  settingsPreviewSkipped: { one: "{count} invalid dream will be skipped", other: "{count} invalid dreams will be skipped" },
+  settingsLockDisabled: "App lock turned off",
+  settingsLockEnabled: "App lock turned on",
+  settingsLockDisableFailed: "Turning off the lock failed",
+  settingsAlarmSet: "Alarm set for {time}",
+  settingsAlarmDisabled: "Alarm turned off",
+  settingsAlarmEnableFailed: "Turning on alarms failed. Check the app permissions.",
+  settingsTestAlarmSent: "Test alarm sent!",
+  settingsTestAlarmFailed: "Test alarm failed. Check the permissions.",
+  settingsAlarmTimeSet: "Alarm time set: {time}",
+  settingsNothingToExport: "No dreams to export",
+  settingsPdfTitle: "Dream Journal",
+  settingsPdfCreated: "PDF created",
+  settingsExportDone: "Export ready",
+  settingsExportFailed: "Export failed",
+  settingsBackupExportFailed: "Exporting the backup failed",
+  settingsRestoreFailed: "Restore failed",
+  settingsBackupReadFailed: "Reading the backup failed",
+  settingsFileReadFailed: "Reading the file failed",
+  settingsClearFailed: "Error clearing the history",
+  settingsPremiumUser: "Premium user",
+  settingsPremiumUserDesc: "All features unlocked",
+  settingsTrialStatus: { one: "Trial ({count} day)", other: "Trial ({count} days)" },
+  settingsTrialDesc: "Try all features",
+  settingsFreeVersion: "Free version",
+  settingsFreeVersionDesc: "Upgrade to Premium",
+  settingsAnalytics: "Analytics",
+  settingsPatterns: "Dream Patterns",
+  settingsPatternsDesc: "Themes, symbols and trends in your dreams",
+  settingsAchievements: "Achievements · {unlocked}/{total}",
+  settingsAlarmSection: "Dream Alarm",
+  settingsMorningAlarm: "Morning Alarm",
+  settingsMorningAlarmOn: "Alarm at {time}",
+  settingsMorningAlarmOff: "Off",
+  settingsAlarmTime: "Alarm Time",
+  settingsAlarmTimeDesc: "Choose when the alarm goes off",
+  settingsTestAlarm: "Test alarm",
+  settingsAlarmInfo: "The alarm reminds you to write down your dream. Tap the notification to open the app.",
+  settingsPickTime: "Pick a time",
 
   // Interpretation
   interpretationSummary: "Summary",
@@ -85,6 +204,13 @@ export const en: Record<TranslationKey, string> = {
   interpretationLowConfidence: "General interpretation",
   interpretationDisclaimer: "Dream interpretations are indicative and based on general symbolism. Personal meaning may vary.",
   interpretationSavedAt: "Saved at",
+  relevanceHigh: "Central",
+  relevanceMedium: "Significant",
+  relevanceLow: "Minor",
+  interpretationRelatedDreams: "Related dreams",
+  interpretationOpenDream: "Open dream",
+  interpretationArchetype: "Archetype",
+  interpretDreamRequest: "Interpret this dream: {dream}",
 
   // Moods
   moodPeaceful: "Peaceful",
@@ -94,6 +220,8 @@ export const en: Record<TranslationKey, string> = {
   moodConfused: "Confused",
   moodNostalgic: "Nostalgic",
   moodNeutral: "Neutral",
+  moodExcited: "Excited",
+  moodFearful: "Fearful",
 
   // Actions
   actionShare: "Share",
@@ -101,6 +229,13 @@ export const en: Record<TranslationKey, string> = {
   actionClose: "Close",
   actionAnalyzing: "Analyzing...",
   actionNewDream: "New Dream",
+  actionCancel: "Cancel",
+  actionDone: "Done",
+  actionSave: "Save",
+  actionEdit: "Edit",
+  quickSaved: "Saved",
+  quickShareMessage: "🌙 My dream:\n{content}\n\n✨ Interpretation:\n{interpretation}\n\n— Unitulkki",
+  quickShareTitle: "Share your dream interpretation",
 
   // Premium
   premiumTitle: "Unlock all features",
@@ -112,18 +247,469 @@ export const en: Record<TranslationKey, string> = {
   premiumYearly: "Yearly",
   premiumLifetime: "Lifetime",
   premiumMostPopular: "MOST POPULAR",
-  premiumSave: "Save",
-  premiumTrialDays: "days free",
+  premiumSave: "Save {percent}%",
+  premiumTrialDays: { one: "{count} day free", other: "{count} days free" },
   premiumTrialDesc: "Try all features without commitment",
   premiumStartTrial: "Start trial",
-  premiumContinue: "Continue",
+  premiumContinue: "Continue - {price}",
   premiumRestore: "Restore purchases",
   premiumLegal: "Subscription renews automatically. You can cancel anytime.",
   premiumUnlock: "Unlock Premium",
   premiumLockedDesc: "Unlock Premium to see deeper analysis",
+  premiumPeriodMonth: "month",
+  premiumPeriodMonthShort: "mo",
+  premiumPeriodYear: "year",
+  premiumPeriodYearShort: "yr",
+  premiumPeriodLifetime: "forever",
+  premiumFeatureUnlimited: "Unlimited interpretations",
+  premiumFeatureUnlimitedDesc: "Interpret as many dreams as you like, without limits",
+  premiumFeatureDeepAnalysis: "Deeper analysis",
+  premiumFeatureDeepAnalysisDesc: "Jungian archetype analysis and subconscious insights",
+  premiumFeaturePatterns: "Dream pattern tracking",
+  premiumFeaturePatternsDesc: "Spot recurring themes and symbols over time",
+  premiumFeatureVisualization: "Dream visualization",
+  premiumFeatureVisualizationDesc: "Create AI images of your dreams",
+  premiumFeatureExport: "PDF export",
+  premiumFeatureExportDesc: "Save and share your interpretations as a beautiful PDF",
+  premiumFeatureVoice: "Voice recording",
+  premiumFeatureVoiceDesc: "Tell your dream out loud right after waking up",
+  premiumFreeLimitInterpretations: "3 interpretations/mo",
+  premiumFreeLimitLocked: "Locked",
+  premiumFreeLimitUnavailable: "Not available",
+  premiumValueUnlimited: "Unlimited",
+  premiumValueFullAccess: "Full access",
+  premiumValueFullAnalysis: "Full analysis",
+  premiumValueAvailable: "Available",
+  premiumBenefitDeepAnalysis: "Deeper psychological analysis",
+  premiumBenefitVisualization: "AI dream visualizations",
+  premiumMonthlyEquivalent: "only {price}/mo",
+  premiumHeadlineLocked: "Unlock deeper analysis",
+  premiumHeadlineLimit: "You have used this month's interpretations",
+  premiumProcessing: "Processing...",
+  premiumBadge: "Premium",
+  usageTrialTitle: "Premium trial",
+  usageTrialDaysLeft: { one: "{count} day left", other: "{count} days left" },
+  usageEmptyShort: "No interpretations left",
+  usageUpgrade: "Upgrade",
+  usageFreeUsed: "Free interpretations used",
+  usageFree: "Free interpretations",
+  usageEmptyMessage: "Upgrade to Premium for unlimited interpretations",
+  usageLowMessage: "Last interpretation! Consider upgrading.",
+  usageRenews: "Renews at the start of the month",
 
   // Errors
   errorGeneric: "Something went wrong",
   errorNetwork: "Network error. Check your internet connection.",
   errorTryAgain: "Try again",
+  errorSaveDream: "Saving the dream failed",
+  errorDeleteDream: "Deleting the dream failed",
+  errorUpdateDream: "Updating the dream failed",
+  errorSaveInterpretation: "Saving the interpretation failed",
+  errorRestoreDreams: "Restoring dreams failed",
+  errorClearDreams: "Clearing dreams failed",
+  errorSaveSetting: "Saving the setting failed",
+  errorRestoreAlarms: "Restoring alarms failed",
+  errorNotificationPermission: "Notification permission is required",
+  errorInterpret: "Dream interpretation failed",
+  errorInterpretRetry: "Dream interpretation failed. Please try again.",
+  errorUnknown: "Unknown error",
+  errorApiRequest: "API request failed",
+  errorMissingUserId: "Could not identify the user. Restart the app and try again.",
+  errorFreeLimitReached: "You have used this month's free interpretations. Upgrade to Premium to continue.",
+  errorMonthlyLimitReached: "This month's interpretation limit is full. It resets at the start of the month.",
+  errorRateLimited: "Too many requests. Wait a moment and try again.",
+  errorDreamTooLong: "The dream is too long to interpret. Shorten it and try again.",
+
+  // Life areas
+  lifeAreaWork: "Work",
+  lifeAreaRelationships: "Relationships",
+  lifeAreaPersonalGrowth: "Personal growth",
+  lifeAreaHealth: "Health",
+  lifeAreaCreativity: "Creativity",
+  lifeAreaSpirituality: "Spirituality",
+  lifeAreaFamily: "Family",
+  lifeAreaFinances: "Finances",
+
+  // Export
+  exportJournalTitle: "Dream journal",
+  exportDreamHeading: "Dream {date} at {time}",
+  exportDateTime: "{date} at {time}",
+  exportInterpretation: "Interpretation",
+  exportMood: "Mood",
+  exportThemes: "Themes",
+  exportSummary: { one: "Exported {date} • {count} dream", other: "Exported {date} • {count} dreams" },
+  exportNoDreams: "No dreams to export",
+  exportShareJournal: "Share dream journal",
+  exportShareStats: "Share dream statistics",
+  exportMarkdownFailed: "Markdown export failed",
+  exportCsvFailed: "CSV export failed",
+  exportButton: "Export ({count})",
+  exportFormat: "Format",
+  exportFormatPdf: "Printable dream journal",
+  exportFormatMarkdown: "One file for note-taking apps",
+  exportFormatMarkdownZip: "A separate file for every dream",
+  exportFormatCsv: "Data for spreadsheets",
+  exportTableOfContents: "Table of contents",
+  exportPageBreak: "Each dream on its own page",
+  exportNoMatches: "No dreams match the selection",
+  exportSelected: { one: "{selected}/{count} dream included", other: "{selected}/{count} dreams included" },
+
+  // Days
+  daySunday: "Sunday",
+  dayMonday: "Monday",
+  dayTuesday: "Tuesday",
+  dayWednesday: "Wednesday",
+  dayThursday: "Thursday",
+  dayFriday: "Friday",
+  daySaturday: "Saturday",
+  dayShortMonday: "Mon",
+  dayShortTuesday: "Tue",
+  dayShortWednesday: "Wed",
+  dayShortThursday: "Thu",
+  dayShortFriday: "Fri",
+  dayShortSaturday: "Sat",
+  dayShortSunday: "Sun",
+
+  // Patterns
+  patternsNoData: "No data",
+  patternsPeriodDays: { one: "{count} day", other: "{count} days" },
+  insightTopSymbol: "{symbol} appears in {percentage}% of your dreams - this may reflect a central theme in your life.",
+  insightIncreasingSymbol: "Dreams about {symbol} have become more frequent lately.",
+  insightDominantMood: "The mood \"{mood}\" dominates {percentage}% of your dreams.",
+  insightFrequentJournaling: "You log {average} dreams a week on average - an excellent journaling routine!",
+  insightKeepJournaling: "Keep logging your dreams - clearer patterns appear as more dreams are recorded.",
+  insightFirstDream: "Start by logging your first dream!",
+  trendIncreasing: "Increasing",
+  trendDecreasing: "Decreasing",
+  trendStable: "Stable",
+  patternsLockedDesc: "Dream pattern tracking shows the recurring themes and symbols in your dreams over time.",
+  patternsShareOfDreams: "{percent}% of dreams",
+  patternsLoadFailed: "Loading patterns failed",
+  patternsNoDreamsForReport: "No dreams for a report",
+  patternsReportCreated: "Report created",
+  patternsEmpty: "No data yet",
+  patternsEmptyHint: "Record a few dreams to see patterns and trends in your dreams.",
+  patternsBasedOn: { one: "Based on {count} dream • over {days} days", other: "Based on {count} dreams • over {days} days" },
+  patternsStatPerWeek: "dreams/week",
+  patternsStatSymbols: "symbols",
+  patternsStatThemes: "themes",
+  patternsTopSymbols: "Most common symbols",
+  patternsReportPeriod: "Month or custom range",
+  patternsCreateReport: "Create a dream report",
+
+  // Streak
+  streakStart: "Start your dream streak today!",
+  streakFirstDay: "Great start! Keep going tomorrow.",
+  streakDays: { one: "{count} day in a row!", other: "{count} days in a row!" },
+  streakWeek: "A week-long streak! Well done!",
+  streakOverWeek: "{count}-day streak! Awesome!",
+  streakTwoWeeks: "Two weeks! You're a master!",
+  streakOverTwoWeeks: "{count} days! Incredible!",
+  streakMonth: "A month-long streak! Legendary!",
+  streakOverMonth: "{count} days! You're a true dreamer!",
+  streakMilestoneWeek: "Week streak",
+  streakMilestoneTwoWeeks: "2-week streak",
+  streakMilestoneMonth: "Month streak",
+  streakMilestoneHundred: "100-day streak",
+  streakDaysUnit: { one: "day", other: "days" },
+  streakLabel: { one: "day streak", other: "day streak" },
+  streakBest: { one: "Best streak: {count} day", other: "Best streak: {count} days" },
+  streakPastRuns: "Past streaks",
+  streakRunLength: "{count} d",
+
+  // Purchases
+  purchaseErrorUnknownProduct: "Unknown product",
+  purchaseErrorProductNotFound: "Product not found",
+  purchaseErrorNotActivated: "The subscription was not activated",
+  purchaseErrorFailed: "Purchase failed",
+  purchaseErrorCancelled: "Purchase cancelled",
+  purchaseErrorPending: "Payment is awaiting confirmation",
+  purchaseErrorAlreadyPurchased: "You already have this subscription",
+  purchaseErrorNetwork: "Network error. Check your connection.",
+  purchaseErrorStore: "Store problem. Try again later.",
+  purchaseErrorNotAllowed: "Purchases are not allowed on this device",
+
+  // Alarm
+  alarmNotificationTitle: "⏰ Wake up - Unitulkki",
+  alarmNotificationBody: "Good morning! Write down your dream while it is still fresh in your memory.",
+  alarmSnoozeTitle: "⏰ Snooze - Unitulkki",
+  alarmSnoozeBody: { one: "Wake up in {count} minute!", other: "Wake up in {count} minutes!" },
+  alarmDefaultLabel: "Alarm",
+  alarmNew: "New alarm",
+  alarmSetTime: "Set time",
+  alarmDays: "Days",
+  alarmName: "Name",
+  alarmSelectDay: "Select at least one day",
+  alarmCreated: "Alarm created!",
+  alarmCreateFailed: "Error creating the alarm",
+  alarmOnce: "Once",
+  alarmEveryDay: "Every day",
+  alarmEnabled: "Alarm on",
+  alarmDisabled: "Alarm off",
+  alarmUpdateFailed: "Error updating the alarm",
+  alarmDeleted: "Alarm deleted",
+  alarmDeleteFailed: "Error deleting the alarm",
+  alarmNext: "Next alarm",
+  alarmNoneActive: "No active alarms",
+  alarmTest: "Test alarm",
+
+  // Notifications
+  notificationTitle: "⏰ Morning alarm - Unitulkki",
+  notificationBody: "Write down your dream while it is still fresh in your memory!",
+  notificationSnoozeTitle: "⏰ Snooze - Unitulkki",
+  notificationSnoozeBody: { one: "Wake up! Write down your dream. (Snooze {count})", other: "Wake up! Write down your dream. (Snooze {count})" },
+  notificationMonthlyReportTitle: "📊 Your monthly dream report is ready",
+  notificationMonthlyReportBody: "See what your dreams told you last month.",
+  notificationTestTitle: "⏰ Test alarm - Unitulkki",
+  notificationTestBody: "This is what the alarm looks like! Tap to open the app.",
+  notificationAlarmChannel: "Dream alarm",
+  notificationAlarmChannelDesc: "Morning alarm for logging your dream",
+  notificationReportChannel: "Dream reports",
+  notificationReportChannelDesc: "Notification about the monthly dream report",
+  notificationActionLogDream: "Log dream",
+  notificationActionSnooze: { one: "Snooze {count} min", other: "Snooze {count} min" },
+  notificationActionDismiss: "Dismiss",
+
+  // Edit
+  editTitle: "Edit Dream",
+  editDream: "Dream",
+  editDreamPlaceholder: "Describe your dream",
+  editAddTag: "Add theme",
+  editRemoveTag: "Remove theme {tag}",
+  editMaxTags: { one: "At most {count} theme", other: "At most {count} themes" },
+  editEmptyContent: "The dream description cannot be empty",
+  editMood: "Mood",
+  editReinterpret: "Interpret again",
+  editReinterpretChanged: "The dream description has changed. The current interpretation is kept as an earlier version.",
+  editReinterpretDesc: "The current interpretation is kept as an earlier version.",
+
+  // Filters
+  filterTitle: "Filter Dreams",
+  filterClear: "Clear",
+  filterApply: "Apply",
+  filterSort: "Order",
+  filterSortNewest: "Newest first",
+  filterSortOldest: "Oldest first",
+  filterSortMostSymbols: "Most symbols",
+  filterMood: "Mood",
+  filterDateRange: "Date range",
+  filterConfidence: "Interpretation confidence",
+  filterConfidenceHigh: "Strong",
+  filterConfidenceMedium: "Moderate",
+  filterConfidenceLow: "General",
+  filterInputMethod: "Input method",
+  filterVoiceOnly: "Voice entries only",
+  filterDateAll: "All",
+  filterDate7d: "7 days",
+  filterDate30d: "30 days",
+  filterDate90d: "3 months",
+  filterDate365d: "Year",
+  filterDateCustom: "Custom",
+  filterDatePick: "Choose",
+  filterDateFrom: "From",
+  filterDateTo: "To",
+
+  // Report
+  reportTitle: "Dream Report",
+  reportSymbol: "Symbol",
+  reportTimes: "Times",
+  reportShareOfDreams: "Share of dreams",
+  reportTrend: "Trend",
+  reportLastSeen: "Last seen",
+  reportStatDreams: "Dreams",
+  reportStatPerWeek: "Dreams/week",
+  reportStatSymbols: "Symbols",
+  reportStatThemes: "Recurring themes",
+  reportInsights: "Insights",
+  reportMoods: "Moods",
+  reportRhythm: "Dream rhythm",
+  reportPeriod: "Period",
+  reportDreamCount: "Dreams",
+  reportMostActiveDay: "Most active day",
+  reportHighlights: "Most vivid dreams",
+  reportGeneratedAt: "Created {date} • Unitulkki",
+  reportNoDreams: "No dreams in the selected period",
+  reportShare: "Share dream report",
+  reportFailed: "Creating the report failed",
+  reportCreate: "Create",
+  reportMonth: "Month",
+  reportOtherPeriod: "Other period",
+  reportReminder: "Remind me about the monthly report",
+  reportReminderDesc: "A notification on the first day of the month when last month's report is ready",
+  reportDreamsIncluded: { one: "{count} dream in the report", other: "{count} dreams in the report" },
+
+  // PDF
+  pdfTheme: "Appearance",
+  pdfThemeNight: "Night",
+  pdfThemeLight: "Light",
+  pdfThemePrint: "Printable",
+  pdfDream: "Dream",
+  pdfInterpretation: "Interpretation",
+  pdfStatDays: "Days",
+  pdfStatInterpreted: "Interpreted",
+  pdfMoods: "Moods",
+  pdfTopThemes: "Most common themes",
+  pdfContents: "Contents",
+  pdfSubtitle: { one: "Exported {date} • {count} dream", other: "Exported {date} • {count} dreams" },
+  pdfExportedAt: "Exported {date}",
+  pdfCreatedWith: "Created with DreamAI",
+  pdfSingleTitle: "Dream Interpretation",
+  pdfShareDream: "Share dream interpretation",
+  pdfShareJournal: "Share dream journal",
+  pdfFailed: "PDF export failed",
+
+  // Dream detail
+  detailShareMessage: "🌙 My dream {date}:\n\n{content}\n\n✨ Interpretation:\n{interpretation}",
+  detailShareTitle: "Unitulkki - Dream Interpretation",
+  detailChat: "Talk about the dream",
+  detailChatMessages: { one: "{count} message", other: "{count} messages" },
+  detailChatDesc: "Answer the reflection questions or ask more",
+  detailRevisions: "Earlier interpretations ({count})",
+  detailRevisedAt: "Replaced {date} at {time}",
+  detailSavedAt: "Saved at {time}",
+  detailChangeMood: "Change mood",
+
+  // Upsell
+  upsellDeepAnalysisTitle: "Unlock deeper analysis",
+  upsellDeepAnalysisDesc: "Jungian archetype analysis and insights from the subconscious",
+  upsellDeepAnalysisCta: "See what you get",
+  upsellPatternsTitle: "Dream patterns are waiting",
+  upsellPatternsDesc: "Find the recurring themes and symbols in your dreams",
+  upsellPatternsCta: "Open analysis",
+  upsellExportTitle: "Export your dream journal",
+  upsellExportDesc: "Save it as a beautiful PDF document",
+  upsellExportCta: "Open export",
+  upsellVisualizationTitle: "Visualize your dreams",
+  upsellVisualizationDesc: "Create AI images of your dreams",
+  upsellVisualizationCta: "Try now",
+  upsellLimitWarningTitle: "Running out of interpretations",
+  upsellLimitWarningDesc: "Upgrade to Premium for unlimited interpretations",
+  upsellLimitWarningCta: "See the options",
+  upsellGenericTitle: "Unitulkki Premium",
+  upsellGenericDesc: "Unlimited interpretations and all features",
+  upsellGenericCta: "Learn more",
+
+  // Profile
+  profileLifeSituation: "Life situation",
+  profileLifeSituationPlaceholder: "E.g. I just moved to a new city and started a new job",
+  profileStressors: "Recurring worries",
+  profileStressorsPlaceholder: "E.g. a busy time at work, worry about my parents' health",
+  profilePeople: "Important people",
+  profilePeoplePlaceholder: "E.g. my partner Sam, my sister, my best friend Alex",
+  profileGoals: "Goals",
+  profileGoalsPlaceholder: "E.g. I want to have more energy and find time for creativity",
+  profileSaveFailed: "Saving the details failed",
+  profileDeleteTitle: "Delete details?",
+  profileDeleteMessage: "All the background details you have written will be deleted from this device.",
+  profileDeleteFailed: "Deleting the details failed",
+  profileDelete: "Delete details",
+  profileUseInInterpretations: "Use in interpretations",
+  profileUseInInterpretationsDesc: "The interpretation can connect the dream to your life situation. You can leave the details out of a single interpretation when writing the dream.",
+  profilePrivacy: "The details are stored only on this device and are not included in backups. They are sent to the interpretation service only for the interpretation while this is turned on, and the service does not store them.",
+
+  // Chat
+  chatTitle: "Dream conversation",
+  chatIntro: "Answer the reflection questions or ask more about your dream. The interpreter knows your dream and its interpretation.",
+  chatAnswering: "Answering: {question}",
+  chatAnswerPlaceholder: "Write your answer",
+  chatAskPlaceholder: "Ask about your dream",
+  chatSend: "Send",
+  chatSendFailed: "Sending the message failed. Please try again.",
+
+  // Loading
+  loadingDiving: "Diving into your dream world...",
+  loadingSymbols: "Looking for symbols and meanings...",
+  loadingMessages: "Interpreting hidden messages...",
+  loadingEmotions: "Connecting emotions and memories...",
+  loadingFinishing: "Finishing the interpretation...",
+  loadingHint: "Breathe deeply and relax...",
+
+  // Import
+  importTitle: "Import dreams",
+  importAction: "Import ({count})",
+  importFormatCsv: "CSV",
+  importFormatMarkdown: "Markdown",
+  importFormatText: "Text",
+  importFormatDayOne: "Day One",
+  importReadFailed: "Reading the file failed",
+  importFailed: "Import failed",
+  importNoDate: "No date",
+  importAlreadySaved: "Already saved",
+  importFound: { one: "{count} dream found", other: "{count} dreams found" },
+  importDuplicates: "{count} already in the journal",
+  importUndated: "{count} without a date",
+  importTruncated: "The file has more dreams than can be imported at once. Import the rest separately.",
+  importReinterpret: "Interpret imported dreams",
+  importReinterpretDesc: "Interpretations are made one at a time after the import",
+  importPremiumFeature: "Premium feature",
+  importProgress: "Interpreting {done}/{total}...",
+  importNotInterpreted: { one: "{count} dream was not interpreted.", other: "{count} dreams were not interpreted." },
+  importEmpty: "No dreams in this format were found in the file",
+
+  // Symbols
+  symbolTitle: "Symbol dictionary",
+  symbolAdd: "Add",
+  symbolDescription: "Themes are matched to the symbols in the dictionary so that, for example, \"flying\" and \"lento\" count as the same. Add your own symbol or new synonyms for a built-in one.",
+  symbolLabelPlaceholder: "Symbol, e.g. grandma's house",
+  symbolAliasesPlaceholder: "Synonyms separated by commas",
+  symbolOwn: "Your additions",
+  symbolBuiltIn: "Built-in symbols",
+  symbolNameMissing: "Enter a name for the symbol",
+  symbolSaveFailed: "Saving the symbol failed",
+  symbolDeleteFailed: "Deleting the symbol failed",
+
+  // Journal lock
+  lockLocked: "The dream journal is locked",
+  lockEnterPassphrase: "Enter your PIN or passphrase",
+  lockPassphrase: "Passphrase",
+  lockUnlock: "Unlock",
+  lockWrongPassphrase: "Wrong passphrase",
+  lockUnlockFailed: "Unlocking failed",
+  lockSetupDescription: "Your dreams are encrypted on the device. The app asks for the passphrase when you return to it.",
+  lockPassphrasePlaceholder: "PIN or passphrase",
+  lockRepeatPassphrase: "Repeat the passphrase",
+  lockForgetWarning: "If you forget the passphrase, encrypted dreams cannot be recovered.",
+  lockMinLength: { one: "At least {count} character", other: "At least {count} characters" },
+  lockMismatch: "The passphrases do not match",
+  lockPassphraseTooShort: { one: "The passphrase must have at least {count} character", other: "The passphrase must have at least {count} characters" },
+  lockEnableFailed: "Turning on the lock failed",
+  lockDisableFailed: "Turning off the lock failed",
+  lockUnlockFirst: "Unlock the dream journal first",
+
+  // Backup
+  backupExportFailed: "Exporting the backup failed",
+  backupInvalidJson: "The file is not valid JSON",
+  backupNotBackup: "The file is not a Unitulkki backup",
+  backupNewerVersion: "The backup was made with a newer version of the app. Update the app.",
+  backupSaveDialog: "Save backup",
+
+  // Voice input
+  voicePermissionRequired: "Microphone permission is required",
+  voiceStartFailed: "Starting the recording failed",
+  voiceNoRecording: "No active recording",
+  voiceSaveFailed: "Saving the recording failed",
+  voiceStopFailed: "Stopping the recording failed",
+  voiceFileNotFound: "Audio file not found",
+  voiceTranscriptionFailed: "Transcription failed",
+  voiceApiKeyMissing: "OpenAI key is missing",
+
+  // Achievements
+  achievementFirstDreamTitle: "First dream",
+  achievementFirstDreamDesc: "Save your first dream",
+  achievementFirstVoiceDreamTitle: "Told out loud",
+  achievementFirstVoiceDreamDesc: "Record a dream by voice",
+  achievementDreams10Title: "Dream collector",
+  achievementDreams10Desc: "Save 10 dreams",
+  achievementDreams50Title: "Dream archive",
+  achievementDreams50Desc: "Save 50 dreams",
+  achievementWater10Title: "Deep waters",
+  achievementWater10Desc: "10 dreams featuring water",
+  achievementMorningWeekTitle: "Morning rememberer",
+  achievementMorningWeekDesc: "Record a dream before 9 am seven days in a row",
+  achievementStreak30Title: "Month streak",
+  achievementStreak30Desc: "Keep your dream streak going for 30 days",
+  achievementFirstPdfExportTitle: "Printed journal",
+  achievementFirstPdfExportDesc: "Export your dreams to a PDF file",
+  achievementUnlocked: "Achievement unlocked: {title}",
+  achievementsUnlocked: { one: "{count} new achievement unlocked!", other: "{count} new achievements unlocked!" },
 } as const;
@@ -4,6 +4,9 @@
  * Unitulkki - AI-pohjainen unitulkki suomalaisille
  */
 
+// Plural forms, picked by the `count` parameter
+export type PluralForms = { one: string; other: string };
+
 export const fi = {
   // App
   appName: "Unitulkki",
@@ -14,6 +17,13 @@ export const fi = {
   navDreams: "Unet",
   navHistory: "Historia",
   navSettings: "Asetukset",
+  navJournal: "Päiväkirja",
+  navJournalTitle: "Unipäiväkirja",
+  navPatterns: "Unikuviot",
+  notFoundTitle: "Hups!",
+  notFoundHeading: "Sivua ei löytynyt",
+  notFoundMessage: "Tätä sivua ei ole olemassa.",
+  notFoundBack: "Takaisin etusivulle",
 
   // Home screen
   homeTitle: "Unitulkki",
@@ -28,6 +38,18 @@ export const fi = {
   homeTryExamples: "Kokeile esimerkiksi:",
   homeExample1: "Lensin pilvien yläpuolella",
   homeExample2: "Juoksin mutta en päässyt eteenpäin",
+  homeTry: "Kokeile:",
+  homeSuggestionFlying: "Lensin pilvien yläpuolella...",
+  homeSuggestionTeeth: "Hampaani putosivat...",
+  homeSuggestionTrain: "Olin myöhässä junasta...",
+  homeSuggestionRoom: "Löysin salaisen huoneen...",
+  homeProfileOn: "Taustatietoni mukana tulkinnassa",
+  homeProfileOff: "Tulkitse ilman taustatietojani",
+  homeTranscriptionFailed: "Puheentunnistus epäonnistui",
+  homeMicrophoneDenied: "Mikrofonin käyttö estetty",
+  homeRecordingFailed: "Nauhoitusta ei voitu aloittaa",
+  welcomeSubtitle: "Kerro unesi ja anna tekoälyn\npaljastaa sen merkitykset",
+  welcomeHint: "Kirjoita tai sano unesi alla olevaan kenttään",
 
   // Input
   inputPlaceholder: "Kuvaile unesi...",
@@ -41,15 +63,38 @@ export const fi = {
   historyTip: "Vinkki: Pidä unipäiväkirjaa nähdäksesi kuvioita unissasi",
   historyToday: "Tänään",
   historyYesterday: "Eilen",
-  historyDaysAgo: "päivää sitten",
+  historyDaysAgo: { one: "{count} päivä sitten", other: "{count} päivää sitten" },
   historyReadMore: "Lue lisää",
   historyDelete: "Poista",
+  historyLoadFailed: "Unien lataaminen epäonnistui",
+  historyDreamNotFound: "Unta ei löytynyt",
+  historyDeleted: "Uni poistettu",
+  historyMoodFailed: "Tunnetilan tallennus epäonnistui",
+  historyReinterpretFailed: "Muutokset tallennettu, mutta tulkinta epäonnistui",
+  historyReinterpreted: "Uni tulkittu uudelleen",
+  historyChangesSaved: "Muutokset tallennettu",
+  historyStatSaved: "Unta tallennettu",
+  historyStatSelected: "Unta valittu",
+  historyStatThisWeek: "Tällä viikolla",
+  historyPatternsLink: "Näytä unikuviot ja trendit",
+  historySearchPlaceholder: "Hae unista, tulkinnoista ja teemoista",
+  historyViewList: "Lista",
+  historyViewCalendar: "Kalenteri",
+  historySearchResults: "Hakutulokset",
+  historyDayDreams: { one: "{count} uni", other: "{count} unta" },
+  historyMatches: { one: "{count} osuma", other: "{count} osumaa" },
+  historySwipeHint: "Pyyhkäise vasemmalle poistaaksesi",
+  historyNoDreamsForDay: "Ei unia tältä päivältä",
+  historyNoResults: "Ei hakutuloksia",
+  historyLoading: "Ladataan...",
+  calendarStreak: "Uniputki",
 
   // Settings
   settingsTitle: "Asetukset",
   settingsLanguage: "Kieli",
   settingsLanguageFi: "Suomi",
   settingsLanguageEn: "Englanti",
+  settingsLanguageSv: "Ruotsi",
   settingsPreferences: "Asetukset",
   settingsHaptics: "Tärinäpalaute",
   settingsHapticsDesc: "Tuntoaistipalaute painikkeille",
@@ -58,7 +103,6 @@ export const fi = {
   settingsLengthNormal: "Normaali",
   settingsLengthLong: "Pitkä",
   settingsData: "Tietojen hallinta",
-  settingsDreamsCount: "tallennettua unta",
   settingsClearHistory: "Tyhjennä unihistoria",
   settingsClearHistoryDesc: "Poista kaikki tallennetut unet",
   settingsAbout: "Tietoja",
@@ -66,6 +110,84 @@ export const fi = {
   settingsPrivacy: "Tietosuojakäytäntö",
   settingsMadeWith: "Tehty AI SDK:lla & Aihio AI",
   settingsCopyright: "Unitulkki © 2026",
+  settingsDreamDayCutoff: "Unipäivä vaihtuu",
+  settingsDreamDayCutoffDesc: "Tätä ennen kirjatut unet lasketaan edelliselle yölle",
+  settingsPrivacySection: "Yksityisyys",
+  settingsAboutMe: "Tietoja minusta",
+  settingsAboutMeOn: "Taustatiedot käytössä tulkinnoissa",
+  settingsAboutMeOff: "Elämäntilanne ja tavoitteet tarkempiin tulkintoihin",
+  settingsAppLock: "Sovelluslukko",
+  settingsAppLockOn: "Unet salattu, tunnuslause vaaditaan",
+  settingsAppLockOff: "Salaa unet PIN-koodilla tai tunnuslauseella",
+  settingsLockAfter: "Lukitse taustalla",
+  settingsImmediately: "Heti",
+  settingsLockNow: "Lukitse nyt",
+  settingsDisableLockTitle: "Poista sovelluslukko?",
+  settingsDisableLockMessage: "Unet tallennetaan jälleen salaamattomina.",
+  settingsDisableLock: "Poista lukko",
+  settingsExportDreams: "Vie unet",
+  settingsExportDreamsDesc: "PDF, Markdown tai CSV, valitulta aikaväliltä ja teemoista",
+  settingsImportDreams: "Tuo unia tiedostosta",
+  settingsImportDreamsDesc: "CSV, Markdown, teksti tai Day One",
+  settingsSymbolDictionary: "Symbolisanasto",
+  settingsSymbolDictionaryDesc: "Omat symbolit ja synonyymit unikuvioihin",
+  settingsExportBackup: "Vie varmuuskopio (JSON)",
+  settingsImportBackup: "Tuo varmuuskopio",
+  settingsBackupDesc: "Sisältää unet, herätykset ja asetukset. Tiedostoa ei salata.",
+  settingsBackupCreated: "Varmuuskopio luotu",
+  settingsRestoreTitle: "Palauta varmuuskopio?",
+  settingsRestoreMerge: "Yhdistä",
+  settingsRestoreReplace: "Korvaa",
+  settingsRestoreReplaceTitle: "Korvataanko nykyiset unet?",
+  settingsRestoreReplaceMessage: "Nykyiset unet ja herätykset poistetaan ja korvataan varmuuskopiolla. Toimintoa ei voi perua.",
+  settingsPreviewCreated: "Luotu {date}",
+  settingsClearConfirmTitle: "Tyhjennä historia?",
+  settingsClearConfirmMessage: "Tämä poistaa kaikki tallennetut unet pysyvästi. Toimintoa ei voi perua.",
+  settingsCleared: "Historia tyhjennetty",
+  settingsDreamsCount: { one: "{count} tallennettu uni", other: "{count} tallennettua unta" },
+  settingsRestored: { one: "Palautettu: {count} uni", other: "Palautettu: {count} unta" },
+  settingsImported: { one: "Tuotu: {count} uni", other: "Tuotu: {count} unta" },
+  settingsPreviewDreams: { one: "{count} uni ({newCount} uutta, {duplicateCount} jo tallessa)", other: "{count} unta ({newCount} uutta, {duplicateCount} jo tallessa)" },
+  settingsPreviewAlarms: { one: "{count} herätys", other: "{count} herätystä" },
+  settingsPreviewSkipped: { one: "{count} virheellinen uni ohitetaan", other: "{count} virheellistä unta ohitetaan" },
+  settingsLockDisabled: "Sovelluslukko poistettu",
+  settingsLockEnabled: "Sovelluslukko otettu käyttöön",
+  settingsLockDisableFailed: "Lukituksen poisto epäonnistui",
+  settingsAlarmSet: "Herätys asetettu klo {time}",
+  settingsAlarmDisabled: "Herätys poistettu käytöstä",
+  settingsAlarmEnableFailed: "Herätysten käyttöönotto epäonnistui. Tarkista sovelluksen luvat.",
+  settingsTestAlarmSent: "Testiherätys lähetetty!",
+  settingsTestAlarmFailed: "Testiherätys epäonnistui. Tarkista luvat.",
+  settingsAlarmTimeSet: "Herätysaika asetettu: {time}",
+  settingsNothingToExport: "Ei vietäviä unia",
+  settingsPdfTitle: "Unipäiväkirja",
+  settingsPdfCreated: "PDF luotu",
+  settingsExportDone: "Vienti valmis",
+  settingsExportFailed: "Vienti epäonnistui",
+  settingsBackupExportFailed: "Varmuuskopion vienti epäonnistui",
+  settingsRestoreFailed: "Palautus epäonnistui",
+  settingsBackupReadFailed: "Varmuuskopion lukeminen epäonnistui",
+  settingsFileReadFailed: "Tiedoston lukeminen epäonnistui",
+  settingsClearFailed: "Virhe historian tyhjentämisessä",
+  settingsPremiumUser: "Premium-käyttäjä",
+  settingsPremiumUserDesc: "Kaikki ominaisuudet käytössä",
+  settingsTrialStatus: { one: "Kokeilu ({count} pv)", other: "Kokeilu ({count} pv)" },
+  settingsTrialDesc: "Kokeile kaikkia ominaisuuksia",
+  settingsFreeVersion: "Ilmaisversio",
+  settingsFreeVersionDesc: "Päivitä Premium-versioon",
+  settingsAnalytics: "Analytiikka",
+  settingsPatterns: "Unikuviot",
+  settingsPatternsDesc: "Teemat, symbolit ja trendit unissasi",
+  settingsAchievements: "Saavutukset · {unlocked}/{total}",
+  settingsAlarmSection: "Uniherätys",
+  settingsMorningAlarm: "Aamuherätys",
+  settingsMorningAlarmOn: "Herätys klo {time}",
+  settingsMorningAlarmOff: "Ei käytössä",
+  settingsAlarmTime: "Herätysaika",
+  settingsAlarmTimeDesc: "Valitse milloin herätys tulee",
+  settingsTestAlarm: "Testaa herätys",
+  settingsAlarmInfo: "Herätys muistuttaa sinua kirjaamaan unesi. Napauta ilmoitusta avataksesi sovelluksen.",
+  settingsPickTime: "Valitse aika",
 
   // Interpretation
   interpretationSummary: "Yhteenveto",
@@ -83,6 +205,13 @@ export const fi = {
   interpretationLowConfidence: "Yleinen tulkinta",
   interpretationDisclaimer: "Unitulkinnat ovat suuntaa-antavia ja perustuvat yleiseen symboliikkaan. Henkilökohtainen merkitys voi vaihdella.",
   interpretationSavedAt: "Tallennettu klo",
+  relevanceHigh: "Keskeinen",
+  relevanceMedium: "Merkittävä",
+  relevanceLow: "Sivuosassa",
+  interpretationRelatedDreams: "Liittyvät unet",
+  interpretationOpenDream: "Avaa uni",
+  interpretationArchetype: "Arkkityyppi",
+  interpretDreamRequest: "Tulkitse tämä uni: {dream}",
 
   // Moods
   moodPeaceful: "Rauhallinen",
@@ -92,6 +221,8 @@ export const fi = {
   moodConfused: "Hämmentynyt",
   moodNostalgic: "Nostalginen",
   moodNeutral: "Neutraali",
+  moodExcited: "Innostunut",
+  moodFearful: "Pelottava",
 
   // Actions
   actionShare: "Jaa",
@@ -99,6 +230,13 @@ export const fi = {
   actionClose: "Sulje",
   actionAnalyzing: "Analysoidaan...",
   actionNewDream: "Uusi uni",
+  actionCancel: "Peruuta",
+  actionDone: "Valmis",
+  actionSave: "Tallenna",
+  actionEdit: "Muokkaa",
+  quickSaved: "Tallennettu",
+  quickShareMessage: "🌙 Uneni:\n{content}\n\n✨ Tulkinta:\n{interpretation}\n\n— Unitulkki",
+  quickShareTitle: "Jaa unesi tulkinta",
 
   // Premium
   premiumTitle: "Avaa kaikki ominaisuudet",
@@ -110,20 +248,476 @@ export const fi = {
   premiumYearly: "Vuositilaus",
   premiumLifetime: "Elinikäinen",
   premiumMostPopular: "SUOSITUIN",
-  premiumSave: "Säästä",
-  premiumTrialDays: "päivää ilmaiseksi",
+  premiumSave: "Säästä {percent}%",
+  premiumTrialDays: { one: "{count} päivä ilmaiseksi", other: "{count} päivää ilmaiseksi" },
   premiumTrialDesc: "Kokeile kaikkia ominaisuuksia ilman sitoumusta",
   premiumStartTrial: "Aloita kokeilu",
-  premiumContinue: "Jatka",
+  premiumContinue: "Jatka - {price}",
   premiumRestore: "Palauta ostokset",
   premiumLegal: "Tilaus uusiutuu automaattisesti. Voit peruuttaa milloin tahansa.",
   premiumUnlock: "Avaa Premium",
   premiumLockedDesc: "Avaa Premium nähdäksesi syvemmän analyysin",
+  premiumPeriodMonth: "kuukausi",
+  premiumPeriodMonthShort: "kk",
+  premiumPeriodYear: "vuosi",
+  premiumPeriodYearShort: "v",
+  premiumPeriodLifetime: "ikuisesti",
+  premiumFeatureUnlimited: "Rajattomat tulkinnat",
+  premiumFeatureUnlimitedDesc: "Tulkitse niin monta unta kuin haluat, ilman rajoituksia",
+  premiumFeatureDeepAnalysis: "Syvempi analyysi",
+  premiumFeatureDeepAnalysisDesc: "Jungilainen arkkityyppianalyysi ja alitajunnan oivallukset",
+  premiumFeaturePatterns: "Unikuvioiden seuranta",
+  premiumFeaturePatternsDesc: "Tunnista toistuvat teemat ja symbolit ajan mittaan",
+  premiumFeatureVisualization: "Unien visualisointi",
+  premiumFeatureVisualizationDesc: "Luo tekoälykuvia unistasi",
+  premiumFeatureExport: "PDF-vienti",
+  premiumFeatureExportDesc: "Tallenna ja jaa tulkintasi kauniina PDF-dokumenttina",
+  premiumFeatureVoice: "Äänitallenne",
+  premiumFeatureVoiceDesc: "Kerro unesi puhumalla heti herättyäsi",
+  premiumFreeLimitInterpretations: "3 tulkintaa/kk",
+  premiumFreeLimitLocked: "Lukittu",
+  premiumFreeLimitUnavailable: "Ei saatavilla",
+  premiumValueUnlimited: "Rajaton",
+  premiumValueFullAccess: "Täysi pääsy",
+  premiumValueFullAnalysis: "Täysi analyysi",
+  premiumValueAvailable: "Saatavilla",
+  premiumBenefitDeepAnalysis: "Syvempi psykologinen analyysi",
+  premiumBenefitVisualization: "AI-univisualisoinnit",
+  premiumMonthlyEquivalent: "vain {price}/kk",
+  premiumHeadlineLocked: "Avaa syvempi analyysi",
+  premiumHeadlineLimit: "Tulkinnat loppuivat tältä kuulta",
+  premiumProcessing: "Käsitellään...",
+  premiumBadge: "Premium",
+  usageTrialTitle: "Premium-kokeilu",
+  usageTrialDaysLeft: { one: "{count} päivä jäljellä", other: "{count} päivää jäljellä" },
+  usageEmptyShort: "Tulkinnat loppu",
+  usageUpgrade: "Päivitä",
+  usageFreeUsed: "Ilmaiset tulkinnat käytetty",
+  usageFree: "Ilmaiset tulkinnat",
+  usageEmptyMessage: "Päivitä Premiumiin rajattomia tulkintoja varten",
+  usageLowMessage: "Viimeinen tulkinta! Harkitse päivitystä.",
+  usageRenews: "Uusiutuu kuun alussa",
 
   // Errors
   errorGeneric: "Jokin meni pieleen",
   errorNetwork: "Verkkovirhe. Tarkista internetyhteytesi.",
   errorTryAgain: "Yritä uudelleen",
+  errorSaveDream: "Unen tallennus epäonnistui",
+  errorDeleteDream: "Unen poisto epäonnistui",
+  errorUpdateDream: "Unen päivitys epäonnistui",
+  errorSaveInterpretation: "Tulkinnan tallennus epäonnistui",
+  errorRestoreDreams: "Unien palautus epäonnistui",
+  errorClearDreams: "Unien tyhjennys epäonnistui",
+  errorSaveSetting: "Asetuksen tallennus epäonnistui",
+  errorRestoreAlarms: "Herätysten palautus epäonnistui",
+  errorNotificationPermission: "Ilmoituslupa vaaditaan",
+  errorInterpret: "Unitulkinta epäonnistui",
+  errorInterpretRetry: "Unitulkinta epäonnistui. Yritä uudelleen.",
+  errorUnknown: "Tuntematon virhe",
+  errorApiRequest: "API-kutsu epäonnistui",
+  errorMissingUserId: "Käyttäjää ei voitu tunnistaa. Käynnistä sovellus uudelleen ja yritä uudelleen.",
+  errorFreeLimitReached: "Tämän kuun ilmaiset tulkinnat on käytetty. Päivitä Premiumiin jatkaaksesi.",
+  errorMonthlyLimitReached: "Tämän kuun tulkintaraja on täynnä. Raja nollautuu kuun alussa.",
+  errorRateLimited: "Liian monta pyyntöä. Odota hetki ja yritä uudelleen.",
+  errorDreamTooLong: "Uni on liian pitkä tulkittavaksi. Lyhennä sitä ja yritä uudelleen.",
+
+  // Life areas
+  lifeAreaWork: "Työ",
+  lifeAreaRelationships: "Ihmissuhteet",
+  lifeAreaPersonalGrowth: "Henkilökohtainen kasvu",
+  lifeAreaHealth: "Terveys",
+  lifeAreaCreativity: "Luovuus",
+  lifeAreaSpirituality: "Henkisyys",
+  lifeAreaFamily: "Perhe",
+  lifeAreaFinances: "Talous",
+
+  // Export
+  exportJournalTitle: "Unipäiväkirja",
+  exportDreamHeading: "Uni {date} klo {time}",
+  exportDateTime: "{date} klo {time}",
+  exportInterpretation: "Tulkinta",
+  exportMood: "Tunnelma",
+  exportThemes: "Teemat",
+  exportSummary: { one: "Viety {date} • {count} uni", other: "Viety {date} • {count} unta" },
+  exportNoDreams: "Ei vietäviä unia",
+  exportShareJournal: "Jaa unipäiväkirja",
+  exportShareStats: "Jaa unitilastot",
+  exportMarkdownFailed: "Markdown-vienti epäonnistui",
+  exportCsvFailed: "CSV-vienti epäonnistui",
+  exportButton: "Vie ({count})",
+  exportFormat: "Muoto",
+  exportFormatPdf: "Tulostettava unipäiväkirja",
+  exportFormatMarkdown: "Yksi tiedosto muistiinpanosovelluksiin",
+  exportFormatMarkdownZip: "Oma tiedosto jokaiselle unelle",
+  exportFormatCsv: "Tiedot taulukkolaskentaan",
+  exportTableOfContents: "Sisällysluettelo",
+  exportPageBreak: "Jokainen uni omalle sivulleen",
+  exportNoMatches: "Valinnoilla ei löydy unia",
+  exportSelected: { one: "{selected}/{count} uni mukana", other: "{selected}/{count} unta mukana" },
+
+  // Days
+  daySunday: "Sunnuntai",
+  dayMonday: "Maanantai",
+  dayTuesday: "Tiistai",
+  dayWednesday: "Keskiviikko",
+  dayThursday: "Torstai",
+  dayFriday: "Perjantai",
+  daySaturday: "Lauantai",
+  dayShortMonday: "ma",
+  dayShortTuesday: "ti",
+  dayShortWednesday: "ke",
+  dayShortThursday: "to",
+  dayShortFriday: "pe",
+  dayShortSaturday: "la",
+  dayShortSunday: "su",
+
+  // Patterns
+  patternsNoData: "Ei dataa",
+  patternsPeriodDays: { one: "{count} päivä", other: "{count} päivää" },
+  insightTopSymbol: "{symbol} esiintyy {percentage}% unistasi - tämä saattaa heijastaa keskeistä teemaa elämässäsi.",
+  insightIncreasingSymbol: "{symbol}-unet ovat lisääntyneet viime aikoina.",
+  insightDominantMood: "{mood} tunnetila hallitsee {percentage}% unistasi.",
+  insightFrequentJournaling: "Kirjaat keskimäärin {average} unta viikossa - erinomainen unipäiväkirjarutiini!",
+  insightKeepJournaling: "Jatka unien kirjaamista - tarkemmat kuviot näkyvät kun unia kertyy enemmän.",
+  insightFirstDream: "Aloita kirjaamalla ensimmäinen unesi!",
+  trendIncreasing: "Kasvava",
+  trendDecreasing: "Laskeva",
+  trendStable: "Vakaa",
+  patternsLockedDesc: "Unikuvioiden seuranta näyttää toistuvat teemat ja symbolit unissasi ajan myötä.",
+  patternsShareOfDreams: "{percent}% unista",
+  patternsLoadFailed: "Kuvioiden lataaminen epäonnistui",
+  patternsNoDreamsForReport: "Ei unia raporttiin",
+  patternsReportCreated: "Raportti luotu",
+  patternsEmpty: "Ei vielä dataa",
+  patternsEmptyHint: "Kirjaa muutama uni nähdäksesi kuvioita ja trendejä unissasi.",
+  patternsBasedOn: { one: "Perustuu {count} uneen • {days} päivän ajalta", other: "Perustuu {count} uneen • {days} päivän ajalta" },
+  patternsStatPerWeek: "unta/viikko",
+  patternsStatSymbols: "symbolia",
+  patternsStatThemes: "teemaa",
+  patternsTopSymbols: "Yleisimmät symbolit",
+  patternsReportPeriod: "Kuukausi- tai oma aikaväli",
+  patternsCreateReport: "Luo uniraportti",
+
+  // Streak
+  streakStart: "Aloita uniputkesi tänään!",
+  streakFirstDay: "Loistava alku! Jatka huomenna.",
+  streakDays: { one: "{count} päivä peräkkäin!", other: "{count} päivää peräkkäin!" },
+  streakWeek: "Viikon uniputki! Hienoa!",
+  streakOverWeek: "{count} päivän putki! Mahtavaa!",
+  streakTwoWeeks: "Kaksi viikkoa! Olet mestari!",
+  streakOverTwoWeeks: "{count} päivää! Uskomaton!",
+  streakMonth: "Kuukauden putki! Legenda!",
+  streakOverMonth: "{count} päivää! Olet todellinen uneksija!",
+  streakMilestoneWeek: "Viikon putki",
+  streakMilestoneTwoWeeks: "2 viikon putki",
+  streakMilestoneMonth: "Kuukauden putki",
+  streakMilestoneHundred: "100 päivän putki",
+  streakDaysUnit: { one: "päivä", other: "päivää" },
+  streakLabel: { one: "päivän putki", other: "päivän putki" },
+  streakBest: { one: "Paras putki: {count} päivä", other: "Paras putki: {count} päivää" },
+  streakPastRuns: "Aiemmat putket",
+  streakRunLength: "{count} pv",
+
+  // Purchases
+  purchaseErrorUnknownProduct: "Tuntematon tuote",
+  purchaseErrorProductNotFound: "Tuotetta ei löytynyt",
+  purchaseErrorNotActivated: "Tilaus ei aktivoitunut",
+  purchaseErrorFailed: "Osto epäonnistui",
+  purchaseErrorCancelled: "Osto peruutettu",
+  purchaseErrorPending: "Maksu odottaa vahvistusta",
+  purchaseErrorAlreadyPurchased: "Sinulla on jo tämä tilaus",
+  purchaseErrorNetwork: "Verkkovirhe. Tarkista yhteys.",
+  purchaseErrorStore: "Ongelma kaupassa. Yritä myöhemmin.",
+  purchaseErrorNotAllowed: "Ostot eivät ole sallittuja tällä laitteella",
+
+  // Alarm
+  alarmNotificationTitle: "⏰ Herätys - Unitulkki",
+  alarmNotificationBody: "Aamu! Kirjaa unesi nyt kun se on vielä tuoreessa muistissa.",
+  alarmSnoozeTitle: "⏰ Torkku - Unitulkki",
+  alarmSnoozeBody: { one: "Heräys {count} minuutin päästä!", other: "Heräys {count} minuutin päästä!" },
+  alarmDefaultLabel: "Herätys",
+  alarmNew: "Uusi herätys",
+  alarmSetTime: "Aseta aika",
+  alarmDays: "Päivät",
+  alarmName: "Nimi",
+  alarmSelectDay: "Valitse vähintään yksi päivä",
+  alarmCreated: "Herätys luotu!",
+  alarmCreateFailed: "Virhe herätyksen luonnissa",
+  alarmOnce: "Kerran",
+  alarmEveryDay: "Joka päivä",
+  alarmEnabled: "Herätys päällä",
+  alarmDisabled: "Herätys pois päältä",
+  alarmUpdateFailed: "Virhe herätyksen muokkauksessa",
+  alarmDeleted: "Herätys poistettu",
+  alarmDeleteFailed: "Virhe herätyksen poistamisessa",
+  alarmNext: "Seuraava herätys",
+  alarmNoneActive: "Ei aktiivisia herätyksiä",
+  alarmTest: "Testaa herätys",
+
+  // Notifications
+  notificationTitle: "⏰ Aamuherätys - Unitulkki",
+  notificationBody: "Kirjaa unesi nyt kun se on vielä tuoreessa muistissa!",
+  notificationSnoozeTitle: "⏰ Torkku - Unitulkki",
+  notificationSnoozeBody: { one: "Herätys! Kirjaa unesi. (Torkku {count})", other: "Herätys! Kirjaa unesi. (Torkku {count})" },
+  notificationMonthlyReportTitle: "📊 Kuukauden uniraportti on valmis",
+  notificationMonthlyReportBody: "Katso, mitä unesi kertoivat viime kuussa.",
+  notificationTestTitle: "⏰ Testiherätys - Unitulkki",
+  notificationTestBody: "Näin herätys näyttää! Napauta avataksesi sovelluksen.",
+  notificationAlarmChannel: "Uniherätys",
+  notificationAlarmChannelDesc: "Aamuherätys unen kirjaamiseen",
+  notificationReportChannel: "Uniraportit",
+  notificationReportChannelDesc: "Ilmoitus kuukauden uniraportista",
+  notificationActionLogDream: "Kirjaa uni",
+  notificationActionSnooze: { one: "Torkku {count} min", other: "Torkku {count} min" },
+  notificationActionDismiss: "Hylkää",
+
+  // Edit
+  editTitle: "Muokkaa unta",
+  editDream: "Uni",
+  editDreamPlaceholder: "Kuvaile untasi",
+  editAddTag: "Lisää teema",
+  editRemoveTag: "Poista teema {tag}",
+  editMaxTags: { one: "Enintään {count} teema", other: "Enintään {count} teemaa" },
+  editEmptyContent: "Unen kuvaus ei voi olla tyhjä",
+  editMood: "Tunnetila",
+  editReinterpret: "Tulkitse uudelleen",
+  editReinterpretChanged: "Unen kuvaus on muuttunut. Nykyinen tulkinta säilyy aiempana versiona.",
+  editReinterpretDesc: "Nykyinen tulkinta säilyy aiempana versiona.",
+
+  // Filters
+  filterTitle: "Suodata unia",
+  filterClear: "Tyhjennä",
+  filterApply: "Käytä",
+  filterSort: "Järjestys",
+  filterSortNewest: "Uusin ensin",
+  filterSortOldest: "Vanhin ensin",
+  filterSortMostSymbols: "Eniten symboleja",
+  filterMood: "Tunnelma",
+  filterDateRange: "Aikaväli",
+  filterConfidence: "Tulkinnan varmuus",
+  filterConfidenceHigh: "Vahva",
+  filterConfidenceMedium: "Kohtuullinen",
+  filterConfidenceLow: "Yleinen",
+  filterInputMethod: "Syöttötapa",
+  filterVoiceOnly: "Vain puheella kirjatut",
+  filterDateAll: "Kaikki",
+  filterDate7d: "7 pv",
+  filterDate30d: "30 pv",
+  filterDate90d: "3 kk",
+  filterDate365d: "Vuosi",
+  filterDateCustom: "Oma väli",
+  filterDatePick: "Valitse",
+  filterDateFrom: "Alkaen",
+  filterDateTo: "Asti",
+
+  // Report
+  reportTitle: "Uniraportti",
+  reportSymbol: "Symboli",
+  reportTimes: "Kertaa",
+  reportShareOfDreams: "Osuus unista",
+  reportTrend: "Suunta",
+  reportLastSeen: "Viimeksi",
+  reportStatDreams: "Unta",
+  reportStatPerWeek: "Unta/viikko",
+  reportStatSymbols: "Symbolia",
+  reportStatThemes: "Toistuvaa teemaa",
+  reportInsights: "Oivalluksia",
+  reportMoods: "Tunnetilat",
+  reportRhythm: "Unirytmi",
+  reportPeriod: "Ajanjakso",
+  reportDreamCount: "Unia",
+  reportMostActiveDay: "Aktiivisin päivä",
+  reportHighlights: "Eloisimmat unet",
+  reportGeneratedAt: "Luotu {date} • Unitulkki",
+  reportNoDreams: "Ei unia valitulla aikavälillä",
+  reportShare: "Jaa uniraportti",
+  reportFailed: "Raportin luonti epäonnistui",
+  reportCreate: "Luo",
+  reportMonth: "Kuukausi",
+  reportOtherPeriod: "Muu aikaväli",
+  reportReminder: "Muistuta kuukausiraportista",
+  reportReminderDesc: "Ilmoitus kuun ensimmäisenä päivänä, kun edellisen kuun raportti on valmis",
+  reportDreamsIncluded: { one: "{count} uni raportissa", other: "{count} unta raportissa" },
+
+  // PDF
+  pdfTheme: "Ulkoasu",
+  pdfThemeNight: "Yö",
+  pdfThemeLight: "Vaalea",
+  pdfThemePrint: "Tulostettava",
+  pdfDream: "Uni",
+  pdfInterpretation: "Tulkinta",
+  pdfStatDays: "Päivää",
+  pdfStatInterpreted: "Tulkittu",
+  pdfMoods: "Tunnelmat",
+  pdfTopThemes: "Yleisimmät teemat",
+  pdfContents: "Sisällys",
+  pdfSubtitle: { one: "Viety {date} • {count} uni", other: "Viety {date} • {count} unta" },
+  pdfExportedAt: "Viety {date}",
+  pdfCreatedWith: "Luotu DreamAI-sovelluksella",
+  pdfSingleTitle: "Unitulkinta",
+  pdfShareDream: "Jaa unitulkinta",
+  pdfShareJournal: "Jaa unipäiväkirja",
+  pdfFailed: "PDF-vienti epäonnistui",
+
+  // Dream detail
+  detailShareMessage: "🌙 Uneni {date}:\n\n{content}\n\n✨ Tulkinta:\n{interpretation}",
+  detailShareTitle: "Unitulkki - Unitulkinta",
+  detailChat: "Keskustele unesta",
+  detailChatMessages: { one: "{count} viesti", other: "{count} viestiä" },
+  detailChatDesc: "Vastaa pohdittaviin kysymyksiin tai kysy lisää",
+  detailRevisions: "Aiemmat tulkinnat ({count})",
+  detailRevisedAt: "Korvattu {date} klo {time}",
+  detailSavedAt: "Tallennettu klo {time}",
+  detailChangeMood: "Vaihda tunnetila",
+
+  // Upsell
+  upsellDeepAnalysisTitle: "Avaa syvempi analyysi",
+  upsellDeepAnalysisDesc: "Jungilainen arkkityyppianalyysi ja alitajunnan oivallukset",
+  upsellDeepAnalysisCta: "Näytä mitä saat",
+  upsellPatternsTitle: "Unikuviot odottavat",
+  upsellPatternsDesc: "Löydä toistuvat teemat ja symbolit unistasi",
+  upsellPatternsCta: "Avaa analyysi",
+  upsellExportTitle: "Vie unipäiväkirjasi",
+  upsellExportDesc: "Tallenna kauniina PDF-dokumenttina",
+  upsellExportCta: "Avaa vienti",
+  upsellVisualizationTitle: "Visualisoi unesi",
+  upsellVisualizationDesc: "Luo tekoälykuvia unistasi",
+  upsellVisualizationCta: "Kokeile nyt",
+  upsellLimitWarningTitle: "Tulkinnat loppumassa",
+  upsellLimitWarningDesc: "Päivitä Premiumiin rajattomia tulkintoja varten",
+  upsellLimitWarningCta: "Katso vaihtoehdot",
+  upsellGenericTitle: "Unitulkki Premium",
+  upsellGenericDesc: "Rajattomat tulkinnat ja kaikki ominaisuudet",
+  upsellGenericCta: "Tutustu",
+
+  // Profile
+  profileLifeSituation: "Elämäntilanne",
+  profileLifeSituationPlaceholder: "Esim. muutin juuri uuteen kaupunkiin ja aloitin uudessa työssä",
+  profileStressors: "Toistuvat huolet",
+  profileStressorsPlaceholder: "Esim. kiire töissä, huoli vanhempien terveydestä",
+  profilePeople: "Tärkeät ihmiset",
+  profilePeoplePlaceholder: "Esim. puoliso Sanna, sisko, paras ystävä Mikko",
+  profileGoals: "Tavoitteet",
+  profileGoalsPlaceholder: "Esim. haluan jaksaa paremmin ja löytää aikaa luovuudelle",
+  profileSaveFailed: "Tietojen tallennus epäonnistui",
+  profileDeleteTitle: "Poista tiedot?",
+  profileDeleteMessage: "Kaikki kirjoittamasi taustatiedot poistetaan tältä laitteelta.",
+  profileDeleteFailed: "Tietojen poisto epäonnistui",
+  profileDelete: "Poista tiedot",
+  profileUseInInterpretations: "Käytä tulkinnoissa",
+  profileUseInInterpretationsDesc: "Tulkinta voi yhdistää unen elämäntilanteeseesi. Voit jättää tiedot pois yksittäisestä tulkinnasta unen kirjoitusnäkymässä.",
+  profilePrivacy: "Tiedot tallennetaan vain tähän laitteeseen, eikä niitä sisällytetä varmuuskopioihin. Ne lähetetään tulkintapalvelulle vain tulkinnan ajaksi, kun käyttö on päällä, eikä palvelu tallenna niitä.",
+
+  // Chat
+  chatTitle: "Keskustelu unesta",
+  chatIntro: "Vastaa pohdittaviin kysymyksiin tai kysy unestasi lisää. Tulkitsija tuntee unesi ja sen tulkinnan.",
+  chatAnswering: "Vastaat: {question}",
+  chatAnswerPlaceholder: "Kirjoita vastauksesi",
+  chatAskPlaceholder: "Kysy unestasi",
+  chatSend: "Lähetä",
+  chatSendFailed: "Viestin lähetys epäonnistui. Yritä uudelleen.",
+
+  // Loading
+  loadingDiving: "Sukeltaudun unimaailmaasi...",
+  loadingSymbols: "Etsin symboleja ja merkityksiä...",
+  loadingMessages: "Tulkitsen piilotettuja viestejä...",
+  loadingEmotions: "Yhdistän tunteita ja muistoja...",
+  loadingFinishing: "Viimeistelen tulkintaa...",
+  loadingHint: "Hengitä syvään ja rentoudu...",
+
+  // Import
+  importTitle: "Tuo unia",
+  importAction: "Tuo ({count})",
+  importFormatCsv: "CSV",
+  importFormatMarkdown: "Markdown",
+  importFormatText: "Teksti",
+  importFormatDayOne: "Day One",
+  importReadFailed: "Tiedoston lukeminen epäonnistui",
+  importFailed: "Tuonti epäonnistui",
+  importNoDate: "Ei päivämäärää",
+  importAlreadySaved: "Jo tallessa",
+  importFound: { one: "{count} uni löytyi", other: "{count} unta löytyi" },
+  importDuplicates: "{count} jo päiväkirjassa",
+  importUndated: "{count} ilman päivämäärää",
+  importTruncated: "Tiedostossa on enemmän unia kuin kerralla voi tuoda. Tuo loput erikseen.",
+  importReinterpret: "Tulkitse tuodut unet",
+  importReinterpretDesc: "Tulkinnat tehdään yksi kerrallaan tuonnin jälkeen",
+  importPremiumFeature: "Premium-ominaisuus",
+  importProgress: "Tulkitaan {done}/{total}...",
+  importNotInterpreted: { one: "{count} uni jäi tulkitsematta.", other: "{count} unta jäi tulkitsematta." },
+  importEmpty: "Tiedostosta ei löytynyt unia tässä muodossa",
+
+  // Symbols
+  symbolTitle: "Symbolisanasto",
+  symbolAdd: "Lisää",
+  symbolDescription: "Teemat yhdistetään sanaston symboleihin, jotta esimerkiksi \"flying\" ja \"lento\" lasketaan samaksi. Lisää oma symboli tai uusia synonyymejä valmiille symbolille.",
+  symbolLabelPlaceholder: "Symboli, esim. mummola",
+  symbolAliasesPlaceholder: "Synonyymit pilkulla eroteltuna",
+  symbolOwn: "Omat lisäykset",
+  symbolBuiltIn: "Valmiit symbolit",
+  symbolNameMissing: "Anna symbolin nimi",
+  symbolSaveFailed: "Symbolin tallennus epäonnistui",
+  symbolDeleteFailed: "Symbolin poisto epäonnistui",
+
+  // Journal lock
+  lockLocked: "Unipäiväkirja on lukittu",
+  lockEnterPassphrase: "Syötä PIN-koodi tai tunnuslause",
+  lockPassphrase: "Tunnuslause",
+  lockUnlock: "Avaa",
+  lockWrongPassphrase: "Väärä tunnuslause",
+  lockUnlockFailed: "Avaaminen epäonnistui",
+  lockSetupDescription: "Unesi salataan laitteella. Sovellus kysyy tunnuslausetta, kun palaat siihen.",
+  lockPassphrasePlaceholder: "PIN-koodi tai tunnuslause",
+  lockRepeatPassphrase: "Toista tunnuslause",
+  lockForgetWarning: "Jos unohdat tunnuslauseen, salattuja unia ei voi palauttaa.",
+  lockMinLength: { one: "Vähintään {count} merkki", other: "Vähintään {count} merkkiä" },
+  lockMismatch: "Tunnuslauseet eivät täsmää",
+  lockPassphraseTooShort: { one: "Tunnuslauseessa on oltava vähintään {count} merkki", other: "Tunnuslauseessa on oltava vähintään {count} merkkiä" },
+  lockEnableFailed: "Lukituksen käyttöönotto epäonnistui",
+  lockDisableFailed: "Lukituksen poisto epäonnistui",
+  lockUnlockFirst: "Avaa unipäiväkirja ensin",
+
+  // Backup
+  backupExportFailed: "Varmuuskopion vienti epäonnistui",
+  backupInvalidJson: "Tiedosto ei ole kelvollista JSONia",
+  backupNotBackup: "Tiedosto ei ole Unitulkin varmuuskopio",
+  backupNewerVersion: "Varmuuskopio on tehty uudemmalla sovellusversiolla. Päivitä sovellus.",
+  backupSaveDialog: "Tallenna varmuuskopio",
+
+  // Voice input
+  voicePermissionRequired: "Mikrofonin käyttölupa vaaditaan",
+  voiceStartFailed: "Nauhoituksen aloittaminen epäonnistui",
+  voiceNoRecording: "Ei aktiivista nauhoitusta",
+  voiceSaveFailed: "Nauhoituksen tallentaminen epäonnistui",
+  voiceStopFailed: "Nauhoituksen lopettaminen epäonnistui",
+  voiceFileNotFound: "Äänitiedostoa ei löytynyt",
+  voiceTranscriptionFailed: "Transkriptio epäonnistui",
+  voiceApiKeyMissing: "OpenAI-avain puuttuu",
+
+  // Achievements
+  achievementFirstDreamTitle: "Ensimmäinen uni",
+  achievementFirstDreamDesc: "Tallenna ensimmäinen unesi",
+  achievementFirstVoiceDreamTitle: "Ääneen kerrottu",
+  achievementFirstVoiceDreamDesc: "Kirjaa uni puheella",
+  achievementDreams10Title: "Unien kerääjä",
+  achievementDreams10Desc: "Tallenna 10 unta",
+  achievementDreams50Title: "Unien arkisto",
+  achievementDreams50Desc: "Tallenna 50 unta",
+  achievementWater10Title: "Syvät vedet",
+  achievementWater10Desc: "10 unta, joissa esiintyy vesi",
+  achievementMorningWeekTitle: "Aamun muistaja",
+  achievementMorningWeekDesc: "Kirjaa uni ennen klo 9 seitsemänä päivänä peräkkäin",
+  achievementStreak30Title: "Kuukauden putki",
+  achievementStreak30Desc: "Pidä uniputkea yllä 30 päivää",
+  achievementFirstPdfExportTitle: "Painettu päiväkirja",
+  achievementFirstPdfExportDesc: "Vie unesi PDF-tiedostoksi",
+  achievementUnlocked: "Saavutus avattu: {title}",
+  achievementsUnlocked: { one: "{count} uusi saavutus avattu!", other: "{count} uutta saavutusta avattu!" },
 } as const;
 
 export type TranslationKey = keyof typeof fi;
+
+// Every locale has the same keys; plural keys stay plural
+export type Translations = {
+  [K in TranslationKey]: (typeof fi)[K] extends string ? string : PluralForms;
+};
@@ -0,0 +1,715 @@
+/**
+ * Swedish translations
+ *
+ * Unitulkki - AI-driven drömtolkning
+ */
+
+import type { Translations } from "./fi";
+
+export const sv: Translations = {
+  // App
+  appName: "Unitulkki",
+  appTagline: "AI-driven drömtolkning",
+  appDescription: "Berätta din dröm och få en AI-driven tolkning av vad den betyder",
+
+  // Navigation
+  navDreams: "Drömmar",
+  navHistory: "Historik",
+  navSettings: "Inställningar",
+  navJournal: "Dagbok",
+  navJournalTitle: "Drömdagbok",
+  navPatterns: "Drömmönster",
+  notFoundTitle: "Hoppsan!",
+  notFoundHeading: "Sidan hittades inte",
+  notFoundMessage: "Den här sidan finns inte.",
+  notFoundBack: "Tillbaka till startsidan",
+
+  // Home screen
+  homeTitle: "Unitulkki",
+  homeSubtitle: "Berätta din dröm och få en AI-driven tolkning av vad den betyder",
+  homeFeature1: "Strukturerad tolkning",
+  homeFeature2: "Analys i realtid",
+  homeGetInterpretation: "Din tolkning innehåller:",
+  homeSymbols: "Symbolernas betydelse",
+  homeEmotions: "Känsloanalys",
+  homeConnections: "Kopplingar till livet",
+  homeInsights: "Insikter och frågor",
+  homeTryExamples: "Prova de här exemplen:",
+  homeExample1: "Jag flög ovanför molnen",
+  homeExample2: "Jag sprang men kom inte framåt",
+  homeTry: "Prova:",
+  homeSuggestionFlying: "Jag flög ovanför molnen...",
+  homeSuggestionTeeth: "Mina tänder föll ut...",
+  homeSuggestionTrain: "Jag var sen till tåget...",
+  homeSuggestionRoom: "Jag hittade ett hemligt rum...",
+  homeProfileOn: "Min bakgrund tas med i tolkningen",
+  homeProfileOff: "Tolka utan min bakgrund",
+  homeTranscriptionFailed: "Taligenkänningen misslyckades",
+  homeMicrophoneDenied: "Åtkomst till mikrofonen nekades",
+  homeRecordingFailed: "Inspelningen kunde inte startas",
+  welcomeSubtitle: "Berätta din dröm och låt AI\navslöja dess betydelser",
+  welcomeHint: "Skriv eller säg din dröm i fältet nedan",
+
+  // Input
+  inputPlaceholder: "Beskriv din dröm...",
+  inputSubmit: "Tolka",
+  inputPoweredBy: "Drivs av Aihio AI",
+
+  // History
+  historyTitle: "Drömhistorik",
+  historyEmpty: "Inga sparade drömmar än",
+  historyEmptyHint: "Börja med att berätta din dröm på startsidan. Tolkningarna sparas automatiskt.",
+  historyTip: "Tips: För drömdagbok för att se mönster i dina drömmar",
+  historyToday: "I dag",
+  historyYesterday: "I går",
+  historyDaysAgo: { one: "för {count} dag sedan", other: "för {count} dagar sedan" },
+  historyReadMore: "Läs mer",
+  historyDelete: "Radera",
+  historyLoadFailed: "Drömmarna kunde inte laddas",
+  historyDreamNotFound: "Drömmen hittades inte",
+  historyDeleted: "Drömmen raderades",
+  historyMoodFailed: "Stämningen kunde inte sparas",
+  historyReinterpretFailed: "Ändringarna sparades, men tolkningen misslyckades",
+  historyReinterpreted: "Drömmen tolkades på nytt",
+  historyChangesSaved: "Ändringarna sparades",
+  historyStatSaved: "Sparade drömmar",
+  historyStatSelected: "Valda drömmar",
+  historyStatThisWeek: "Den här veckan",
+  historyPatternsLink: "Visa drömmönster och trender",
+  historySearchPlaceholder: "Sök drömmar, tolkningar och teman",
+  historyViewList: "Lista",
+  historyViewCalendar: "Kalender",
+  historySearchResults: "Sökresultat",
+  historyDayDreams: { one: "{count} dröm", other: "{count} drömmar" },
+  historyMatches: { one: "{count} träff", other: "{count} träffar" },
+  historySwipeHint: "Svep åt vänster för att radera",
+  historyNoDreamsForDay: "Inga drömmar den här dagen",
+  historyNoResults: "Inga sökresultat",
+  historyLoading: "Laddar...",
+  calendarStreak: "Drömsvit",
+
+  // Settings
+  settingsTitle: "Inställningar",
+  settingsLanguage: "Språk",
+  settingsLanguageFi: "Finska",
+  settingsLanguageEn: "Engelska",
+  settingsLanguageSv: "Svenska",
+  settingsPreferences: "Preferenser",
+  settingsHaptics: "Haptisk feedback",
+  settingsHapticsDesc: "Vibration när du trycker på knappar",
+  settingsLength: "Tolkningens längd",
+  settingsLengthShort: "Kort",
+  settingsLengthNormal: "Normal",
+  settingsLengthLong: "Lång",
+  settingsData: "Datahantering",
+  settingsClearHistory: "Rensa drömhistoriken",
+  settingsClearHistoryDesc: "Radera alla sparade drömmar",
+  settingsAbout: "Om appen",
+  settingsVersion: "Version",
+  settingsPrivacy: "Integritetspolicy",
+  settingsMadeWith: "Gjord med AI SDK & Aihio AI",
+  settingsCopyright: "Unitulkki © 2026",
+  settingsDreamDayCutoff: "Drömdygnet börjar kl.",
+  settingsDreamDayCutoffDesc: "Drömmar som sparas före detta räknas till föregående natt",
+  settingsPrivacySection: "Integritet",
+  settingsAboutMe: "Om mig",
+  settingsAboutMeOn: "Bakgrunden används i tolkningarna",
+  settingsAboutMeOff: "Livssituation och mål för mer personliga tolkningar",
+  settingsAppLock: "Applås",
+  settingsAppLockOn: "Drömmarna är krypterade, lösenfras krävs",
+  settingsAppLockOff: "Kryptera drömmarna med en PIN-kod eller lösenfras",
+  settingsLockAfter: "Lås i bakgrunden",
+  settingsImmediately: "Genast",
+  settingsLockNow: "Lås nu",
+  settingsDisableLockTitle: "Stäng av applåset?",
+  settingsDisableLockMessage: "Drömmarna sparas okrypterade igen.",
+  settingsDisableLock: "Stäng av",
+  settingsExportDreams: "Exportera drömmar",
+  settingsExportDreamsDesc: "PDF, Markdown eller CSV, filtrerat efter datum och teman",
+  settingsImportDreams: "Importera drömmar från fil",
+  settingsImportDreamsDesc: "CSV, Markdown, vanlig text eller Day One",
+  settingsSymbolDictionary: "Symbolordbok",
+  settingsSymbolDictionaryDesc: "Egna symboler och synonymer för drömmönstren",
+  settingsExportBackup: "Exportera säkerhetskopia (JSON)",
+  settingsImportBackup: "Återställ säkerhetskopia",
+  settingsBackupDesc: "Innehåller drömmar, larm och inställningar. Filen är inte krypterad.",
+  settingsBackupCreated: "Säkerhetskopian skapades",
+  settingsRestoreTitle: "Återställ säkerhetskopian?",
+  settingsRestoreMerge: "Slå ihop",
+  settingsRestoreReplace: "Ersätt",
+  settingsRestoreReplaceTitle: "Ersätt nuvarande drömmar?",
+  settingsRestoreReplaceMessage: "Nuvarande drömmar och larm raderas och ersätts med säkerhetskopian. Åtgärden kan inte ångras.",
+  settingsPreviewCreated: "Skapad {date}",
+  settingsClearConfirmTitle: "Rensa historiken?",
+  settingsClearConfirmMessage: "Alla sparade drömmar raderas permanent. Åtgärden kan inte ångras.",
+  settingsCleared: "Historiken rensades",
+  settingsDreamsCount: { one: "{count} sparad dröm", other: "{count} sparade drömmar" },
+  settingsRestored: { one: "Återställd: {count} dröm", other: "Återställda: {count} drömmar" },
+  settingsImported: { one: "Importerad: {count} dröm", other: "Importerade: {count} drömmar" },
+  settingsPreviewDreams: { one: "{count} dröm ({newCount} nya, {duplicateCount} redan sparade)", other: "{count} drömmar ({newCount} nya, {duplicateCount} redan sparade)" },
+  settingsPreviewAlarms: { one: "{count} larm", other: "{count} larm" },
+  settingsPreviewSkipped: { one: "{count} ogiltig dröm hoppas över", other: "{count} ogiltiga drömmar hoppas över" },
+  settingsLockDisabled: "Applåset stängdes av",
+  settingsLockEnabled: "Applåset slogs på",
+  settingsLockDisableFailed: "Låset kunde inte stängas av",
+  settingsAlarmSet: "Larmet ställt på {time}",
+  settingsAlarmDisabled: "Larmet stängdes av",
+  settingsAlarmEnableFailed: "Larmen kunde inte slås på. Kontrollera appens behörigheter.",
+  settingsTestAlarmSent: "Testlarm skickat!",
+  settingsTestAlarmFailed: "Testlarmet misslyckades. Kontrollera behörigheterna.",
+  settingsAlarmTimeSet: "Larmtid inställd: {time}",
+  settingsNothingToExport: "Inga drömmar att exportera",
+  settingsPdfTitle: "Drömdagbok",
+  settingsPdfCreated: "PDF skapad",
+  settingsExportDone: "Exporten är klar",
+  settingsExportFailed: "Exporten misslyckades",
+  settingsBackupExportFailed: "Säkerhetskopian kunde inte exporteras",
+  settingsRestoreFailed: "Återställningen misslyckades",
+  settingsBackupReadFailed: "Säkerhetskopian kunde inte läsas",
+  settingsFileReadFailed: "Filen kunde inte läsas",
+  settingsClearFailed: "Fel när historiken skulle rensas",
+  settingsPremiumUser: "Premiumanvändare",
+  settingsPremiumUserDesc: "Alla funktioner är upplåsta",
+  settingsTrialStatus: { one: "Provperiod ({count} dag)", other: "Provperiod ({count} dagar)" },
+  settingsTrialDesc: "Prova alla funktioner",
+  settingsFreeVersion: "Gratisversion",
+  settingsFreeVersionDesc: "Uppgradera till Premium",
+  settingsAnalytics: "Analys",
+  settingsPatterns: "Drömmönster",
+  settingsPatternsDesc: "Teman, symboler och trender i dina drömmar",
+  settingsAchievements: "Prestationer · {unlocked}/{total}",
+  settingsAlarmSection: "Drömlarm",
+  settingsMorningAlarm: "Morgonlarm",
+  settingsMorningAlarmOn: "Larm kl. {time}",
+  settingsMorningAlarmOff: "Av",
+  settingsAlarmTime: "Larmtid",
+  settingsAlarmTimeDesc: "Välj när larmet ringer",
+  settingsTestAlarm: "Testa larmet",
+  settingsAlarmInfo: "Larmet påminner dig om att skriva ner din dröm. Tryck på notisen för att öppna appen.",
+  settingsPickTime: "Välj tid",
+
+  // Interpretation
+  interpretationSummary: "Sammanfattning",
+  interpretationSymbols: "Symboler",
+  interpretationEmotions: "Känslovärld",
+  interpretationConnections: "Kopplingar till livet",
+  interpretationKeyMessage: "Huvudbudskap",
+  interpretationQuestions: "Reflektion",
+  interpretationDeepAnalysis: "Djupanalys",
+  interpretationYourDream: "Din dröm",
+  interpretationThemes: "Teman",
+  interpretationPrimaryEmotion: "Huvudkänsla",
+  interpretationHighConfidence: "Stark tolkning",
+  interpretationMediumConfidence: "Måttlig tolkning",
+  interpretationLowConfidence: "Allmän tolkning",
+  interpretationDisclaimer: "Drömtolkningar är vägledande och bygger på allmän symbolik. Den personliga betydelsen kan variera.",
+  interpretationSavedAt: "Sparad",
+  relevanceHigh: "Central",
+  relevanceMedium: "Betydande",
+  relevanceLow: "Mindre",
+  interpretationRelatedDreams: "Relaterade drömmar",
+  interpretationOpenDream: "Öppna drömmen",
+  interpretationArchetype: "Arketyp",
+  interpretDreamRequest: "Tolka den här drömmen: {dream}",
+
+  // Moods
+  moodPeaceful: "Fridfull",
+  moodHappy: "Glad",
+  moodAnxious: "Orolig",
+  moodSad: "Ledsen",
+  moodConfused: "Förvirrad",
+  moodNostalgic: "Nostalgisk",
+  moodNeutral: "Neutral",
+  moodExcited: "Upprymd",
+  moodFearful: "Rädd",
+
+  // Actions
+  actionShare: "Dela",
+  actionDelete: "Radera",
+  actionClose: "Stäng",
+  actionAnalyzing: "Analyserar...",
+  actionNewDream: "Ny dröm",
+  actionCancel: "Avbryt",
+  actionDone: "Klar",
+  actionSave: "Spara",
+  actionEdit: "Redigera",
+  quickSaved: "Sparad",
+  quickShareMessage: "🌙 Min dröm:\n{content}\n\n✨ Tolkning:\n{interpretation}\n\n— Unitulkki",
+  quickShareTitle: "Dela din drömtolkning",
+
+  // Premium
+  premiumTitle: "Lås upp alla funktioner",
+  premiumSubtitle: "Unitulkki Premium ger dig en djupare förståelse av dina drömmar",
+  premiumUnlimitedDreams: "Obegränsade tolkningar",
+  premiumDeepAnalysis: "Djupanalys",
+  premiumNoAds: "Ingen reklam",
+  premiumMonthly: "Månad",
+  premiumYearly: "År",
+  premiumLifetime: "Livstid",
+  premiumMostPopular: "POPULÄRAST",
+  premiumSave: "Spara {percent} %",
+  premiumTrialDays: { one: "{count} dag gratis", other: "{count} dagar gratis" },
+  premiumTrialDesc: "Prova alla funktioner utan förpliktelser",
+  premiumStartTrial: "Starta provperioden",
+  premiumContinue: "Fortsätt - {price}",
+  premiumRestore: "Återställ köp",
+  premiumLegal: "Prenumerationen förnyas automatiskt. Du kan säga upp den när som helst.",
+  premiumUnlock: "Lås upp Premium",
+  premiumLockedDesc: "Lås upp Premium för att se den djupare analysen",
+  premiumPeriodMonth: "månad",
+  premiumPeriodMonthShort: "mån",
+  premiumPeriodYear: "år",
+  premiumPeriodYearShort: "år",
+  premiumPeriodLifetime: "för alltid",
+  premiumFeatureUnlimited: "Obegränsade tolkningar",
+  premiumFeatureUnlimitedDesc: "Tolka hur många drömmar du vill, utan begränsningar",
+  premiumFeatureDeepAnalysis: "Djupare analys",
+  premiumFeatureDeepAnalysisDesc: "Jungiansk arketypanalys och insikter från det undermedvetna",
+  premiumFeaturePatterns: "Uppföljning av drömmönster",
+  premiumFeaturePatternsDesc: "Upptäck återkommande teman och symboler över tid",
+  premiumFeatureVisualization: "Drömvisualisering",
+  premiumFeatureVisualizationDesc: "Skapa AI-bilder av dina drömmar",
+  premiumFeatureExport: "PDF-export",
+  premiumFeatureExportDesc: "Spara och dela dina tolkningar som en snygg PDF",
+  premiumFeatureVoice: "Röstinspelning",
+  premiumFeatureVoiceDesc: "Berätta din dröm högt direkt när du vaknar",
+  premiumFreeLimitInterpretations: "3 tolkningar/mån",
+  premiumFreeLimitLocked: "Låst",
+  premiumFreeLimitUnavailable: "Inte tillgänglig",
+  premiumValueUnlimited: "Obegränsat",
+  premiumValueFullAccess: "Full åtkomst",
+  premiumValueFullAnalysis: "Full analys",
+  premiumValueAvailable: "Tillgänglig",
+  premiumBenefitDeepAnalysis: "Djupare psykologisk analys",
+  premiumBenefitVisualization: "AI-visualiseringar av drömmar",
+  premiumMonthlyEquivalent: "bara {price}/mån",
+  premiumHeadlineLocked: "Lås upp den djupare analysen",
+  premiumHeadlineLimit: "Du har använt månadens tolkningar",
+  premiumProcessing: "Behandlas...",
+  premiumBadge: "Premium",
+  usageTrialTitle: "Premium-provperiod",
+  usageTrialDaysLeft: { one: "{count} dag kvar", other: "{count} dagar kvar" },
+  usageEmptyShort: "Inga tolkningar kvar",
+  usageUpgrade: "Uppgradera",
+  usageFreeUsed: "Gratistolkningarna är använda",
+  usageFree: "Gratistolkningar",
+  usageEmptyMessage: "Uppgradera till Premium för obegränsade tolkningar",
+  usageLowMessage: "Sista tolkningen! Överväg att uppgradera.",
+  usageRenews: "Förnyas i början av månaden",
+
+  // Errors
+  errorGeneric: "Något gick fel",
+  errorNetwork: "Nätverksfel. Kontrollera internetanslutningen.",
+  errorTryAgain: "Försök igen",
+  errorSaveDream: "Drömmen kunde inte sparas",
+  errorDeleteDream: "Drömmen kunde inte raderas",
+  errorUpdateDream: "Drömmen kunde inte uppdateras",
+  errorSaveInterpretation: "Tolkningen kunde inte sparas",
+  errorRestoreDreams: "Drömmarna kunde inte återställas",
+  errorClearDreams: "Drömmarna kunde inte rensas",
+  errorSaveSetting: "Inställningen kunde inte sparas",
+  errorRestoreAlarms: "Larmen kunde inte återställas",
+  errorNotificationPermission: "Behörighet för notiser krävs",
+  errorInterpret: "Drömtolkningen misslyckades",
+  errorInterpretRetry: "Drömtolkningen misslyckades. Försök igen.",
+  errorUnknown: "Okänt fel",
+  errorApiRequest: "API-anropet misslyckades",
+  errorMissingUserId: "Användaren kunde inte identifieras. Starta om appen och försök igen.",
+  errorFreeLimitReached: "Du har använt månadens gratistolkningar. Uppgradera till Premium för att fortsätta.",
+  errorMonthlyLimitReached: "Månadens tolkningsgräns är nådd. Den nollställs i början av månaden.",
+  errorRateLimited: "För många förfrågningar. Vänta en stund och försök igen.",
+  errorDreamTooLong: "Drömmen är för lång för att tolkas. Korta ner den och försök igen.",
+
+  // Life areas
+  lifeAreaWork: "Arbete",
+  lifeAreaRelationships: "Relationer",
+  lifeAreaPersonalGrowth: "Personlig utveckling",
+  lifeAreaHealth: "Hälsa",
+  lifeAreaCreativity: "Kreativitet",
+  lifeAreaSpirituality: "Andlighet",
+  lifeAreaFamily: "Familj",
+  lifeAreaFinances: "Ekonomi",
+
+  // Export
+  exportJournalTitle: "Drömdagbok",
+  exportDreamHeading: "Dröm {date} kl. {time}",
+  exportDateTime: "{date} kl. {time}",
+  exportInterpretation: "Tolkning",
+  exportMood: "Stämning",
+  exportThemes: "Teman",
+  exportSummary: { one: "Exporterad {date} • {count} dröm", other: "Exporterad {date} • {count} drömmar" },
+  exportNoDreams: "Inga drömmar att exportera",
+  exportShareJournal: "Dela drömdagboken",
+  exportShareStats: "Dela drömstatistiken",
+  exportMarkdownFailed: "Markdown-exporten misslyckades",
+  exportCsvFailed: "CSV-exporten misslyckades",
+  exportButton: "Exportera ({count})",
+  exportFormat: "Format",
+  exportFormatPdf: "Utskrivbar drömdagbok",
+  exportFormatMarkdown: "En fil för anteckningsappar",
+  exportFormatMarkdownZip: "En separat fil för varje dröm",
+  exportFormatCsv: "Data för kalkylprogram",
+  exportTableOfContents: "Innehållsförteckning",
+  exportPageBreak: "Varje dröm på en egen sida",
+  exportNoMatches: "Inga drömmar matchar urvalet",
+  exportSelected: { one: "{selected}/{count} dröm med", other: "{selected}/{count} drömmar med" },
+
+  // Days
+  daySunday: "Söndag",
+  dayMonday: "Måndag",
+  dayTuesday: "Tisdag",
+  dayWednesday: "Onsdag",
+  dayThursday: "Torsdag",
+  dayFriday: "Fredag",
+  daySaturday: "Lördag",
+  dayShortMonday: "Mån",
+  dayShortTuesday: "Tis",
+  dayShortWednesday: "Ons",
+  dayShortThursday: "Tor",
+  dayShortFriday: "Fre",
+  dayShortSaturday: "Lör",
+  dayShortSunday: "Sön",
+
+  // Patterns
+  patternsNoData: "Inga uppgifter",
+  patternsPeriodDays: { one: "{count} dag", other: "{count} dagar" },
+  insightTopSymbol: "{symbol} förekommer i {percentage} % av dina drömmar - det kan spegla ett centralt tema i ditt liv.",
+  insightIncreasingSymbol: "Drömmar om {symbol} har blivit vanligare på senare tid.",
+  insightDominantMood: "Stämningen \"{mood}\" dominerar {percentage} % av dina drömmar.",
+  insightFrequentJournaling: "Du sparar i genomsnitt {average} drömmar i veckan - en utmärkt dagboksvana!",
+  insightKeepJournaling: "Fortsätt spara dina drömmar - tydligare mönster syns när fler drömmar samlas.",
+  insightFirstDream: "Börja med att spara din första dröm!",
+  trendIncreasing: "Ökande",
+  trendDecreasing: "Minskande",
+  trendStable: "Stabil",
+  patternsLockedDesc: "Uppföljningen av drömmönster visar de återkommande teman och symboler i dina drömmar över tid.",
+  patternsShareOfDreams: "{percent} % av drömmarna",
+  patternsLoadFailed: "Mönstren kunde inte laddas",
+  patternsNoDreamsForReport: "Inga drömmar för en rapport",
+  patternsReportCreated: "Rapporten skapades",
+  patternsEmpty: "Inga uppgifter än",
+  patternsEmptyHint: "Spara några drömmar för att se mönster och trender i dina drömmar.",
+  patternsBasedOn: { one: "Baserat på {count} dröm • under {days} dagar", other: "Baserat på {count} drömmar • under {days} dagar" },
+  patternsStatPerWeek: "drömmar/vecka",
+  patternsStatSymbols: "symboler",
+  patternsStatThemes: "teman",
+  patternsTopSymbols: "Vanligaste symbolerna",
+  patternsReportPeriod: "Månad eller egen period",
+  patternsCreateReport: "Skapa en drömrapport",
+
+  // Streak
+  streakStart: "Starta din drömsvit i dag!",
+  streakFirstDay: "Bra start! Fortsätt i morgon.",
+  streakDays: { one: "{count} dag i rad!", other: "{count} dagar i rad!" },
+  streakWeek: "En veckas svit! Bra jobbat!",
+  streakOverWeek: "{count} dagars svit! Fantastiskt!",
+  streakTwoWeeks: "Två veckor! Du är en mästare!",
+  streakOverTwoWeeks: "{count} dagar! Otroligt!",
+  streakMonth: "En månads svit! Legendariskt!",
+  streakOverMonth: "{count} dagar! Du är en sann drömmare!",
+  streakMilestoneWeek: "Veckosvit",
+  streakMilestoneTwoWeeks: "2 veckors svit",
+  streakMilestoneMonth: "Månadssvit",
+  streakMilestoneHundred: "100 dagars svit",
+  streakDaysUnit: { one: "dag", other: "dagar" },
+  streakLabel: { one: "dag i rad", other: "dagar i rad" },
+  streakBest: { one: "Bästa svit: {count} dag", other: "Bästa svit: {count} dagar" },
+  streakPastRuns: "Tidigare sviter",
+  streakRunLength: "{count} d",
+
+  // Purchases
+  purchaseErrorUnknownProduct: "Okänd produkt",
+  purchaseErrorProductNotFound: "Produkten hittades inte",
+  purchaseErrorNotActivated: "Prenumerationen aktiverades inte",
+  purchaseErrorFailed: "Köpet misslyckades",
+  purchaseErrorCancelled: "Köpet avbröts",
+  purchaseErrorPending: "Betalningen väntar på bekräftelse",
+  purchaseErrorAlreadyPurchased: "Du har redan den här prenumerationen",
+  purchaseErrorNetwork: "Nätverksfel. Kontrollera anslutningen.",
+  purchaseErrorStore: "Problem med butiken. Försök igen senare.",
+  purchaseErrorNotAllowed: "Köp är inte tillåtna på den här enheten",
+
+  // Alarm
+  alarmNotificationTitle: "⏰ Vakna - Unitulkki",
+  alarmNotificationBody: "God morgon! Skriv ner din dröm medan den ännu är färsk i minnet.",
+  alarmSnoozeTitle: "⏰ Snooze - Unitulkki",
+  alarmSnoozeBody: { one: "Vakna om {count} minut!", other: "Vakna om {count} minuter!" },
+  alarmDefaultLabel: "Larm",
+  alarmNew: "Nytt larm",
+  alarmSetTime: "Ställ in tid",
+  alarmDays: "Dagar",
+  alarmName: "Namn",
+  alarmSelectDay: "Välj minst en dag",
+  alarmCreated: "Larmet skapades!",
+  alarmCreateFailed: "Fel när larmet skulle skapas",
+  alarmOnce: "En gång",
+  alarmEveryDay: "Varje dag",
+  alarmEnabled: "Larmet på",
+  alarmDisabled: "Larmet av",
+  alarmUpdateFailed: "Fel när larmet skulle uppdateras",
+  alarmDeleted: "Larmet raderades",
+  alarmDeleteFailed: "Fel när larmet skulle raderas",
+  alarmNext: "Nästa larm",
+  alarmNoneActive: "Inga aktiva larm",
+  alarmTest: "Testa larmet",
+
+  // Notifications
+  notificationTitle: "⏰ Morgonlarm - Unitulkki",
+  notificationBody: "Skriv ner din dröm medan den ännu är färsk i minnet!",
+  notificationSnoozeTitle: "⏰ Snooze - Unitulkki",
+  notificationSnoozeBody: { one: "Vakna! Skriv ner din dröm. (Snooze {count})", other: "Vakna! Skriv ner din dröm. (Snooze {count})" },
+  notificationMonthlyReportTitle: "📊 Din månatliga drömrapport är klar",
+  notificationMonthlyReportBody: "Se vad dina drömmar berättade förra månaden.",
+  notificationTestTitle: "⏰ Testlarm - Unitulkki",
+  notificationTestBody: "Så här ser larmet ut! Tryck för att öppna appen.",
+  notificationAlarmChannel: "Drömlarm",
+  notificationAlarmChannelDesc: "Morgonlarm för att spara din dröm",
+  notificationReportChannel: "Drömrapporter",
+  notificationReportChannelDesc: "Notis om den månatliga drömrapporten",
+  notificationActionLogDream: "Spara dröm",
+  notificationActionSnooze: { one: "Snooze {count} min", other: "Snooze {count} min" },
+  notificationActionDismiss: "Stäng",
+
+  // Edit
+  editTitle: "Redigera dröm",
+  editDream: "Dröm",
+  editDreamPlaceholder: "Beskriv din dröm",
+  editAddTag: "Lägg till tema",
+  editRemoveTag: "Ta bort temat {tag}",
+  editMaxTags: { one: "Högst {count} tema", other: "Högst {count} teman" },
+  editEmptyContent: "Drömbeskrivningen får inte vara tom",
+  editMood: "Stämning",
+  editReinterpret: "Tolka på nytt",
+  editReinterpretChanged: "Drömbeskrivningen har ändrats. Den nuvarande tolkningen sparas som en tidigare version.",
+  editReinterpretDesc: "Den nuvarande tolkningen sparas som en tidigare version.",
+
+  // Filters
+  filterTitle: "Filtrera drömmar",
+  filterClear: "Rensa",
+  filterApply: "Använd",
+  filterSort: "Ordning",
+  filterSortNewest: "Nyaste först",
+  filterSortOldest: "Äldsta först",
+  filterSortMostSymbols: "Flest symboler",
+  filterMood: "Stämning",
+  filterDateRange: "Tidsperiod",
+  filterConfidence: "Tolkningens säkerhet",
+  filterConfidenceHigh: "Stark",
+  filterConfidenceMedium: "Måttlig",
+  filterConfidenceLow: "Allmän",
+  filterInputMethod: "Inmatningssätt",
+  filterVoiceOnly: "Endast röstinspelningar",
+  filterDateAll: "Alla",
+  filterDate7d: "7 dagar",
+  filterDate30d: "30 dagar",
+  filterDate90d: "3 månader",
+  filterDate365d: "År",
+  filterDateCustom: "Egen",
+  filterDatePick: "Välj",
+  filterDateFrom: "Från",
+  filterDateTo: "Till",
+
+  // Report
+  reportTitle: "Drömrapport",
+  reportSymbol: "Symbol",
+  reportTimes: "Gånger",
+  reportShareOfDreams: "Andel av drömmarna",
+  reportTrend: "Trend",
+  reportLastSeen: "Senast",
+  reportStatDreams: "Drömmar",
+  reportStatPerWeek: "Drömmar/vecka",
+  reportStatSymbols: "Symboler",
+  reportStatThemes: "Återkommande teman",
+  reportInsights: "Insikter",
+  reportMoods: "Stämningar",
+  reportRhythm: "Drömrytm",
+  reportPeriod: "Period",
+  reportDreamCount: "Drömmar",
+  reportMostActiveDay: "Aktivaste dagen",
+  reportHighlights: "Mest levande drömmar",
+  reportGeneratedAt: "Skapad {date} • Unitulkki",
+  reportNoDreams: "Inga drömmar under den valda perioden",
+  reportShare: "Dela drömrapporten",
+  reportFailed: "Rapporten kunde inte skapas",
+  reportCreate: "Skapa",
+  reportMonth: "Månad",
+  reportOtherPeriod: "Annan period",
+  reportReminder: "Påminn mig om månadsrapporten",
+  reportReminderDesc: "En notis den första dagen i månaden när förra månadens rapport är klar",
+  reportDreamsIncluded: { one: "{count} dröm i rapporten", other: "{count} drömmar i rapporten" },
+
+  // PDF
+  pdfTheme: "Utseende",
+  pdfThemeNight: "Natt",
+  pdfThemeLight: "Ljus",
+  pdfThemePrint: "Utskrift",
+  pdfDream: "Dröm",
+  pdfInterpretation: "Tolkning",
+  pdfStatDays: "Dagar",
+  pdfStatInterpreted: "Tolkade",
+  pdfMoods: "Stämningar",
+  pdfTopThemes: "Vanligaste teman",
+  pdfContents: "Innehåll",
+  pdfSubtitle: { one: "Exporterad {date} • {count} dröm", other: "Exporterad {date} • {count} drömmar" },
+  pdfExportedAt: "Exporterad {date}",
+  pdfCreatedWith: "Skapad med DreamAI",
+  pdfSingleTitle: "Drömtolkning",
+  pdfShareDream: "Dela drömtolkningen",
+  pdfShareJournal: "Dela drömdagboken",
+  pdfFailed: "PDF-exporten misslyckades",
+
+  // Dream detail
+  detailShareMessage: "🌙 Min dröm {date}:\n\n{content}\n\n✨ Tolkning:\n{interpretation}",
+  detailShareTitle: "Unitulkki - Drömtolkning",
+  detailChat: "Prata om drömmen",
+  detailChatMessages: { one: "{count} meddelande", other: "{count} meddelanden" },
+  detailChatDesc: "Svara på reflektionsfrågorna eller fråga mer",
+  detailRevisions: "Tidigare tolkningar ({count})",
+  detailRevisedAt: "Ersatt {date} kl. {time}",
+  detailSavedAt: "Sparad kl. {time}",
+  detailChangeMood: "Ändra stämning",
+
+  // Upsell
+  upsellDeepAnalysisTitle: "Lås upp den djupare analysen",
+  upsellDeepAnalysisDesc: "Jungiansk arketypanalys och insikter från det undermedvetna",
+  upsellDeepAnalysisCta: "Se vad du får",
+  upsellPatternsTitle: "Drömmönstren väntar",
+  upsellPatternsDesc: "Hitta de återkommande teman och symboler i dina drömmar",
+  upsellPatternsCta: "Öppna analysen",
+  upsellExportTitle: "Exportera din drömdagbok",
+  upsellExportDesc: "Spara den som ett snyggt PDF-dokument",
+  upsellExportCta: "Öppna exporten",
+  upsellVisualizationTitle: "Visualisera dina drömmar",
+  upsellVisualizationDesc: "Skapa AI-bilder av dina drömmar",
+  upsellVisualizationCta: "Prova nu",
+  upsellLimitWarningTitle: "Tolkningarna börjar ta slut",
+  upsellLimitWarningDesc: "Uppgradera till Premium för obegränsade tolkningar",
+  upsellLimitWarningCta: "Se alternativen",
+  upsellGenericTitle: "Unitulkki Premium",
+  upsellGenericDesc: "Obegränsade tolkningar och alla funktioner",
+  upsellGenericCta: "Läs mer",
+
+  // Profile
+  profileLifeSituation: "Livssituation",
+  profileLifeSituationPlaceholder: "T.ex. jag flyttade nyss till en ny stad och började på ett nytt jobb",
+  profileStressors: "Återkommande bekymmer",
+  profileStressorsPlaceholder: "T.ex. en hektisk period på jobbet, oro för föräldrarnas hälsa",
+  profilePeople: "Viktiga personer",
+  profilePeoplePlaceholder: "T.ex. min partner Sam, min syster, min bästa vän Alex",
+  profileGoals: "Mål",
+  profileGoalsPlaceholder: "T.ex. jag vill ha mer energi och hitta tid för kreativitet",
+  profileSaveFailed: "Uppgifterna kunde inte sparas",
+  profileDeleteTitle: "Radera uppgifterna?",
+  profileDeleteMessage: "Alla bakgrundsuppgifter du har skrivit raderas från den här enheten.",
+  profileDeleteFailed: "Uppgifterna kunde inte raderas",
+  profileDelete: "Radera uppgifterna",
+  profileUseInInterpretations: "Använd i tolkningarna",
+  profileUseInInterpretationsDesc: "Tolkningen kan koppla drömmen till din livssituation. Du kan utelämna uppgifterna från en enskild tolkning när du skriver drömmen.",
+  profilePrivacy: "Uppgifterna sparas bara på den här enheten och ingår inte i säkerhetskopior. De skickas till tolkningstjänsten endast för tolkningen när detta är påslaget, och tjänsten sparar dem inte.",
+
+  // Chat
+  chatTitle: "Samtal om drömmen",
+  chatIntro: "Svara på reflektionsfrågorna eller fråga mer om din dröm. Tolkaren känner till din dröm och dess tolkning.",
+  chatAnswering: "Svarar på: {question}",
+  chatAnswerPlaceholder: "Skriv ditt svar",
+  chatAskPlaceholder: "Fråga om din dröm",
+  chatSend: "Skicka",
+  chatSendFailed: "Meddelandet kunde inte skickas. Försök igen.",
+
+  // Loading
+  loadingDiving: "Dyker ner i din drömvärld...",
+  loadingSymbols: "Letar efter symboler och betydelser...",
+  loadingMessages: "Tolkar dolda budskap...",
+  loadingEmotions: "Kopplar ihop känslor och minnen...",
+  loadingFinishing: "Slutför tolkningen...",
+  loadingHint: "Andas djupt och slappna av...",
+
+  // Import
+  importTitle: "Importera drömmar",
+  importAction: "Importera ({count})",
+  importFormatCsv: "CSV",
+  importFormatMarkdown: "Markdown",
+  importFormatText: "Text",
+  importFormatDayOne: "Day One",
+  importReadFailed: "Filen kunde inte läsas",
+  importFailed: "Importen misslyckades",
+  importNoDate: "Inget datum",
+  importAlreadySaved: "Redan sparad",
+  importFound: { one: "{count} dröm hittades", other: "{count} drömmar hittades" },
+  importDuplicates: "{count} finns redan i dagboken",
+  importUndated: "{count} utan datum",
+  importTruncated: "Filen innehåller fler drömmar än som kan importeras på en gång. Importera resten separat.",
+  importReinterpret: "Tolka de importerade drömmarna",
+  importReinterpretDesc: "Tolkningarna görs en i taget efter importen",
+  importPremiumFeature: "Premiumfunktion",
+  importProgress: "Tolkar {done}/{total}...",
+  importNotInterpreted: { one: "{count} dröm tolkades inte.", other: "{count} drömmar tolkades inte." },
+  importEmpty: "Inga drömmar i det här formatet hittades i filen",
+
+  // Symbols
+  symbolTitle: "Symbolordbok",
+  symbolAdd: "Lägg till",
+  symbolDescription: "Teman kopplas till symbolerna i ordboken så att till exempel \"flygning\" och \"lento\" räknas som samma. Lägg till en egen symbol eller nya synonymer för en inbyggd.",
+  symbolLabelPlaceholder: "Symbol, t.ex. mormors hus",
+  symbolAliasesPlaceholder: "Synonymer åtskilda med kommatecken",
+  symbolOwn: "Dina tillägg",
+  symbolBuiltIn: "Inbyggda symboler",
+  symbolNameMissing: "Ange ett namn för symbolen",
+  symbolSaveFailed: "Symbolen kunde inte sparas",
+  symbolDeleteFailed: "Symbolen kunde inte raderas",
+
+  // Journal lock
+  lockLocked: "Drömdagboken är låst",
+  lockEnterPassphrase: "Ange din PIN-kod eller lösenfras",
+  lockPassphrase: "Lösenfras",
+  lockUnlock: "Lås upp",
+  lockWrongPassphrase: "Fel lösenfras",
+  lockUnlockFailed: "Upplåsningen misslyckades",
+  lockSetupDescription: "Dina drömmar krypteras på enheten. Appen frågar efter lösenfrasen när du återvänder till den.",
+  lockPassphrasePlaceholder: "PIN-kod eller lösenfras",
+  lockRepeatPassphrase: "Upprepa lösenfrasen",
+  lockForgetWarning: "Om du glömmer lösenfrasen kan krypterade drömmar inte återställas.",
+  lockMinLength: { one: "Minst {count} tecken", other: "Minst {count} tecken" },
+  lockMismatch: "Lösenfraserna stämmer inte överens",
+  lockPassphraseTooShort: { one: "Lösenfrasen måste ha minst {count} tecken", other: "Lösenfrasen måste ha minst {count} tecken" },
+  lockEnableFailed: "Låset kunde inte slås på",
+  lockDisableFailed: "Låset kunde inte stängas av",
+  lockUnlockFirst: "Lås upp drömdagboken först",
+
+  // Backup
+  backupExportFailed: "Säkerhetskopian kunde inte exporteras",
+  backupInvalidJson: "Filen är inte giltig JSON",
+  backupNotBackup: "Filen är inte en säkerhetskopia från Unitulkki",
+  backupNewerVersion: "Säkerhetskopian gjordes med en nyare version av appen. Uppdatera appen.",
+  backupSaveDialog: "Spara säkerhetskopia",
+
+  // Voice input
+  voicePermissionRequired: "Behörighet för mikrofonen krävs",
+  voiceStartFailed: "Inspelningen kunde inte startas",
+  voiceNoRecording: "Ingen aktiv inspelning",
+  voiceSaveFailed: "Inspelningen kunde inte sparas",
+  voiceStopFailed: "Inspelningen kunde inte stoppas",
+  voiceFileNotFound: "Ljudfilen hittades inte",
+  voiceTranscriptionFailed: "Transkriberingen misslyckades",
+  voiceApiKeyMissing: "OpenAI-nyckeln saknas",
+
+  // Achievements
+  achievementFirstDreamTitle: "Första drömmen",
+  achievementFirstDreamDesc: "Spara din första dröm",
+  achievementFirstVoiceDreamTitle: "Berättad högt",
+  achievementFirstVoiceDreamDesc: "Spela in en dröm med rösten",
+  achievementDreams10Title: "Drömsamlare",
+  achievementDreams10Desc: "Spara 10 drömmar",
+  achievementDreams50Title: "Drömarkiv",
+  achievementDreams50Desc: "Spara 50 drömmar",
+  achievementWater10Title: "Djupa vatten",
+  achievementWater10Desc: "10 drömmar med vatten",
+  achievementMorningWeekTitle: "Morgonminne",
+  achievementMorningWeekDesc: "Spara en dröm före kl. 9 sju dagar i rad",
+  achievementStreak30Title: "Månadssvit",
+  achievementStreak30Desc: "Håll din drömsvit i 30 dagar",
+  achievementFirstPdfExportTitle: "Tryckt dagbok",
+  achievementFirstPdfExportDesc: "Exportera dina drömmar till en PDF-fil",
+  achievementUnlocked: "Prestation upplåst: {title}",
+  achievementsUnlocked: { one: "{count} ny prestation upplåst!", other: "{count} nya prestationer upplåsta!" },
+} as const;
@@ -23,7 +23,8 @@ import Purchases, {
   LOG_LEVEL,
   PURCHASES_ERROR_CODE,
 } from "react-native-purchases";
-import { PRICING, type PremiumPlan } from "./premium";
+import { formatPrice, PRICING, type PremiumPlan } from "./premium";
+import { t } from "./i18n";
 import { Analytics } from "./analytics";
 
 // RevenueCat API Keys - Store these in environment variables
@@ -149,26 +150,26 @@ export async function getProducts(): Promise<
       {
         id: PRODUCT_IDS.monthly!,
         plan: "monthly",
-        price: `${(PRICING.monthly.price / 100).toFixed(2)} €`,
+        price: formatPrice(PRICING.monthly.price),
         priceValue: PRICING.monthly.price / 100,
         currency: "EUR",
-        period: PRICING.monthly.period,
+        period: t(PRICING.monthly.periodKey),
       },
       {
         id: PRODUCT_IDS.yearly!,
         plan: "yearly",
-        price: `${(PRICING.yearly.price / 100).toFixed(2)} €`,
+        price: formatPrice(PRICING.yearly.price),
         priceValue: PRICING.yearly.price / 100,
         currency: "EUR",
-        period: PRICING.yearly.period,
+        period: t(PRICING.yearly.periodKey),
       },
       {
         id: PRODUCT_IDS.lifetime!,
         plan: "lifetime",
-        price: `${(PRICING.lifetime.price / 100).toFixed(2)} €`,
+        price: formatPrice(PRICING.lifetime.price),
         priceValue: PRICING.lifetime.price / 100,
         currency: "EUR",
-        period: PRICING.lifetime.period,
+        period: t(PRICING.lifetime.periodKey),
       },
     ];
   }
@@ -210,7 +211,7 @@ export async function getProducts(): Promise<
           price: pkg.product.priceString,
           priceValue: pkg.product.price,
           currency: pkg.product.currencyCode,
-          period: PRICING[plan].period,
+          period: t(PRICING[plan].periodKey),
           package: pkg,
         });
       }
@@ -235,7 +236,7 @@ export async function purchaseSubscription(
     return {
       success: false,
       productId: "",
-      error: "Tuntematon tuote",
+      error: t("purchaseErrorUnknownProduct"),
       errorCode: "UNKNOWN_PRODUCT",
     };
   }
@@ -277,7 +278,7 @@ export async function purchaseSubscription(
       return {
         success: false,
         productId,
-        error: "Tuotetta ei löytynyt",
+        error: t("purchaseErrorProductNotFound"),
         errorCode: "PRODUCT_NOT_FOUND",
       };
     }
@@ -300,13 +301,13 @@ export async function purchaseSubscription(
     return {
       success: false,
       productId,
-      error: "Tilaus ei aktivoitunut",
+      error: t("purchaseErrorNotActivated"),
       errorCode: "ENTITLEMENT_NOT_ACTIVE",
     };
   } catch (error) {
     console.error("[IAP] Purchase error:", error);
 
-    let errorMessage = "Osto epäonnistui";
+    let errorMessage = t("purchaseErrorFailed");
     let errorCode = "UNKNOWN";
 
     // Check if error has RevenueCat error code
@@ -316,27 +317,27 @@ export async function purchaseSubscription(
 
       switch (rcError.code) {
         case PURCHASES_ERROR_CODE.PURCHASE_CANCELLED_ERROR:
-          errorMessage = "Osto peruutettu";
+          errorMessage = t("purchaseErrorCancelled");
           errorCode = "USER_CANCELLED";
           break;
         case PURCHASES_ERROR_CODE.PAYMENT_PENDING_ERROR:
-          errorMessage = "Maksu odottaa vahvistusta";
+          errorMessage = t("purchaseErrorPending");
           errorCode = "PAYMENT_PENDING";
           break;
         case PURCHASES_ERROR_CODE.PRODUCT_ALREADY_PURCHASED_ERROR:
-          errorMessage = "Sinulla on jo tämä tilaus";
+          errorMessage = t("purchaseErrorAlreadyPurchased");
           errorCode = "ALREADY_PURCHASED";
           break;
         case PURCHASES_ERROR_CODE.NETWORK_ERROR:
-          errorMessage = "Verkkovirhe. Tarkista yhteys.";
+          errorMessage = t("purchaseErrorNetwork");
           errorCode = "NETWORK_ERROR";
           break;
         case PURCHASES_ERROR_CODE.STORE_PROBLEM_ERROR:
-          errorMessage = "Ongelma kaupassa. Yritä myöhemmin.";
+          errorMessage = t("purchaseErrorStore");
           errorCode = "STORE_ERROR";
           break;
         default:
-          errorMessage = rcError.message || "Osto epäonnistui";
+          errorMessage = rcError.message || t("purchaseErrorFailed");
       }
     }
 
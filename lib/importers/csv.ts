@@ -0,0 +1,168 @@
+/**
+ * CSV importer
+ *
+ * Reads spreadsheets with one dream per row. Columns are found by header
+ * name (Finnish or English); without a recognised header the first column
+ * with dates is the date and the longest text column is the dream.
+ * Comma, semicolon (Finnish Excel) and tab separators are supported.
+ */
+
+import { detectDate } from "./dates";
+import type { DreamImporter, ImportedEntry } from "./types";
+
+const DELIMITERS = [",", ";", "\t"];
+
+// Header names per field, lowercase
+const COLUMN_NAMES = {
+  date: ["date", "created", "createdat", "päivämäärä", "pvm", "päivä", "aika"],
+  content: ["content", "text", "dream", "description", "uni", "sisältö", "kuvaus", "teksti"],
+  title: ["title", "otsikko"],
+  tags: ["tags", "tag", "tagit", "avainsanat"],
+  mood: ["mood", "tunnelma", "mieliala"],
+};
+
+type Column = keyof typeof COLUMN_NAMES;
+
+/**
+ * Pick the delimiter that splits the first line into the most columns
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields with delimiters,
+ * escaped quotes and line breaks
+ */
+export function parseCsvRows(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/**
+ * Map known header names to column indexes
+ */
+function findHeaderColumns(header: string[]): Partial<Record<Column, number>> {
+  const columns: Partial<Record<Column, number>> = {};
+  header.forEach((name, index) => {
+    const key = name.trim().toLowerCase().replace(/[\s_-]/g, "");
+    for (const [column, names] of Object.entries(COLUMN_NAMES) as [Column, string[]][]) {
+      if (columns[column] === undefined && names.includes(key)) {
+        columns[column] = index;
+      }
+    }
+  });
+  return columns;
+}
+
+/**
+ * Guess date and content columns from the data itself
+ */
+function guessColumns(rows: string[][]): Partial<Record<Column, number>> {
+  const width = Math.max(...rows.map((r) => r.length));
+  const sample = rows.slice(0, 20);
+  let date: number | undefined;
+  let content = 0;
+  let longest = 0;
+
+  for (let index = 0; index < width; index++) {
+    const cells = sample.map((r) => r[index] ?? "");
+    if (date === undefined && cells.every((cell) => detectDate(cell) !== null)) {
+      date = index;
+      continue;
+    }
+    const length = cells.reduce((sum, cell) => sum + cell.length, 0);
+    if (length > longest) {
+      longest = length;
+      content = index;
+    }
+  }
+
+  return { date, content };
+}
+
+function parse(text: string): ImportedEntry[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return [];
+
+  const headerColumns = findHeaderColumns(rows[0]);
+  const hasHeader = headerColumns.content !== undefined || headerColumns.date !== undefined;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columns =
+    headerColumns.content !== undefined
+      ? headerColumns
+      : { ...guessColumns(dataRows), ...headerColumns };
+
+  const cell = (row: string[], column: Column) => {
+    const index = columns[column];
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  return dataRows
+    .map((row) => {
+      const tags = cell(row, "tags")
+        .split(/[,;|#]/)
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean);
+      return {
+        content: cell(row, "content"),
+        createdAt: detectDate(cell(row, "date")),
+        title: cell(row, "title") || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+        mood: cell(row, "mood") || undefined,
+      };
+    })
+    .filter((entry) => entry.content.length > 0);
+}
+
+export const csvImporter: DreamImporter = {
+  format: "csv",
+  labelKey: "importFormatCsv",
+  extensions: ["csv", "tsv"],
+  detect: (text) => {
+    // The last sampled row may be cut off, so it is not compared
+    const rows = parseCsvRows(text.slice(0, 2000)).slice(0, -1);
+    return rows.length > 1 && rows[0].length > 1 && rows.every((r) => r.length === rows[0].length);
+  },
+  parse,
+};
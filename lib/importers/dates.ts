@@ -0,0 +1,169 @@
+/**
+ * Date detection for imported dreams
+ *
+ * Recognises the formats people actually type in notes: ISO dates with an
+ * optional time, Finnish "15.1.2024" and "15. tammikuuta 2024", and English
+ * "January 15, 2024" / "15 January 2024". Dates without a time are placed
+ * at noon so the dream-day cutoff does not move them to the previous day.
+ */
+
+const FINNISH_MONTHS = [
+  "tammikuu",
+  "helmikuu",
+  "maaliskuu",
+  "huhtikuu",
+  "toukokuu",
+  "kesäkuu",
+  "heinäkuu",
+  "elokuu",
+  "syyskuu",
+  "lokakuu",
+  "marraskuu",
+  "joulukuu",
+];
+
+const ENGLISH_MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Hour used for dates that have no time
+const DEFAULT_HOUR = 12;
+
+const ISO_DATE = /(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:?\d{2})?)?/;
+const NUMERIC_DATE = /\b(\d{1,2})[./](\d{1,2})[./](\d{4})\b(?:\s*(?:klo\s*)?(\d{1,2})[:.](\d{2}))?/i;
+const FINNISH_TEXT_DATE = /\b(\d{1,2})\.\s*([a-zäö]+kuuta)\s+(\d{4})/i;
+const ENGLISH_MONTH_FIRST = /\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/i;
+const ENGLISH_DAY_FIRST = /\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})/i;
+
+/**
+ * Build a local date, rejecting impossible values like 31.2.
+ */
+function buildDate(
+  year: number,
+  month: number,
+  day: number,
+  hour = DEFAULT_HOUR,
+  minute = 0
+): Date | null {
+  const date = new Date(year, month - 1, day, hour, minute);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day ||
+    hour > 23 ||
+    minute > 59
+  ) {
+    return null;
+  }
+  return date;
+}
+
+function finnishMonth(name: string): number {
+  const lower = name.toLowerCase();
+  return FINNISH_MONTHS.findIndex((month) => lower.startsWith(month.slice(0, -1))) + 1;
+}
+
+function englishMonth(name: string): number {
+  const lower = name.toLowerCase();
+  return ENGLISH_MONTHS.findIndex((month) => lower.startsWith(month)) + 1;
+}
+
+/**
+ * Find the first date in a piece of text
+ */
+export function detectDate(text: string): Date | null {
+  const iso = text.match(ISO_DATE);
+  if (iso) {
+    const [, year, month, day, hour, minute, second, zone] = iso;
+    if (hour !== undefined && zone) {
+      const parsed = new Date(
+        `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}T${hour.padStart(2, "0")}:${minute}:${second ?? "00"}${zone}`
+      );
+      if (!isNaN(parsed.getTime())) return parsed;
+    }
+    const date = buildDate(
+      Number(year),
+      Number(month),
+      Number(day),
+      hour !== undefined ? Number(hour) : undefined,
+      minute !== undefined ? Number(minute) : undefined
+    );
+    if (date) return date;
+  }
+
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    const [, day, month, year, hour, minute] = numeric;
+    const date = buildDate(
+      Number(year),
+      Number(month),
+      Number(day),
+      hour !== undefined ? Number(hour) : undefined,
+      minute !== undefined ? Number(minute) : undefined
+    );
+    if (date) return date;
+  }
+
+  const finnish = text.match(FINNISH_TEXT_DATE);
+  if (finnish) {
+    const month = finnishMonth(finnish[2]);
+    const date = month ? buildDate(Number(finnish[3]), month, Number(finnish[1])) : null;
+    if (date) return date;
+  }
+
+  const monthFirst = text.match(ENGLISH_MONTH_FIRST);
+  if (monthFirst) {
+    const month = englishMonth(monthFirst[1]);
+    const date = month ? buildDate(Number(monthFirst[3]), month, Number(monthFirst[2])) : null;
+    if (date) return date;
+  }
+
+  const dayFirst = text.match(ENGLISH_DAY_FIRST);
+  if (dayFirst) {
+    const month = englishMonth(dayFirst[2]);
+    const date = month ? buildDate(Number(dayFirst[3]), month, Number(dayFirst[1])) : null;
+    if (date) return date;
+  }
+
+  return null;
+}
+
+// The same patterns, anchored to the start of a line
+const LEADING_DATES = [
+  ISO_DATE,
+  NUMERIC_DATE,
+  FINNISH_TEXT_DATE,
+  ENGLISH_MONTH_FIRST,
+  ENGLISH_DAY_FIRST,
+].map((pattern) => new RegExp(`^\\s*(?:${pattern.source})`, pattern.flags));
+
+/**
+ * Find a date at the very start of a line, e.g. "12.3.2024 Lensin kaupungin yllä".
+ * Returns the date and the rest of the line without separators.
+ */
+export function matchLeadingDate(line: string): { date: Date; rest: string } | null {
+  for (const pattern of LEADING_DATES) {
+    const match = line.match(pattern);
+    if (!match) continue;
+
+    const date = detectDate(match[0]);
+    if (date) {
+      return {
+        date,
+        rest: line.slice(match[0].length).replace(/^[\s:,–—-]+/, "").trim(),
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Day One importer
+ *
+ * Reads the Journal.json file from a Day One JSON export. Entry text is
+ * Markdown with Day One's escaping and photo references, which are removed.
+ */
+
+import { z } from "zod";
+import type { DreamImporter, ImportedEntry } from "./types";
+
+const dayOneExportSchema = z.object({
+  entries: z.array(
+    z.looseObject({
+      text: z.string().optional(),
+      creationDate: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+    })
+  ),
+});
+
+/**
+ * Clean Day One Markdown into plain dream text
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, "") // Photos and audio
+    .replace(/\\([\\`*_{}[\]()#+\-.!>])/g, "$1") // Escaped punctuation
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/(\*\*|__)(.*?)\1/g, "$2")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function parse(text: string): ImportedEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return [];
+  }
+
+  const parsed = dayOneExportSchema.safeParse(json);
+  if (!parsed.success) return [];
+
+  return parsed.data.entries
+    .map((entry) => {
+      const createdAt = entry.creationDate ? new Date(entry.creationDate) : null;
+      return {
+        content: cleanText(entry.text ?? ""),
+        createdAt: createdAt && !isNaN(createdAt.getTime()) ? createdAt : null,
+        tags: entry.tags?.map((tag) => tag.toLowerCase()),
+      };
+    })
+    .filter((entry) => entry.content.length > 0);
+}
+
+export const dayOneImporter: DreamImporter = {
+  format: "dayone",
+  labelKey: "importFormatDayOne",
+  extensions: ["json"],
+  detect: (text) => /^\s*\{[\s\S]*"entries"\s*:/.test(text.slice(0, 500)),
+  parse,
+};
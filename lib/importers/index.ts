@@ -0,0 +1,245 @@
+/**
+ * Dream importers
+ *
+ * Pluggable parsers turn files from other journaling apps into dreams.
+ * Each importer only reads entries (text, date, tags, mood); this module
+ * fills in the rest with the same tag and mood inference as new dreams,
+ * flags dreams that are already in the journal and saves the selection.
+ */
+
+import { File } from "expo-file-system";
+import {
+  createDream,
+  detectMood,
+  getDreams,
+  normalizeMood,
+  restoreDreams,
+  type Dream,
+} from "@/lib/storage";
+import { InterpretationApiError, reinterpretDream } from "@/lib/interpretation";
+import { toLocalDateKey } from "@/lib/dates";
+import { t } from "@/lib/i18n";
+import { loadSymbolDictionary, normalizeTags } from "@/lib/symbols";
+import { csvImporter } from "./csv";
+import { dayOneImporter } from "./day-one";
+import { markdownImporter } from "./markdown";
+import { plainTextImporter } from "./plain-text";
+import type { DreamImporter, ImportFormat, ImportedEntry } from "./types";
+
+export type { DreamImporter, ImportFormat, ImportedEntry } from "./types";
+export { detectDate } from "./dates";
+
+// All importers, in detection order. Plain text accepts anything, so it is last.
+export const IMPORTERS: DreamImporter[] = [
+  dayOneImporter,
+  csvImporter,
+  markdownImporter,
+  plainTextImporter,
+];
+
+// Upper limit on dreams from one file, to keep the preview responsive
+const MAX_IMPORT_ENTRIES = 2000;
+
+export type ImportCandidate = {
+  dream: Dream;
+  title?: string;
+  hasDate: boolean; // false when the import time was used instead
+  isDuplicate: boolean; // Same text on the same day is already in the journal
+};
+
+export type ImportFile = {
+  name: string;
+  text: string;
+};
+
+export type ImportPreview = {
+  fileName: string;
+  format: ImportFormat;
+  candidates: ImportCandidate[];
+  truncated: boolean; // More than MAX_IMPORT_ENTRIES dreams in the file
+};
+
+/**
+ * Let the user pick a file to import, or null if the picker was cancelled
+ */
+export async function pickImportFile(): Promise<ImportFile | null> {
+  const picked = await File.pickFileAsync().catch(() => null);
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) {
+    return null;
+  }
+
+  try {
+    const name = decodeURIComponent(file.uri.split("/").pop() ?? "");
+    return { name, text: await file.text() };
+  } catch (error) {
+    console.error("Error reading import file:", error);
+    throw new Error(t("importReadFailed"));
+  }
+}
+
+/**
+ * Get the importer for a format
+ */
+export function getImporter(format: ImportFormat): DreamImporter {
+  return IMPORTERS.find((importer) => importer.format === format) ?? plainTextImporter;
+}
+
+/**
+ * Pick a format from the file extension, falling back to the content
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  const byExtension = IMPORTERS.find(
+    (importer) => importer.extensions.includes(extension) && importer.detect(text)
+  );
+  return (byExtension ?? IMPORTERS.find((importer) => importer.detect(text)) ?? plainTextImporter)
+    .format;
+}
+
+function duplicateKey(content: string, date: Date): string {
+  return `${toLocalDateKey(date)}|${content.trim().toLowerCase()}`;
+}
+
+/**
+ * Build a dream from an imported entry, inferring tags and mood from the text
+ */
+function buildDream(entry: ImportedEntry, createdAt: Date): Dream {
+  const dream = createDream(entry.content.trim(), "", { createdAt });
+  const tags = normalizeTags([...(entry.tags ?? []), ...(dream.tags ?? [])]);
+  const mood = normalizeMood(entry.mood);
+
+  // A mood written in the journal file counts as the user's own choice
+  return {
+    ...dream,
+    tags,
+    mood: mood ?? detectMood(entry.content),
+    moodSource: mood ? "user" : "detected",
+  };
+}
+
+/**
+ * Parse a file into dreams for preview. Nothing is saved yet.
+ */
+export async function prepareImport(
+  fileName: string,
+  text: string,
+  format: ImportFormat = detectImportFormat(fileName, text)
+): Promise<ImportPreview> {
+  const entries = getImporter(format).parse(text);
+  await loadSymbolDictionary();
+  const existing = new Set(
+    (await getDreams()).map((dream) => duplicateKey(dream.content, new Date(dream.createdAt)))
+  );
+
+  // Undated dreams keep their order from the file, oldest first, just before now
+  const now = Date.now();
+  const kept = entries.slice(0, MAX_IMPORT_ENTRIES);
+
+  const candidates = kept.map((entry, index) => {
+    const createdAt = entry.createdAt ?? new Date(now - (kept.length - index) * 1000);
+    const dream = buildDream(entry, createdAt);
+    return {
+      dream,
+      title: entry.title,
+      hasDate: entry.createdAt !== null,
+      isDuplicate: existing.has(duplicateKey(dream.content, createdAt)),
+    };
+  });
+
+  return {
+    fileName,
+    format,
+    candidates,
+    truncated: entries.length > MAX_IMPORT_ENTRIES,
+  };
+}
+
+/**
+ * Save imported dreams. Returns the number saved.
+ */
+export async function importDreams(dreams: Dream[]): Promise<number> {
+  return restoreDreams(dreams, "merge");
+}
+
+export type ReinterpretResult = {
+  interpreted: number;
+  skipped: number; // Failed or not reached, aborted dreams excluded
+  error: string | null; // Why the batch stopped early, if it did
+};
+
+// API errors that fail every following dream too, so the batch stops
+const BATCH_STOPPING_CODES = ["FREE_LIMIT_REACHED", "MONTHLY_LIMIT_REACHED", "MISSING_USER_ID"];
+
+// Rate limit retries per dream, and the wait when the API gives none
+const MAX_RATE_LIMIT_RETRIES = 3;
+const DEFAULT_RETRY_SECONDS = 10;
+
+/**
+ * Wait for the given time, resolving early when aborted
+ */
+function wait(seconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(resolve, seconds * 1000);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Interpret imported dreams one at a time and store the results.
+ * Rate limited requests are retried after the wait the API asks for; a
+ * dream that still fails is skipped. Running out of quota stops the batch,
+ * and aborting stops after the current dream.
+ */
+export async function reinterpretDreams(
+  dreams: Dream[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<ReinterpretResult> {
+  let interpreted = 0;
+  let failed = 0;
+
+  for (const [index, dream] of dreams.entries()) {
+    if (signal?.aborted) break;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await reinterpretDream(dream, signal);
+        interpreted++;
+        break;
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") break;
+
+        if (error instanceof InterpretationApiError) {
+          if (error.code && BATCH_STOPPING_CODES.includes(error.code)) {
+            return {
+              interpreted,
+              skipped: dreams.length - interpreted,
+              error: error.message,
+            };
+          }
+          if (error.code === "RATE_LIMITED" && attempt < MAX_RATE_LIMIT_RETRIES) {
+            await wait(error.retryAfterSeconds ?? DEFAULT_RETRY_SECONDS * 2 ** attempt, signal);
+            if (signal?.aborted) break;
+            continue;
+          }
+        }
+
+        console.error("Error interpreting imported dream:", error);
+        failed++;
+        break;
+      }
+    }
+
+    onProgress?.(index + 1, dreams.length);
+  }
+
+  return { interpreted, skipped: failed, error: null };
+}
@@ -0,0 +1,161 @@
+/**
+ * Markdown importer
+ *
+ * One dream per heading, with the date taken from the heading
+ * ("## 15.1.2024 Lentävä talo"). A file that starts with YAML front-matter
+ * is read as a single dream, as written by note apps and by our own
+ * Markdown export.
+ */
+
+import { detectDate, matchLeadingDate } from "./dates";
+import type { DreamImporter, ImportedEntry } from "./types";
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * Read simple `key: value` pairs and `[a, b]` lists from front-matter
+ */
+function parseFrontMatter(block: string): Record<string, string | string[]> {
+  const values: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  for (const line of block.split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const list = values[listKey];
+      values[listKey] = [...(Array.isArray(list) ? list : []), unquote(item[1])];
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, value] = pair;
+    listKey = value ? null : key.toLowerCase();
+
+    if (value.startsWith("[") && value.endsWith("]")) {
+      values[key.toLowerCase()] = value
+        .slice(1, -1)
+        .split(",")
+        .map(unquote)
+        .filter(Boolean);
+    } else if (value) {
+      values[key.toLowerCase()] = unquote(value);
+    }
+  }
+
+  return values;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, "");
+}
+
+/**
+ * Turn Markdown into plain dream text
+ */
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "") // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // Links
+    .replace(/(\*\*|__)(.*?)\1/g, "$2") // Bold
+    .replace(/^#{1,6}\s+/gm, "") // Subheadings
+    .replace(/^>\s?/gm, "") // Quotes
+    .replace(/^\s*(---|\*\*\*|___)\s*$/gm, "") // Rules
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Read a single dream with front-matter
+ */
+function parseFrontMatterEntry(text: string, match: RegExpMatchArray): ImportedEntry[] {
+  const meta = parseFrontMatter(match[1]);
+  const body = text.slice(match[0].length);
+  const heading = body.match(/^#{1,6}\s+(.*)$/m);
+  const content = toPlainText(heading ? body.replace(heading[0], "") : body);
+  if (!content) return [];
+
+  const tags = meta.tags;
+  const date = typeof meta.date === "string" ? meta.date : undefined;
+  const title = typeof meta.title === "string" ? meta.title : heading?.[1];
+
+  return [
+    {
+      content,
+      createdAt: date ? detectDate(date) : null,
+      title,
+      tags: Array.isArray(tags) ? tags : typeof tags === "string" ? [tags] : undefined,
+      mood: typeof meta.mood === "string" ? meta.mood : undefined,
+    },
+  ];
+}
+
+/**
+ * The heading level that separates dreams: the highest level that occurs
+ * more than once, so a single "# Unipäiväkirja" title is skipped
+ */
+function findDreamLevel(lines: string[]): number | null {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      counts.set(level, (counts.get(level) ?? 0) + 1);
+    }
+  }
+
+  const levels = [...counts.keys()].sort((a, b) => a - b);
+  return levels.find((level) => (counts.get(level) ?? 0) > 1) ?? levels[0] ?? null;
+}
+
+function parse(text: string): ImportedEntry[] {
+  const frontMatter = text.match(FRONT_MATTER);
+  if (frontMatter) {
+    return parseFrontMatterEntry(text, frontMatter);
+  }
+
+  const lines = text.split(/\r?\n/);
+  const level = findDreamLevel(lines);
+  if (level === null) {
+    const content = toPlainText(text);
+    return content ? [{ content, createdAt: null }] : [];
+  }
+
+  const entries: ImportedEntry[] = [];
+  let current: { heading: string; body: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const content = toPlainText(current.body.join("\n"));
+    if (content) {
+      const leading = matchLeadingDate(current.heading);
+      entries.push({
+        content,
+        createdAt: leading?.date ?? detectDate(current.heading),
+        title: (leading ? leading.rest : current.heading) || undefined,
+      });
+    }
+  };
+
+  for (const line of lines) {
+    const heading = line.match(HEADING);
+    if (heading && heading[1].length === level) {
+      flush();
+      current = { heading: heading[2].trim(), body: [] };
+    } else if (current) {
+      current.body.push(line);
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+export const markdownImporter: DreamImporter = {
+  format: "markdown",
+  labelKey: "importFormatMarkdown",
+  extensions: ["md", "markdown"],
+  detect: (text) => FRONT_MATTER.test(text) || /^#{1,6}\s+\S/m.test(text),
+  parse,
+};
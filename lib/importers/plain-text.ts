@@ -0,0 +1,50 @@
+/**
+ * Plain text importer
+ *
+ * A new dream starts at every line that begins with a date. Without dated
+ * lines, dreams are separated by rules ("---", "***") or two blank lines;
+ * otherwise the whole file is one dream.
+ */
+
+import { matchLeadingDate } from "./dates";
+import type { DreamImporter, ImportedEntry } from "./types";
+
+const SEPARATOR = /\n\s*(?:-{3,}|\*{3,}|={3,})\s*\n|\n\s*\n\s*\n/;
+
+function parse(text: string): ImportedEntry[] {
+  const normalized = text.replace(/\r\n?/g, "\n").trim();
+  if (!normalized) return [];
+
+  const lines = normalized.split("\n");
+  if (lines.some((line) => matchLeadingDate(line))) {
+    const entries: ImportedEntry[] = [];
+    let current: ImportedEntry | null = null;
+
+    for (const line of lines) {
+      const leading = matchLeadingDate(line);
+      if (leading) {
+        if (current?.content) entries.push(current);
+        current = { content: leading.rest, createdAt: leading.date };
+      } else if (current) {
+        current.content = `${current.content}\n${line}`.trim();
+      }
+    }
+    if (current?.content) entries.push(current);
+
+    return entries;
+  }
+
+  return normalized
+    .split(SEPARATOR)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((content) => ({ content, createdAt: null }));
+}
+
+export const plainTextImporter: DreamImporter = {
+  format: "text",
+  labelKey: "importFormatText",
+  extensions: ["txt"],
+  detect: () => true,
+  parse,
+};
@@ -0,0 +1,25 @@
+/**
+ * Types shared by the dream importers
+ */
+
+import type { TranslationKey } from "@/lib/i18n";
+
+export type ImportFormat = "csv" | "markdown" | "text" | "dayone";
+
+// One dream as read from a file, before tags and mood are inferred
+export type ImportedEntry = {
+  content: string;
+  createdAt: Date | null; // null when no date was found
+  title?: string;
+  tags?: string[];
+  mood?: string;
+};
+
+export type DreamImporter = {
+  format: ImportFormat;
+  labelKey: TranslationKey;
+  extensions: string[]; // Lowercase, without the dot
+  // Whether the text looks like this format, for files without a telling extension
+  detect: (text: string) => boolean;
+  parse: (text: string) => ImportedEntry[];
+};
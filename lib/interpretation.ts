@@ -0,0 +1,187 @@
+/**
+ * Structured dream interpretation requests
+ *
+ * Shared by the interpret flow, re-interpretation of saved dreams and batch
+ * re-interpretation of imported dreams.
+ */
+
+import {
+  dreamInterpretationSchema,
+  type DreamInterpretation,
+} from "@/lib/schemas/dreamInterpretation";
+import { CONFIG } from "@/lib/config";
+import { saveReinterpretation, type Dream } from "@/lib/storage";
+import type { ProfileContext } from "@/lib/profile";
+import type { DreamHistoryContext } from "@/lib/patterns";
+import { getPreferences, type Language } from "@/lib/preferences";
+import { isLocale, t, translate, type TranslationKey } from "@/lib/i18n";
+import { getAppUserHeaders } from "@/lib/revenuecat";
+
+// API URL - use configured base URL
+const API_URL = CONFIG.API_BASE_URL;
+
+// Messages for the API's quota and limit errors
+const API_ERROR_KEYS: Record<string, TranslationKey> = {
+  MISSING_USER_ID: "errorMissingUserId",
+  FREE_LIMIT_REACHED: "errorFreeLimitReached",
+  MONTHLY_LIMIT_REACHED: "errorMonthlyLimitReached",
+  RATE_LIMITED: "errorRateLimited",
+  PAYLOAD_TOO_LARGE: "errorDreamTooLong",
+};
+
+/**
+ * Error response from the interpretation API, with the API's error code and
+ * how long to wait before retrying when it said so
+ */
+export class InterpretationApiError extends Error {
+  code: string | null;
+  retryAfterSeconds: number | null;
+
+  constructor(message: string, code: string | null, retryAfterSeconds: number | null) {
+    super(message);
+    this.name = "InterpretationApiError";
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export type InterpretationRequestOptions = {
+  profile?: ProfileContext; // "About me" context, only when the user allows it
+  history?: DreamHistoryContext; // Summary of earlier dreams for recurrence
+  language?: Language; // Defaults to the language chosen in settings
+};
+
+export type StructuredInterpretationResponse = {
+  data: unknown; // Response as received, may be partial
+  parsed: DreamInterpretation | null; // Set when the response is complete and valid
+  language: Language; // Language the interpretation was written in
+};
+
+/**
+ * Request a structured interpretation for a dream in the settings language
+ */
+export async function fetchStructuredInterpretation(
+  dream: string,
+  signal?: AbortSignal,
+  options: InterpretationRequestOptions = {}
+): Promise<StructuredInterpretationResponse> {
+  const language = options.language ?? (await getPreferences()).language;
+  const response = await fetch(`${API_URL}/api/interpret-structured`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(await getAppUserHeaders()),
+    },
+    body: JSON.stringify({
+      dream,
+      language,
+      profile: options.profile,
+      history: options.history,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const errorKey = API_ERROR_KEYS[errorData.code];
+    const retryAfter = Number(response.headers.get("Retry-After") ?? errorData.retryAfter);
+    throw new InterpretationApiError(
+      errorKey ? t(errorKey) : errorData.error || t("errorApiRequest"),
+      typeof errorData.code === "string" ? errorData.code : null,
+      retryAfter > 0 ? retryAfter : null
+    );
+  }
+
+  const data = await response.json();
+  const parsed = dreamInterpretationSchema.safeParse(data);
+
+  return {
+    data,
+    parsed: parsed.success ? parsed.data : null,
+    // Older servers answer in Finnish without saying so
+    language: isLocale(data?.language) ? data.language : "fi",
+  };
+}
+
+/**
+ * Interpret a saved dream again and store the result. The previous
+ * interpretation is kept in the dream's revisions.
+ */
+export async function reinterpretDream(
+  dream: Pick<Dream, "id" | "content">,
+  signal?: AbortSignal
+): Promise<Dream | null> {
+  const { data, parsed, language } = await fetchStructuredInterpretation(dream.content, signal);
+  const interpretation = formatInterpretationForStorage(
+    parsed ?? (data as DreamInterpretation),
+    language
+  );
+
+  return saveReinterpretation(dream.id, interpretation, parsed ?? undefined, language);
+}
+
+// Section headings of the stored text, as shown on the interpretation screen
+const STORAGE_HEADINGS = {
+  summary: "interpretationSummary",
+  symbols: "interpretationSymbols",
+  emotions: "interpretationEmotions",
+  primaryEmotion: "interpretationPrimaryEmotion",
+  lifeConnections: "interpretationConnections",
+  keyMessage: "interpretationKeyMessage",
+  questions: "interpretationQuestions",
+} as const satisfies Record<string, TranslationKey>;
+
+/**
+ * Format structured interpretation for text storage
+ */
+export function formatInterpretationForStorage(
+  interpretation: DreamInterpretation,
+  language: Language = "fi"
+): string {
+  const heading = (key: keyof typeof STORAGE_HEADINGS) =>
+    translate(language, STORAGE_HEADINGS[key]);
+  const sections: string[] = [];
+
+  if (interpretation.summary) {
+    sections.push(`**${heading("summary")}:** ${interpretation.summary}`);
+  }
+
+  if (interpretation.symbols?.length) {
+    sections.push(
+      `\n**${heading("symbols")}:**\n${interpretation.symbols
+        .map((s) => `- **${s.symbol}**: ${s.meaning}`)
+        .join("\n")}`
+    );
+  }
+
+  if (interpretation.emotionalAnalysis) {
+    const ea = interpretation.emotionalAnalysis;
+    sections.push(
+      `\n**${heading("emotions")}:**\n` +
+        `${heading("primaryEmotion")}: ${ea.primaryEmotion}\n` +
+        `${ea.subconscious}`
+    );
+  }
+
+  if (interpretation.lifeConnections?.length) {
+    sections.push(
+      `\n**${heading("lifeConnections")}:**\n${interpretation.lifeConnections
+        .map((lc) => `- ${lc.insight}`)
+        .join("\n")}`
+    );
+  }
+
+  if (interpretation.keyMessage) {
+    sections.push(`\n**${heading("keyMessage")}:** ${interpretation.keyMessage}`);
+  }
+
+  if (interpretation.reflectionQuestions?.length) {
+    sections.push(
+      `\n**${heading("questions")}:**\n${interpretation.reflectionQuestions
+        .map((q) => `- ${q}`)
+        .join("\n")}`
+    );
+  }
+
+  return sections.join("\n");
+}
@@ -0,0 +1,147 @@
+/**
+ * Encryption of dream records at rest
+ *
+ * Keys are derived from the user's passphrase or PIN with scrypt and held
+ * in memory only while the journal is unlocked. Records are sealed with
+ * XChaCha20-Poly1305 and stored as `enc1:<hex nonce + ciphertext>`.
+ *
+ * Plain JSON records stay readable, so a journal that was only partly
+ * rewritten (e.g. the app closed while enabling the lock) still loads.
+ */
+
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { t } from "@/lib/i18n";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/ciphers/utils";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { getRandomBytes } from "expo-crypto";
+
+// Marks an encrypted record (format version 1)
+const ENCRYPTED_PREFIX = "enc1:";
+
+// scrypt cost; tuned to stay around a second on mid-range phones
+const SCRYPT_OPTIONS = { N: 2 ** 14, r: 8, p: 1, dkLen: 32 };
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24;
+
+/**
+ * Thrown when an encrypted record is read, or any record written, while the
+ * journal is locked
+ */
+export class JournalLockedError extends Error {
+  constructor() {
+    super(t("lockLocked"));
+    this.name = "JournalLockedError";
+  }
+}
+
+// Key of the unlocked journal, if any
+let sessionKey: Uint8Array | null = null;
+
+// Whether the journal lock is on; records are then only written encrypted
+let lockEnabled = false;
+
+/**
+ * Decode UTF-8 bytes without relying on TextDecoder
+ */
+function bytesToUtf8(bytes: Uint8Array): string {
+  let encoded = "";
+  for (const byte of bytes) {
+    encoded += `%${byte.toString(16).padStart(2, "0")}`;
+  }
+  return decodeURIComponent(encoded);
+}
+
+/**
+ * Create a random salt for key derivation (hex)
+ */
+export function createSalt(): string {
+  return bytesToHex(getRandomBytes(SALT_BYTES));
+}
+
+/**
+ * Derive an encryption key from a passphrase and hex salt
+ */
+export function deriveKey(passphrase: string, salt: string): Promise<Uint8Array> {
+  return scryptAsync(passphrase.normalize("NFKC"), hexToBytes(salt), SCRYPT_OPTIONS);
+}
+
+/**
+ * Encrypt text with a key
+ */
+export function encryptWithKey(text: string, key: Uint8Array): string {
+  const nonce = getRandomBytes(NONCE_BYTES);
+  const sealed = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(text));
+  return `${ENCRYPTED_PREFIX}${bytesToHex(nonce)}${bytesToHex(sealed)}`;
+}
+
+/**
+ * Decrypt text with a key. Returns null if the data was tampered with or
+ * the key is wrong.
+ */
+export function decryptWithKey(value: string, key: Uint8Array): string | null {
+  try {
+    const bytes = hexToBytes(value.slice(ENCRYPTED_PREFIX.length));
+    const nonce = bytes.subarray(0, NONCE_BYTES);
+    const opened = xchacha20poly1305(key, nonce).decrypt(bytes.subarray(NONCE_BYTES));
+    return bytesToUtf8(opened);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a stored value is encrypted
+ */
+export function isEncryptedRecord(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Set or clear the key used for reading and writing records
+ */
+export function setSessionKey(key: Uint8Array | null): void {
+  sessionKey = key;
+}
+
+/**
+ * Record whether the journal lock is on. Kept in sync by lib/journal-lock.ts.
+ */
+export function setLockEnabled(enabled: boolean): void {
+  lockEnabled = enabled;
+}
+
+/**
+ * Check whether records can currently be decrypted
+ */
+export function hasSessionKey(): boolean {
+  return sessionKey !== null;
+}
+
+/**
+ * Prepare a record for storage: encrypted while a key is set, plain when
+ * the lock is off. Throws JournalLockedError if the lock is on without a key.
+ */
+export function sealRecord(json: string): string {
+  if (sessionKey) {
+    return encryptWithKey(json, sessionKey);
+  }
+  if (lockEnabled) {
+    throw new JournalLockedError();
+  }
+  return json;
+}
+
+/**
+ * Turn a stored record back into JSON. Returns null if an encrypted record
+ * is corrupt; throws JournalLockedError if there is no key to open it.
+ */
+export function openRecord(raw: string): string | null {
+  if (!isEncryptedRecord(raw)) {
+    return raw;
+  }
+  if (!sessionKey) {
+    throw new JournalLockedError();
+  }
+  return decryptWithKey(raw, sessionKey);
+}
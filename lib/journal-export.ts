@@ -0,0 +1,242 @@
+/**
+ * Markdown and CSV export of the journal
+ *
+ * Companion to pdf-export: the same per-dream iteration, written as a
+ * Markdown journal (one file, or a zip with one file per dream and YAML
+ * front-matter) or as a CSV of metadata for spreadsheets.
+ */
+
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { strToU8, zipSync } from "fflate";
+import { moodLabelKeys, type Mood } from "@/lib/schemas/dreamInterpretation";
+import { formatDate, t } from "@/lib/i18n";
+import { toLocalDateKey } from "@/lib/dates";
+import { type Dream } from "./storage";
+
+export type MarkdownLayout = "single" | "zip";
+
+// CSV columns, in order
+const CSV_COLUMNS = [
+  "id",
+  "date",
+  "time",
+  "mood",
+  "tags",
+  "symbols",
+  "input_method",
+  "word_count",
+  "interpreted",
+] as const;
+
+/**
+ * Mood label in the app language
+ */
+function moodLabel(mood: Mood | undefined): string {
+  return t(moodLabelKeys[mood || "neutral"]);
+}
+
+function formatTime(date: Date): string {
+  return `${date.getHours().toString().padStart(2, "0")}:${date
+    .getMinutes()
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+/**
+ * Quote a YAML value when it could be misread, including any line break
+ */
+function yamlValue(value: string): string {
+  return /^[\w \täöåÄÖÅ-]+$/.test(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Generate Markdown for a single dream, as its own file with front-matter
+ */
+function generateDreamMarkdown(dream: Dream): string {
+  const date = new Date(dream.createdAt);
+  const tags = dream.tags ?? [];
+
+  const frontMatter = [
+    "---",
+    `date: ${dream.createdAt}`,
+    `mood: ${yamlValue(dream.mood || "neutral")}`,
+    `tags: [${tags.map(yamlValue).join(", ")}]`,
+    `id: ${dream.id}`,
+    "---",
+  ].join("\n");
+
+  const sections = [
+    frontMatter,
+    "",
+    `# ${t("exportDreamHeading", { date: formatDate(date), time: formatTime(date) })}`,
+    "",
+    dream.content,
+  ];
+  if (dream.interpretation) {
+    sections.push("", `## ${t("exportInterpretation")}`, "", dream.interpretation);
+  }
+
+  return `${sections.join("\n")}\n`;
+}
+
+/**
+ * Generate one Markdown document for the whole journal
+ */
+function generateJournalMarkdown(dreams: Dream[], title: string): string {
+  const exportDate = formatDate(new Date(), {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  const entries = dreams.map((dream) => {
+    const date = new Date(dream.createdAt);
+    const meta = [
+      `${t("exportMood")}: ${moodLabel(dream.mood)}`,
+      dream.tags?.length ? `${t("exportThemes")}: ${dream.tags.join(", ")}` : null,
+    ].filter(Boolean);
+
+    const lines = [
+      `## ${t("exportDateTime", { date: formatDate(date), time: formatTime(date) })}`,
+      "",
+      `*${meta.join(" · ")}*`,
+      "",
+      dream.content,
+    ];
+    if (dream.interpretation) {
+      lines.push("", `**${t("exportInterpretation")}**`, "", dream.interpretation);
+    }
+    return lines.join("\n");
+  });
+
+  const exported = t("exportSummary", { date: exportDate, count: dreams.length });
+  return `# ${title}\n\n${exported}\n\n${entries.join("\n\n---\n\n")}\n`;
+}
+
+/**
+ * File name for a dream inside the zip, unique per dream
+ */
+function dreamFileName(dream: Dream): string {
+  const date = new Date(dream.createdAt);
+  return `${toLocalDateKey(date)}-${formatTime(date).replace(":", "")}-${dream.id.slice(-7)}.md`;
+}
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet could run as a
+ * formula (starting with = + - @, a tab or a carriage return) gets a
+ * leading apostrophe.
+ */
+function csvField(value: string | number | boolean): string {
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Generate a CSV of dream metadata
+ */
+function generateDreamsCsv(dreams: Dream[]): string {
+  const rows = dreams.map((dream) => {
+    const date = new Date(dream.createdAt);
+    const values: Record<(typeof CSV_COLUMNS)[number], string | number | boolean> = {
+      id: dream.id,
+      date: toLocalDateKey(date),
+      time: formatTime(date),
+      mood: dream.mood || "neutral",
+      tags: (dream.tags ?? []).join("; "),
+      symbols: (dream.structured?.symbols ?? []).map((s) => s.symbol).join("; "),
+      input_method: dream.inputMethod ?? "text",
+      word_count: dream.content.split(/\s+/).filter(Boolean).length,
+      interpreted: dream.interpretation.length > 0,
+    };
+    return CSV_COLUMNS.map((column) => csvField(values[column])).join(",");
+  });
+
+  // BOM so spreadsheet apps read the file as UTF-8
+  return `\uFEFF${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+}
+
+/**
+ * Write export contents to a fresh cache file
+ */
+function writeExportFile(name: string, contents: string | Uint8Array): File {
+  const file = new File(Paths.cache, name);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(contents);
+  return file;
+}
+
+/**
+ * Export dreams as Markdown, either one document or a zip of files
+ */
+export async function exportDreamsAsMarkdown(
+  dreams: Dream[],
+  layout: MarkdownLayout = "single",
+  title: string = t("exportJournalTitle")
+): Promise<void> {
+  if (dreams.length === 0) {
+    throw new Error(t("exportNoDreams"));
+  }
+
+  try {
+    const baseName = `unipaivakirja-${toLocalDateKey(new Date())}`;
+    let file: File;
+    let mimeType: string;
+    let UTI: string;
+
+    if (layout === "zip") {
+      const files = Object.fromEntries(
+        dreams.map((dream) => [dreamFileName(dream), strToU8(generateDreamMarkdown(dream))])
+      );
+      file = writeExportFile(`${baseName}.zip`, zipSync(files));
+      mimeType = "application/zip";
+      UTI = "public.zip-archive";
+    } else {
+      file = writeExportFile(`${baseName}.md`, generateJournalMarkdown(dreams, title));
+      mimeType = "text/markdown";
+      UTI = "net.daringfireball.markdown";
+    }
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(file.uri, {
+        mimeType,
+        dialogTitle: t("exportShareJournal"),
+        UTI,
+      });
+    }
+  } catch (error) {
+    console.error("Error exporting Markdown:", error);
+    throw new Error(t("exportMarkdownFailed"));
+  }
+}
+
+/**
+ * Export dream metadata as CSV
+ */
+export async function exportDreamsAsCsv(dreams: Dream[]): Promise<void> {
+  if (dreams.length === 0) {
+    throw new Error(t("exportNoDreams"));
+  }
+
+  try {
+    const file = writeExportFile(
+      `unipaivakirja-${toLocalDateKey(new Date())}.csv`,
+      generateDreamsCsv(dreams)
+    );
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(file.uri, {
+        mimeType: "text/csv",
+        dialogTitle: t("exportShareStats"),
+        UTI: "public.comma-separated-values-text",
+      });
+    }
+  } catch (error) {
+    console.error("Error exporting CSV:", error);
+    throw new Error(t("exportCsvFailed"));
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Journal lock
+ *
+ * Opt-in passphrase/PIN lock for the dream journal:
+ * - Enabling derives a key and rewrites every dream record encrypted
+ * - The key lives in memory only; locking forgets it and the search index
+ * - Unlocking checks the passphrase against a stored verifier
+ * - The app locks again when resumed after the configured timeout
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { storedJournalLockSchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import { backfillDreamMoods, getAllDreams, putDreams } from "@/lib/dream-repository";
+import { resetSearchIndex } from "@/lib/search";
+import { t } from "@/lib/i18n";
+import {
+  createSalt,
+  decryptWithKey,
+  deriveKey,
+  encryptWithKey,
+  hasSessionKey,
+  setLockEnabled,
+  setSessionKey,
+} from "@/lib/journal-crypto";
+
+// Storage key
+export const JOURNAL_LOCK_STORAGE_KEY = "@dreamai_journal_lock";
+
+// Known text encrypted with the key, used to check the passphrase
+const VERIFIER_TEXT = "unitulkki-journal";
+
+// Shortest accepted passphrase (a 4-digit PIN)
+export const MIN_PASSPHRASE_LENGTH = 4;
+
+// Minutes in the background before the journal locks again
+export const LOCK_TIMEOUT_OPTIONS = [0, 1, 5, 15];
+
+export type JournalLockConfig = {
+  enabled: boolean;
+  salt: string; // Hex
+  verifier: string; // VERIFIER_TEXT encrypted with the key
+  timeoutMinutes: number;
+};
+
+const DEFAULT_TIMEOUT_MINUTES = 1;
+
+/**
+ * Get the lock configuration (null when the lock has never been set up).
+ * Also updates the lock state records are sealed with.
+ */
+export async function getJournalLockConfig(): Promise<JournalLockConfig | null> {
+  try {
+    const config = await readStoredJson(JOURNAL_LOCK_STORAGE_KEY, storedJournalLockSchema);
+    setLockEnabled(config?.enabled ?? false);
+    return config;
+  } catch (error) {
+    console.error("Error loading journal lock:", error);
+    return null;
+  }
+}
+
+/**
+ * Check whether the lock is on
+ */
+export async function isJournalLockEnabled(): Promise<boolean> {
+  const config = await getJournalLockConfig();
+  return config?.enabled ?? false;
+}
+
+/**
+ * Check whether the journal is currently readable
+ */
+export function isJournalUnlocked(): boolean {
+  return hasSessionKey();
+}
+
+/**
+ * Turn the lock on and encrypt every stored dream
+ */
+export async function enableJournalLock(
+  passphrase: string,
+  timeoutMinutes: number = DEFAULT_TIMEOUT_MINUTES
+): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(t("lockPassphraseTooShort", { count: MIN_PASSPHRASE_LENGTH }));
+  }
+
+  try {
+    const salt = createSalt();
+    const key = await deriveKey(passphrase, salt);
+    const dreams = await getAllDreams();
+
+    // Save the config first: plain records stay readable if we stop midway
+    const config: JournalLockConfig = {
+      enabled: true,
+      salt,
+      verifier: encryptWithKey(VERIFIER_TEXT, key),
+      timeoutMinutes,
+    };
+    await AsyncStorage.setItem(JOURNAL_LOCK_STORAGE_KEY, JSON.stringify(config));
+
+    setSessionKey(key);
+    setLockEnabled(true);
+    await putDreams(dreams);
+  } catch (error) {
+    console.error("Error enabling journal lock:", error);
+    throw new Error(t("lockEnableFailed"));
+  }
+}
+
+/**
+ * Turn the lock off and store every dream as plain JSON again.
+ * The journal must be unlocked.
+ */
+export async function disableJournalLock(): Promise<void> {
+  if (!hasSessionKey()) {
+    throw new Error(t("lockUnlockFirst"));
+  }
+
+  try {
+    const dreams = await getAllDreams();
+    setSessionKey(null);
+    setLockEnabled(false);
+    await putDreams(dreams);
+    await AsyncStorage.removeItem(JOURNAL_LOCK_STORAGE_KEY);
+  } catch (error) {
+    console.error("Error disabling journal lock:", error);
+    throw new Error(t("lockDisableFailed"));
+  }
+}
+
+/**
+ * Unlock the journal. Returns false for a wrong passphrase, and when the
+ * lock config is missing or unreadable so there is no key to unlock with.
+ */
+export async function unlockJournal(passphrase: string): Promise<boolean> {
+  const config = await getJournalLockConfig();
+  if (!config?.enabled) {
+    return false;
+  }
+
+  const key = await deriveKey(passphrase, config.salt);
+  if (decryptWithKey(config.verifier, key) !== VERIFIER_TEXT) {
+    return false;
+  }
+
+  setSessionKey(key);
+
+  // Finish the mood backfill (schema v4) that could not read locked records
+  backfillDreamMoods().catch((error) => console.error("Error backfilling dream moods:", error));
+  return true;
+}
+
+/**
+ * Lock the journal and drop decrypted data held in memory
+ */
+export function lockJournal(): void {
+  setSessionKey(null);
+  resetSearchIndex();
+}
+
+/**
+ * Change how long the app may stay in the background before locking
+ */
+export async function setJournalLockTimeout(timeoutMinutes: number): Promise<void> {
+  const config = await getJournalLockConfig();
+  if (!config) return;
+
+  try {
+    await AsyncStorage.setItem(
+      JOURNAL_LOCK_STORAGE_KEY,
+      JSON.stringify({ ...config, timeoutMinutes })
+    );
+  } catch (error) {
+    console.error("Error saving lock timeout:", error);
+    throw new Error(t("errorSaveSetting"));
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Storage migrations for Unitulkki
+ *
+ * Features:
+ * - Records the persisted schema version under a single key
+ * - Runs ordered, one-way migrations at startup
+ * - Validates every known JSON blob and quarantines unreadable data
+ *
+ * To change a persisted shape: add a migration with the next version number
+ * and update the matching schema in lib/schemas/storage.ts.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { z } from "zod";
+import {
+  storedDreamSchema,
+  storedDreamIndexSchema,
+  storedStreakSettingsSchema,
+  storedAlarmsSchema,
+  storedNotificationTimeSchema,
+  storedEventQueueSchema,
+  storedMonthlyUsageSchema,
+  storedDreamFiltersSchema,
+  storedAchievementsSchema,
+  storedJournalLockSchema,
+  storedSymbolDictionarySchema,
+  storedProfileSchema,
+} from "@/lib/schemas/storage";
+import { STRUCTURED_INTERPRETATION_VERSION } from "@/lib/schemas/dreamInterpretation";
+import { quarantineStoredValue, readStoredJson } from "@/lib/persistence";
+import {
+  DREAM_INDEX_STORAGE_KEY,
+  backfillDreamMoods,
+  putDreams,
+} from "@/lib/dream-repository";
+import { JournalLockedError } from "@/lib/journal-crypto";
+import { STREAK_SETTINGS_STORAGE_KEY } from "@/lib/streak";
+import { ALARM_STORAGE_KEYS } from "@/lib/alarm";
+import { NOTIFICATION_STORAGE_KEYS } from "@/lib/notifications";
+import { ANALYTICS_STORAGE_KEYS } from "@/lib/analytics";
+import { PREMIUM_STORAGE_KEYS } from "@/lib/premium";
+import { DREAM_FILTERS_STORAGE_KEY } from "@/lib/dream-filters";
+import { ACHIEVEMENTS_STORAGE_KEY } from "@/lib/achievements";
+import { JOURNAL_LOCK_STORAGE_KEY } from "@/lib/journal-lock";
+import { SYMBOL_DICTIONARY_STORAGE_KEY } from "@/lib/symbols";
+import { PROFILE_STORAGE_KEY } from "@/lib/profile";
+
+// Storage key for the persisted schema version
+const SCHEMA_VERSION_KEY = "@dreamai_schema_version";
+
+// Single JSON array that held the whole journal before schema v2
+const LEGACY_DREAMS_STORAGE_KEY = "@dreamai_dreams";
+
+// Streak counters kept alongside the journal before schema v3
+const LEGACY_STREAK_STORAGE_KEY = "@dreamai_streak";
+
+// Keys renamed to the @dreamai_ prefix in schema v5
+const LEGACY_KEY_RENAMES: [string, string][] = [
+  ["@unitulkki_symbol_dictionary", SYMBOL_DICTIONARY_STORAGE_KEY],
+  ["@unitulkki_profile", PROFILE_STORAGE_KEY],
+];
+
+export type Migration = {
+  version: number; // Schema version after this migration has run
+  description: string;
+  up: () => Promise<void>;
+};
+
+export type MigrationResult = {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  failed: number | null; // Version of the migration that threw, if any
+};
+
+// Blobs validated after migrations have run
+const STORED_BLOBS: { key: string; schema: z.ZodType }[] = [
+  { key: DREAM_INDEX_STORAGE_KEY, schema: storedDreamIndexSchema },
+  { key: STREAK_SETTINGS_STORAGE_KEY, schema: storedStreakSettingsSchema },
+  { key: ALARM_STORAGE_KEYS.alarms, schema: storedAlarmsSchema },
+  { key: NOTIFICATION_STORAGE_KEYS.notificationTime, schema: storedNotificationTimeSchema },
+  { key: ANALYTICS_STORAGE_KEYS.eventQueue, schema: storedEventQueueSchema },
+  { key: PREMIUM_STORAGE_KEYS.monthlyUsage, schema: storedMonthlyUsageSchema },
+  { key: DREAM_FILTERS_STORAGE_KEY, schema: storedDreamFiltersSchema },
+  { key: ACHIEVEMENTS_STORAGE_KEY, schema: storedAchievementsSchema },
+  { key: JOURNAL_LOCK_STORAGE_KEY, schema: storedJournalLockSchema },
+  { key: SYMBOL_DICTIONARY_STORAGE_KEY, schema: storedSymbolDictionarySchema },
+  { key: PROFILE_STORAGE_KEY, schema: storedProfileSchema },
+];
+
+/**
+ * Read a raw JSON value for migration purposes (no validation).
+ * Unparseable data reads as null and is left for validation to quarantine.
+ */
+async function readRaw<T>(key: string): Promise<T | null> {
+  const data = await AsyncStorage.getItem(key);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Ordered list of migrations. Never edit a released migration; add a new one.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Stamp structuredVersion on dreams saved with a structured interpretation",
+    up: async () => {
+      const dreams = await readRaw<Record<string, unknown>[]>(LEGACY_DREAMS_STORAGE_KEY);
+      if (!Array.isArray(dreams)) return;
+
+      const migrated = dreams.map((dream) =>
+        dream.structured && dream.structuredVersion === undefined
+          ? { ...dream, structuredVersion: STRUCTURED_INTERPRETATION_VERSION }
+          : dream
+      );
+      await AsyncStorage.setItem(LEGACY_DREAMS_STORAGE_KEY, JSON.stringify(migrated));
+    },
+  },
+  {
+    version: 2,
+    description: "Split the dream journal into per-dream keys with an index",
+    up: async () => {
+      const raw = await AsyncStorage.getItem(LEGACY_DREAMS_STORAGE_KEY);
+      if (raw === null) return;
+
+      let dreams: unknown;
+      try {
+        dreams = JSON.parse(raw);
+      } catch {
+        dreams = null;
+      }
+      if (!Array.isArray(dreams)) {
+        await quarantineStoredValue(LEGACY_DREAMS_STORAGE_KEY, raw, "Not a dream array");
+        return;
+      }
+
+      const valid = dreams.flatMap((dream) => {
+        const parsed = storedDreamSchema.safeParse(dream);
+        return parsed.success ? [parsed.data] : [];
+      });
+      await putDreams(valid);
+
+      if (valid.length < dreams.length) {
+        // Keep the original blob so skipped dreams can still be recovered
+        await quarantineStoredValue(
+          LEGACY_DREAMS_STORAGE_KEY,
+          raw,
+          `${dreams.length - valid.length} dreams failed validation`
+        );
+      } else {
+        await AsyncStorage.removeItem(LEGACY_DREAMS_STORAGE_KEY);
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Drop stored streak counters; streaks are derived from the journal",
+    up: async () => {
+      await AsyncStorage.removeItem(LEGACY_STREAK_STORAGE_KEY);
+    },
+  },
+  {
+    version: 4,
+    description: "Store the structured interpretation's mood on dreams saved without one",
+    up: async () => {
+      try {
+        await backfillDreamMoods();
+      } catch (error) {
+        // Encrypted journals are backfilled when unlocked instead
+        if (!(error instanceof JournalLockedError)) throw error;
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "Move keys with the old @unitulkki_ prefix to @dreamai_ keys",
+    up: async () => {
+      for (const [legacyKey, key] of LEGACY_KEY_RENAMES) {
+        const data = await AsyncStorage.getItem(legacyKey);
+        if (data === null) continue;
+
+        // Data saved under the new key wins
+        if ((await AsyncStorage.getItem(key)) === null) {
+          await AsyncStorage.setItem(key, data);
+        }
+        await AsyncStorage.removeItem(legacyKey);
+      }
+    },
+  },
+];
+
+// Latest schema version known to this build
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (max, m) => Math.max(max, m.version),
+  0
+);
+
+/**
+ * Get the persisted schema version (0 for installs that predate versioning)
+ */
+export async function getSchemaVersion(): Promise<number> {
+  const stored = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  const version = stored ? parseInt(stored, 10) : 0;
+  return Number.isNaN(version) ? 0 : version;
+}
+
+/**
+ * Run pending migrations, then validate all known blobs.
+ * Safe to call on every launch; never throws.
+ */
+export async function runMigrations(): Promise<MigrationResult> {
+  let fromVersion = 0;
+  const applied: number[] = [];
+  let failed: number | null = null;
+
+  try {
+    fromVersion = await getSchemaVersion();
+
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      // Data was written by a newer build - leave it untouched
+      console.warn(
+        `[Migrations] Stored schema v${fromVersion} is newer than v${CURRENT_SCHEMA_VERSION}`
+      );
+      return { fromVersion, toVersion: fromVersion, applied, failed };
+    }
+
+    const pending = MIGRATIONS.filter((m) => m.version > fromVersion).sort(
+      (a, b) => a.version - b.version
+    );
+
+    for (const migration of pending) {
+      try {
+        await migration.up();
+        await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+        applied.push(migration.version);
+        console.log(`[Migrations] v${migration.version}: ${migration.description}`);
+      } catch (error) {
+        // Stop here so later migrations never run on half-migrated data
+        console.error(`[Migrations] v${migration.version} failed:`, error);
+        failed = migration.version;
+        break;
+      }
+    }
+
+    // Quarantine anything that still does not match its schema
+    for (const { key, schema } of STORED_BLOBS) {
+      await readStoredJson(key, schema);
+    }
+  } catch (error) {
+    console.error("[Migrations] Error:", error);
+  }
+
+  return {
+    fromVersion,
+    toVersion: applied.length > 0 ? applied[applied.length - 1] : fromVersion,
+    applied,
+    failed,
+  };
+}
@@ -6,6 +6,7 @@
  * - Configurable notification time
  * - Action buttons (Log dream, Snooze)
  * - Deep link to dream input screen
+ * - Monthly dream report reminder
  * - Local notifications (no server needed)
  */
 
@@ -13,13 +14,18 @@ import * as Notifications from "expo-notifications";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
 import { router } from "expo-router";
+import { storedNotificationTimeSchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import { t } from "@/lib/i18n";
+import { rescheduleAlarms } from "@/lib/alarm";
 
 // Storage keys
-const STORAGE_KEYS = {
+export const NOTIFICATION_STORAGE_KEYS = {
   notificationsEnabled: "dreamai_notifications_enabled",
   notificationTime: "dreamai_notification_time",
   notificationId: "dreamai_notification_id",
   snoozeCount: "dreamai_snooze_count",
+  monthlyReportId: "dreamai_monthly_report_notification_id",
 };
 
 // Default notification time (8:00 AM)
@@ -35,13 +41,19 @@ const ALARM_CATEGORY_ID = "dream_alarm";
 // Notification channel ID for Android
 const ALARM_CHANNEL_ID = "dream-alarm";
 
-// Notification content
+// Monthly report reminder, on the 1st of each month
+const MONTHLY_REPORT_CHANNEL_ID = "dream-reports";
+const MONTHLY_REPORT_HOUR = 9;
+
+// Notification content, translated when scheduled
 const NOTIFICATION_CONTENT = {
-  title: "⏰ Aamuherätys - Unitulkki",
-  body: "Kirjaa unesi nyt kun se on vielä tuoreessa muistissa!",
-  snoozeTitle: "⏰ Torkku - Unitulkki",
-  snoozeBody: "Herätys! Kirjaa unesi.",
-};
+  title: "notificationTitle",
+  body: "notificationBody",
+  snoozeTitle: "notificationSnoozeTitle",
+  snoozeBody: "notificationSnoozeBody",
+  monthlyReportTitle: "notificationMonthlyReportTitle",
+  monthlyReportBody: "notificationMonthlyReportBody",
+} as const;
 
 // Configure notification behavior - high priority for alarms
 Notifications.setNotificationHandler({
@@ -110,8 +122,8 @@ export async function scheduleMorningReminder(
     // Schedule the alarm notification
     const id = await Notifications.scheduleNotificationAsync({
       content: {
-        title: NOTIFICATION_CONTENT.title,
-        body: NOTIFICATION_CONTENT.body,
+        title: t(NOTIFICATION_CONTENT.title),
+        body: t(NOTIFICATION_CONTENT.body),
         sound: true,
         priority: Notifications.AndroidNotificationPriority.MAX,
         vibrate: [0, 500, 200, 500, 200, 500],
@@ -127,12 +139,12 @@ export async function scheduleMorningReminder(
     });
 
     // Save settings
-    await AsyncStorage.setItem(STORAGE_KEYS.notificationsEnabled, "true");
+    await AsyncStorage.setItem(NOTIFICATION_STORAGE_KEYS.notificationsEnabled, "true");
     await AsyncStorage.setItem(
-      STORAGE_KEYS.notificationTime,
+      NOTIFICATION_STORAGE_KEYS.notificationTime,
       JSON.stringify({ hour, minute })
     );
-    await AsyncStorage.setItem(STORAGE_KEYS.notificationId, id);
+    await AsyncStorage.setItem(NOTIFICATION_STORAGE_KEYS.notificationId, id);
 
     console.log(`[Notifications] Alarm scheduled for ${hour}:${minute.toString().padStart(2, "0")}`);
     return id;
@@ -147,14 +159,14 @@ export async function scheduleMorningReminder(
  */
 export async function cancelMorningReminder(): Promise<void> {
   try {
-    const existingId = await AsyncStorage.getItem(STORAGE_KEYS.notificationId);
+    const existingId = await AsyncStorage.getItem(NOTIFICATION_STORAGE_KEYS.notificationId);
     
     if (existingId) {
       await Notifications.cancelScheduledNotificationAsync(existingId);
-      await AsyncStorage.removeItem(STORAGE_KEYS.notificationId);
+      await AsyncStorage.removeItem(NOTIFICATION_STORAGE_KEYS.notificationId);
     }
 
-    await AsyncStorage.setItem(STORAGE_KEYS.notificationsEnabled, "false");
+    await AsyncStorage.setItem(NOTIFICATION_STORAGE_KEYS.notificationsEnabled, "false");
   } catch (error) {
     console.error("Error canceling notification:", error);
   }
@@ -169,22 +181,16 @@ export async function getNotificationSettings(): Promise<{
   minute: number;
 }> {
   try {
-    const enabled = await AsyncStorage.getItem(STORAGE_KEYS.notificationsEnabled);
-    const timeStr = await AsyncStorage.getItem(STORAGE_KEYS.notificationTime);
-
-    let hour = DEFAULT_NOTIFICATION_HOUR;
-    let minute = DEFAULT_NOTIFICATION_MINUTE;
-
-    if (timeStr) {
-      const parsed = JSON.parse(timeStr);
-      hour = parsed.hour ?? DEFAULT_NOTIFICATION_HOUR;
-      minute = parsed.minute ?? DEFAULT_NOTIFICATION_MINUTE;
-    }
+    const enabled = await AsyncStorage.getItem(NOTIFICATION_STORAGE_KEYS.notificationsEnabled);
+    const time = await readStoredJson(
+      NOTIFICATION_STORAGE_KEYS.notificationTime,
+      storedNotificationTimeSchema
+    );
 
     return {
       enabled: enabled === "true",
-      hour,
-      minute,
+      hour: time?.hour ?? DEFAULT_NOTIFICATION_HOUR,
+      minute: time?.minute ?? DEFAULT_NOTIFICATION_MINUTE,
     };
   } catch (error) {
     console.error("Error getting notification settings:", error);
@@ -210,7 +216,7 @@ export async function updateNotificationTime(
   } else {
     // Just save the time preference
     await AsyncStorage.setItem(
-      STORAGE_KEYS.notificationTime,
+      NOTIFICATION_STORAGE_KEYS.notificationTime,
       JSON.stringify({ hour, minute })
     );
   }
@@ -230,6 +236,95 @@ export async function toggleNotifications(enabled: boolean): Promise<boolean> {
   }
 }
 
+/**
+ * Schedule enabled reminders and alarms again so their text follows the app
+ * language, and rename the Android channels. Scheduled notifications keep
+ * the text they were created with.
+ */
+export async function refreshScheduledNotifications(): Promise<void> {
+  try {
+    await initializeNotifications();
+
+    const settings = await getNotificationSettings();
+    if (settings.enabled) {
+      await scheduleMorningReminder(settings.hour, settings.minute);
+    }
+    if (await isMonthlyReportReminderEnabled()) {
+      await scheduleMonthlyReportReminder();
+    }
+    await rescheduleAlarms();
+  } catch (error) {
+    console.error("Error refreshing notifications:", error);
+  }
+}
+
+/**
+ * Check whether the monthly report reminder is scheduled
+ */
+export async function isMonthlyReportReminderEnabled(): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(NOTIFICATION_STORAGE_KEYS.monthlyReportId)) !== null;
+  } catch (error) {
+    console.error("Error reading monthly report reminder:", error);
+    return false;
+  }
+}
+
+/**
+ * Schedule a reminder on the 1st of every month that the previous
+ * month's report is ready
+ */
+export async function scheduleMonthlyReportReminder(): Promise<boolean> {
+  try {
+    await cancelMonthlyReportReminder();
+
+    const hasPermission = await requestNotificationPermissions();
+    if (!hasPermission) {
+      console.log("[Notifications] Permission not granted");
+      return false;
+    }
+
+    await initializeNotifications();
+
+    const id = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: t(NOTIFICATION_CONTENT.monthlyReportTitle),
+        body: t(NOTIFICATION_CONTENT.monthlyReportBody),
+        data: { type: "monthly_report" },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.MONTHLY,
+        day: 1,
+        hour: MONTHLY_REPORT_HOUR,
+        minute: 0,
+        ...(Platform.OS === "android" && { channelId: MONTHLY_REPORT_CHANNEL_ID }),
+      },
+    });
+
+    await AsyncStorage.setItem(NOTIFICATION_STORAGE_KEYS.monthlyReportId, id);
+    return true;
+  } catch (error) {
+    console.error("[Notifications] Monthly report scheduling error:", error);
+    return false;
+  }
+}
+
+/**
+ * Cancel the monthly report reminder
+ */
+export async function cancelMonthlyReportReminder(): Promise<void> {
+  try {
+    const existingId = await AsyncStorage.getItem(NOTIFICATION_STORAGE_KEYS.monthlyReportId);
+
+    if (existingId) {
+      await Notifications.cancelScheduledNotificationAsync(existingId);
+      await AsyncStorage.removeItem(NOTIFICATION_STORAGE_KEYS.monthlyReportId);
+    }
+  } catch (error) {
+    console.error("Error canceling monthly report reminder:", error);
+  }
+}
+
 /**
  * Send immediate test notification (simulates the alarm)
  */
@@ -237,7 +332,7 @@ export async function sendTestNotification(): Promise<void> {
   const hasPermission = await requestNotificationPermissions();
 
   if (!hasPermission) {
-    throw new Error("Ilmoituslupa vaaditaan");
+    throw new Error(t("errorNotificationPermission"));
   }
 
   // Ensure categories and channels are configured
@@ -245,8 +340,8 @@ export async function sendTestNotification(): Promise<void> {
 
   await Notifications.scheduleNotificationAsync({
     content: {
-      title: "⏰ Testiherätys - Unitulkki",
-      body: "Näin herätys näyttää! Napauta avataksesi sovelluksen.",
+      title: t("notificationTestTitle"),
+      body: t("notificationTestBody"),
       sound: true,
       priority: Notifications.AndroidNotificationPriority.MAX,
       vibrate: [0, 500, 200, 500],
@@ -288,17 +383,23 @@ export async function configureAndroidChannel(): Promise<void> {
 
     // Create high-priority alarm channel
     await Notifications.setNotificationChannelAsync(ALARM_CHANNEL_ID, {
-      name: "Uniherätys",
+      name: t("notificationAlarmChannel"),
       importance: Notifications.AndroidImportance.MAX, // MAX for alarm-style
       vibrationPattern: [0, 500, 200, 500, 200, 500], // Longer vibration for alarm
       lightColor: "#8B5CF6",
       sound: "default",
-      description: "Aamuherätys unen kirjaamiseen",
+      description: t("notificationAlarmChannelDesc"),
       bypassDnd: true, // Bypass Do Not Disturb
       lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
       enableVibrate: true,
       enableLights: true,
     });
+
+    await Notifications.setNotificationChannelAsync(MONTHLY_REPORT_CHANNEL_ID, {
+      name: t("notificationReportChannel"),
+      importance: Notifications.AndroidImportance.DEFAULT,
+      description: t("notificationReportChannelDesc"),
+    });
   }
 }
 
@@ -309,21 +410,21 @@ export async function configureNotificationCategories(): Promise<void> {
   await Notifications.setNotificationCategoryAsync(ALARM_CATEGORY_ID, [
     {
       identifier: "LOG_DREAM",
-      buttonTitle: "Kirjaa uni",
+      buttonTitle: t("notificationActionLogDream"),
       options: {
         opensAppToForeground: true,
       },
     },
     {
       identifier: "SNOOZE",
-      buttonTitle: "Torkku 5 min",
+      buttonTitle: t("notificationActionSnooze", { count: SNOOZE_DURATION_MINUTES }),
       options: {
         opensAppToForeground: false,
       },
     },
     {
       identifier: "DISMISS",
-      buttonTitle: "Hylkää",
+      buttonTitle: t("notificationActionDismiss"),
       options: {
         isDestructive: true,
         opensAppToForeground: false,
@@ -349,15 +450,26 @@ export function handleNotificationResponse(
     return;
   }
 
+  if (data?.type === "monthly_report") {
+    setTimeout(() => {
+      try {
+        router.push({ pathname: "/patterns", params: { report: "monthly" } });
+      } catch (error) {
+        console.log("[Notifications] Navigation error:", error);
+      }
+    }, 100);
+    return;
+  }
+
   if (actionId === "DISMISS") {
     // Just dismiss, clear snooze count
-    AsyncStorage.setItem(STORAGE_KEYS.snoozeCount, "0");
+    AsyncStorage.setItem(NOTIFICATION_STORAGE_KEYS.snoozeCount, "0");
     return;
   }
 
   // Default action (tap on notification) or LOG_DREAM button
   // Navigate to home screen for dream input
-  AsyncStorage.setItem(STORAGE_KEYS.snoozeCount, "0");
+  AsyncStorage.setItem(NOTIFICATION_STORAGE_KEYS.snoozeCount, "0");
 
   // Use setTimeout to ensure navigation happens after app is ready
   setTimeout(() => {
@@ -375,9 +487,9 @@ export function handleNotificationResponse(
 async function scheduleSnoozeNotification(): Promise<void> {
   try {
     // Increment snooze count
-    const currentCount = await AsyncStorage.getItem(STORAGE_KEYS.snoozeCount);
+    const currentCount = await AsyncStorage.getItem(NOTIFICATION_STORAGE_KEYS.snoozeCount);
     const snoozeCount = parseInt(currentCount || "0", 10) + 1;
-    await AsyncStorage.setItem(STORAGE_KEYS.snoozeCount, snoozeCount.toString());
+    await AsyncStorage.setItem(NOTIFICATION_STORAGE_KEYS.snoozeCount, snoozeCount.toString());
 
     // Calculate snooze time
     const snoozeTime = new Date();
@@ -385,8 +497,8 @@ async function scheduleSnoozeNotification(): Promise<void> {
 
     await Notifications.scheduleNotificationAsync({
       content: {
-        title: NOTIFICATION_CONTENT.snoozeTitle,
-        body: `${NOTIFICATION_CONTENT.snoozeBody} (Torkku ${snoozeCount})`,
+        title: t(NOTIFICATION_CONTENT.snoozeTitle),
+        body: t(NOTIFICATION_CONTENT.snoozeBody, { count: snoozeCount }),
         sound: true,
         priority: Notifications.AndroidNotificationPriority.MAX,
         vibrate: [0, 500, 200, 500],
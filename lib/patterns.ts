@@ -3,9 +3,16 @@
  * 
  * Premium feature: Analyzes recurring themes, symbols, and emotional patterns
  * across the user's dream history to provide insights about their subconscious.
+ *
+ * Tags are normalised through the symbol taxonomy when analysed, so older
+ * dreams and newly added synonyms count towards the same symbol.
  */
 
-import { getDreams, type Dream } from "./storage";
+import { moodEmojis, moodLabelKeys, type Mood } from "./schemas/dreamInterpretation";
+import { formatNumber, getLocale, t, type TranslationKey } from "./i18n";
+import { toLocalDateKey } from "./dates";
+import { getDreams, getStructuredInterpretation, type Dream } from "./storage";
+import { getSymbolLabel as getTaxonomyLabel, loadSymbolDictionary, normalizeTags } from "./symbols";
 
 // Pattern types
 export type SymbolPattern = {
@@ -18,7 +25,7 @@ export type SymbolPattern = {
 };
 
 export type MoodPattern = {
-  mood: string;
+  mood: Mood;
   moodLabel: string;
   count: number;
   percentage: number;
@@ -43,49 +50,24 @@ export type DreamPatternAnalysis = {
   generatedAt: string;
 };
 
-// Mood labels and emojis
-const MOOD_CONFIG: Record<string, { label: string; emoji: string }> = {
-  anxious: { label: "Ahdistunut", emoji: "😰" },
-  happy: { label: "Iloinen", emoji: "😊" },
-  sad: { label: "Surullinen", emoji: "😢" },
-  peaceful: { label: "Rauhallinen", emoji: "😌" },
-  confused: { label: "Hämmentynyt", emoji: "😕" },
-  nostalgic: { label: "Nostalginen", emoji: "🥹" },
-  neutral: { label: "Neutraali", emoji: "😐" },
-};
-
-// Finnish symbol labels
-const SYMBOL_LABELS: Record<string, string> = {
-  lentäminen: "Lentäminen",
-  vesi: "Vesi",
-  putoaminen: "Putoaminen",
-  jahtaaminen: "Jahtaaminen",
-  perhe: "Perhe",
-  työ: "Työ",
-  koulu: "Koulu",
-  eläimet: "Eläimet",
-  kuolema: "Kuolema",
-  rakkaus: "Rakkaus",
-};
-
 /**
  * Calculate trend based on recent vs older occurrences
  */
 function calculateTrend(
-  dreams: Dream[],
+  dreamTags: string[][],
   symbol: string
 ): "increasing" | "decreasing" | "stable" {
-  if (dreams.length < 4) return "stable";
+  if (dreamTags.length < 4) return "stable";
 
-  const midpoint = Math.floor(dreams.length / 2);
-  const olderDreams = dreams.slice(midpoint);
-  const recentDreams = dreams.slice(0, midpoint);
+  const midpoint = Math.floor(dreamTags.length / 2);
+  const olderDreams = dreamTags.slice(midpoint);
+  const recentDreams = dreamTags.slice(0, midpoint);
 
-  const olderCount = olderDreams.filter((d) =>
-    d.tags?.includes(symbol)
+  const olderCount = olderDreams.filter((tags) =>
+    tags.includes(symbol)
   ).length;
-  const recentCount = recentDreams.filter((d) =>
-    d.tags?.includes(symbol)
+  const recentCount = recentDreams.filter((tags) =>
+    tags.includes(symbol)
   ).length;
 
   // Normalize by count
@@ -97,20 +79,22 @@ function calculateTrend(
   return "stable";
 }
 
+// Day names by `Date.getDay()` index
+const DAY_NAME_KEYS: TranslationKey[] = [
+  "daySunday",
+  "dayMonday",
+  "dayTuesday",
+  "dayWednesday",
+  "dayThursday",
+  "dayFriday",
+  "daySaturday",
+];
+
 /**
- * Get day name in Finnish
+ * Get day name in the app language
  */
 function getDayName(dayIndex: number): string {
-  const days = [
-    "Sunnuntai",
-    "Maanantai",
-    "Tiistai",
-    "Keskiviikko",
-    "Torstai",
-    "Perjantai",
-    "Lauantai",
-  ];
-  return days[dayIndex];
+  return t(DAY_NAME_KEYS[dayIndex]);
 }
 
 /**
@@ -128,7 +112,10 @@ function generateInsights(
     const topSymbol = symbols[0];
     if (topSymbol.percentage > 30) {
       insights.push(
-        `${SYMBOL_LABELS[topSymbol.symbol] || topSymbol.symbol} esiintyy ${topSymbol.percentage}% unistasi - tämä saattaa heijastaa keskeistä teemaa elämässäsi.`
+        t("insightTopSymbol", {
+          symbol: getSymbolLabel(topSymbol.symbol),
+          percentage: topSymbol.percentage,
+        })
       );
     }
   }
@@ -136,16 +123,17 @@ function generateInsights(
   // Increasing trend insight
   const increasingSymbols = symbols.filter((s) => s.trend === "increasing");
   if (increasingSymbols.length > 0) {
-    insights.push(
-      `${SYMBOL_LABELS[increasingSymbols[0].symbol] || increasingSymbols[0].symbol}-unet ovat lisääntyneet viime aikoina.`
-    );
+    insights.push(t("insightIncreasingSymbol", { symbol: getSymbolLabel(increasingSymbols[0].symbol) }));
   }
 
   // Mood distribution insight
   const dominantMood = moods[0];
   if (dominantMood && dominantMood.percentage > 40) {
     insights.push(
-      `${dominantMood.moodLabel} tunnetila hallitsee ${dominantMood.percentage}% unistasi.`
+      t("insightDominantMood", {
+        mood: dominantMood.moodLabel,
+        percentage: dominantMood.percentage,
+      })
     );
   }
 
@@ -159,28 +147,23 @@ function generateInsights(
     const avgPerWeek = (dreams.length / daysDiff) * 7;
 
     if (avgPerWeek >= 3) {
-      insights.push(
-        `Kirjaat keskimäärin ${avgPerWeek.toFixed(1)} unta viikossa - erinomainen unipäiväkirjarutiini!`
-      );
+      const average = formatNumber(avgPerWeek, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+      insights.push(t("insightFrequentJournaling", { average }));
     }
   }
 
   // Add motivational insight if few dreams
   if (dreams.length < 5) {
-    insights.push(
-      "Jatka unien kirjaamista - tarkemmat kuviot näkyvät kun unia kertyy enemmän."
-    );
+    insights.push(t("insightKeepJournaling"));
   }
 
   return insights.slice(0, 4); // Max 4 insights
 }
 
 /**
- * Analyze dream patterns - Premium feature
+ * Analyze patterns in a list of dreams, newest first
  */
-export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
-  const dreams = await getDreams();
-
+export function computeDreamPatterns(dreams: Dream[]): DreamPatternAnalysis {
   if (dreams.length === 0) {
     return {
       totalDreams: 0,
@@ -188,12 +171,12 @@ export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
       symbols: [],
       moods: [],
       timePatterns: {
-        period: "Ei dataa",
+        period: t("patternsNoData"),
         dreamCount: 0,
         averagePerWeek: 0,
       },
       recurringThemes: [],
-      insights: ["Aloita kirjaamalla ensimmäinen unesi!"],
+      insights: [t("insightFirstDream")],
       generatedAt: new Date().toISOString(),
     };
   }
@@ -209,10 +192,11 @@ export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
   );
 
   // Symbol analysis
+  const dreamTags = dreams.map((dream) => normalizeTags(dream.tags ?? [], Infinity));
   const symbolCounts: Record<string, { count: number; lastSeen: string; examples: string[] }> = {};
-  
-  for (const dream of dreams) {
-    for (const tag of dream.tags || []) {
+
+  for (const [index, dream] of dreams.entries()) {
+    for (const tag of dreamTags[index]) {
       if (!symbolCounts[tag]) {
         symbolCounts[tag] = { count: 0, lastSeen: dream.createdAt, examples: [] };
       }
@@ -230,7 +214,7 @@ export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
       symbol,
       count: data.count,
       percentage: Math.round((data.count / dreams.length) * 100),
-      trend: calculateTrend(dreams, symbol),
+      trend: calculateTrend(dreamTags, symbol),
       lastSeen: data.lastSeen,
       examples: data.examples,
     }))
@@ -238,19 +222,19 @@ export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
     .slice(0, 10);
 
   // Mood analysis
-  const moodCounts: Record<string, number> = {};
+  const moodCounts: Partial<Record<Mood, number>> = {};
   for (const dream of dreams) {
     const mood = dream.mood || "neutral";
     moodCounts[mood] = (moodCounts[mood] || 0) + 1;
   }
 
-  const moods: MoodPattern[] = Object.entries(moodCounts)
+  const moods: MoodPattern[] = (Object.entries(moodCounts) as [Mood, number][])
     .map(([mood, count]) => ({
       mood,
-      moodLabel: MOOD_CONFIG[mood]?.label || mood,
+      moodLabel: t(moodLabelKeys[mood]),
       count,
       percentage: Math.round((count / dreams.length) * 100),
-      emoji: MOOD_CONFIG[mood]?.emoji || "😐",
+      emoji: moodEmojis[mood],
     }))
     .sort((a, b) => b.count - a.count);
 
@@ -266,7 +250,7 @@ export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
   )[0];
 
   const timePatterns: TimePattern = {
-    period: `${periodDays} päivää`,
+    period: t("patternsPeriodDays", { count: periodDays }),
     dreamCount: dreams.length,
     averagePerWeek: Math.round((dreams.length / periodDays) * 7 * 10) / 10,
     mostActiveDay: mostActiveDay ? getDayName(parseInt(mostActiveDay[0])) : undefined,
@@ -275,7 +259,7 @@ export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
   // Recurring themes (symbols that appear > 20%)
   const recurringThemes = symbols
     .filter((s) => s.percentage >= 20)
-    .map((s) => SYMBOL_LABELS[s.symbol] || s.symbol);
+    .map((s) => getSymbolLabel(s.symbol));
 
   // Generate insights
   const insights = generateInsights(symbols, moods, dreams);
@@ -292,6 +276,79 @@ export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
   };
 }
 
+/**
+ * Analyze dream patterns - Premium feature
+ */
+export async function analyzeDreamPatterns(): Promise<DreamPatternAnalysis> {
+  const [dreams] = await Promise.all([getDreams(), loadSymbolDictionary()]);
+  return computeDreamPatterns(dreams);
+}
+
+// Past dreams summarised for an interpretation request
+export const HISTORY_CONTEXT_DREAMS = 10;
+
+// Longest summary sent per past dream
+const HISTORY_SUMMARY_LENGTH = 240;
+
+// Compact summary of the journal, sent so the interpreter can point out
+// real recurrence and link related dreams
+export type DreamHistoryContext = {
+  totalDreams: number;
+  symbols: { symbol: string; label: string; count: number; trend: SymbolPattern["trend"] }[];
+  moods: { mood: Mood; count: number }[];
+  recentDreams: {
+    id: string;
+    date: string; // YYYY-MM-DD
+    mood?: Mood;
+    tags: string[];
+    summary: string;
+  }[];
+};
+
+/**
+ * Build the history summary from dreams (newest first) and their analysis
+ */
+export function buildDreamHistoryContext(
+  dreams: Dream[],
+  analysis: DreamPatternAnalysis = computeDreamPatterns(dreams)
+): DreamHistoryContext | undefined {
+  if (dreams.length === 0) {
+    return undefined;
+  }
+
+  return {
+    totalDreams: analysis.totalDreams,
+    symbols: analysis.symbols.slice(0, 8).map((symbol) => ({
+      symbol: symbol.symbol,
+      label: getSymbolLabel(symbol.symbol),
+      count: symbol.count,
+      trend: symbol.trend,
+    })),
+    moods: analysis.moods.slice(0, 5).map(({ mood, count }) => ({ mood, count })),
+    recentDreams: dreams.slice(0, HISTORY_CONTEXT_DREAMS).map((dream) => {
+      const summary = getStructuredInterpretation(dream)?.summary ?? dream.content;
+      return {
+        id: dream.id,
+        date: toLocalDateKey(new Date(dream.createdAt)),
+        mood: dream.mood,
+        tags: dream.tags ?? [],
+        summary:
+          summary.length > HISTORY_SUMMARY_LENGTH
+            ? `${summary.slice(0, HISTORY_SUMMARY_LENGTH)}...`
+            : summary,
+      };
+    }),
+  };
+}
+
+/**
+ * Get the history summary for the current journal
+ */
+export async function getDreamHistoryContext(): Promise<DreamHistoryContext | undefined> {
+  const [dreams] = await Promise.all([getDreams(), loadSymbolDictionary()]);
+  return buildDreamHistoryContext(dreams);
+}
+
 /**
  * Get symbol trend icon
  */
@@ -307,8 +364,8 @@ export function getTrendIcon(trend: SymbolPattern["trend"]): string {
 }
 
 /**
- * Get symbol label in Finnish
+ * Get symbol label in the app language
  */
 export function getSymbolLabel(symbol: string): string {
-  return SYMBOL_LABELS[symbol] || symbol;
+  return getTaxonomyLabel(symbol, getLocale());
 }
@@ -1,126 +1,504 @@
 /**
  * PDF Export for Dreams
- * 
+ *
  * Premium feature: Export dreams and interpretations as beautifully formatted PDFs
+ *
+ * Structured interpretations are rendered section by section (symbols,
+ * emotions, life connections, reflection questions). Journal exports get a
+ * cover page with period statistics and a table of contents.
  */
 
 import * as Print from "expo-print";
 import * as Sharing from "expo-sharing";
-import { type Dream } from "./storage";
+import {
+  lifeAreaConfig,
+  moodColors,
+  moodLabelKeys,
+  relevanceColors,
+  type DreamInterpretation,
+  type Mood,
+  type Symbol,
+} from "@/lib/schemas/dreamInterpretation";
+import { computeDreamStats, getStructuredInterpretation, type Dream } from "./storage";
+import { getSymbolLabel } from "./symbols";
+import { formatDate, getLocale, t, type TranslationKey } from "./i18n";
 
-// PDF styling
+export type PdfTheme = "night" | "light" | "print";
+
+// "dream" starts every dream on its own page, "flow" packs them continuously
+export type PdfPageBreak = "dream" | "flow";
+
+export type PdfExportOptions = {
+  title?: string;
+  theme?: PdfTheme;
+  pageBreak?: PdfPageBreak;
+  tableOfContents?: boolean;
+};
+
+type PdfPalette = {
+  background: string;
+  surface: string;
+  surfaceAlt: string;
+  text: string;
+  muted: string;
+  accent: string;
+  accentAlt: string;
+  border: string;
+  shadow: string;
+  font: string;
+};
+
+export const PDF_THEMES: Record<PdfTheme, { labelKey: TranslationKey; palette: PdfPalette }> = {
+  night: {
+    labelKey: "pdfThemeNight",
+    palette: {
+      background: "#0F0B1E",
+      surface: "#1A1433",
+      surfaceAlt: "#241C45",
+      text: "#EDE9FE",
+      muted: "#A5A0C0",
+      accent: "#A78BFA",
+      accentAlt: "#22D3EE",
+      border: "rgba(167, 139, 250, 0.25)",
+      shadow: "none",
+      font: "'Inter', -apple-system, BlinkMacSystemFont, sans-serif",
+    },
+  },
+  light: {
+    labelKey: "pdfThemeLight",
+    palette: {
+      background: "#F8F9FF",
+      surface: "#FFFFFF",
+      surfaceAlt: "#F5F0FF",
+      text: "#1A1A2E",
+      muted: "#666666",
+      accent: "#8B5CF6",
+      accentAlt: "#06B6D4",
+      border: "rgba(139, 92, 246, 0.15)",
+      shadow: "0 4px 20px rgba(139, 92, 246, 0.1)",
+      font: "'Inter', -apple-system, BlinkMacSystemFont, sans-serif",
+    },
+  },
+  print: {
+    labelKey: "pdfThemePrint",
+    palette: {
+      background: "#FFFFFF",
+      surface: "#FFFFFF",
+      surfaceAlt: "#F4F4F5",
+      text: "#111111",
+      muted: "#555555",
+      accent: "#111111",
+      accentAlt: "#333333",
+      border: "#CCCCCC",
+      shadow: "none",
+      font: "Georgia, 'Times New Roman', serif",
+    },
+  },
+};
+
+/**
+ * Theme colours as CSS variables
+ */
+export function themeVariables(theme: PdfTheme): string {
+  const p = PDF_THEMES[theme].palette;
+  return `
+    :root {
+      --bg: ${p.background};
+      --surface: ${p.surface};
+      --surface-alt: ${p.surfaceAlt};
+      --text: ${p.text};
+      --muted: ${p.muted};
+      --accent: ${p.accent};
+      --accent-alt: ${p.accentAlt};
+      --border: ${p.border};
+      --shadow: ${p.shadow};
+      --font: ${p.font};
+    }
+  `;
+}
+
+// PDF styling, coloured through the theme variables
 const PDF_STYLES = `
-  <style>
     @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
-    
+
     * {
       margin: 0;
       padding: 0;
       box-sizing: border-box;
     }
-    
+
+    html, body {
+      background: var(--bg);
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+
     body {
-      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
-      color: #1a1a2e;
+      font-family: var(--font);
+      color: var(--text);
       line-height: 1.6;
       padding: 40px;
-      background: linear-gradient(135deg, #f8f9ff 0%, #f0f4ff 100%);
     }
-    
+
+    a {
+      color: inherit;
+      text-decoration: none;
+    }
+
     .header {
       text-align: center;
       margin-bottom: 40px;
       padding-bottom: 20px;
-      border-bottom: 2px solid #8B5CF6;
+      border-bottom: 2px solid var(--accent);
     }
-    
+
     .header h1 {
       font-size: 28px;
       font-weight: 700;
-      color: #8B5CF6;
+      color: var(--accent);
       margin-bottom: 8px;
     }
-    
-    .header .subtitle {
+
+    .header .subtitle,
+    .subtitle {
       font-size: 14px;
-      color: #666;
+      color: var(--muted);
+    }
+
+    /* Cover page */
+    .cover {
+      min-height: 90vh;
+      display: flex;
+      flex-direction: column;
+      justify-content: center;
+      text-align: center;
+      page-break-after: always;
+      break-after: page;
+    }
+
+    .cover .moon {
+      font-size: 48px;
+      margin-bottom: 16px;
+    }
+
+    .cover h1 {
+      font-size: 36px;
+      font-weight: 700;
+      color: var(--accent);
+      margin-bottom: 8px;
+    }
+
+    .cover .period {
+      font-size: 16px;
+      color: var(--muted);
+      margin-bottom: 32px;
+    }
+
+    .stat-grid {
+      display: flex;
+      justify-content: center;
+      gap: 16px;
+      margin-bottom: 32px;
+    }
+
+    .stat {
+      flex: 1;
+      max-width: 160px;
+      padding: 16px;
+      border-radius: 12px;
+      background: var(--surface);
+      border: 1px solid var(--border);
+    }
+
+    .stat .value {
+      font-size: 28px;
+      font-weight: 700;
+      color: var(--accent);
+    }
+
+    .stat .label {
+      font-size: 11px;
+      color: var(--muted);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .cover-section {
+      text-align: left;
+      max-width: 460px;
+      margin: 0 auto 24px;
+      width: 100%;
+    }
+
+    .cover-section h3,
+    .toc h2 {
+      font-size: 13px;
+      font-weight: 600;
+      color: var(--accent);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      margin-bottom: 12px;
     }
-    
+
+    .mood-row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 12px;
+      margin-bottom: 6px;
+    }
+
+    .mood-row .name {
+      width: 110px;
+    }
+
+    .mood-row .bar {
+      flex: 1;
+      height: 8px;
+      border-radius: 4px;
+      background: var(--surface-alt);
+      overflow: hidden;
+    }
+
+    .mood-row .fill {
+      height: 100%;
+      border-radius: 4px;
+    }
+
+    .mood-row .count {
+      width: 28px;
+      text-align: right;
+      color: var(--muted);
+    }
+
+    /* Table of contents */
+    .toc {
+      page-break-after: always;
+      break-after: page;
+    }
+
+    .toc ol {
+      list-style: none;
+    }
+
+    .toc li {
+      display: flex;
+      gap: 12px;
+      font-size: 12px;
+      padding: 6px 0;
+      border-bottom: 1px dotted var(--border);
+      page-break-inside: avoid;
+    }
+
+    .toc .toc-date {
+      width: 90px;
+      flex-shrink: 0;
+      color: var(--muted);
+    }
+
+    .toc .toc-title {
+      flex: 1;
+    }
+
     .dream-card {
-      background: white;
+      background: var(--surface);
       border-radius: 16px;
       padding: 24px;
       margin-bottom: 24px;
-      box-shadow: 0 4px 20px rgba(139, 92, 246, 0.1);
-      border: 1px solid rgba(139, 92, 246, 0.1);
-      page-break-inside: avoid;
+      box-shadow: var(--shadow);
+      border: 1px solid var(--border);
     }
-    
+
+    .page-break-dream .dream-card + .dream-card {
+      page-break-before: always;
+      break-before: page;
+    }
+
     .dream-date {
       font-size: 12px;
-      color: #8B5CF6;
+      color: var(--accent);
       font-weight: 600;
       text-transform: uppercase;
       letter-spacing: 0.5px;
       margin-bottom: 12px;
     }
-    
+
     .dream-content {
-      background: linear-gradient(135deg, #f8f4ff 0%, #f0f4ff 100%);
+      background: var(--surface-alt);
       border-radius: 12px;
       padding: 16px;
       margin-bottom: 16px;
-      border-left: 4px solid #8B5CF6;
+      border-left: 4px solid var(--accent);
     }
-    
+
     .dream-content h3 {
       font-size: 14px;
       font-weight: 600;
-      color: #8B5CF6;
+      color: var(--accent);
       margin-bottom: 8px;
     }
-    
+
     .dream-content p {
       font-size: 14px;
-      color: #333;
       font-style: italic;
+      white-space: pre-wrap;
     }
-    
+
     .interpretation {
-      padding: 16px 0;
+      padding: 16px 0 0;
     }
-    
-    .interpretation h3 {
+
+    .interpretation > h3 {
       font-size: 14px;
       font-weight: 600;
-      color: #06B6D4;
+      color: var(--accent-alt);
       margin-bottom: 12px;
     }
-    
+
     .interpretation-text {
       font-size: 13px;
-      color: #444;
       white-space: pre-wrap;
     }
-    
+
+    /* Structured interpretation sections */
+    .section {
+      margin-bottom: 16px;
+      page-break-inside: avoid;
+      break-inside: avoid;
+    }
+
+    .section h4 {
+      font-size: 12px;
+      font-weight: 600;
+      color: var(--muted);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      margin-bottom: 8px;
+    }
+
+    .section p,
+    .section li {
+      font-size: 13px;
+    }
+
+    .summary {
+      font-size: 14px;
+      font-weight: 500;
+    }
+
+    .confidence {
+      font-size: 11px;
+      color: var(--muted);
+      margin-top: 4px;
+    }
+
+    .symbol {
+      display: flex;
+      gap: 10px;
+      margin-bottom: 8px;
+    }
+
+    .dot {
+      width: 8px;
+      height: 8px;
+      border-radius: 4px;
+      margin-top: 7px;
+      flex-shrink: 0;
+    }
+
+    .symbol-name {
+      font-weight: 600;
+    }
+
+    .relevance {
+      font-size: 10px;
+      font-weight: 600;
+      margin-left: 6px;
+      text-transform: uppercase;
+    }
+
+    .muted {
+      color: var(--muted);
+    }
+
+    .emotions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin: 6px 0;
+    }
+
+    .emotion {
+      font-size: 11px;
+      padding: 2px 10px;
+      border-radius: 20px;
+      border: 1px solid var(--border);
+    }
+
+    .connection {
+      display: flex;
+      gap: 12px;
+      padding: 12px;
+      border-radius: 12px;
+      background: var(--surface-alt);
+      margin-bottom: 8px;
+    }
+
+    .connection-icon {
+      width: 28px;
+      height: 28px;
+      border-radius: 14px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      flex-shrink: 0;
+    }
+
+    .connection-area {
+      font-size: 12px;
+      font-weight: 600;
+    }
+
+    .action {
+      font-size: 12px;
+      margin-top: 4px;
+      color: var(--accent-alt);
+    }
+
+    .key-message {
+      padding: 12px 16px;
+      border-radius: 12px;
+      border: 1px solid var(--accent);
+      font-size: 14px;
+      font-style: italic;
+    }
+
+    .questions {
+      padding-left: 20px;
+    }
+
+    .questions li {
+      margin-bottom: 4px;
+    }
+
     .tags {
       display: flex;
       flex-wrap: wrap;
       gap: 8px;
       margin-top: 16px;
       padding-top: 16px;
-      border-top: 1px solid #eee;
+      border-top: 1px solid var(--border);
     }
-    
+
     .tag {
-      background: linear-gradient(135deg, #8B5CF6 0%, #06B6D4 100%);
-      color: white;
+      background: linear-gradient(135deg, var(--accent) 0%, var(--accent-alt) 100%);
+      color: var(--bg);
       padding: 4px 12px;
       border-radius: 20px;
       font-size: 11px;
       font-weight: 500;
     }
-    
+
     .mood-indicator {
       display: inline-block;
       padding: 4px 12px;
@@ -129,73 +507,66 @@ const PDF_STYLES = `
       font-weight: 500;
       margin-left: 8px;
     }
-    
-    .mood-anxious { background: #FEE2E2; color: #991B1B; }
-    .mood-happy { background: #D1FAE5; color: #065F46; }
-    .mood-sad { background: #DBEAFE; color: #1E40AF; }
-    .mood-peaceful { background: #E0E7FF; color: #3730A3; }
-    .mood-confused { background: #FEF3C7; color: #92400E; }
-    .mood-nostalgic { background: #FCE7F3; color: #9D174D; }
-    .mood-neutral { background: #F3F4F6; color: #374151; }
-    
+
     .footer {
       text-align: center;
       margin-top: 40px;
       padding-top: 20px;
-      border-top: 1px solid #ddd;
-      color: #888;
+      border-top: 1px solid var(--border);
+      color: var(--muted);
       font-size: 11px;
     }
-    
+
     .footer .logo {
       font-size: 16px;
       margin-bottom: 8px;
     }
-    
+
     @media print {
       body {
-        background: white;
         padding: 20px;
       }
       .dream-card {
         box-shadow: none;
-        border: 1px solid #ddd;
       }
     }
-  </style>
 `;
 
-// Mood labels
-const MOOD_LABELS: Record<string, string> = {
-  anxious: "Ahdistunut",
-  happy: "Iloinen",
-  sad: "Surullinen",
-  peaceful: "Rauhallinen",
-  confused: "Hämmentynyt",
-  nostalgic: "Nostalginen",
-  neutral: "Neutraali",
+const RELEVANCE_LABEL_KEYS: Record<Symbol["relevance"], TranslationKey> = {
+  high: "relevanceHigh",
+  medium: "relevanceMedium",
+  low: "relevanceLow",
+};
+
+const CONFIDENCE_LABEL_KEYS: Record<DreamInterpretation["confidence"], TranslationKey> = {
+  high: "interpretationHighConfidence",
+  medium: "interpretationMediumConfidence",
+  low: "interpretationLowConfidence",
 };
 
-// Tag labels
-const TAG_LABELS: Record<string, string> = {
-  lentäminen: "Lentäminen",
-  vesi: "Vesi",
-  putoaminen: "Putoaminen",
-  jahtaaminen: "Jahtaaminen",
-  perhe: "Perhe",
-  työ: "Työ",
-  koulu: "Koulu",
-  eläimet: "Eläimet",
-  kuolema: "Kuolema",
-  rakkaus: "Rakkaus",
+// Inline SVG bodies for the life area icons, which have no font in the PDF
+const LIFE_AREA_ICONS: Record<string, string> = {
+  briefcase:
+    '<rect x="2" y="7" width="20" height="14" rx="2" ry="2"/><path d="M16 21V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v16"/>',
+  heart:
+    '<path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"/>',
+  "trending-up": '<polyline points="23 6 13.5 15.5 8.5 10.5 1 18"/><polyline points="17 6 23 6 23 12"/>',
+  activity: '<polyline points="22 12 18 12 15 21 9 3 6 12 2 12"/>',
+  palette:
+    '<path d="M12 2C6.5 2 2 6.5 2 12s4.5 10 10 10c.93 0 1.65-.75 1.65-1.69 0-.44-.18-.84-.44-1.13-.29-.29-.44-.65-.44-1.13a1.64 1.64 0 0 1 1.67-1.67h2c3.05 0 5.55-2.5 5.55-5.55C21.97 6.01 17.46 2 12 2z"/><circle cx="7.5" cy="10.5" r="1"/><circle cx="10.5" cy="6.5" r="1"/><circle cx="15.5" cy="7.5" r="1"/>',
+  sun:
+    '<circle cx="12" cy="12" r="5"/><line x1="12" y1="1" x2="12" y2="3"/><line x1="12" y1="21" x2="12" y2="23"/><line x1="4.22" y1="4.22" x2="5.64" y2="5.64"/><line x1="18.36" y1="18.36" x2="19.78" y2="19.78"/><line x1="1" y1="12" x2="3" y2="12"/><line x1="21" y1="12" x2="23" y2="12"/><line x1="4.22" y1="19.78" x2="5.64" y2="18.36"/><line x1="18.36" y1="5.64" x2="19.78" y2="4.22"/>',
+  users:
+    '<path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/><path d="M23 21v-2a4 4 0 0 0-3-3.87"/><path d="M16 3.13a4 4 0 0 1 0 7.75"/>',
+  "dollar-sign":
+    '<line x1="12" y1="1" x2="12" y2="23"/><path d="M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"/>',
 };
 
 /**
- * Format date in Finnish
+ * Format date and time in the app language
  */
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString("fi-FI", {
+function formatDateTime(dateString: string): string {
+  return formatDate(dateString, {
     weekday: "long",
     year: "numeric",
     month: "long",
@@ -208,7 +579,7 @@ function formatDate(dateString: string): string {
 /**
  * Escape HTML special characters
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -217,70 +588,292 @@ function escapeHtml(text: string): string {
     .replace(/'/g, "&#039;");
 }
 
+/**
+ * Life area icon as an inline SVG
+ */
+function lifeAreaIcon(icon: string, color: string): string {
+  const body = LIFE_AREA_ICONS[icon] ?? '<circle cx="12" cy="12" r="6"/>';
+  return `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="${color}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${body}</svg>`;
+}
+
+/**
+ * Generate HTML for a structured interpretation, one block per section
+ */
+function generateStructuredHtml(interpretation: DreamInterpretation): string {
+  const symbols = interpretation.symbols
+    .map((symbol) => {
+      const color = relevanceColors[symbol.relevance];
+      return `
+        <div class="symbol">
+          <span class="dot" style="background: ${color}"></span>
+          <div>
+            <span class="symbol-name">${escapeHtml(symbol.symbol)}</span>
+            <span class="relevance" style="color: ${color}">${t(RELEVANCE_LABEL_KEYS[symbol.relevance])}</span>
+            <p>${escapeHtml(symbol.meaning)}</p>
+          </div>
+        </div>
+      `;
+    })
+    .join("");
+
+  const { emotionalAnalysis } = interpretation;
+  const secondaryEmotions = emotionalAnalysis.secondaryEmotions
+    .map((emotion) => `<span class="emotion">${escapeHtml(emotion)}</span>`)
+    .join("");
+
+  const connections = interpretation.lifeConnections
+    .map((connection) => {
+      const config = lifeAreaConfig[connection.area];
+      return `
+        <div class="connection">
+          <div class="connection-icon" style="background: ${config.color}20">
+            ${lifeAreaIcon(config.icon, config.color)}
+          </div>
+          <div>
+            <div class="connection-area" style="color: ${config.color}">${t(config.labelKey)}</div>
+            <p>${escapeHtml(connection.insight)}</p>
+            ${
+              connection.actionSuggestion
+                ? `<div class="action">→ ${escapeHtml(connection.actionSuggestion)}</div>`
+                : ""
+            }
+          </div>
+        </div>
+      `;
+    })
+    .join("");
+
+  const questions = interpretation.reflectionQuestions
+    .map((question) => `<li>${escapeHtml(question)}</li>`)
+    .join("");
+
+  return `
+    <div class="section">
+      <p class="summary">${escapeHtml(interpretation.summary)}</p>
+      <p class="confidence">${t(CONFIDENCE_LABEL_KEYS[interpretation.confidence])}</p>
+    </div>
+
+    <div class="section">
+      <h4>${t("interpretationSymbols")}</h4>
+      ${symbols}
+    </div>
+
+    <div class="section">
+      <h4>${t("interpretationEmotions")}</h4>
+      <p><strong>${t("interpretationPrimaryEmotion")}:</strong> ${escapeHtml(emotionalAnalysis.primaryEmotion)}</p>
+      ${secondaryEmotions ? `<div class="emotions">${secondaryEmotions}</div>` : ""}
+      <p>${escapeHtml(emotionalAnalysis.subconscious)}</p>
+      ${
+        emotionalAnalysis.jungianPerspective
+          ? `<p class="muted">${escapeHtml(emotionalAnalysis.jungianPerspective)}</p>`
+          : ""
+      }
+    </div>
+
+    <div class="section">
+      <h4>${t("interpretationConnections")}</h4>
+      ${connections}
+    </div>
+
+    <div class="section">
+      <h4>${t("interpretationKeyMessage")}</h4>
+      <p class="key-message">${escapeHtml(interpretation.keyMessage)}</p>
+    </div>
+
+    <div class="section">
+      <h4>${t("interpretationQuestions")}</h4>
+      <ol class="questions">${questions}</ol>
+    </div>
+
+    ${
+      interpretation.premium
+        ? `
+      <div class="section">
+        <h4>${t("interpretationDeepAnalysis")}</h4>
+        <p>${escapeHtml(interpretation.premium.deepAnalysis)}</p>
+      </div>
+    `
+        : ""
+    }
+  `;
+}
+
 /**
  * Generate HTML for a single dream
  */
-function generateDreamHtml(dream: Dream): string {
+function generateDreamHtml(dream: Dream, index: number): string {
   const tags = (dream.tags || [])
-    .map((tag) => `<span class="tag">${TAG_LABELS[tag] || tag}</span>`)
+    .map((tag) => `<span class="tag">${escapeHtml(getSymbolLabel(tag, getLocale()))}</span>`)
     .join("");
 
-  const moodClass = `mood-${dream.mood || "neutral"}`;
-  const moodLabel = MOOD_LABELS[dream.mood || "neutral"] || "Neutraali";
+  const mood = dream.mood ?? "neutral";
+  const moodColor = moodColors[mood];
+  const structured = getStructuredInterpretation(dream);
+
+  let interpretation = "";
+  if (structured) {
+    interpretation = generateStructuredHtml(structured);
+  } else if (dream.interpretation) {
+    interpretation = `<div class="interpretation-text">${escapeHtml(dream.interpretation)}</div>`;
+  }
 
   return `
-    <div class="dream-card">
+    <div class="dream-card" id="dream-${index}">
       <div class="dream-date">
-        ${formatDate(dream.createdAt)}
-        <span class="mood-indicator ${moodClass}">${moodLabel}</span>
+        ${formatDateTime(dream.createdAt)}
+        <span class="mood-indicator" style="background: ${moodColor}22; color: ${moodColor}">${t(moodLabelKeys[mood])}</span>
       </div>
-      
+
       <div class="dream-content">
-        <h3>🌙 Uni</h3>
+        <h3>🌙 ${t("pdfDream")}</h3>
         <p>${escapeHtml(dream.content)}</p>
       </div>
-      
+
+      ${
+        interpretation
+          ? `
       <div class="interpretation">
-        <h3>✨ Tulkinta</h3>
-        <div class="interpretation-text">${escapeHtml(dream.interpretation)}</div>
+        <h3>✨ ${t("pdfInterpretation")}</h3>
+        ${interpretation}
       </div>
-      
+      `
+          : ""
+      }
+
       ${tags ? `<div class="tags">${tags}</div>` : ""}
     </div>
   `;
 }
 
+function formatShortDate(date: Date): string {
+  return formatDate(date, {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  });
+}
+
 /**
- * Generate full PDF HTML
+ * Generate the cover page with statistics for the exported period
  */
-function generatePdfHtml(dreams: Dream[], title: string = "Unipäiväkirja"): string {
+function generateCoverHtml(dreams: Dream[], title: string): string {
+  const stats = computeDreamStats(dreams);
+  const times = dreams.map((dream) => new Date(dream.createdAt).getTime());
+  const first = new Date(Math.min(...times));
+  const last = new Date(Math.max(...times));
+  const days = Math.round((last.getTime() - first.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const interpreted = dreams.filter((dream) => dream.interpretation.length > 0).length;
+
+  const moods = (Object.entries(stats.moodDistribution) as [Mood, number][])
+    .sort(([, a], [, b]) => b - a)
+    .map(([mood, count]) => {
+      const percent = Math.round((count / stats.total) * 100);
+      return `
+        <div class="mood-row">
+          <span class="name">${t(moodLabelKeys[mood])}</span>
+          <span class="bar"><span class="fill" style="display: block; width: ${percent}%; background: ${moodColors[mood]}"></span></span>
+          <span class="count">${count}</span>
+        </div>
+      `;
+    })
+    .join("");
+
+  const tags = stats.topTags
+    .map(({ tag, count }) => `<span class="tag">${escapeHtml(getSymbolLabel(tag, getLocale()))} · ${count}</span>`)
+    .join("");
+
+  return `
+    <section class="cover">
+      <div class="moon">🌙</div>
+      <h1>${escapeHtml(title)}</h1>
+      <p class="period">${formatShortDate(first)} – ${formatShortDate(last)}</p>
+
+      <div class="stat-grid">
+        <div class="stat"><div class="value">${stats.total}</div><div class="label">${t("reportStatDreams")}</div></div>
+        <div class="stat"><div class="value">${days}</div><div class="label">${t("pdfStatDays")}</div></div>
+        <div class="stat"><div class="value">${interpreted}</div><div class="label">${t("pdfStatInterpreted")}</div></div>
+      </div>
+
+      ${moods ? `<div class="cover-section"><h3>${t("pdfMoods")}</h3>${moods}</div>` : ""}
+      ${tags ? `<div class="cover-section"><h3>${t("pdfTopThemes")}</h3><div class="tags">${tags}</div></div>` : ""}
+    </section>
+  `;
+}
+
+/**
+ * Generate the table of contents linking to each dream
+ */
+function generateTocHtml(dreams: Dream[]): string {
+  const entries = dreams
+    .map((dream, index) => {
+      const summary = getStructuredInterpretation(dream)?.summary ?? dream.content;
+      const title = summary.length > 80 ? `${summary.slice(0, 80).trimEnd()}…` : summary;
+      return `
+        <li>
+          <span class="toc-date">${formatShortDate(new Date(dream.createdAt))}</span>
+          <a class="toc-title" href="#dream-${index}">${escapeHtml(title)}</a>
+        </li>
+      `;
+    })
+    .join("");
+
+  return `
+    <section class="toc">
+      <h2>${t("pdfContents")}</h2>
+      <ol>${entries}</ol>
+    </section>
+  `;
+}
+
+/**
+ * Generate full PDF HTML. Journals of several dreams get a cover page
+ * and, unless disabled, a table of contents.
+ */
+function generatePdfHtml(dreams: Dream[], options: PdfExportOptions = {}): string {
+  const {
+    title = t("settingsPdfTitle"),
+    theme = "light",
+    pageBreak = "flow",
+    tableOfContents = true,
+  } = options;
+  const isJournal = dreams.length > 1;
   const dreamsHtml = dreams.map(generateDreamHtml).join("");
-  const exportDate = new Date().toLocaleDateString("fi-FI", {
+  const exportDate = formatDate(new Date(), {
     year: "numeric",
     month: "long",
     day: "numeric",
   });
 
+  const intro = isJournal
+    ? `${generateCoverHtml(dreams, title)}${tableOfContents ? generateTocHtml(dreams) : ""}`
+    : `
+      <div class="header">
+        <h1>🌙 ${escapeHtml(title)}</h1>
+        <p class="subtitle">${t("pdfSubtitle", { date: exportDate, count: dreams.length })}</p>
+      </div>
+    `;
+
   return `
     <!DOCTYPE html>
-    <html lang="fi">
+    <html lang="${getLocale()}">
     <head>
       <meta charset="UTF-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${title}</title>
-      ${PDF_STYLES}
+      <title>${escapeHtml(title)}</title>
+      <style>
+        ${themeVariables(theme)}
+        ${PDF_STYLES}
+      </style>
     </head>
-    <body>
-      <div class="header">
-        <h1>🌙 ${title}</h1>
-        <p class="subtitle">Viety ${exportDate} • ${dreams.length} unta</p>
-      </div>
-      
+    <body class="page-break-${pageBreak}">
+      ${intro}
+
       ${dreamsHtml}
-      
+
       <div class="footer">
         <div class="logo">🌙✨🔮</div>
-        <p>Luotu DreamAI-sovelluksella</p>
+        <p>${t("pdfExportedAt", { date: exportDate })}</p>
+        <p>${t("pdfCreatedWith")}</p>
         <p>dreamai.app</p>
       </div>
     </body>
@@ -291,10 +884,13 @@ function generatePdfHtml(dreams: Dream[], title: string = "Unipäiväkirja"): st
 /**
  * Export single dream as PDF
  */
-export async function exportDreamAsPdf(dream: Dream): Promise<void> {
+export async function exportDreamAsPdf(
+  dream: Dream,
+  options: PdfExportOptions = {}
+): Promise<void> {
   try {
-    const html = generatePdfHtml([dream], "Unitulkinta");
-    
+    const html = generatePdfHtml([dream], { title: t("pdfSingleTitle"), ...options });
+
     const { uri } = await Print.printToFileAsync({
       html,
       base64: false,
@@ -304,13 +900,13 @@ export async function exportDreamAsPdf(dream: Dream): Promise<void> {
     if (await Sharing.isAvailableAsync()) {
       await Sharing.shareAsync(uri, {
         mimeType: "application/pdf",
-        dialogTitle: "Jaa unitulkinta",
+        dialogTitle: t("pdfShareDream"),
         UTI: "com.adobe.pdf",
       });
     }
   } catch (error) {
     console.error("Error exporting dream:", error);
-    throw new Error("PDF-vienti epäonnistui");
+    throw new Error(t("pdfFailed"));
   }
 }
 
@@ -319,14 +915,14 @@ export async function exportDreamAsPdf(dream: Dream): Promise<void> {
  */
 export async function exportDreamsAsPdf(
   dreams: Dream[],
-  title: string = "Unipäiväkirja"
+  options: PdfExportOptions = {}
 ): Promise<void> {
   try {
     if (dreams.length === 0) {
-      throw new Error("Ei vietäviä unia");
+      throw new Error(t("settingsNothingToExport"));
     }
 
-    const html = generatePdfHtml(dreams, title);
+    const html = generatePdfHtml(dreams, options);
 
     const { uri } = await Print.printToFileAsync({
       html,
@@ -337,13 +933,13 @@ export async function exportDreamsAsPdf(
     if (await Sharing.isAvailableAsync()) {
       await Sharing.shareAsync(uri, {
         mimeType: "application/pdf",
-        dialogTitle: "Jaa unipäiväkirja",
+        dialogTitle: t("pdfShareJournal"),
         UTI: "com.adobe.pdf",
       });
     }
   } catch (error) {
     console.error("Error exporting dreams:", error);
-    throw new Error("PDF-vienti epäonnistui");
+    throw new Error(t("pdfFailed"));
   }
 }
 
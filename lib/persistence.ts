@@ -0,0 +1,122 @@
+/**
+ * Validated AsyncStorage access
+ *
+ * Reads JSON blobs through a zod schema. Data that cannot be parsed or does
+ * not match its schema is moved aside under a quarantine key instead of
+ * being dropped, so a bad write never silently wipes a user's journal.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { z } from "zod";
+
+// Prefix for quarantined copies of unreadable data
+const QUARANTINE_PREFIX = "@dreamai_quarantine:";
+
+export type QuarantinedEntry = {
+  key: string; // Original storage key
+  quarantinedAt: string; // ISO date string
+  reason: string;
+  raw: string; // Untouched stored value
+};
+
+/**
+ * Move an unreadable value out of its key so the app can start fresh
+ * while keeping the original data for recovery
+ */
+export async function quarantineStoredValue(
+  key: string,
+  raw: string,
+  reason: string
+): Promise<void> {
+  const entry: QuarantinedEntry = {
+    key,
+    quarantinedAt: new Date().toISOString(),
+    reason,
+    raw,
+  };
+
+  try {
+    await AsyncStorage.setItem(
+      `${QUARANTINE_PREFIX}${key}:${Date.now()}`,
+      JSON.stringify(entry)
+    );
+    await AsyncStorage.removeItem(key);
+    console.warn(`[Storage] Quarantined "${key}": ${reason}`);
+  } catch (error) {
+    // Leave the original in place if the copy could not be written
+    console.error(`[Storage] Failed to quarantine "${key}":`, error);
+  }
+}
+
+// Turns a stored value into JSON text (e.g. decrypts it); null if unreadable
+export type StoredValueDecoder = (raw: string) => string | null;
+
+/**
+ * Validate a raw stored string against a schema.
+ * Quarantines the value and returns null if it is unreadable. The
+ * quarantined copy is always the stored value, never the decoded one.
+ */
+export async function parseStoredJson<T extends z.ZodType>(
+  key: string,
+  raw: string,
+  schema: T,
+  decode?: StoredValueDecoder
+): Promise<z.infer<T> | null> {
+  const text = decode ? decode(raw) : raw;
+  if (text === null) {
+    await quarantineStoredValue(key, raw, "Could not decode");
+    return null;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    await quarantineStoredValue(key, raw, "Invalid JSON");
+    return null;
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    await quarantineStoredValue(key, raw, parsed.error.message);
+    return null;
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Read and validate a JSON value.
+ * Returns null when the key is empty or its data had to be quarantined.
+ */
+export async function readStoredJson<T extends z.ZodType>(
+  key: string,
+  schema: T,
+  decode?: StoredValueDecoder
+): Promise<z.infer<T> | null> {
+  const raw = await AsyncStorage.getItem(key);
+  if (raw === null) {
+    return null;
+  }
+
+  return parseStoredJson(key, raw, schema, decode);
+}
+
+/**
+ * List all quarantined values (newest first)
+ */
+export async function getQuarantinedEntries(): Promise<QuarantinedEntry[]> {
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter((k) =>
+      k.startsWith(QUARANTINE_PREFIX)
+    );
+    const pairs = await AsyncStorage.multiGet(keys);
+
+    return pairs
+      .flatMap(([, value]) => (value ? [JSON.parse(value) as QuarantinedEntry] : []))
+      .sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+  } catch (error) {
+    console.error("[Storage] Failed to read quarantine:", error);
+    return [];
+  }
+}
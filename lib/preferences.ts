@@ -0,0 +1,72 @@
+/**
+ * User preferences set on the settings screen
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getHapticsEnabled, setHapticsEnabled } from "@/lib/haptics";
+import { isLocale, type Locale } from "@/lib/i18n";
+
+// Storage keys
+export const PREFERENCE_STORAGE_KEYS = {
+  language: "@unitulkki_language",
+  interpretationLength: "@unitulkki_interpretation_length",
+};
+
+export type Language = Locale;
+export type InterpretationLength = "short" | "normal" | "long";
+
+export type Preferences = {
+  language: Language;
+  interpretationLength: InterpretationLength;
+  hapticsEnabled: boolean;
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  language: "fi",
+  interpretationLength: "normal",
+  hapticsEnabled: true,
+};
+
+/**
+ * Load all preferences, falling back to defaults for unknown values
+ */
+export async function getPreferences(): Promise<Preferences> {
+  try {
+    const [language, interpretationLength, hapticsEnabled] = await Promise.all([
+      AsyncStorage.getItem(PREFERENCE_STORAGE_KEYS.language),
+      AsyncStorage.getItem(PREFERENCE_STORAGE_KEYS.interpretationLength),
+      getHapticsEnabled(),
+    ]);
+
+    return {
+      language: isLocale(language) ? language : DEFAULT_PREFERENCES.language,
+      interpretationLength:
+        interpretationLength === "short" ||
+        interpretationLength === "normal" ||
+        interpretationLength === "long"
+          ? interpretationLength
+          : DEFAULT_PREFERENCES.interpretationLength,
+      hapticsEnabled,
+    };
+  } catch (error) {
+    console.error("Error loading preferences:", error);
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/**
+ * Save some or all preferences
+ */
+export async function savePreferences(preferences: Partial<Preferences>): Promise<void> {
+  const { language, interpretationLength, hapticsEnabled } = preferences;
+
+  if (language) {
+    await AsyncStorage.setItem(PREFERENCE_STORAGE_KEYS.language, language);
+  }
+  if (interpretationLength) {
+    await AsyncStorage.setItem(PREFERENCE_STORAGE_KEYS.interpretationLength, interpretationLength);
+  }
+  if (hapticsEnabled !== undefined) {
+    await setHapticsEnabled(hapticsEnabled);
+  }
+}
@@ -7,95 +7,105 @@
  * - Industry average: $7-10/mo, $40-50/yr
  */
 
+import { formatCurrency, type TranslationKey } from "@/lib/i18n";
+
 // Premium tier types
 export type PremiumPlan = "monthly" | "yearly" | "lifetime";
 
+// Texts are translation keys
 export type PremiumFeature = {
   id: string;
-  title: string;
-  description: string;
+  titleKey: TranslationKey;
+  descriptionKey: TranslationKey;
   icon: string;
-  freeLimit?: string;
-  premiumValue: string;
+  freeLimitKey?: TranslationKey;
+  premiumValueKey: TranslationKey;
+};
+
+// Storage keys for trial and free tier usage state
+export const PREMIUM_STORAGE_KEYS = {
+  trialStartDate: "dreamai_trial_start",
+  monthlyUsage: "dreamai_monthly_usage",
+  currentMonth: "dreamai_current_month",
 };
 
 // Pricing configuration (in cents for precision)
 export const PRICING = {
   monthly: {
     price: 999, // $9.99
-    period: "kuukausi",
-    periodShort: "kk",
+    periodKey: "premiumPeriodMonth",
+    periodShortKey: "premiumPeriodMonthShort",
     savings: null,
   },
   yearly: {
     price: 4999, // $49.99
-    period: "vuosi",
-    periodShort: "v",
+    periodKey: "premiumPeriodYear",
+    periodShortKey: "premiumPeriodYearShort",
     savings: 50, // 50% savings vs monthly
     monthlyEquivalent: 417, // $4.17/month
   },
   lifetime: {
     price: 9999, // $99.99
-    period: "ikuisesti",
-    periodShort: "",
+    periodKey: "premiumPeriodLifetime",
+    periodShortKey: null,
     savings: null,
   },
 } as const;
 
-// Format price for display
+// Format price for display in the app language
 export function formatPrice(cents: number): string {
-  return `${(cents / 100).toFixed(2).replace(".", ",")} €`;
+  return formatCurrency(cents / 100);
 }
 
 // Premium features list
 export const PREMIUM_FEATURES: PremiumFeature[] = [
   {
     id: "unlimited",
-    title: "Rajattomat tulkinnat",
-    description: "Tulkitse niin monta unta kuin haluat, ilman rajoituksia",
+    titleKey: "premiumFeatureUnlimited",
+    descriptionKey: "premiumFeatureUnlimitedDesc",
     icon: "infinity",
-    freeLimit: "3 tulkintaa/kk",
-    premiumValue: "Rajaton",
+    freeLimitKey: "premiumFreeLimitInterpretations",
+    premiumValueKey: "premiumValueUnlimited",
   },
   {
     id: "deep_analysis",
-    title: "Syvempi analyysi",
-    description: "Jungilainen arkkityyppianalyysi ja alitajunnan oivallukset",
+    titleKey: "premiumFeatureDeepAnalysis",
+    descriptionKey: "premiumFeatureDeepAnalysisDesc",
     icon: "diamond",
-    freeLimit: "Lukittu",
-    premiumValue: "Täysi pääsy",
+    freeLimitKey: "premiumFreeLimitLocked",
+    premiumValueKey: "premiumValueFullAccess",
   },
   {
     id: "patterns",
-    title: "Unikuvioiden seuranta",
-    description: "Tunnista toistuvat teemat ja symbolit ajan mittaan",
+    titleKey: "premiumFeaturePatterns",
+    descriptionKey: "premiumFeaturePatternsDesc",
     icon: "line-chart",
-    freeLimit: "Ei saatavilla",
-    premiumValue: "Täysi analyysi",
+    freeLimitKey: "premiumFreeLimitUnavailable",
+    premiumValueKey: "premiumValueFullAnalysis",
   },
   {
     id: "visualization",
-    title: "Unien visualisointi",
-    description: "Luo tekoälykuvia unistasi",
+    titleKey: "premiumFeatureVisualization",
+    descriptionKey: "premiumFeatureVisualizationDesc",
     icon: "paint-brush",
-    freeLimit: "Ei saatavilla",
-    premiumValue: "Rajaton",
+    freeLimitKey: "premiumFreeLimitUnavailable",
+    premiumValueKey: "premiumValueUnlimited",
   },
   {
     id: "export",
-    title: "PDF-vienti",
-    description: "Tallenna ja jaa tulkintasi kauniina PDF-dokumenttina",
+    titleKey: "premiumFeatureExport",
+    descriptionKey: "premiumFeatureExportDesc",
     icon: "file-pdf-o",
-    freeLimit: "Ei saatavilla",
-    premiumValue: "Rajaton",
+    freeLimitKey: "premiumFreeLimitUnavailable",
+    premiumValueKey: "premiumValueUnlimited",
   },
   {
     id: "voice",
-    title: "Äänitallenne",
-    description: "Kerro unesi puhumalla heti herättyäsi",
+    titleKey: "premiumFeatureVoice",
+    descriptionKey: "premiumFeatureVoiceDesc",
     icon: "microphone",
-    freeLimit: "Ei saatavilla",
-    premiumValue: "Saatavilla",
+    freeLimitKey: "premiumFreeLimitUnavailable",
+    premiumValueKey: "premiumValueAvailable",
   },
 ];
 
@@ -110,35 +120,35 @@ export const FREE_TIER_LIMITS = {
 };
 
 // Premium benefits for paywall
-export const PREMIUM_BENEFITS = [
+export const PREMIUM_BENEFITS: { emoji: string; titleKey: TranslationKey; highlight: boolean }[] = [
   {
     emoji: "🔮",
-    title: "Rajattomat tulkinnat",
+    titleKey: "premiumFeatureUnlimited",
     highlight: true,
   },
   {
     emoji: "🧠",
-    title: "Syvempi psykologinen analyysi",
+    titleKey: "premiumBenefitDeepAnalysis",
     highlight: true,
   },
   {
     emoji: "📊",
-    title: "Unikuvioiden seuranta",
+    titleKey: "premiumFeaturePatterns",
     highlight: false,
   },
   {
     emoji: "🎨",
-    title: "AI-univisualisoinnit",
+    titleKey: "premiumBenefitVisualization",
     highlight: false,
   },
   {
     emoji: "📄",
-    title: "PDF-vienti",
+    titleKey: "premiumFeatureExport",
     highlight: false,
   },
   {
     emoji: "🎙️",
-    title: "Äänitallenne",
+    titleKey: "premiumFeatureVoice",
     highlight: false,
   },
 ];
@@ -0,0 +1,111 @@
+/**
+ * "About me" profile
+ *
+ * Optional background the user writes about themselves (life situation,
+ * stressors, important people, goals). It is stored only on this device and
+ * sent with an interpretation request only when the profile is turned on
+ * and the user keeps it switched on for that request.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { readStoredJson } from "@/lib/persistence";
+import { storedProfileSchema } from "@/lib/schemas/storage";
+import { t } from "@/lib/i18n";
+
+export const PROFILE_STORAGE_KEY = "@dreamai_profile";
+
+// Longest text kept per field; the backend applies the same limit
+export const MAX_PROFILE_FIELD_LENGTH = 500;
+
+export type ProfileField = "lifeSituation" | "stressors" | "people" | "goals";
+
+export type UserProfile = Record<ProfileField, string> & {
+  enabled: boolean; // Use the profile in interpretations
+  updatedAt?: string;
+};
+
+// Profile fields as sent with an interpretation request
+export type ProfileContext = Partial<Record<ProfileField, string>>;
+
+export const PROFILE_FIELDS: ProfileField[] = ["lifeSituation", "stressors", "people", "goals"];
+
+export const EMPTY_PROFILE: UserProfile = {
+  enabled: false,
+  lifeSituation: "",
+  stressors: "",
+  people: "",
+  goals: "",
+};
+
+/**
+ * Get the saved profile, or an empty one
+ */
+export async function getProfile(): Promise<UserProfile> {
+  try {
+    const saved = await readStoredJson(PROFILE_STORAGE_KEY, storedProfileSchema);
+    return saved ? { ...EMPTY_PROFILE, ...saved } : EMPTY_PROFILE;
+  } catch (error) {
+    console.error("Error getting profile:", error);
+    return EMPTY_PROFILE;
+  }
+}
+
+/**
+ * Save the profile
+ */
+export async function saveProfile(profile: UserProfile): Promise<UserProfile> {
+  const saved: UserProfile = {
+    enabled: profile.enabled,
+    lifeSituation: profile.lifeSituation.trim().slice(0, MAX_PROFILE_FIELD_LENGTH),
+    stressors: profile.stressors.trim().slice(0, MAX_PROFILE_FIELD_LENGTH),
+    people: profile.people.trim().slice(0, MAX_PROFILE_FIELD_LENGTH),
+    goals: profile.goals.trim().slice(0, MAX_PROFILE_FIELD_LENGTH),
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    await AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+  } catch (error) {
+    console.error("Error saving profile:", error);
+    throw new Error(t("profileSaveFailed"));
+  }
+}
+
+/**
+ * Delete the profile from this device
+ */
+export async function deleteProfile(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(PROFILE_STORAGE_KEY);
+  } catch (error) {
+    console.error("Error deleting profile:", error);
+    throw new Error(t("profileDeleteFailed"));
+  }
+}
+
+/**
+ * Check whether the profile is on and has something to send
+ */
+export function hasProfileContext(profile: UserProfile): boolean {
+  return profile.enabled && PROFILE_FIELDS.some((field) => profile[field].trim().length > 0);
+}
+
+/**
+ * Profile fields to send with a request; undefined when the profile is off
+ * or empty
+ */
+export function toProfileContext(profile: UserProfile): ProfileContext | undefined {
+  if (!hasProfileContext(profile)) {
+    return undefined;
+  }
+
+  const context: ProfileContext = {};
+  for (const field of PROFILE_FIELDS) {
+    const value = profile[field].trim();
+    if (value) {
+      context[field] = value;
+    }
+  }
+  return context;
+}
@@ -12,6 +12,8 @@
  */
 
 import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { randomUUID } from "expo-crypto";
 import Purchases, {
   LOG_LEVEL,
   CustomerInfo,
@@ -22,6 +24,7 @@ import Purchases, {
 } from "react-native-purchases";
 import RevenueCatUI, { PAYWALL_RESULT } from "react-native-purchases-ui";
 import { Analytics } from "./analytics";
+import { formatCurrency, t } from "./i18n";
 
 // ============================================================================
 // Debug Logger - Only logs in development
@@ -52,6 +55,15 @@ const REVENUECAT_API_KEY = Platform.select({
 /** Entitlement identifier - grants access to premium features */
 export const ENTITLEMENT_ID = "Unitulkki Pro";
 
+/** Header our API reads the app user ID from */
+export const APP_USER_ID_HEADER = "X-RevenueCat-App-User-Id";
+
+/** Stable ID for API requests when the SDK is not available */
+const INSTALL_ID_STORAGE_KEY = "@dreamai_install_id";
+
+/** How long API requests wait for a pending initialization */
+const INIT_WAIT_MS = 5000;
+
 /** Offering identifiers for different paywall configurations */
 export const OFFERING_IDS = {
   default: "default",
@@ -114,6 +126,7 @@ export type PaywallResult = {
 // ============================================================================
 
 let isInitialized = false;
+let initPromise: Promise<void> | null = null;
 let currentListener: ((info: CustomerInfo) => void) | null = null;
 
 // ============================================================================
@@ -141,6 +154,14 @@ export async function initializeRevenueCat(): Promise<void> {
     );
   }
 
+  // Concurrent callers share the same initialization
+  initPromise ??= configureSdk().finally(() => {
+    initPromise = null;
+  });
+  return initPromise;
+}
+
+async function configureSdk(): Promise<void> {
   try {
     // Development: verbose logs, Production: warnings only
     Purchases.setLogLevel(__DEV__ ? LOG_LEVEL.VERBOSE : LOG_LEVEL.WARN);
@@ -307,7 +328,7 @@ export async function getAvailableProducts(): Promise<ProductInfo[]> {
     let pricePerMonth = product.priceString;
     if (plan === "yearly") {
       const monthlyEquivalent = product.price / 12;
-      pricePerMonth = `${monthlyEquivalent.toFixed(2)} €/kk`;
+      pricePerMonth = `${formatCurrency(monthlyEquivalent, product.currencyCode)}/${t("premiumPeriodMonthShort")}`;
     }
 
     products.push({
@@ -535,10 +556,38 @@ export async function getAppUserID(): Promise<string> {
   return Purchases.getAppUserID();
 }
 
+/**
+ * Headers identifying the user to our API, which checks premium, meters
+ * usage and rate limits per RevenueCat user. Waits briefly for a pending
+ * initialization and falls back to a stable install ID without the SDK
+ * (web, development, failed initialization).
+ */
+export async function getAppUserHeaders(): Promise<Record<string, string>> {
+  if (!isInitialized && initPromise) {
+    await Promise.race([
+      initPromise.catch(() => undefined),
+      new Promise((resolve) => setTimeout(resolve, INIT_WAIT_MS)),
+    ]);
+  }
+
+  const appUserId = isInitialized ? await Purchases.getAppUserID() : await getInstallId();
+  return { [APP_USER_ID_HEADER]: appUserId };
+}
+
 // ============================================================================
 // Internal Helpers
 // ============================================================================
 
+/** Install ID, created on first use */
+async function getInstallId(): Promise<string> {
+  const stored = await AsyncStorage.getItem(INSTALL_ID_STORAGE_KEY);
+  if (stored) return stored;
+
+  const installId = `install_${randomUUID()}`;
+  await AsyncStorage.setItem(INSTALL_ID_STORAGE_KEY, installId);
+  return installId;
+}
+
 function ensureInitialized(): void {
   if (!isInitialized) {
     throw new Error(
@@ -556,33 +605,33 @@ function handlePurchaseError(error: unknown): PurchaseResult {
     return { success: false, cancelled: true };
   }
 
-  // Map error codes to Finnish user-friendly messages
+  // Map error codes to user-friendly messages
   const errorMessages: Partial<Record<PURCHASES_ERROR_CODE, [string, string]>> = {
     [PURCHASES_ERROR_CODE.PAYMENT_PENDING_ERROR]: [
       "PAYMENT_PENDING",
-      "Maksu odottaa vahvistusta",
+      t("purchaseErrorPending"),
     ],
     [PURCHASES_ERROR_CODE.PRODUCT_ALREADY_PURCHASED_ERROR]: [
       "ALREADY_PURCHASED",
-      "Sinulla on jo tämä tilaus",
+      t("purchaseErrorAlreadyPurchased"),
     ],
     [PURCHASES_ERROR_CODE.NETWORK_ERROR]: [
       "NETWORK_ERROR",
-      "Verkkovirhe. Tarkista yhteys.",
+      t("purchaseErrorNetwork"),
     ],
     [PURCHASES_ERROR_CODE.STORE_PROBLEM_ERROR]: [
       "STORE_ERROR",
-      "Ongelma kaupassa. Yritä myöhemmin.",
+      t("purchaseErrorStore"),
     ],
     [PURCHASES_ERROR_CODE.PURCHASE_NOT_ALLOWED_ERROR]: [
       "NOT_ALLOWED",
-      "Ostot eivät ole sallittuja tällä laitteella",
+      t("purchaseErrorNotAllowed"),
     ],
   };
 
   const [errorCode, errorMessage] =
     (rcError.code !== undefined && errorMessages[rcError.code]) ||
-    ["UNKNOWN", rcError.message || "Osto epäonnistui"];
+    ["UNKNOWN", rcError.message || t("purchaseErrorFailed")];
 
   log.error("Purchase error:", errorCode, errorMessage);
   Analytics.purchaseFailed(errorCode, errorMessage);
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import {
+  storedAchievementsSchema,
+  storedAlarmsSchema,
+  storedDreamSchema,
+  storedStreakSettingsSchema,
+} from "@/lib/schemas/storage";
+import { dreamInterpretationSchema } from "@/lib/schemas/dreamInterpretation";
+import { SUPPORTED_LOCALES } from "@/lib/i18n";
+
+/**
+ * Journal backup archive
+ *
+ * A portable JSON file for moving a journal between devices. Bump
+ * BACKUP_VERSION when the shape changes and keep reading older versions.
+ */
+
+export const BACKUP_FORMAT = "unitulkki-backup";
+export const BACKUP_VERSION = 1;
+
+// Dreams in an archive come from outside the app, so the structured
+// interpretation is validated fully instead of trusted. An invalid one is
+// dropped and the dream kept with its text interpretation.
+export const backupDreamSchema = storedDreamSchema.extend({
+  structured: dreamInterpretationSchema.optional().catch(undefined),
+});
+
+export const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  // Validated one by one so a single bad dream does not reject the file
+  dreams: z.array(z.unknown()),
+  streak: z
+    .object({
+      settings: storedStreakSettingsSchema,
+      currentStreak: z.number().int().nonnegative(),
+      longestStreak: z.number().int().nonnegative(),
+    })
+    .partial()
+    .optional(),
+  alarms: storedAlarmsSchema.optional(),
+  notifications: z
+    .object({
+      enabled: z.boolean(),
+      hour: z.number().int().min(0).max(23),
+      minute: z.number().int().min(0).max(59),
+    })
+    .optional(),
+  preferences: z
+    .object({
+      language: z.enum(SUPPORTED_LOCALES),
+      interpretationLength: z.enum(["short", "normal", "long"]),
+      hapticsEnabled: z.boolean(),
+    })
+    .partial()
+    .optional(),
+  achievements: storedAchievementsSchema.optional(),
+});
+
+// Type exports
+export type BackupDream = z.infer<typeof backupDreamSchema>;
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
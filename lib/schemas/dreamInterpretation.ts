@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { TranslationKey } from "@/lib/i18n";
 
 /**
  * Structured Dream Interpretation Schema
@@ -30,19 +31,38 @@ export const lifeConnectionSchema = z.object({
   actionSuggestion: z.string().optional().describe("Suggested action or reflection"),
 });
 
+// Earlier dream from the user's history that this dream relates to
+export const relatedDreamSchema = z.object({
+  dreamId: z.string().describe("Id of the earlier dream, as given in the history"),
+  connection: z.string().describe("What links the two dreams (shared symbol, mood or theme)"),
+});
+
 // Premium insight (for monetization)
 export const premiumInsightSchema = z.object({
   deepAnalysis: z.string().describe("Deeper psychological analysis"),
   archetypeConnection: z.string().optional().describe("Connection to Jungian archetypes"),
-  recurringPatterns: z.string().optional().describe("If this matches common recurring dream patterns"),
+  recurringPatterns: z.string().optional().describe("How this dream repeats symbols or themes from the given dream history"),
 });
 
+// Dream mood, shared by interpretations, saved dreams and pattern analysis
+export const moodSchema = z.enum([
+  "peaceful",
+  "happy",
+  "anxious",
+  "sad",
+  "confused",
+  "nostalgic",
+  "neutral",
+  "excited",
+  "fearful",
+]);
+
 // Main interpretation schema
 export const dreamInterpretationSchema = z.object({
   // Basic interpretation (free tier)
   summary: z.string().describe("Brief 1-2 sentence summary of the dream's meaning"),
 
-  mood: z.enum(["peaceful", "happy", "anxious", "sad", "confused", "nostalgic", "neutral", "excited", "fearful"])
+  mood: moodSchema
     .describe("Overall mood/emotion of the dream"),
 
   symbols: z.array(symbolSchema)
@@ -72,6 +92,12 @@ export const dreamInterpretationSchema = z.object({
     .max(5)
     .describe("Tags for categorizing this dream (e.g., flying, water, chase)"),
 
+  // Links to earlier dreams, only when history was sent with the request
+  relatedDreams: z.array(relatedDreamSchema)
+    .max(3)
+    .optional()
+    .describe("Earlier dreams from the given history that relate to this dream"),
+
   // Premium content (for monetization)
   premium: premiumInsightSchema.optional()
     .describe("Deeper analysis available in premium tier"),
@@ -81,15 +107,21 @@ export const dreamInterpretationSchema = z.object({
     .describe("How confident the interpretation is based on dream detail provided"),
 });
 
+// Version of the structured interpretation shape stored with saved dreams.
+// Bump when dreamInterpretationSchema changes in a non-backwards-compatible way.
+export const STRUCTURED_INTERPRETATION_VERSION = 1;
+
 // Type exports
+export type Mood = z.infer<typeof moodSchema>;
 export type Symbol = z.infer<typeof symbolSchema>;
 export type EmotionalAnalysis = z.infer<typeof emotionalAnalysisSchema>;
 export type LifeConnection = z.infer<typeof lifeConnectionSchema>;
+export type RelatedDream = z.infer<typeof relatedDreamSchema>;
 export type PremiumInsight = z.infer<typeof premiumInsightSchema>;
 export type DreamInterpretation = z.infer<typeof dreamInterpretationSchema>;
 
 // Mood emoji mapping
-export const moodEmojis: Record<DreamInterpretation["mood"], string> = {
+export const moodEmojis: Record<Mood, string> = {
   peaceful: "😌",
   happy: "😊",
   anxious: "😰",
@@ -101,29 +133,45 @@ export const moodEmojis: Record<DreamInterpretation["mood"], string> = {
   fearful: "😨",
 };
 
-// Mood labels in Finnish
-export const moodLabels: Record<DreamInterpretation["mood"], string> = {
-  peaceful: "Rauhallinen",
-  happy: "Iloinen",
-  anxious: "Ahdistunut",
-  sad: "Surullinen",
-  confused: "Hämmentynyt",
-  nostalgic: "Nostalginen",
-  neutral: "Neutraali",
-  excited: "Innostunut",
-  fearful: "Pelottava",
+// Mood colors (calendar markers, charts)
+export const moodColors: Record<Mood, string> = {
+  peaceful: "#10B981",
+  happy: "#F59E0B",
+  anxious: "#EF4444",
+  sad: "#3B82F6",
+  confused: "#A855F7",
+  nostalgic: "#EC4899",
+  neutral: "#64748B",
+  excited: "#F97316",
+  fearful: "#DC2626",
+};
+
+// Mood label translation keys
+export const moodLabelKeys: Record<Mood, TranslationKey> = {
+  peaceful: "moodPeaceful",
+  happy: "moodHappy",
+  anxious: "moodAnxious",
+  sad: "moodSad",
+  confused: "moodConfused",
+  nostalgic: "moodNostalgic",
+  neutral: "moodNeutral",
+  excited: "moodExcited",
+  fearful: "moodFearful",
 };
 
-// Life area icons and labels
-export const lifeAreaConfig: Record<LifeConnection["area"], { icon: string; label: string; color: string }> = {
-  work: { icon: "briefcase", label: "Työ", color: "#3B82F6" },
-  relationships: { icon: "heart", label: "Ihmissuhteet", color: "#EC4899" },
-  personal_growth: { icon: "trending-up", label: "Henkilökohtainen kasvu", color: "#10B981" },
-  health: { icon: "activity", label: "Terveys", color: "#22C55E" },
-  creativity: { icon: "palette", label: "Luovuus", color: "#F59E0B" },
-  spirituality: { icon: "sun", label: "Henkisyys", color: "#8B5CF6" },
-  family: { icon: "users", label: "Perhe", color: "#F97316" },
-  finances: { icon: "dollar-sign", label: "Talous", color: "#14B8A6" },
+// Life area icons and label translation keys
+export const lifeAreaConfig: Record<
+  LifeConnection["area"],
+  { icon: string; labelKey: TranslationKey; color: string }
+> = {
+  work: { icon: "briefcase", labelKey: "lifeAreaWork", color: "#3B82F6" },
+  relationships: { icon: "heart", labelKey: "lifeAreaRelationships", color: "#EC4899" },
+  personal_growth: { icon: "trending-up", labelKey: "lifeAreaPersonalGrowth", color: "#10B981" },
+  health: { icon: "activity", labelKey: "lifeAreaHealth", color: "#22C55E" },
+  creativity: { icon: "palette", labelKey: "lifeAreaCreativity", color: "#F59E0B" },
+  spirituality: { icon: "sun", labelKey: "lifeAreaSpirituality", color: "#8B5CF6" },
+  family: { icon: "users", labelKey: "lifeAreaFamily", color: "#F97316" },
+  finances: { icon: "dollar-sign", labelKey: "lifeAreaFinances", color: "#14B8A6" },
 };
 
 // Relevance colors for symbols
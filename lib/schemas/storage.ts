@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { moodSchema, type DreamInterpretation } from "./dreamInterpretation";
+import { SUPPORTED_LOCALES } from "@/lib/i18n";
+
+/**
+ * Persisted Storage Schemas
+ *
+ * Validators for the JSON blobs kept in AsyncStorage. Objects are loose so
+ * that fields written by a newer app version survive a round trip, and
+ * nested data with its own versioning (structured interpretations) is only
+ * validated where it is read.
+ */
+
+// Earlier interpretation of a saved dream
+export const storedDreamRevisionSchema = z.looseObject({
+  content: z.string(),
+  interpretation: z.string(),
+  structured: z.custom<DreamInterpretation>().optional(),
+  structuredVersion: z.number().int().positive().optional(),
+  language: z.enum(SUPPORTED_LOCALES).optional().catch(undefined),
+  revisedAt: z.string(),
+});
+
+// Message in a follow-up conversation about a dream
+export const storedDreamChatMessageSchema = z.looseObject({
+  id: z.string(),
+  role: z.enum(["user", "assistant"]),
+  text: z.string(),
+  createdAt: z.string(),
+});
+
+// Single saved dream
+export const storedDreamSchema = z.looseObject({
+  id: z.string(),
+  content: z.string(),
+  interpretation: z.string(),
+  createdAt: z.string(),
+  tags: z.array(z.string()).optional(),
+  mood: moodSchema.optional().catch(undefined),
+  moodSource: z.enum(["model", "detected", "user"]).optional(),
+  structured: z.custom<DreamInterpretation>().optional(),
+  structuredVersion: z.number().int().positive().optional(),
+  inputMethod: z.enum(["text", "voice"]).optional(),
+  language: z.enum(SUPPORTED_LOCALES).optional().catch(undefined),
+  revisions: z.array(storedDreamRevisionSchema).optional(),
+  conversation: z.array(storedDreamChatMessageSchema).optional(),
+});
+
+// Index of per-dream keys, newest first
+export const storedDreamIndexEntrySchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+});
+
+export const storedDreamIndexSchema = z.array(storedDreamIndexEntrySchema);
+
+// Streak preferences (streaks themselves are derived from the journal)
+export const storedStreakSettingsSchema = z.looseObject({
+  dayCutoffHour: z.number().int().min(0).max(12),
+});
+
+// Wake-up alarms
+export const storedAlarmSchema = z.looseObject({
+  id: z.string(),
+  hour: z.number().int().min(0).max(23),
+  minute: z.number().int().min(0).max(59),
+  days: z.array(z.number().int().min(0).max(6)),
+  enabled: z.boolean(),
+  label: z.string(),
+  sound: z.string(),
+  vibration: z.boolean(),
+  notificationIds: z.array(z.string()).optional(),
+});
+
+export const storedAlarmsSchema = z.array(storedAlarmSchema);
+
+// Morning reminder time
+export const storedNotificationTimeSchema = z.object({
+  hour: z.number().int().min(0).max(23),
+  minute: z.number().int().min(0).max(59),
+});
+
+// Queued analytics events
+export const storedEventQueueSchema = z.array(z.record(z.string(), z.unknown()));
+
+// Free tier usage counter for the current month
+export const storedMonthlyUsageSchema = z.number().int().nonnegative();
+
+// Last-used history filters
+export const storedDreamFiltersSchema = z.object({
+  moods: z.array(z.string()),
+  tags: z.array(z.string()),
+  datePreset: z.enum(["all", "7d", "30d", "90d", "365d", "custom"]),
+  dateFrom: z.string().nullable(),
+  dateTo: z.string().nullable(),
+  confidence: z.array(z.enum(["high", "medium", "low"])),
+  voiceOnly: z.boolean(),
+  sort: z.enum(["newest", "oldest", "most_symbols"]),
+}).partial();
+
+// Achievement unlocks and event counters
+export const storedAchievementsSchema = z.looseObject({
+  unlocked: z.record(z.string(), z.string()),
+  events: z.record(z.string(), z.number().int().nonnegative()),
+});
+
+// Journal lock settings (the key itself is never stored)
+export const storedJournalLockSchema = z.looseObject({
+  enabled: z.boolean(),
+  salt: z.string(),
+  verifier: z.string(),
+  timeoutMinutes: z.number().int().nonnegative(),
+});
+
+// User additions to the symbol taxonomy
+export const storedSymbolDictionarySchema = z.array(
+  z.looseObject({
+    id: z.string(),
+    label: z.string(),
+    aliases: z.array(z.string()),
+  })
+);
+
+// Opt-in "about me" profile used as interpretation context
+export const storedProfileSchema = z.looseObject({
+  enabled: z.boolean(),
+  lifeSituation: z.string(),
+  stressors: z.string(),
+  people: z.string(),
+  goals: z.string(),
+  updatedAt: z.string().optional(),
+});
+
+// Type exports
+export type StoredDream = z.infer<typeof storedDreamSchema>;
+export type StoredDreamIndexEntry = z.infer<typeof storedDreamIndexEntrySchema>;
+export type StoredStreakSettings = z.infer<typeof storedStreakSettingsSchema>;
+export type StoredAlarm = z.infer<typeof storedAlarmSchema>;
@@ -0,0 +1,327 @@
+/**
+ * Full-text search for the dream journal
+ *
+ * Features:
+ * - Inverted index over content, interpretation, tags and structured symbols
+ * - Light Finnish stemming plus prefix matching, so inflected forms
+ *   ("lensin", "lennän") find each other and the base form ("lentää")
+ * - Incremental updates from the storage facade
+ * - Match ranges for highlighting in the UI
+ *
+ * The index lives in memory and is built lazily from the repository on the
+ * first search after launch.
+ */
+
+import { getAllDreams } from "@/lib/dream-repository";
+import type { Dream } from "@/lib/storage";
+
+// Fields that are indexed, in ranking order
+export type SearchField = "tags" | "symbols" | "content" | "interpretation";
+
+export type SearchResult = {
+  dream: Dream;
+  score: number;
+  fields: SearchField[]; // Fields that matched at least one query term
+};
+
+export type HighlightRange = {
+  start: number;
+  end: number;
+};
+
+// Weight of a match in each field
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  tags: 4,
+  symbols: 3,
+  content: 2,
+  interpretation: 1,
+};
+
+// Stems shorter than this are not shortened further
+const MIN_STEM_LENGTH = 3;
+
+// Query words shorter than this are ignored
+const MIN_QUERY_LENGTH = 2;
+
+// Inflectional endings, longest first. Covers the common noun cases,
+// possessive suffixes and verb person/tense endings.
+const FINNISH_SUFFIXES = [
+  "isimme", "isitte", "isivat", "isivät",
+  "ssani", "ssäni", "staan", "stään", "ineen",
+  "ivat", "ivät", "isin", "isit", "imme", "itte",
+  "nsa", "nsä", "mme", "nne", "vat", "vät",
+  "ssa", "ssä", "sta", "stä", "lla", "llä", "lta", "ltä", "lle",
+  "ksi", "tta", "ttä", "sin", "sit", "taa", "tää", "maan", "mään",
+  "ni", "si", "na", "nä", "en", "an", "än", "in", "ia", "iä",
+  "n", "t", "a", "ä", "i",
+];
+
+// Characters that make up words (Latin letters incl. Nordic, digits)
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// ============================================
+// TEXT PROCESSING
+// ============================================
+
+/**
+ * Reduce a lowercase word to an approximate stem
+ */
+export function stem(word: string): string {
+  for (const suffix of FINNISH_SUFFIXES) {
+    if (
+      word.endsWith(suffix) &&
+      word.length - suffix.length >= MIN_STEM_LENGTH
+    ) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Split text into lowercase words with their positions
+ */
+function tokenizeWithPositions(text: string): { word: string; start: number; end: number }[] {
+  const tokens: { word: string; start: number; end: number }[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      word: match[0].toLowerCase(),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Turn text into unique stems
+ */
+function toStems(text: string): string[] {
+  return [...new Set(tokenizeWithPositions(text).map((t) => stem(t.word)))];
+}
+
+/**
+ * Turn a search query into stems (empty for blank queries)
+ */
+export function parseQuery(query: string): string[] {
+  return toStems(query.trim()).filter((s) => s.length >= MIN_QUERY_LENGTH);
+}
+
+/**
+ * Check whether an indexed stem matches a query stem.
+ * Prefix matching in both directions absorbs consonant gradation
+ * ("lenn" / "len") and partially typed words.
+ */
+function stemMatches(indexStem: string, queryStem: string): boolean {
+  return (
+    indexStem.startsWith(queryStem) ||
+    (indexStem.length >= MIN_STEM_LENGTH && queryStem.startsWith(indexStem))
+  );
+}
+
+/**
+ * Collect the searchable text of a dream per field
+ */
+function getFieldTexts(dream: Dream): Record<SearchField, string> {
+  return {
+    tags: (dream.tags ?? []).join(" "),
+    symbols: (dream.structured?.symbols ?? []).map((s) => s.symbol).join(" "),
+    content: dream.content,
+    interpretation: dream.interpretation,
+  };
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+// stem -> dream id -> fields containing the stem
+let postings: Map<string, Map<string, Set<SearchField>>> | null = null;
+// dream id -> stems, for removal
+let dreamStems = new Map<string, string[]>();
+let dreamsById = new Map<string, Dream>();
+let buildPromise: Promise<void> | null = null;
+// Updates that arrived while the index was being built
+let pendingUpdates: (() => void)[] = [];
+
+/**
+ * Add a dream to a postings map
+ */
+function addToPostings(dream: Dream): void {
+  if (!postings) return;
+
+  const stems = new Set<string>();
+  const fields = getFieldTexts(dream);
+
+  for (const field of Object.keys(fields) as SearchField[]) {
+    for (const s of toStems(fields[field])) {
+      stems.add(s);
+      let byDream = postings.get(s);
+      if (!byDream) {
+        byDream = new Map();
+        postings.set(s, byDream);
+      }
+      let dreamFields = byDream.get(dream.id);
+      if (!dreamFields) {
+        dreamFields = new Set();
+        byDream.set(dream.id, dreamFields);
+      }
+      dreamFields.add(field);
+    }
+  }
+
+  dreamStems.set(dream.id, [...stems]);
+  dreamsById.set(dream.id, dream);
+}
+
+/**
+ * Remove a dream from the postings map
+ */
+function removeFromPostings(id: string): void {
+  if (!postings) return;
+
+  for (const s of dreamStems.get(id) ?? []) {
+    const byDream = postings.get(s);
+    byDream?.delete(id);
+    if (byDream && byDream.size === 0) {
+      postings.delete(s);
+    }
+  }
+
+  dreamStems.delete(id);
+  dreamsById.delete(id);
+}
+
+/**
+ * Build the index from storage once per launch
+ */
+async function ensureIndex(): Promise<void> {
+  if (postings) return;
+
+  if (!buildPromise) {
+    buildPromise = (async () => {
+      const dreams = await getAllDreams();
+      postings = new Map();
+      dreamStems = new Map();
+      dreamsById = new Map();
+      for (const dream of dreams) {
+        addToPostings(dream);
+      }
+      pendingUpdates.forEach((update) => update());
+    })().finally(() => {
+      pendingUpdates = [];
+      buildPromise = null;
+    });
+  }
+
+  await buildPromise;
+}
+
+/**
+ * Add or re-index a dream. No-op until the index has been built.
+ */
+export function indexDream(dream: Dream): void {
+  if (buildPromise) {
+    pendingUpdates.push(() => {
+      removeFromPostings(dream.id);
+      addToPostings(dream);
+    });
+    return;
+  }
+  removeFromPostings(dream.id);
+  addToPostings(dream);
+}
+
+/**
+ * Remove a dream from the index
+ */
+export function unindexDream(id: string): void {
+  if (buildPromise) {
+    pendingUpdates.push(() => removeFromPostings(id));
+    return;
+  }
+  removeFromPostings(id);
+}
+
+/**
+ * Drop the whole index (rebuilt on next search)
+ */
+export function resetSearchIndex(): void {
+  postings = null;
+  dreamStems = new Map();
+  dreamsById = new Map();
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Search dreams. Every query term must match; results are ranked by
+ * field weight, then newest first.
+ */
+export async function searchDreams(query: string): Promise<SearchResult[]> {
+  const queryStems = parseQuery(query);
+  if (queryStems.length === 0) {
+    return [];
+  }
+
+  await ensureIndex();
+  if (!postings) return [];
+
+  let matches: Map<string, { score: number; fields: Set<SearchField> }> | null = null;
+
+  for (const queryStem of queryStems) {
+    // Union of all indexed stems matching this query term
+    const termMatches = new Map<string, Set<SearchField>>();
+    for (const [indexStem, byDream] of postings) {
+      if (!stemMatches(indexStem, queryStem)) continue;
+      for (const [id, fields] of byDream) {
+        const existing = termMatches.get(id) ?? new Set<SearchField>();
+        fields.forEach((f) => existing.add(f));
+        termMatches.set(id, existing);
+      }
+    }
+
+    // Intersect with previous terms
+    const next = new Map<string, { score: number; fields: Set<SearchField> }>();
+    for (const [id, fields] of termMatches) {
+      const previous = matches ? matches.get(id) : { score: 0, fields: new Set<SearchField>() };
+      if (!previous) continue;
+
+      const termScore = Math.max(...[...fields].map((f) => FIELD_WEIGHTS[f]));
+      fields.forEach((f) => previous.fields.add(f));
+      next.set(id, { score: previous.score + termScore, fields: previous.fields });
+    }
+    matches = next;
+  }
+
+  const results: SearchResult[] = [];
+  for (const [id, match] of matches ?? []) {
+    const dream = dreamsById.get(id);
+    if (dream) {
+      results.push({ dream, score: match.score, fields: [...match.fields] });
+    }
+  }
+
+  return results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      new Date(b.dream.createdAt).getTime() - new Date(a.dream.createdAt).getTime()
+  );
+}
+
+/**
+ * Find the ranges of words in `text` that match the query, for highlighting
+ */
+export function getHighlightRanges(text: string, query: string): HighlightRange[] {
+  const queryStems = parseQuery(query);
+  if (queryStems.length === 0) {
+    return [];
+  }
+
+  return tokenizeWithPositions(text)
+    .filter((token) => queryStems.some((q) => stemMatches(stem(token.word), q)))
+    .map(({ start, end }) => ({ start, end }));
+}
@@ -1,4 +1,29 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  dreamInterpretationSchema,
+  moodLabelKeys,
+  STRUCTURED_INTERPRETATION_VERSION,
+  type DreamInterpretation,
+  type Mood,
+} from "@/lib/schemas/dreamInterpretation";
+import {
+  getAllDreams,
+  getDream,
+  getDreamIndex,
+  getDreamPage,
+  putDream,
+  putDreams,
+  removeAllDreams,
+  removeDream,
+  updateDreamRecord,
+  type DreamPage,
+} from "@/lib/dream-repository";
+import type { Language } from "@/lib/preferences";
+import { t, translate, translations, type Locale, type TranslationKey } from "@/lib/i18n";
+
+import { indexDream, resetSearchIndex, unindexDream } from "@/lib/search";
+import { detectSymbols, loadSymbolDictionary, normalizeTags, resolveSymbol } from "@/lib/symbols";
+
+export type { DreamPage } from "@/lib/dream-repository";
 
 // Dream type definition
 export type Dream = {
@@ -7,11 +32,59 @@ export type Dream = {
   interpretation: string; // AI interpretation
   createdAt: string; // ISO date string
   tags?: string[]; // Optional tags extracted from interpretation
-  mood?: string; // Optional mood indicator
+  mood?: Mood; // Optional mood indicator
+  moodSource?: MoodSource; // Where `mood` came from; "user" is never overwritten
+  structured?: DreamInterpretation; // Full structured interpretation (newer dreams only)
+  structuredVersion?: number; // Schema version of `structured`
+  inputMethod?: DreamInputMethod; // How the dream was entered
+  language?: Language; // Language of the interpretation; older dreams are Finnish
+  revisions?: DreamRevision[]; // Earlier interpretations, newest first
+  conversation?: DreamChatMessage[]; // Follow-up chat about the dream, oldest first
 };
 
-// Storage key
-const DREAMS_STORAGE_KEY = "@dreamai_dreams";
+// Message in a follow-up conversation about a dream
+export type DreamChatMessage = {
+  id: string;
+  role: "user" | "assistant";
+  text: string;
+  createdAt: string; // ISO date string
+};
+
+// An interpretation replaced by a newer one, kept for comparison
+export type DreamRevision = {
+  content: string; // Dream text the interpretation was made for
+  interpretation: string;
+  structured?: DreamInterpretation;
+  structuredVersion?: number;
+  language?: Language;
+  revisedAt: string; // ISO date string of when it was replaced
+};
+
+// Changes a user can make to a saved dream
+export type DreamEdit = {
+  content?: string;
+  tags?: string[];
+  mood?: Mood;
+};
+
+export type DreamInputMethod = "text" | "voice";
+
+export type MoodSource = "model" | "detected" | "user";
+
+export type RestoreMode = "merge" | "replace";
+
+// Earlier interpretations kept per dream
+export const MAX_DREAM_REVISIONS = 10;
+
+// Follow-up chat messages kept per dream
+export const MAX_CONVERSATION_MESSAGES = 100;
+
+export type SaveDreamOptions = {
+  structured?: DreamInterpretation;
+  inputMethod?: DreamInputMethod;
+  language?: Language; // Language the interpretation was written in
+  createdAt?: Date; // Defaults to now; set for imported dreams
+};
 
 /**
  * Generate a unique ID for dreams
@@ -21,50 +94,43 @@ function generateId(): string {
 }
 
 /**
- * Extract tags from dream interpretation
- * Looks for common dream symbols and themes
+ * Extract tags for a dream as canonical symbols from the symbol taxonomy.
+ * Tags and known symbols from a structured interpretation come first,
+ * then symbols mentioned in the text.
  */
-function extractTags(content: string, interpretation: string): string[] {
-  const tags: string[] = [];
-  const text = `${content} ${interpretation}`.toLowerCase();
-
-  // Common dream themes/symbols to detect
-  const themes: Record<string, string[]> = {
-    lentäminen: ["lennän", "lensin", "lentää", "flying", "taivaalla"],
-    vesi: ["meri", "järvi", "uida", "vesi", "aalto", "joki"],
-    putoaminen: ["putoan", "putosin", "putoaminen", "falling"],
-    jahtaaminen: ["jahtaa", "seuraa", "pakenin", "chase", "juoksen"],
-    perhe: ["äiti", "isä", "vanhemmat", "sisarus", "family"],
-    työ: ["työ", "toimisto", "pomo", "kokous", "work"],
-    koulu: ["koulu", "tentti", "opiskelu", "luokka", "school"],
-    eläimet: ["koira", "kissa", "lintu", "käärme", "eläin"],
-    kuolema: ["kuollut", "kuolema", "hautajaiset", "death"],
-    rakkaus: ["rakkaus", "suudelma", "rakastaa", "love"],
-  };
-
-  for (const [tag, keywords] of Object.entries(themes)) {
-    if (keywords.some((keyword) => text.includes(keyword))) {
-      tags.push(tag);
-    }
-  }
-
-  // Limit to 3 most relevant tags
-  return tags.slice(0, 3);
+export function extractTags(
+  content: string,
+  interpretation: string,
+  structured?: DreamInterpretation
+): string[] {
+  const fromModel = structured
+    ? [
+        ...structured.tags,
+        ...structured.symbols
+          .map((symbol) => resolveSymbol(symbol.symbol))
+          .filter((symbol): symbol is string => symbol !== null),
+      ]
+    : [];
+
+  return normalizeTags([...fromModel, ...detectSymbols(`${content} ${interpretation}`)]);
 }
 
 /**
- * Detect mood from interpretation
+ * Guess the mood from interpretation text, for dreams without a
+ * structured interpretation
  */
-function detectMood(interpretation: string): string {
+export function detectMood(interpretation: string): Mood {
   const text = interpretation.toLowerCase();
 
-  if (
-    text.includes("ahdist") ||
-    text.includes("pelko") ||
-    text.includes("huoli")
-  ) {
+  if (text.includes("pelko") || text.includes("pelot") || text.includes("kauhu")) {
+    return "fearful";
+  }
+  if (text.includes("ahdist") || text.includes("huoli") || text.includes("stressi")) {
     return "anxious";
   }
+  if (text.includes("innostu") || text.includes("innoissa") || text.includes("riemu")) {
+    return "excited";
+  }
   if (
     text.includes("ilo") ||
     text.includes("onnelli") ||
@@ -92,74 +158,146 @@ function detectMood(interpretation: string): string {
   return "neutral";
 }
 
+/**
+ * Map a mood name from outside the app to one of ours ("happy", "Iloinen"
+ * or the name in any other app language)
+ */
+export function normalizeMood(mood: string | undefined): Mood | null {
+  if (!mood) return null;
+  const lower = mood.trim().toLowerCase();
+  const entries = Object.entries(moodLabelKeys) as [Mood, TranslationKey][];
+  const match = entries.find(
+    ([key, labelKey]) =>
+      key === lower ||
+      (Object.keys(translations) as Locale[]).some(
+        (locale) => translate(locale, labelKey).toLowerCase() === lower
+      )
+  );
+  return match ? match[0] : null;
+}
+
+/**
+ * Mood for a (re)interpreted dream: the model's mood when there is a
+ * structured interpretation, otherwise a guess from the text.
+ * A mood the user picked is kept.
+ */
+export function resolveDreamMood(
+  interpretation: string,
+  structured: DreamInterpretation | undefined,
+  current?: Pick<Dream, "mood" | "moodSource">
+): Pick<Dream, "mood" | "moodSource"> {
+  if (current?.moodSource === "user" && current.mood) {
+    return { mood: current.mood, moodSource: "user" };
+  }
+  if (structured) {
+    return { mood: structured.mood, moodSource: "model" };
+  }
+  return { mood: detectMood(interpretation), moodSource: "detected" };
+}
+
+/**
+ * Get the structured interpretation of a dream if it is present and valid.
+ * Returns null for older string-only dreams and for unknown schema versions.
+ */
+export function getStructuredInterpretation(
+  dream: Dream
+): DreamInterpretation | null {
+  if (!dream.structured) {
+    return null;
+  }
+  if ((dream.structuredVersion ?? 1) > STRUCTURED_INTERPRETATION_VERSION) {
+    return null;
+  }
+
+  const parsed = dreamInterpretationSchema.safeParse(dream.structured);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Build a new dream with a fresh id and inferred tags and mood,
+ * without saving it
+ */
+export function createDream(
+  content: string,
+  interpretation: string,
+  options: SaveDreamOptions = {}
+): Dream {
+  const { structured, inputMethod, language, createdAt = new Date() } = options;
+
+  const dream: Dream = {
+    id: generateId(),
+    content,
+    interpretation,
+    createdAt: createdAt.toISOString(),
+    tags: extractTags(content, interpretation, structured),
+    ...resolveDreamMood(interpretation, structured),
+    inputMethod,
+    language,
+  };
+
+  if (structured) {
+    dream.structured = structured;
+    dream.structuredVersion = STRUCTURED_INTERPRETATION_VERSION;
+  }
+
+  return dream;
+}
+
 /**
  * Save a new dream to storage
  */
 export async function saveDream(
   content: string,
-  interpretation: string
+  interpretation: string,
+  options: SaveDreamOptions = {}
 ): Promise<Dream> {
   try {
-    // Create dream object
-    const dream: Dream = {
-      id: generateId(),
-      content,
-      interpretation,
-      createdAt: new Date().toISOString(),
-      tags: extractTags(content, interpretation),
-      mood: detectMood(interpretation),
-    };
-
-    // Get existing dreams
-    const existingDreams = await getDreams();
-
-    // Add new dream at the beginning
-    const updatedDreams = [dream, ...existingDreams];
+    await loadSymbolDictionary();
+    const dream = createDream(content, interpretation, options);
 
-    // Save to storage
-    await AsyncStorage.setItem(
-      DREAMS_STORAGE_KEY,
-      JSON.stringify(updatedDreams)
-    );
+    await putDream(dream);
+    indexDream(dream);
 
     return dream;
   } catch (error) {
     console.error("Error saving dream:", error);
-    throw new Error("Unen tallennus epäonnistui");
+    throw new Error(t("errorSaveDream"));
   }
 }
 
 /**
- * Get all dreams from storage
+ * Get all dreams from storage (newest first)
  */
 export async function getDreams(): Promise<Dream[]> {
   try {
-    const data = await AsyncStorage.getItem(DREAMS_STORAGE_KEY);
-
-    if (!data) {
-      return [];
-    }
-
-    const dreams: Dream[] = JSON.parse(data);
-
-    // Sort by date (newest first)
-    return dreams.sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    return await getAllDreams();
   } catch (error) {
     console.error("Error getting dreams:", error);
     return [];
   }
 }
 
+/**
+ * Get one page of dreams (newest first), for long lists
+ */
+export async function getDreamsPage(
+  offset: number,
+  limit: number
+): Promise<DreamPage> {
+  try {
+    return await getDreamPage(offset, limit);
+  } catch (error) {
+    console.error("Error getting dreams page:", error);
+    return { dreams: [], total: 0, hasMore: false };
+  }
+}
+
 /**
  * Get a single dream by ID
  */
 export async function getDreamById(id: string): Promise<Dream | null> {
   try {
-    const dreams = await getDreams();
-    return dreams.find((d) => d.id === id) || null;
+    return await getDream(id);
   } catch (error) {
     console.error("Error getting dream:", error);
     return null;
@@ -171,16 +309,11 @@ export async function getDreamById(id: string): Promise<Dream | null> {
  */
 export async function deleteDream(id: string): Promise<void> {
   try {
-    const dreams = await getDreams();
-    const filteredDreams = dreams.filter((d) => d.id !== id);
-
-    await AsyncStorage.setItem(
-      DREAMS_STORAGE_KEY,
-      JSON.stringify(filteredDreams)
-    );
+    await removeDream(id);
+    unindexDream(id);
   } catch (error) {
     console.error("Error deleting dream:", error);
-    throw new Error("Unen poisto epäonnistui");
+    throw new Error(t("errorDeleteDream"));
   }
 }
 
@@ -192,22 +325,147 @@ export async function updateDream(
   updates: Partial<Omit<Dream, "id" | "createdAt">>
 ): Promise<Dream | null> {
   try {
-    const dreams = await getDreams();
-    const index = dreams.findIndex((d) => d.id === id);
+    const updated = await updateDreamRecord(id, (dream) => ({ ...dream, ...updates }));
+    if (updated) {
+      indexDream(updated);
+    }
+    return updated;
+  } catch (error) {
+    console.error("Error updating dream:", error);
+    throw new Error(t("errorUpdateDream"));
+  }
+}
+
+/**
+ * Apply a user's edits to a dream. A changed mood counts as set by hand.
+ */
+export async function editDream(id: string, edit: DreamEdit): Promise<Dream | null> {
+  try {
+    await loadSymbolDictionary();
+    const updated = await updateDreamRecord(id, (dream) => {
+      const next: Dream = { ...dream };
+      if (edit.content !== undefined) {
+        next.content = edit.content.trim();
+      }
+      if (edit.tags !== undefined) {
+        next.tags = normalizeTags(edit.tags);
+      }
+      if (edit.mood !== undefined && edit.mood !== (dream.mood ?? "neutral")) {
+        next.mood = edit.mood;
+        next.moodSource = "user";
+      }
+      return next;
+    });
+    if (updated) {
+      indexDream(updated);
+    }
+    return updated;
+  } catch (error) {
+    console.error("Error editing dream:", error);
+    throw new Error(t("errorUpdateDream"));
+  }
+}
 
-    if (index === -1) {
-      return null;
+/**
+ * Store a new interpretation for a saved dream. The previous one moves to
+ * the dream's revisions; tags and a mood set by hand are kept.
+ */
+export async function saveReinterpretation(
+  id: string,
+  interpretation: string,
+  structured?: DreamInterpretation,
+  language?: Language
+): Promise<Dream | null> {
+  try {
+    await loadSymbolDictionary();
+    const updated = await updateDreamRecord(id, (dream) => {
+      // Imported dreams start without an interpretation; nothing to keep
+      const revisions = dream.interpretation
+        ? [
+            {
+              content: dream.content,
+              interpretation: dream.interpretation,
+              structured: dream.structured,
+              structuredVersion: dream.structuredVersion,
+              language: dream.language,
+              revisedAt: new Date().toISOString(),
+            },
+            ...(dream.revisions ?? []),
+          ].slice(0, MAX_DREAM_REVISIONS)
+        : dream.revisions;
+
+      return {
+        ...dream,
+        interpretation,
+        structured,
+        structuredVersion: structured ? STRUCTURED_INTERPRETATION_VERSION : undefined,
+        language,
+        tags: normalizeTags([
+          ...(dream.tags ?? []),
+          ...extractTags(dream.content, interpretation, structured),
+        ]),
+        ...resolveDreamMood(interpretation, structured, dream),
+        revisions,
+      };
+    });
+    if (updated) {
+      indexDream(updated);
     }
+    return updated;
+  } catch (error) {
+    console.error("Error saving interpretation:", error);
+    throw new Error(t("errorSaveInterpretation"));
+  }
+}
 
-    const updatedDream = { ...dreams[index], ...updates };
-    dreams[index] = updatedDream;
+/**
+ * Store the follow-up conversation of a dream, keeping the latest messages
+ */
+export async function saveDreamConversation(
+  id: string,
+  conversation: DreamChatMessage[]
+): Promise<Dream | null> {
+  return updateDream(id, { conversation: conversation.slice(-MAX_CONVERSATION_MESSAGES) });
+}
+
+/**
+ * Set the mood of a dream by hand. The choice is kept when the dream is
+ * interpreted again.
+ */
+export async function setDreamMood(id: string, mood: Mood): Promise<Dream | null> {
+  return updateDream(id, { mood, moodSource: "user" });
+}
 
-    await AsyncStorage.setItem(DREAMS_STORAGE_KEY, JSON.stringify(dreams));
+/**
+ * Add dreams from a backup or import. "merge" keeps the local copy of any
+ * dream whose id already exists; "replace" clears the journal first.
+ * Returns the number of dreams written.
+ */
+export async function restoreDreams(
+  dreams: Dream[],
+  mode: RestoreMode
+): Promise<number> {
+  try {
+    if (mode === "replace") {
+      await removeAllDreams();
+    }
 
-    return updatedDream;
+    const existingIds = new Set(
+      mode === "merge" ? (await getDreamIndex()).map((entry) => entry.id) : []
+    );
+    const incoming = new Map<string, Dream>();
+    for (const dream of dreams) {
+      if (!existingIds.has(dream.id) && !incoming.has(dream.id)) {
+        incoming.set(dream.id, dream);
+      }
+    }
+
+    await putDreams([...incoming.values()]);
+    resetSearchIndex();
+    return incoming.size;
   } catch (error) {
-    console.error("Error updating dream:", error);
-    throw new Error("Unen päivitys epäonnistui");
+    console.error("Error restoring dreams:", error);
+    throw new Error(t("errorRestoreDreams"));
   }
 }
 
@@ -216,64 +474,73 @@ export async function updateDream(
  */
 export async function clearAllDreams(): Promise<void> {
   try {
-    await AsyncStorage.removeItem(DREAMS_STORAGE_KEY);
+    await removeAllDreams();
+    resetSearchIndex();
   } catch (error) {
     console.error("Error clearing dreams:", error);
-    throw new Error("Unien tyhjennys epäonnistui");
+    throw new Error(t("errorClearDreams"));
   }
 }
 
-/**
- * Get dream statistics
- */
-export async function getDreamStats(): Promise<{
+export type DreamStats = {
   total: number;
   thisWeek: number;
   thisMonth: number;
   topTags: { tag: string; count: number }[];
-  moodDistribution: Record<string, number>;
-}> {
-  try {
-    const dreams = await getDreams();
-    const now = new Date();
-    const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-    // Count dreams by time period
-    const thisWeek = dreams.filter(
-      (d) => new Date(d.createdAt) >= weekAgo
-    ).length;
-    const thisMonth = dreams.filter(
-      (d) => new Date(d.createdAt) >= monthAgo
-    ).length;
-
-    // Count tags
-    const tagCounts: Record<string, number> = {};
-    for (const dream of dreams) {
-      for (const tag of dream.tags || []) {
-        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-      }
+  moodDistribution: Partial<Record<Mood, number>>;
+};
+
+/**
+ * Compute statistics for a list of dreams
+ */
+export function computeDreamStats(dreams: Dream[]): DreamStats {
+  const now = new Date();
+  const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  // Count dreams by time period
+  const thisWeek = dreams.filter(
+    (d) => new Date(d.createdAt) >= weekAgo
+  ).length;
+  const thisMonth = dreams.filter(
+    (d) => new Date(d.createdAt) >= monthAgo
+  ).length;
+
+  // Count tags
+  const tagCounts: Record<string, number> = {};
+  for (const dream of dreams) {
+    for (const tag of dream.tags || []) {
+      tagCounts[tag] = (tagCounts[tag] || 0) + 1;
     }
+  }
 
-    const topTags = Object.entries(tagCounts)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5)
-      .map(([tag, count]) => ({ tag, count }));
+  const topTags = Object.entries(tagCounts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+    .map(([tag, count]) => ({ tag, count }));
 
-    // Count moods
-    const moodDistribution: Record<string, number> = {};
-    for (const dream of dreams) {
-      const mood = dream.mood || "neutral";
-      moodDistribution[mood] = (moodDistribution[mood] || 0) + 1;
-    }
+  // Count moods
+  const moodDistribution: Partial<Record<Mood, number>> = {};
+  for (const dream of dreams) {
+    const mood = dream.mood || "neutral";
+    moodDistribution[mood] = (moodDistribution[mood] || 0) + 1;
+  }
 
-    return {
-      total: dreams.length,
-      thisWeek,
-      thisMonth,
-      topTags,
-      moodDistribution,
-    };
+  return {
+    total: dreams.length,
+    thisWeek,
+    thisMonth,
+    topTags,
+    moodDistribution,
+  };
+}
+
+/**
+ * Get dream statistics
+ */
+export async function getDreamStats(): Promise<DreamStats> {
+  try {
+    return computeDreamStats(await getDreams());
   } catch (error) {
     console.error("Error getting stats:", error);
     return {
@@ -285,3 +552,23 @@ export async function getDreamStats(): Promise<{
     };
   }
 }
+
+export type DreamCounts = Pick<DreamStats, "total" | "thisWeek">;
+
+/**
+ * Count saved dreams and those from the last 7 days from the index,
+ * without reading any dream records
+ */
+export async function getDreamCounts(): Promise<DreamCounts> {
+  try {
+    const index = await getDreamIndex();
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    return {
+      total: index.length,
+      thisWeek: index.filter((entry) => new Date(entry.createdAt).getTime() >= weekAgo).length,
+    };
+  } catch (error) {
+    console.error("Error counting dreams:", error);
+    return { total: 0, thisWeek: 0 };
+  }
+}
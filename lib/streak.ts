@@ -1,121 +1,197 @@
+/**
+ * Dream journaling streaks
+ *
+ * Streaks are derived from the saved dreams every time they are read, so
+ * deleting or importing dreams can never leave them out of sync. Days are
+ * the user's local "dream day": entries before the cutoff hour count for the
+ * previous night.
+ *
+ * Freeze days: every FREEZE_EARN_DAYS logged days in a streak earn one
+ * freeze (up to MAX_FREEZES). A freeze is spent automatically on a missed
+ * day so the streak survives it.
+ */
+
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { storedStreakSettingsSchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import { getDreams, type Dream } from "@/lib/storage";
+import { addDays, daysBetween, toDreamDayKey } from "@/lib/dates";
+import { t } from "@/lib/i18n";
 
 // Storage key
-const STREAK_STORAGE_KEY = "@dreamai_streak";
+export const STREAK_SETTINGS_STORAGE_KEY = "@dreamai_streak_settings";
+
+// Logged days needed to earn one freeze
+export const FREEZE_EARN_DAYS = 7;
+
+// Most freezes that can be banked at once
+export const MAX_FREEZES = 2;
+
+export type StreakSettings = {
+  dayCutoffHour: number; // Entries before this hour belong to the previous day
+};
+
+export const DEFAULT_STREAK_SETTINGS: StreakSettings = {
+  dayCutoffHour: 4,
+};
+
+export type StreakRun = {
+  start: string; // First day (YYYY-MM-DD)
+  end: string; // Last day (YYYY-MM-DD)
+  length: number; // Days with a dream in the run
+  frozenDays: string[]; // Missed days bridged by freezes
+};
 
 export type StreakData = {
   currentStreak: number;
   longestStreak: number;
-  lastDreamDate: string | null; // ISO date string (YYYY-MM-DD)
+  lastDreamDate: string | null; // Last dream day (YYYY-MM-DD)
   totalDreams: number;
+  freezesAvailable: number; // Freezes left for the current streak
+  frozenDays: string[]; // Missed days bridged in the current streak
+  history: StreakRun[]; // Earlier streaks of 2+ days, newest first
+};
+
+type StreakRunOptions = {
+  useFreezes?: boolean;
 };
 
 /**
- * Get today's date as YYYY-MM-DD
+ * Group day keys into streak runs (oldest first). With `useFreezes`,
+ * short gaps are bridged by freezes earned earlier in the same run.
+ * Also returns the freezes still banked at the end of the last run.
  */
-function getToday(): string {
-  return new Date().toISOString().split("T")[0];
+function buildRuns(
+  dayKeys: string[],
+  { useFreezes = false }: StreakRunOptions
+): { runs: StreakRun[]; freezes: number } {
+  const days = [...new Set(dayKeys)].sort();
+  const runs: StreakRun[] = [];
+  let freezes = 0;
+
+  for (const day of days) {
+    const last = runs[runs.length - 1];
+    const missed = last ? daysBetween(last.end, day) - 1 : Infinity;
+
+    if (last && (missed === 0 || (useFreezes && missed <= freezes))) {
+      for (let i = 1; i <= missed; i++) {
+        last.frozenDays.push(addDays(last.end, i));
+      }
+      freezes -= missed;
+      last.end = day;
+      last.length += 1;
+    } else {
+      runs.push({ start: day, end: day, length: 1, frozenDays: [] });
+      freezes = 0;
+    }
+
+    const current = runs[runs.length - 1];
+    if (useFreezes && current.length % FREEZE_EARN_DAYS === 0) {
+      freezes = Math.min(MAX_FREEZES, freezes + 1);
+    }
+  }
+
+  return { runs, freezes };
 }
 
 /**
- * Get yesterday's date as YYYY-MM-DD
+ * Group day keys into runs of consecutive days (oldest first)
  */
-function getYesterday(): string {
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  return yesterday.toISOString().split("T")[0];
+export function getStreakRuns(
+  dayKeys: string[],
+  options: StreakRunOptions = {}
+): StreakRun[] {
+  return buildRuns(dayKeys, options).runs;
 }
 
 /**
- * Initialize default streak data
+ * Compute streaks from a list of dreams
  */
-function getDefaultStreak(): StreakData {
+export function computeStreak(
+  dreams: Dream[],
+  settings: StreakSettings = DEFAULT_STREAK_SETTINGS,
+  now: Date = new Date()
+): StreakData {
+  const dayKeys = dreams.map((dream) =>
+    toDreamDayKey(new Date(dream.createdAt), settings.dayCutoffHour)
+  );
+  const { runs, freezes } = buildRuns(dayKeys, { useFreezes: true });
+  const last = runs[runs.length - 1];
+
+  if (!last) {
+    return {
+      currentStreak: 0,
+      longestStreak: 0,
+      lastDreamDate: null,
+      totalDreams: dreams.length,
+      freezesAvailable: 0,
+      frozenDays: [],
+      history: [],
+    };
+  }
+
+  // Days missed since the last entry; today itself is still open
+  const today = toDreamDayKey(now, settings.dayCutoffHour);
+  const missed = Math.max(0, daysBetween(last.end, today) - 1);
+  const active = missed <= freezes;
+  const pendingFrozen = Array.from({ length: active ? missed : 0 }, (_, i) =>
+    addDays(last.end, i + 1)
+  );
+
+  // The active run is the current streak, not history
+  const history = (active ? runs.slice(0, -1) : runs)
+    .filter((run) => run.length >= 2)
+    .reverse();
+
   return {
-    currentStreak: 0,
-    longestStreak: 0,
-    lastDreamDate: null,
-    totalDreams: 0,
+    currentStreak: active ? last.length : 0,
+    longestStreak: Math.max(...runs.map((run) => run.length)),
+    lastDreamDate: last.end,
+    totalDreams: dreams.length,
+    freezesAvailable: active ? freezes - missed : 0,
+    frozenDays: active ? [...last.frozenDays, ...pendingFrozen] : [],
+    history,
   };
 }
 
 /**
- * Get streak data from storage
+ * Get streak preferences
  */
-export async function getStreakData(): Promise<StreakData> {
+export async function getStreakSettings(): Promise<StreakSettings> {
   try {
-    const data = await AsyncStorage.getItem(STREAK_STORAGE_KEY);
-    if (!data) {
-      return getDefaultStreak();
-    }
-
-    const streakData: StreakData = JSON.parse(data);
-
-    // Check if streak is still valid (must have logged yesterday or today)
-    const today = getToday();
-    const yesterday = getYesterday();
-
-    if (
-      streakData.lastDreamDate !== today &&
-      streakData.lastDreamDate !== yesterday
-    ) {
-      // Streak broken - reset current but keep longest
-      return {
-        ...streakData,
-        currentStreak: 0,
-      };
-    }
-
-    return streakData;
+    const saved = await readStoredJson(
+      STREAK_SETTINGS_STORAGE_KEY,
+      storedStreakSettingsSchema
+    );
+    return saved ? { ...DEFAULT_STREAK_SETTINGS, ...saved } : DEFAULT_STREAK_SETTINGS;
   } catch (error) {
-    console.error("Error getting streak data:", error);
-    return getDefaultStreak();
+    console.error("Error getting streak settings:", error);
+    return DEFAULT_STREAK_SETTINGS;
   }
 }
 
 /**
- * Record a new dream and update streak
+ * Save streak preferences
  */
-export async function recordDream(): Promise<StreakData> {
+export async function saveStreakSettings(settings: StreakSettings): Promise<void> {
   try {
-    const streakData = await getStreakData();
-    const today = getToday();
-    const yesterday = getYesterday();
-
-    let newStreak: StreakData;
-
-    if (streakData.lastDreamDate === today) {
-      // Already logged today - just increment total
-      newStreak = {
-        ...streakData,
-        totalDreams: streakData.totalDreams + 1,
-      };
-    } else if (
-      streakData.lastDreamDate === yesterday ||
-      streakData.currentStreak === 0
-    ) {
-      // Continuing streak or starting new streak
-      const newCurrentStreak = streakData.currentStreak + 1;
-      newStreak = {
-        currentStreak: newCurrentStreak,
-        longestStreak: Math.max(streakData.longestStreak, newCurrentStreak),
-        lastDreamDate: today,
-        totalDreams: streakData.totalDreams + 1,
-      };
-    } else {
-      // Streak was broken but we're starting fresh today
-      newStreak = {
-        currentStreak: 1,
-        longestStreak: Math.max(streakData.longestStreak, 1),
-        lastDreamDate: today,
-        totalDreams: streakData.totalDreams + 1,
-      };
-    }
+    await AsyncStorage.setItem(STREAK_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving streak settings:", error);
+    throw new Error(t("errorSaveSetting"));
+  }
+}
 
-    await AsyncStorage.setItem(STREAK_STORAGE_KEY, JSON.stringify(newStreak));
-    return newStreak;
+/**
+ * Get streak data for the current journal
+ */
+export async function getStreakData(): Promise<StreakData> {
+  try {
+    const [dreams, settings] = await Promise.all([getDreams(), getStreakSettings()]);
+    return computeStreak(dreams, settings);
   } catch (error) {
-    console.error("Error recording dream:", error);
-    throw new Error("Uniputken päivitys epäonnistui");
+    console.error("Error getting streak data:", error);
+    return computeStreak([]);
   }
 }
 
@@ -123,8 +199,8 @@ export async function recordDream(): Promise<StreakData> {
  * Check if user has already logged a dream today
  */
 export async function hasLoggedToday(): Promise<boolean> {
-  const streakData = await getStreakData();
-  return streakData.lastDreamDate === getToday();
+  const [streakData, settings] = await Promise.all([getStreakData(), getStreakSettings()]);
+  return streakData.lastDreamDate === toDreamDayKey(new Date(), settings.dayCutoffHour);
 }
 
 /**
@@ -132,23 +208,23 @@ export async function hasLoggedToday(): Promise<boolean> {
  */
 export function getStreakMessage(streak: number): string {
   if (streak === 0) {
-    return "Aloita uniputkesi tänään!";
+    return t("streakStart");
   } else if (streak === 1) {
-    return "Loistava alku! Jatka huomenna.";
+    return t("streakFirstDay");
   } else if (streak < 7) {
-    return `${streak} päivää peräkkäin!`;
+    return t("streakDays", { count: streak });
   } else if (streak === 7) {
-    return "Viikon uniputki! Hienoa!";
+    return t("streakWeek");
   } else if (streak < 14) {
-    return `${streak} päivän putki! Mahtavaa!`;
+    return t("streakOverWeek", { count: streak });
   } else if (streak === 14) {
-    return "Kaksi viikkoa! Olet mestari!";
+    return t("streakTwoWeeks");
   } else if (streak < 30) {
-    return `${streak} päivää! Uskomaton!`;
+    return t("streakOverTwoWeeks", { count: streak });
   } else if (streak === 30) {
-    return "Kuukauden putki! Legenda!";
+    return t("streakMonth");
   } else {
-    return `${streak} päivää! Olet todellinen uneksija!`;
+    return t("streakOverMonth", { count: streak });
   }
 }
 
@@ -157,24 +233,13 @@ export function getStreakMessage(streak: number): string {
  */
 export function getNextMilestone(streak: number): { target: number; label: string } | null {
   if (streak < 7) {
-    return { target: 7, label: "Viikon putki" };
+    return { target: 7, label: t("streakMilestoneWeek") };
   } else if (streak < 14) {
-    return { target: 14, label: "2 viikon putki" };
+    return { target: 14, label: t("streakMilestoneTwoWeeks") };
   } else if (streak < 30) {
-    return { target: 30, label: "Kuukauden putki" };
+    return { target: 30, label: t("streakMilestoneMonth") };
   } else if (streak < 100) {
-    return { target: 100, label: "100 päivän putki" };
+    return { target: 100, label: t("streakMilestoneHundred") };
   }
   return null;
 }
-
-/**
- * Clear streak data (for development/testing)
- */
-export async function clearStreakData(): Promise<void> {
-  try {
-    await AsyncStorage.removeItem(STREAK_STORAGE_KEY);
-  } catch (error) {
-    console.error("Error clearing streak data:", error);
-  }
-}
@@ -0,0 +1,390 @@
+/**
+ * Dream symbol taxonomy
+ *
+ * Maps free-form tags (from the interpretation API, imports or old keyword
+ * detection) to canonical symbols, so "flying", "lento" and "lentäminen"
+ * count as the same theme. Built-in symbols can be extended by the user
+ * with their own symbols and synonyms.
+ *
+ * Tags that match no symbol are kept as is (normalised), so the taxonomy
+ * stays open-ended. The user dictionary is cached in memory once loaded;
+ * call loadSymbolDictionary() before normalising outside the storage facade.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { storedSymbolDictionarySchema } from "@/lib/schemas/storage";
+import { readStoredJson } from "@/lib/persistence";
+import { t, type Locale } from "@/lib/i18n";
+
+// Storage key
+export const SYMBOL_DICTIONARY_STORAGE_KEY = "@dreamai_symbol_dictionary";
+
+// Most tags kept per dream
+export const MAX_DREAM_TAGS = 5;
+
+export type SymbolEntry = {
+  id: string; // Canonical tag stored on dreams, lowercase Finnish
+  label: string; // Finnish display name, used when there is no translation
+  labels?: Partial<Record<Locale, string>>; // Display names in other languages
+  aliases: string[]; // Whole-tag synonyms in Finnish, English and Swedish
+  keywords?: string[]; // Word beginnings that reveal the symbol in free text
+  custom?: boolean; // Added by the user
+};
+
+export const BUILT_IN_SYMBOLS: SymbolEntry[] = [
+  {
+    id: "lentäminen",
+    label: "Lentäminen",
+    labels: { en: "Flying", sv: "Flygning" },
+    aliases: ["lento", "lentää", "leijuminen", "flying", "flight", "fly", "floating", "flyga", "flygning", "sväva"],
+    keywords: ["lennän", "lensin", "lentää", "lentämi", "leiju", "taivaalla", "flying"],
+  },
+  {
+    id: "vesi",
+    label: "Vesi",
+    labels: { en: "Water", sv: "Vatten" },
+    aliases: ["meri", "järvi", "joki", "uiminen", "aalto", "water", "sea", "ocean", "swimming", "river", "vatten", "hav", "sjö", "simning"],
+    keywords: ["meri", "meres", "järvi", "järve", "uida", "uin", "vesi", "vede", "aalto", "joki", "joen", "joess"],
+  },
+  {
+    id: "putoaminen",
+    label: "Putoaminen",
+    labels: { en: "Falling", sv: "Fall" },
+    aliases: ["putoaa", "falling", "fall", "falla"],
+    keywords: ["putoan", "putosin", "putoami", "putoa", "falling"],
+  },
+  {
+    id: "jahtaaminen",
+    label: "Jahtaaminen",
+    labels: { en: "Being chased", sv: "Att bli jagad" },
+    aliases: ["takaa-ajo", "pakeneminen", "chase", "chased", "being chased", "pursuit", "jakt", "bli jagad", "flykt"],
+    keywords: ["jahtaa", "takaa-aj", "pakenin", "pakene", "chase"],
+  },
+  {
+    id: "perhe",
+    label: "Perhe",
+    labels: { en: "Family", sv: "Familj" },
+    aliases: ["äiti", "isä", "vanhemmat", "sisarus", "family", "mother", "father", "parents", "familj", "mamma", "pappa", "föräldrar"],
+    keywords: ["äiti", "isä", "vanhem", "sisar", "veli", "veljen", "family"],
+  },
+  {
+    id: "työ",
+    label: "Työ",
+    labels: { en: "Work", sv: "Arbete" },
+    aliases: ["työpaikka", "toimisto", "pomo", "work", "job", "office", "career", "arbete", "jobb", "kontor"],
+    keywords: ["työ", "toimisto", "pomo", "kokous", "work"],
+  },
+  {
+    id: "koulu",
+    label: "Koulu",
+    labels: { en: "School", sv: "Skola" },
+    aliases: ["tentti", "koe", "opiskelu", "school", "exam", "test", "university", "skola", "prov", "tenta"],
+    keywords: ["koulu", "tentti", "opiskel", "luokka", "school"],
+  },
+  {
+    id: "eläimet",
+    label: "Eläimet",
+    labels: { en: "Animals", sv: "Djur" },
+    aliases: ["eläin", "koira", "kissa", "lintu", "animals", "animal", "dog", "cat", "bird", "djur", "hund", "katt", "fågel"],
+    keywords: ["koira", "kissa", "lintu", "eläin"],
+  },
+  {
+    id: "käärme",
+    label: "Käärme",
+    labels: { en: "Snake", sv: "Orm" },
+    aliases: ["käärmeet", "snake", "snakes", "serpent", "orm", "ormar"],
+    keywords: ["käärme", "snake"],
+  },
+  {
+    id: "kuolema",
+    label: "Kuolema",
+    labels: { en: "Death", sv: "Död" },
+    aliases: ["kuoleminen", "hautajaiset", "death", "dying", "funeral", "död", "döden", "begravning"],
+    keywords: ["kuollut", "kuolema", "kuoli", "hautajai", "death"],
+  },
+  {
+    id: "rakkaus",
+    label: "Rakkaus",
+    labels: { en: "Love", sv: "Kärlek" },
+    aliases: ["romantiikka", "suudelma", "love", "romance", "kiss", "kärlek", "romantik", "kyss"],
+    keywords: ["rakkau", "suudel", "rakasta", "love"],
+  },
+  {
+    id: "hampaat",
+    label: "Hampaat",
+    labels: { en: "Teeth", sv: "Tänder" },
+    aliases: ["hammas", "hampaiden putoaminen", "teeth", "tooth", "teeth falling out", "tänder", "tand"],
+    keywords: ["hammas", "hampa", "teeth"],
+  },
+  {
+    id: "alastomuus",
+    label: "Alastomuus",
+    labels: { en: "Nakedness", sv: "Nakenhet" },
+    aliases: ["alasti", "nakedness", "naked", "nudity", "naken", "nakenhet"],
+    keywords: ["alasti", "alaston", "naked"],
+  },
+  {
+    id: "myöhästyminen",
+    label: "Myöhästyminen",
+    labels: { en: "Being late", sv: "Att vara sen" },
+    aliases: ["myöhässä", "being late", "late", "missing the train", "sen", "försenad"],
+    keywords: ["myöhäs", "myöhästy"],
+  },
+  {
+    id: "eksyminen",
+    label: "Eksyminen",
+    labels: { en: "Getting lost", sv: "Att gå vilse" },
+    aliases: ["eksyksissä", "getting lost", "lost", "vilse", "gå vilse"],
+    keywords: ["eksy", "eksyksi"],
+  },
+  {
+    id: "talo",
+    label: "Talo",
+    labels: { en: "House", sv: "Hus" },
+    aliases: ["koti", "huone", "rakennus", "house", "home", "room", "building", "hus", "hem", "rum"],
+    keywords: ["talo", "huonee"],
+  },
+  {
+    id: "matkustaminen",
+    label: "Matkustaminen",
+    labels: { en: "Travel", sv: "Resa" },
+    aliases: ["matka", "auto", "juna", "lentokone", "travel", "journey", "car", "train", "resa", "bil", "tåg"],
+    keywords: ["matkust", "autolla", "junalla", "lentokone"],
+  },
+  {
+    id: "tuli",
+    label: "Tuli",
+    labels: { en: "Fire", sv: "Eld" },
+    aliases: ["palo", "liekit", "fire", "flames", "eld", "brand", "lågor"],
+    keywords: ["tulipalo", "liek", "fire"],
+  },
+  {
+    id: "pimeys",
+    label: "Pimeys",
+    labels: { en: "Darkness", sv: "Mörker" },
+    aliases: ["pimeä", "yö", "darkness", "dark", "night", "mörker", "mörk", "natt"],
+    keywords: ["pimeä", "pimey"],
+  },
+  {
+    id: "lapsi",
+    label: "Lapsi",
+    labels: { en: "Child", sv: "Barn" },
+    aliases: ["lapset", "vauva", "raskaus", "child", "children", "baby", "pregnancy", "barn", "bebis", "graviditet"],
+    keywords: ["vauva", "lapse", "lapsi", "raskaana"],
+  },
+  {
+    id: "sairaus",
+    label: "Sairaus",
+    labels: { en: "Illness", sv: "Sjukdom" },
+    aliases: ["sairaala", "illness", "sickness", "hospital", "sjukdom", "sjukhus"],
+    keywords: ["sairaa", "sairau", "sairas"],
+  },
+  {
+    id: "raha",
+    label: "Raha",
+    labels: { en: "Money", sv: "Pengar" },
+    aliases: ["rahat", "aarre", "money", "wealth", "treasure", "pengar", "skatt"],
+    keywords: ["raha", "aarre"],
+  },
+  {
+    id: "loukussa",
+    label: "Loukussa oleminen",
+    labels: { en: "Being trapped", sv: "Att vara fången" },
+    aliases: ["loukko", "jumissa", "trapped", "being trapped", "stuck", "fången", "instängd"],
+    keywords: ["loukus", "jumissa", "lukossa"],
+  },
+  {
+    id: "luonto",
+    label: "Luonto",
+    labels: { en: "Nature", sv: "Natur" },
+    aliases: ["metsä", "vuori", "nature", "forest", "mountain", "natur", "skog", "berg"],
+    keywords: ["metsä", "vuore", "vuori"],
+  },
+];
+
+// User symbols merged over the built-ins; null until loaded
+let cachedUserSymbols: SymbolEntry[] | null = null;
+
+/**
+ * Normalise a tag or alias for comparison
+ */
+export function normalizeSymbolKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^#/, "")
+    .replace(/[^\p{L}\p{N}\s-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Built-in symbols with the user's additions merged in. A user entry with
+ * a built-in id adds synonyms to that symbol.
+ */
+export function getSymbolDictionary(): SymbolEntry[] {
+  const userSymbols = cachedUserSymbols ?? [];
+  const builtInIds = new Set(BUILT_IN_SYMBOLS.map((entry) => entry.id));
+
+  const merged = BUILT_IN_SYMBOLS.map((entry) => {
+    const extra = userSymbols.find((user) => user.id === entry.id);
+    return extra
+      ? {
+          ...entry,
+          aliases: [...entry.aliases, ...extra.aliases],
+          keywords: [...(entry.keywords ?? []), ...extra.aliases],
+        }
+      : entry;
+  });
+
+  return [...merged, ...userSymbols.filter((entry) => !builtInIds.has(entry.id))];
+}
+
+/**
+ * Canonical symbol id for a tag, or null if no symbol matches
+ */
+export function resolveSymbol(tag: string): string | null {
+  const key = normalizeSymbolKey(tag);
+  if (!key) {
+    return null;
+  }
+
+  const dictionary = getSymbolDictionary();
+  for (const entry of dictionary) {
+    if (
+      entry.id === key ||
+      normalizeSymbolKey(entry.label) === key ||
+      entry.aliases.some((alias) => normalizeSymbolKey(alias) === key)
+    ) {
+      return entry.id;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map tags to canonical symbols, keeping unknown tags (normalised) so new
+ * themes are not lost. Duplicates are removed and order is kept.
+ */
+export function normalizeTags(tags: string[], limit: number = MAX_DREAM_TAGS): string[] {
+  const result: string[] = [];
+  for (const tag of tags) {
+    const symbol = resolveSymbol(tag) ?? normalizeSymbolKey(tag);
+    if (symbol && !result.includes(symbol)) {
+      result.push(symbol);
+    }
+  }
+  return result.slice(0, limit);
+}
+
+/**
+ * Find known symbols mentioned in free text. Keywords match the start of
+ * a word, so "isä" finds "isän" but not "lisää".
+ */
+export function detectSymbols(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}-]+/gu) ?? [];
+  return getSymbolDictionary()
+    .filter((entry) =>
+      [...(entry.keywords ?? []), ...(entry.custom ? [entry.id, ...entry.aliases] : [])].some(
+        (keyword) => words.some((word) => word.startsWith(keyword.toLowerCase()))
+      )
+    )
+    .map((entry) => entry.id);
+}
+
+/**
+ * Display name for a symbol
+ */
+export function getSymbolLabel(symbol: string, language: Locale = "fi"): string {
+  const entry = getSymbolDictionary().find((e) => e.id === symbol);
+  if (entry) {
+    return entry.labels?.[language] ?? entry.label;
+  }
+  return symbol.charAt(0).toUpperCase() + symbol.slice(1);
+}
+
+/**
+ * Load the user's symbols into the cache
+ */
+export async function loadSymbolDictionary(): Promise<SymbolEntry[]> {
+  if (cachedUserSymbols) {
+    return getSymbolDictionary();
+  }
+
+  try {
+    const stored = await readStoredJson(SYMBOL_DICTIONARY_STORAGE_KEY, storedSymbolDictionarySchema);
+    cachedUserSymbols = (stored ?? []).map((entry) => ({
+      id: entry.id,
+      label: entry.label,
+      aliases: entry.aliases,
+      custom: true,
+    }));
+  } catch (error) {
+    console.error("Error loading symbol dictionary:", error);
+    cachedUserSymbols = [];
+  }
+
+  return getSymbolDictionary();
+}
+
+/**
+ * The user's own symbols and added synonyms
+ */
+export async function getUserSymbols(): Promise<SymbolEntry[]> {
+  await loadSymbolDictionary();
+  return cachedUserSymbols ?? [];
+}
+
+async function saveUserSymbols(symbols: SymbolEntry[]): Promise<void> {
+  await AsyncStorage.setItem(
+    SYMBOL_DICTIONARY_STORAGE_KEY,
+    JSON.stringify(symbols.map(({ id, label, aliases }) => ({ id, label, aliases })))
+  );
+  cachedUserSymbols = symbols;
+}
+
+/**
+ * Add a symbol or synonyms to the dictionary. A label matching an existing
+ * symbol (or one of its synonyms) adds the synonyms to that symbol.
+ */
+export async function addUserSymbol(label: string, aliases: string[]): Promise<SymbolEntry> {
+  const name = label.trim();
+  const key = normalizeSymbolKey(name);
+  if (!key) {
+    throw new Error(t("symbolNameMissing"));
+  }
+
+  try {
+    const symbols = await getUserSymbols();
+    const id = resolveSymbol(name) ?? key;
+    const newAliases = aliases.map(normalizeSymbolKey).filter((alias) => alias && alias !== id);
+
+    const existing = symbols.find((entry) => entry.id === id);
+    const builtIn = BUILT_IN_SYMBOLS.find((entry) => entry.id === id);
+    const entry: SymbolEntry = {
+      id,
+      label: existing?.label ?? builtIn?.label ?? name,
+      aliases: [...new Set([...(existing?.aliases ?? []), ...newAliases])],
+      custom: true,
+    };
+
+    await saveUserSymbols([...symbols.filter((e) => e.id !== id), entry]);
+    return entry;
+  } catch (error) {
+    console.error("Error saving symbol:", error);
+    throw new Error(t("symbolSaveFailed"));
+  }
+}
+
+/**
+ * Remove a user symbol, or the user's synonyms for a built-in symbol
+ */
+export async function removeUserSymbol(id: string): Promise<void> {
+  try {
+    const symbols = await getUserSymbols();
+    await saveUserSymbols(symbols.filter((entry) => entry.id !== id));
+  } catch (error) {
+    console.error("Error removing symbol:", error);
+    throw new Error(t("symbolDeleteFailed"));
+  }
+}
@@ -9,6 +9,9 @@ import { Audio } from "expo-av";
 import * as FileSystem from "expo-file-system";
 import { Platform } from "react-native";
 import { CONFIG } from "@/lib/config";
+import { getPreferences, type Language } from "@/lib/preferences";
+import { t } from "@/lib/i18n";
+import { getAppUserHeaders } from "@/lib/revenuecat";
 
 // Recording state
 export type RecordingState = "idle" | "recording" | "processing" | "error";
@@ -84,7 +87,7 @@ class VoiceRecorder {
       if (!this.permissionGranted) {
         const granted = await this.requestPermission();
         if (!granted) {
-          throw new Error("Mikrofonin käyttölupa vaaditaan");
+          throw new Error(t("voicePermissionRequired"));
         }
       }
 
@@ -107,7 +110,7 @@ class VoiceRecorder {
       this.recording = recording;
     } catch (error) {
       console.error("Error starting recording:", error);
-      throw new Error("Nauhoituksen aloittaminen epäonnistui");
+      throw new Error(t("voiceStartFailed"));
     }
   }
 
@@ -116,7 +119,7 @@ class VoiceRecorder {
    */
   async stopRecording(): Promise<{ uri: string; duration: number }> {
     if (!this.recording) {
-      throw new Error("Ei aktiivista nauhoitusta");
+      throw new Error(t("voiceNoRecording"));
     }
 
     try {
@@ -132,7 +135,7 @@ class VoiceRecorder {
       const status = await this.recording.getStatusAsync();
       
       if (!uri) {
-        throw new Error("Nauhoituksen tallentaminen epäonnistui");
+        throw new Error(t("voiceSaveFailed"));
       }
 
       const duration = status.durationMillis || 0;
@@ -142,7 +145,7 @@ class VoiceRecorder {
     } catch (error) {
       console.error("Error stopping recording:", error);
       this.recording = null;
-      throw new Error("Nauhoituksen lopettaminen epäonnistui");
+      throw new Error(t("voiceStopFailed"));
     }
   }
 
@@ -187,13 +190,15 @@ export const voiceRecorder = new VoiceRecorder();
 /**
  * Transcribe audio file using Whisper API
  * Note: In production, this should go through your backend to protect API keys
+ *
+ * The language defaults to the one chosen in settings.
  */
-export async function transcribeAudio(audioUri: string): Promise<string> {
+export async function transcribeAudio(audioUri: string, language?: Language): Promise<string> {
   try {
     // Read the audio file
     const fileInfo = await FileSystem.getInfoAsync(audioUri);
     if (!fileInfo.exists) {
-      throw new Error("Äänitiedostoa ei löytynyt");
+      throw new Error(t("voiceFileNotFound"));
     }
 
     // For now, we'll use a mock transcription
@@ -216,18 +221,22 @@ export async function transcribeAudio(audioUri: string): Promise<string> {
         type: "audio/m4a",
       } as any);
     }
+    const requestLanguage = language ?? (await getPreferences()).language;
+    formData.append("language", requestLanguage);
 
-    const response = await fetch(`${CONFIG.API_BASE_URL}/api/transcribe`, {
+    // Also in the query so errors before the upload is read are localized
+    const response = await fetch(`${CONFIG.API_BASE_URL}/api/transcribe?language=${requestLanguage}`, {
       method: "POST",
       body: formData,
       headers: {
         // "Content-Type": "multipart/form-data", // Do NOT set this manually when using FormData in fetch, browser/engine sets boundary
+        ...(await getAppUserHeaders()),
       },
     });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || "Transkriptio epäonnistui");
+      throw new Error(errorData.error || t("voiceTranscriptionFailed"));
     }
 
     const data = await response.json();
@@ -237,10 +246,10 @@ export async function transcribeAudio(audioUri: string): Promise<string> {
     console.error("Transcription error:", error);
     
     if (error instanceof Error && error.message.includes("OPENAI_API_KEY")) {
-       throw new Error("OpenAI-avain puuttuu");
+       throw new Error(t("voiceApiKeyMissing"));
     }
     
-    throw new Error("Puheentunnistus epäonnistui");
+    throw new Error(t("homeTranscriptionFailed"));
   }
 }
 